@@ -0,0 +1,948 @@
+import { assertPublicUrl } from "./ssrf.js";
+
+// ============================================
+// AI PROVIDER ROUTER
+// ============================================
+// One place for every LLM call made by the api/ endpoints. A request is
+// tried against an ordered chain of providers; each attempt is bounded by
+// the provider's timeout, keys that keep failing are taken out of rotation
+// for a while (circuit breaker), and when the whole chain fails the caller
+// gets an `AiRouterError` listing every attempt.
+//
+// `streamAiRequest` is the token-by-token variant used by the chat endpoint.
+// Besides the hosted providers, any OpenAI-compatible server (Ollama,
+// llama.cpp, vLLM, ...) can be added per deployment (OPENAI_COMPAT_* env)
+// or per user (key vault), so sensitive material can stay on your network.
+// Providers are plain objects, so tests can pass `createFakeProvider(...)`
+// instead of the real HTTP-backed ones.
+
+// ============================================
+// TYPES
+// ============================================
+export interface AiImage {
+  mimeType: string;
+  /** Base64 payload without the `data:` prefix. */
+  data: string;
+}
+
+/** Audio or video for transcription: inline base64, or a URL the provider fetches. */
+export interface AiMedia {
+  mimeType: string;
+  /** Base64 payload without the `data:` prefix; omitted for `fileUri`. */
+  data?: string;
+  /** Remote media (YouTube) the provider reads itself. */
+  fileUri?: string;
+  /** Original file name; Whisper guesses the format from its extension. */
+  fileName?: string;
+}
+
+export interface AiRequest {
+  /** System instruction; sent as a system message where supported. */
+  system?: string;
+  prompt: string;
+  image?: AiImage;
+  media?: AiMedia;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface AiProvider {
+  name: string;
+  model?: string;
+  timeoutMs: number;
+  supportsImages: boolean;
+  /** Keys to rotate between; empty when the provider is not configured. */
+  keys: string[];
+  /** Runs on the user's own key or server (BYOK); answers from it cost no credits. */
+  userKey?: boolean;
+  /**
+   * Circuit breaker scope, when `name` alone doesn't tell servers apart
+   * (users' own OpenAI-compatible servers). Defaults to `name`.
+   */
+  circuitScope?: string;
+  /** Whether the provider can take `request.media`; providers without it can't. */
+  acceptsMedia?(media: AiMedia): boolean;
+  call(request: AiRequest, key: string, signal: AbortSignal): Promise<string>;
+  /** Yields text deltas; providers without it are streamed as one chunk. */
+  stream?(request: AiRequest, key: string, signal: AbortSignal): AsyncIterable<string>;
+}
+
+export type AiSkipReason = "not_configured" | "circuit_open" | "no_image_support" | "no_media_support";
+
+export interface AiAttempt {
+  provider: string;
+  model?: string;
+  /** Last characters of the key used, never the key itself. */
+  keyHint?: string;
+  ok: boolean;
+  skipped?: AiSkipReason;
+  status?: number;
+  timedOut?: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AiResult {
+  text: string;
+  provider: string;
+  model?: string;
+  /** The answer came from one of the user's own keys, so no credit is due. */
+  userKey: boolean;
+  attempts: AiAttempt[];
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+/** Thrown by providers for a failed upstream call. */
+export class AiProviderError extends Error {
+  status?: number;
+  timedOut: boolean;
+
+  constructor(message: string, options: { status?: number; timedOut?: boolean } = {}) {
+    super(message);
+    this.name = "AiProviderError";
+    this.status = options.status;
+    this.timedOut = options.timedOut ?? false;
+  }
+}
+
+/** Thrown by `routeAiRequest` when no provider in the chain succeeded. */
+export class AiRouterError extends Error {
+  attempts: AiAttempt[];
+
+  constructor(attempts: AiAttempt[]) {
+    const summary = attempts.length
+      ? attempts
+          .map((a) => `${a.provider}: [${a.skipped ? `skipped (${a.skipped})` : a.error}]`)
+          .join(" | ")
+      : "no providers in chain";
+    super(`All AI providers failed. ${summary}`);
+    this.name = "AiRouterError";
+    this.attempts = attempts;
+  }
+}
+
+/** Status + JSON body an endpoint should send for a routing failure. */
+export function aiErrorResponse(error: AiRouterError) {
+  return {
+    status: 503,
+    body: {
+      error: "AI providers are temporarily unavailable. Please try again.",
+      code: "AI_UNAVAILABLE",
+      attempts: error.attempts.map(({ provider, skipped, status, timedOut }) => ({
+        provider,
+        skipped,
+        status,
+        timedOut,
+      })),
+    },
+  };
+}
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+// Tracked per provider (its `circuitScope`) + key. After CIRCUIT_FAILURE_THRESHOLD consecutive
+// failures the key is skipped for CIRCUIT_COOLDOWN_MS; the first call after
+// the cooldown is a trial, and one success closes the circuit again.
+// State lives for the lifetime of the (warm) function instance.
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 60_000;
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+const circuitId = (provider: AiProvider, key: string) => `${provider.circuitScope ?? provider.name}:${key}`;
+
+function isCircuitOpen(provider: AiProvider, key: string): boolean {
+  const state = circuits.get(circuitId(provider, key));
+  return !!state && state.openUntil > Date.now();
+}
+
+function recordSuccess(provider: AiProvider, key: string) {
+  circuits.delete(circuitId(provider, key));
+}
+
+function recordFailure(provider: AiProvider, key: string) {
+  const id = circuitId(provider, key);
+  const state = circuits.get(id) ?? { failures: 0, openUntil: 0 };
+  state.failures += 1;
+  if (state.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    state.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.warn(`⛔ ${provider.name} key …${key.slice(-4)} tripped the circuit breaker`);
+  }
+  circuits.set(id, state);
+}
+
+/** Clears all breaker state (tests, or after rotating keys). */
+export function resetCircuitBreakers() {
+  circuits.clear();
+}
+
+// ============================================
+// ROUTER
+// ============================================
+
+/**
+ * Random healthy key, so load spreads across GEMINI_API_KEYS. Returns
+ * undefined (and records why) when the provider has to be skipped.
+ */
+function selectKey(provider: AiProvider, request: AiRequest, attempts: AiAttempt[]): string | undefined {
+  const skip = (skipped: AiSkipReason) => {
+    attempts.push({ provider: provider.name, model: provider.model, ok: false, skipped, durationMs: 0 });
+    return undefined;
+  };
+
+  if (request.image && !provider.supportsImages) return skip("no_image_support");
+  if (request.media && !provider.acceptsMedia?.(request.media)) return skip("no_media_support");
+  if (provider.keys.length === 0) return skip("not_configured");
+  const healthy = provider.keys.filter((key) => !isCircuitOpen(provider, key));
+  if (healthy.length === 0) return skip("circuit_open");
+  return healthy[Math.floor(Math.random() * healthy.length)];
+}
+
+function failedAttempt(provider: AiProvider, key: string, error: unknown, start: number): AiAttempt {
+  return {
+    provider: provider.name,
+    model: provider.model,
+    keyHint: key.slice(-4),
+    ok: false,
+    status: error instanceof AiProviderError ? error.status : undefined,
+    timedOut: error instanceof AiProviderError && error.timedOut,
+    error: (error as Error).message,
+    durationMs: Date.now() - start,
+  };
+}
+
+async function callWithTimeout(
+  provider: AiProvider,
+  request: AiRequest,
+  key: string,
+): Promise<string> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiProviderError(`Timed out after ${provider.timeoutMs}ms`, { timedOut: true }));
+    }, provider.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.call(request, key, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends `request` to each provider in `chain` until one returns non-empty
+ * text. Providers without keys, with every key's circuit open, or that
+ * can't handle an attached image or media file are skipped.
+ */
+export async function routeAiRequest(request: AiRequest, chain: AiProvider[]): Promise<AiResult> {
+  const attempts: AiAttempt[] = [];
+
+  for (const provider of chain) {
+    const base = { provider: provider.name, model: provider.model };
+    const key = selectKey(provider, request, attempts);
+    if (!key) continue;
+
+    const start = Date.now();
+    try {
+      const text = (await callWithTimeout(provider, request, key)).trim();
+      if (!text) throw new AiProviderError("Empty response from provider");
+
+      recordSuccess(provider, key);
+      attempts.push({ ...base, keyHint: key.slice(-4), ok: true, durationMs: Date.now() - start });
+      return { text, provider: provider.name, model: provider.model, userKey: !!provider.userKey, attempts };
+    } catch (error) {
+      recordFailure(provider, key);
+      const attempt = failedAttempt(provider, key, error, start);
+      attempts.push(attempt);
+      console.warn(`🔄 ${provider.name} failed after ${attempt.durationMs}ms: ${attempt.error}`);
+    }
+  }
+
+  throw new AiRouterError(attempts);
+}
+
+// ============================================
+// STREAMING
+// ============================================
+
+const abortError = () => Object.assign(new Error("Request aborted"), { name: "AbortError" });
+
+async function* singleChunk(text: Promise<string>): AsyncIterable<string> {
+  yield await text;
+}
+
+/**
+ * Streaming variant of `routeAiRequest`: text deltas go to `onDelta` as they
+ * arrive. The provider timeout is an idle timeout (reset on every delta).
+ * Fallback only happens before the first delta; once text has reached the
+ * caller a failure ends the stream with an `AiRouterError`. Aborting
+ * `signal` (client went away) cancels the upstream call and rejects with an
+ * AbortError without counting against the provider's circuit.
+ */
+export async function streamAiRequest(
+  request: AiRequest,
+  chain: AiProvider[],
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal,
+): Promise<AiResult> {
+  const attempts: AiAttempt[] = [];
+
+  for (const provider of chain) {
+    if (signal?.aborted) throw abortError();
+    const key = selectKey(provider, request, attempts);
+    if (!key) continue;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let rejectStalled: (error: Error) => void = () => {};
+    const stalled = new Promise<never>((_, reject) => (rejectStalled = reject));
+    const armTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+        rejectStalled(new AiProviderError(`Timed out after ${provider.timeoutMs}ms`, { timedOut: true }));
+      }, provider.timeoutMs);
+    };
+    const onCallerAbort = () => {
+      controller.abort();
+      rejectStalled(abortError());
+    };
+    signal?.addEventListener("abort", onCallerAbort);
+
+    const start = Date.now();
+    let text = "";
+    try {
+      armTimer();
+      const deltas = provider.stream
+        ? provider.stream(request, key, controller.signal)
+        : singleChunk(provider.call(request, key, controller.signal));
+      const iterator = deltas[Symbol.asyncIterator]();
+
+      while (true) {
+        const next = await Promise.race([iterator.next(), stalled]);
+        if (next.done) break;
+        armTimer();
+        if (!next.value) continue;
+        text += next.value;
+        onDelta(next.value);
+      }
+      if (!text.trim()) throw new AiProviderError("Empty response from provider");
+
+      recordSuccess(provider, key);
+      attempts.push({
+        provider: provider.name,
+        model: provider.model,
+        keyHint: key.slice(-4),
+        ok: true,
+        durationMs: Date.now() - start,
+      });
+      return {
+        text: text.trim(),
+        provider: provider.name,
+        model: provider.model,
+        userKey: !!provider.userKey,
+        attempts,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+
+      recordFailure(provider, key);
+      const attempt = failedAttempt(
+        provider,
+        key,
+        timedOut && !(error instanceof AiProviderError && error.timedOut)
+          ? new AiProviderError(`Timed out after ${provider.timeoutMs}ms`, { timedOut: true })
+          : error,
+        start,
+      );
+      attempts.push(attempt);
+      console.warn(`🔄 ${provider.name} stream failed after ${attempt.durationMs}ms: ${attempt.error}`);
+      // The caller already has part of this answer; switching providers
+      // would splice two different responses together.
+      if (text) throw new AiRouterError(attempts);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onCallerAbort);
+      stalled.catch(() => {});
+    }
+  }
+
+  throw new AiRouterError(attempts);
+}
+
+// ============================================
+// HTTP PROVIDERS
+// ============================================
+const GEMINI_ENDPOINT = "https://generativelanguage.googleapis.com/v1beta/models";
+const OPENROUTER_ENDPOINT = "https://openrouter.ai/api/v1/chat/completions";
+const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
+const ANTHROPIC_ENDPOINT = "https://api.anthropic.com/v1/messages";
+const OPENAI_ENDPOINT = "https://api.openai.com/v1/chat/completions";
+const GROQ_WHISPER_ENDPOINT = "https://api.groq.com/openai/v1/audio/transcriptions";
+
+export const GEMINI_MODEL = "gemini-2.5-flash";
+export const OPENROUTER_MODEL = "x-ai/grok-2-1212";
+export const GROQ_MODEL = "llama-3.3-70b-versatile";
+export const CLAUDE_MODEL = "claude-sonnet-4-20250514";
+export const OPENAI_MODEL = "gpt-4o-mini";
+export const GROQ_WHISPER_MODEL = "whisper-large-v3";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+/** Self-hosted models on modest hardware answer slower than hosted APIs. */
+const SELF_HOSTED_TIMEOUT_MS = 60_000;
+/** Stands in for the key of an OpenAI-compatible server that needs none. */
+const NO_KEY = "none";
+
+interface ProviderOptions {
+  model?: string;
+  timeoutMs?: number;
+}
+
+/** Options for providers that can run on a user's own key. */
+interface KeyedProviderOptions extends ProviderOptions {
+  /** BYOK key; replaces the server key from the environment. */
+  apiKey?: string;
+}
+
+/** GEMINI_API_KEYS (comma list) or GEMINI_API_KEY. */
+export function getGeminiKeys(): string[] {
+  const multipleKeys = (process.env.GEMINI_API_KEYS || "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  if (multipleKeys.length > 0) return multipleKeys;
+  return process.env.GEMINI_API_KEY ? [process.env.GEMINI_API_KEY] : [];
+}
+
+/**
+ * Redirects are never followed: API endpoints don't redirect, and a user's
+ * server that did could bounce the request past the SSRF check (e.g. to
+ * 169.254.169.254).
+ */
+async function post(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    redirect: "manual",
+    signal,
+  });
+
+  if (response.status >= 300 && response.status < 400) {
+    throw new AiProviderError(`Redirect refused (HTTP ${response.status})`, { status: response.status });
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new AiProviderError(
+      errorData.error?.message || `HTTP ${response.status}`,
+      { status: response.status },
+    );
+  }
+  return response;
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal) {
+  return (await post(url, headers, body, signal)).json();
+}
+
+/** Parsed JSON payload of each `data:` line of a server-sent event stream. */
+async function* readSseEvents(response: Response): AsyncIterable<any> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return;
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Keep-alive comments or partial payloads
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** OpenAI-compatible chat completions body, shared by OpenRouter and Groq. */
+function toChatCompletion(model: string, { system, prompt, image, temperature, maxTokens }: AiRequest) {
+  return {
+    model,
+    messages: [
+      ...(system ? [{ role: "system", content: system }] : []),
+      {
+        role: "user",
+        content: image
+          ? [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+            ]
+          : prompt,
+      },
+    ],
+    temperature: temperature ?? 0.7,
+    max_tokens: maxTokens ?? 4096,
+  };
+}
+
+/** OpenRouter, Groq and OpenAI all speak the chat completions protocol. */
+function chatCompletionsProvider(
+  name: string,
+  endpoint: string,
+  headers: (key: string) => Record<string, string>,
+  config: { model: string; timeoutMs: number; supportsImages: boolean; apiKey?: string },
+): AiProvider {
+  const { model, apiKey } = config;
+  return {
+    name,
+    model,
+    timeoutMs: config.timeoutMs,
+    supportsImages: config.supportsImages,
+    keys: apiKey ? [apiKey] : [],
+    async call(request, key, signal) {
+      const data = await postJson(endpoint, headers(key), toChatCompletion(model, request), signal);
+      return data.choices?.[0]?.message?.content || "";
+    },
+    async *stream(request, key, signal) {
+      const response = await post(
+        endpoint,
+        headers(key),
+        { ...toChatCompletion(model, request), stream: true },
+        signal,
+      );
+      for await (const event of readSseEvents(response)) {
+        if (event.error) throw new AiProviderError(event.error.message || "Stream error");
+        yield event.choices?.[0]?.delta?.content || "";
+      }
+    },
+  };
+}
+
+/** Google Gemini. A BYOK `customKey` replaces the server keys. */
+export function geminiProvider(options: ProviderOptions & { customKey?: string } = {}): AiProvider {
+  const model = options.model || GEMINI_MODEL;
+
+  const toBody = ({ system, prompt, image, media, temperature, maxTokens }: AiRequest) => {
+    const mimeType =
+      image && ["image/webp", "image/png", "image/jpeg"].includes(image.mimeType)
+        ? image.mimeType
+        : "image/jpeg";
+    return {
+      contents: [
+        {
+          parts: [
+            ...(media?.fileUri
+              ? [{ fileData: { fileUri: media.fileUri } }]
+              : media?.data
+                ? [{ inlineData: { mimeType: media.mimeType, data: media.data } }]
+                : []),
+            { text: system ? `${system}\n\n${prompt}` : prompt },
+            ...(image ? [{ inlineData: { mimeType, data: image.data } }] : []),
+          ],
+        },
+      ],
+      generationConfig: {
+        temperature: temperature ?? 0.7,
+        maxOutputTokens: maxTokens ?? 4096,
+      },
+    };
+  };
+
+  const readText = (data: any): string => {
+    if (data.promptFeedback?.blockReason) {
+      throw new AiProviderError(`Gemini blocked: ${data.promptFeedback.blockReason}`);
+    }
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  };
+
+  return {
+    name: "gemini",
+    model,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    supportsImages: true,
+    keys: options.customKey ? [options.customKey] : getGeminiKeys(),
+    acceptsMedia: (media) => !!media.fileUri || /^(audio|video)\//.test(media.mimeType),
+    async call(request, key, signal) {
+      return readText(
+        await postJson(`${GEMINI_ENDPOINT}/${model}:generateContent?key=${key}`, {}, toBody(request), signal),
+      );
+    },
+    async *stream(request, key, signal) {
+      const response = await post(
+        `${GEMINI_ENDPOINT}/${model}:streamGenerateContent?alt=sse&key=${key}`,
+        {},
+        toBody(request),
+        signal,
+      );
+      for await (const event of readSseEvents(response)) yield readText(event);
+    },
+  };
+}
+
+export function openRouterProvider(options: KeyedProviderOptions = {}): AiProvider {
+  return chatCompletionsProvider(
+    "openrouter",
+    OPENROUTER_ENDPOINT,
+    (key) => ({
+      Authorization: `Bearer ${key}`,
+      "HTTP-Referer": "https://researchmate.vercel.app",
+      "X-Title": "ResearchMate",
+    }),
+    {
+      model: options.model || OPENROUTER_MODEL,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      supportsImages: true,
+      apiKey: options.apiKey ?? process.env.OPENROUTER_API_KEY,
+    },
+  );
+}
+
+export function groqProvider(options: KeyedProviderOptions = {}): AiProvider {
+  return chatCompletionsProvider(
+    "groq",
+    GROQ_ENDPOINT,
+    (key) => ({ Authorization: `Bearer ${key}` }),
+    {
+      model: options.model || GROQ_MODEL,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      supportsImages: false,
+      apiKey: options.apiKey ?? process.env.GROQ_API_KEY,
+    },
+  );
+}
+
+/**
+ * Groq Whisper speech-to-text for inline audio. It ignores the prompt and
+ * answers with Whisper's own JSON (`{ text, segments }`, segment times in
+ * seconds), so callers parse the text rather than read it.
+ */
+export function groqWhisperProvider(options: ProviderOptions = {}): AiProvider {
+  const model = options.model || GROQ_WHISPER_MODEL;
+  const apiKey = process.env.GROQ_API_KEY;
+
+  return {
+    name: "groq-whisper",
+    model,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    supportsImages: false,
+    keys: apiKey ? [apiKey] : [],
+    acceptsMedia: (media) => !!media.data && media.mimeType.startsWith("audio/"),
+    async call({ media }, key, signal) {
+      if (!media?.data) throw new AiProviderError("Whisper needs inline audio");
+      const form = new FormData();
+      form.append("file", new Blob([Buffer.from(media.data, "base64")], { type: media.mimeType }), media.fileName || "audio");
+      form.append("model", model);
+      form.append("response_format", "verbose_json");
+      form.append("temperature", "0");
+
+      const response = await fetch(GROQ_WHISPER_ENDPOINT, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${key}` },
+        body: form,
+        redirect: "manual",
+        signal,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new AiProviderError(errorData.error?.message || `HTTP ${response.status}`, {
+          status: response.status,
+        });
+      }
+      const data = await response.json();
+      return JSON.stringify({ text: data.text ?? "", segments: data.segments ?? [] });
+    },
+  };
+}
+
+/** OpenAI. Only used with a user's own key; there is no server key. */
+export function openAiProvider(options: KeyedProviderOptions = {}): AiProvider {
+  return chatCompletionsProvider(
+    "openai",
+    OPENAI_ENDPOINT,
+    (key) => ({ Authorization: `Bearer ${key}` }),
+    {
+      model: options.model || OPENAI_MODEL,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      supportsImages: true,
+      apiKey: options.apiKey,
+    },
+  );
+}
+
+export interface OpenAiCompatibleOptions extends ProviderOptions {
+  /** Base URL of the API, including the version path, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Optional; local servers usually accept any or no key. */
+  apiKey?: string;
+  name?: string;
+  supportsImages?: boolean;
+  /** Runs before every request and throws to refuse the URL (SSRF guard for user URLs). */
+  checkUrl?: (url: string) => Promise<unknown>;
+}
+
+/** Any server speaking the OpenAI chat completions protocol. */
+export function openAiCompatibleProvider(options: OpenAiCompatibleOptions): AiProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const name = options.name ?? "openai-compatible";
+  const provider: AiProvider = {
+    ...chatCompletionsProvider(
+      name,
+      endpoint,
+      (key): Record<string, string> => (key === NO_KEY ? {} : { Authorization: `Bearer ${key}` }),
+      {
+        model: options.model,
+        timeoutMs: options.timeoutMs ?? SELF_HOSTED_TIMEOUT_MS,
+        supportsImages: options.supportsImages ?? false,
+        apiKey: options.apiKey || NO_KEY,
+      },
+    ),
+    // Keyless servers all share the NO_KEY placeholder, so one user's dead
+    // server must not open the circuit for everyone else's
+    circuitScope: `${name}:${endpoint}`,
+  };
+
+  const { checkUrl } = options;
+  if (!checkUrl) return provider;
+  return {
+    ...provider,
+    async call(request, key, signal) {
+      await checkUrl(endpoint);
+      return provider.call(request, key, signal);
+    },
+    async *stream(request, key, signal) {
+      await checkUrl(endpoint);
+      yield* provider.stream!(request, key, signal);
+    },
+  };
+}
+
+/**
+ * The deployment's own OpenAI-compatible server, from OPENAI_COMPAT_BASE_URL
+ * and OPENAI_COMPAT_MODEL (+ optional OPENAI_COMPAT_API_KEY and
+ * OPENAI_COMPAT_TIMEOUT_MS), or null when not configured.
+ */
+export function selfHostedProvider(): AiProvider | null {
+  const baseUrl = process.env.OPENAI_COMPAT_BASE_URL;
+  const model = process.env.OPENAI_COMPAT_MODEL;
+  if (!baseUrl || !model) return null;
+  return openAiCompatibleProvider({
+    name: "self-hosted",
+    baseUrl,
+    model,
+    apiKey: process.env.OPENAI_COMPAT_API_KEY,
+    timeoutMs: Number(process.env.OPENAI_COMPAT_TIMEOUT_MS) || SELF_HOSTED_TIMEOUT_MS,
+  });
+}
+
+/**
+ * OPENAI_COMPAT_EXCLUSIVE=true with a self-hosted server configured: nothing
+ * may go to hosted providers on the server's keys (text, media or embeddings).
+ */
+export function isSelfHostedExclusive(): boolean {
+  return process.env.OPENAI_COMPAT_EXCLUSIVE === "true" && !!selfHostedProvider();
+}
+
+/**
+ * `chain` with the self-hosted server tried first. In exclusive mode it
+ * replaces the hosted providers entirely, so no text leaves the
+ * deployment's network on the server's keys.
+ */
+export function withSelfHosted(chain: AiProvider[]): AiProvider[] {
+  const selfHosted = selfHostedProvider();
+  if (!selfHosted) return chain;
+  return isSelfHostedExclusive() ? [selfHosted] : [selfHosted, ...chain];
+}
+
+/** Anthropic Claude, keyed by OCR_API_KEY. */
+export function claudeProvider(options: ProviderOptions = {}): AiProvider {
+  const model = options.model || CLAUDE_MODEL;
+  const apiKey = process.env.OCR_API_KEY;
+  const headers = (key: string) => ({ "x-api-key": key, "anthropic-version": "2023-06-01" });
+
+  const toBody = ({ system, prompt, image, temperature, maxTokens }: AiRequest) => ({
+    model,
+    max_tokens: maxTokens ?? 4096,
+    temperature: temperature ?? 0.7,
+    ...(system ? { system } : {}),
+    messages: [
+      {
+        role: "user",
+        content: image
+          ? [
+              { type: "image", source: { type: "base64", media_type: image.mimeType, data: image.data } },
+              { type: "text", text: prompt },
+            ]
+          : prompt,
+      },
+    ],
+  });
+
+  return {
+    name: "claude",
+    model,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    supportsImages: true,
+    keys: apiKey ? [apiKey] : [],
+    async call(request, key, signal) {
+      const data = await postJson(ANTHROPIC_ENDPOINT, headers(key), toBody(request), signal);
+      return data.content?.[0]?.text || "";
+    },
+    async *stream(request, key, signal) {
+      const response = await post(
+        ANTHROPIC_ENDPOINT,
+        headers(key),
+        { ...toBody(request), stream: true },
+        signal,
+      );
+      for await (const event of readSseEvents(response)) {
+        if (event.type === "error") throw new AiProviderError(event.error?.message || "Stream error");
+        if (event.type === "content_block_delta") yield event.delta?.text || "";
+      }
+    },
+  };
+}
+
+// ============================================
+// BYOK (user keys)
+// ============================================
+// Users can store their own key for each of these providers (see
+// keyVault.ts). Their keys are tried first, in the user's order, and the
+// server chain follows as the fallback. Answers from a user's key are free;
+// once the chain falls back to the server's keys the usual credit is charged
+// (`AiResult.userKey`), so saving a key that doesn't work buys nothing.
+// "openai-compatible" is the user's own server: base URL and model plus an
+// optional key.
+export const BYOK_PROVIDERS = ["gemini", "openrouter", "groq", "openai", "openai-compatible"] as const;
+
+export type ByokProvider = (typeof BYOK_PROVIDERS)[number];
+
+export interface UserProviderKey {
+  provider: ByokProvider;
+  /** Empty for an OpenAI-compatible server without a key. */
+  key: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export const isByokProvider = (value: unknown): value is ByokProvider =>
+  BYOK_PROVIDERS.includes(value as ByokProvider);
+
+/** One provider per user key, in the order given. */
+export function userKeyProviders(userKeys: UserProviderKey[], options: { timeoutMs?: number } = {}): AiProvider[] {
+  const { timeoutMs } = options;
+  const providers = userKeys.flatMap(({ provider, key, baseUrl, model }): AiProvider[] => {
+    switch (provider) {
+      case "gemini":
+        return [geminiProvider({ timeoutMs, customKey: key })];
+      case "openrouter":
+        return [openRouterProvider({ timeoutMs, apiKey: key })];
+      case "groq":
+        return [groqProvider({ timeoutMs, apiKey: key })];
+      case "openai":
+        return [openAiProvider({ timeoutMs, apiKey: key })];
+      case "openai-compatible":
+        if (!baseUrl || !model) return [];
+        return [
+          openAiCompatibleProvider({
+            baseUrl,
+            model,
+            apiKey: key,
+            // Users' servers must be public unless this deployment is itself
+            // on the private network (OPENAI_COMPAT_ALLOW_PRIVATE=true)
+            checkUrl:
+              process.env.OPENAI_COMPAT_ALLOW_PRIVATE === "true"
+                ? undefined
+                : (url) => assertPublicUrl(url, { label: "AI endpoint" }),
+          }),
+        ];
+    }
+  });
+  return providers.map((provider) => ({ ...provider, userKey: true }));
+}
+
+/** `chain` with the user's own keys tried first. */
+export function withUserKeys(
+  userKeys: UserProviderKey[] | undefined,
+  chain: AiProvider[],
+  options: { timeoutMs?: number } = {},
+): AiProvider[] {
+  return [...userKeyProviders(userKeys ?? [], options), ...chain];
+}
+
+/**
+ * User keys, then the self-hosted server (if any), then Gemini → OpenRouter
+ * → Groq; the chain used by the text endpoints.
+ */
+export function defaultAiChain(userKeys?: UserProviderKey[]): AiProvider[] {
+  return withUserKeys(userKeys, withSelfHosted([geminiProvider(), openRouterProvider(), groqProvider()]));
+}
+
+// ============================================
+// FAKE PROVIDER (tests / local development)
+// ============================================
+export interface FakeProviderOptions {
+  name?: string;
+  keys?: string[];
+  timeoutMs?: number;
+  supportsImages?: boolean;
+  acceptsMedia?: (media: AiMedia) => boolean;
+  /** Returns the reply, or throws to simulate an upstream failure. */
+  respond?: (request: AiRequest, key: string) => string | Promise<string>;
+  /** When streaming, throw after this many word-sized chunks. */
+  failAfterChunks?: number;
+}
+
+/** In-memory provider that records its calls; never touches the network. */
+export function createFakeProvider(options: FakeProviderOptions = {}) {
+  const calls: { request: AiRequest; key: string }[] = [];
+  const provider: AiProvider & { calls: typeof calls } = {
+    name: options.name ?? "fake",
+    model: "fake-model",
+    timeoutMs: options.timeoutMs ?? 1_000,
+    supportsImages: options.supportsImages ?? true,
+    keys: options.keys ?? ["fake-key"],
+    acceptsMedia: options.acceptsMedia,
+    calls,
+    async call(request, key) {
+      calls.push({ request, key });
+      return options.respond ? options.respond(request, key) : `fake reply: ${request.prompt}`;
+    },
+    async *stream(request, key, signal) {
+      const chunks = (await provider.call(request, key, signal)).match(/\S+\s*/g) || [];
+      for (const [i, chunk] of chunks.entries()) {
+        if (i === options.failAfterChunks) throw new AiProviderError("Stream interrupted");
+        yield chunk;
+      }
+    },
+  };
+  return provider;
+}
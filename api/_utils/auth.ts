@@ -1,26 +1,18 @@
 import { createClient } from "@supabase/supabase-js";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-
-// ============================================
-// IN-MEMORY RATE LIMITER
-// ============================================
-// 20 requests per 60 seconds per user.
-// Resets on function cold start (serverless limitation) — good enough as a
-// first-pass guard. Replace with Upstash Redis for persistent limiting.
-const RATE_LIMIT_MAX = 30;
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const rateLimitMap = new Map<string, number[]>();
-
-export function checkRateLimit(userId: string): boolean {
-  const now = Date.now();
-  const timestamps = (rateLimitMap.get(userId) ?? []).filter(
-    (t) => now - t < RATE_LIMIT_WINDOW_MS,
-  );
-  if (timestamps.length >= RATE_LIMIT_MAX) return false;
-  timestamps.push(now);
-  rateLimitMap.set(userId, timestamps);
-  return true;
-}
+import type { UserProviderKey } from "./aiRouter.js";
+import { type CreditContext, recordCreditTransaction } from "./creditLedger.js";
+import { loadUserKeys } from "./keyVault.js";
+import {
+  RATE_LIMITS,
+  RATE_LIMIT_HEADERS,
+  type RateLimitEndpoint,
+  createMemoryStore,
+  createPostgresStore,
+  setRateLimitHeaders,
+} from "./rateLimit.js";
+
+export type { CreditContext } from "./creditLedger.js";
 
 // ============================================
 // SUPABASE ADMIN CLIENT
@@ -35,6 +27,26 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 export const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
 
+// ============================================
+// RATE LIMITER
+// ============================================
+// Token buckets per user and endpoint, stored in Postgres (see rateLimit.ts).
+const rateLimitStore = createPostgresStore(supabase, createMemoryStore());
+
+/**
+ * Takes a token from the user's bucket for `endpoint`. With `res`, the
+ * X-RateLimit-* / Retry-After headers are set on the response.
+ */
+export async function checkRateLimit(
+  userId: string,
+  endpoint: RateLimitEndpoint = "default",
+  res?: VercelResponse,
+): Promise<boolean> {
+  const decision = await rateLimitStore.take(userId, endpoint, RATE_LIMITS[endpoint]);
+  if (res) setRateLimitHeaders(res, decision);
+  return decision.allowed;
+}
+
 // ============================================
 // TYPES
 // ============================================
@@ -47,8 +59,14 @@ export interface AuthResult {
   user: AuthenticatedUser | null;
   error?: string;
   statusCode?: number;
-  isFreeTier: boolean; // True if using credits, False if BYOK
+  isFreeTier: boolean; // True without own keys, False if BYOK
+  /** The user's own provider keys in their preferred order (BYOK). */
+  userKeys?: UserProviderKey[];
+  /** The user's Gemini key, for Gemini-only features (embeddings, transcription). */
   customKey?: string;
+  // Balance at auth time. BYOK users have one too: an answer that falls back
+  // to the server's keys is charged like any other (AiResult.userKey).
+  credits?: number;
 }
 
 // ============================================
@@ -80,14 +98,18 @@ export function setCorsHeaders(
     "Content-Type, Authorization",
   );
   res.setHeader("Access-Control-Allow-Credentials", "true");
+  res.setHeader("Access-Control-Expose-Headers", RATE_LIMIT_HEADERS.join(", "));
   return allowed;
 }
 
 // ============================================
 // AUTHENTICATION HELPER
 // ============================================
+// `rateLimit` names the endpoint whose budget the request spends and the
+// response that receives the rate-limit headers.
 export async function authenticateUser(
   req: VercelRequest,
+  rateLimit?: { res: VercelResponse; endpoint: RateLimitEndpoint },
 ): Promise<AuthResult> {
   try {
     // 1. Extract JWT Token — ALWAYS required, even for BYOK users
@@ -117,24 +139,18 @@ export async function authenticateUser(
       };
     }
 
-    // 3. Check for Custom API Key (BYOK) — only AFTER JWT is verified.
-    //    BYOK skips credit deduction but NOT identity or rate limiting.
-    const customKey = req.cookies?.custom_gemini_key;
-    if (customKey && customKey.startsWith("AIz")) {
-      if (!checkRateLimit(user.id)) {
-        return {
-          error: "Too many requests. Please wait a moment before trying again.",
-          statusCode: 429,
-          user: null,
-          isFreeTier: false,
-        };
-      }
-      console.log(`⚡ BYOK user ${user.id} using custom Gemini key`);
-      return {
-        user: { id: user.id, email: user.email },
-        isFreeTier: false,
-        customKey,
-      };
+    // 3. Check for the user's own API keys (BYOK) — only AFTER JWT is verified.
+    //    Answers from them skip credit deduction; identity, rate limiting and
+    //    the credit balance (for server-key fallbacks) still apply.
+    const userKeys = await loadUserKeys(supabase, user.id);
+    // Legacy Gemini cookie from before the key vault, honoured until it expires
+    const legacyKey = req.cookies?.custom_gemini_key;
+    if (legacyKey?.startsWith("AIz") && !userKeys.some((k) => k.provider === "gemini")) {
+      userKeys.push({ provider: "gemini", key: legacyKey });
+    }
+    const isFreeTier = userKeys.length === 0;
+    if (!isFreeTier) {
+      console.log(`⚡ BYOK user ${user.id} using own keys: ${userKeys.map((k) => k.provider).join(", ")}`);
     }
 
     // 4. Check Credits in Database
@@ -200,16 +216,21 @@ export async function authenticateUser(
     //   };
     // }
 
-    if (!checkRateLimit(user.id)) {
+    if (!(await checkRateLimit(user.id, rateLimit?.endpoint, rateLimit?.res))) {
       return {
         error: "Too many requests. Please wait a moment before trying again.",
         statusCode: 429,
         user: null,
-        isFreeTier: true,
+        isFreeTier,
       };
     }
 
-    return { user: { id: user.id, email: user.email }, isFreeTier: true };
+    return {
+      user: { id: user.id, email: user.email },
+      isFreeTier,
+      credits,
+      ...(isFreeTier ? {} : { userKeys, customKey: userKeys.find((k) => k.provider === "gemini")?.key }),
+    };
   } catch (error) {
     console.error("Auth Error:", error);
     return {
@@ -224,20 +245,45 @@ export async function authenticateUser(
 // ============================================
 // CREDIT DEDUCTION HELPER (Atomic)
 // ============================================
-// Uses a single UPDATE with ai_credits - 1 and a WHERE guard to prevent
+// Uses a single UPDATE with ai_credits - amount and a WHERE guard to prevent
 // race conditions. Falls back to read-then-write if RPC is not available.
-export async function deductCredit(userId: string): Promise<number | string> {
+// `amount` defaults to 1; multi-credit operations (e.g. transcription) pass more.
+// `context` (endpoint, provider, item) is recorded in the credit ledger.
+//
+// Returns the new balance, or null when the balance doesn't cover `amount`:
+// nothing was charged, so the caller must not hand out the result (answer
+// with NO_CREDITS_BODY) and must not refund.
+export async function deductCredit(
+  userId: string,
+  context: CreditContext,
+  amount: number = 1,
+): Promise<number | null> {
+  const refuse = async () => {
+    console.warn(`User ${userId} tried to deduct ${amount} but has insufficient credits`);
+    await recordCreditTransaction(
+      supabase,
+      userId,
+      { cost: amount, outcome: "insufficient", balanceAfter: null },
+      context,
+    );
+    return null;
+  };
+
   // Atomic: decrement in one statement, return the new value
   const { data, error } = await supabase.rpc("deduct_credit", {
     p_user_id: userId,
+    p_amount: amount,
   });
 
   // If the RPC exists and worked, `data` is the new credit count (or -1 if insufficient).
   if (!error && data !== null && data !== undefined) {
-    if (data < 0) {
-      console.warn(`User ${userId} tried to deduct but has 0 credits`);
-      return 0;
-    }
+    if (data < 0) return refuse();
+    await recordCreditTransaction(
+      supabase,
+      userId,
+      { cost: amount, outcome: "charged", balanceAfter: data as number },
+      context,
+    );
     return data as number;
   }
 
@@ -251,29 +297,53 @@ export async function deductCredit(userId: string): Promise<number | string> {
     .eq("id", userId)
     .single();
 
-  const currentCredits = profile ? profile.ai_credits : 0;
-  const newCredits = Math.max(0, currentCredits - 1);
+  const currentCredits = profile?.ai_credits ?? 0;
+  if (currentCredits < amount) return refuse();
+  const newCredits = currentCredits - amount;
 
   await supabase
     .from("profiles")
     .update({ ai_credits: newCredits })
     .eq("id", userId);
 
+  await recordCreditTransaction(
+    supabase,
+    userId,
+    { cost: amount, outcome: "charged", balanceAfter: newCredits },
+    context,
+  );
   return newCredits;
 }
 
+/** 403 body for a charge `deductCredit` refused; the client maps NO_CREDITS to "out of credits". */
+export const NO_CREDITS_BODY = { error: "Out of AI credits", code: "NO_CREDITS" } as const;
+
 // ============================================
 // CREDIT REFUND HELPER (Atomic)
 // ============================================
 // Call this in the catch block of any AI endpoint to restore
-// a credit when the provider call fails after deduction.
-export async function refundCredit(userId: string): Promise<void> {
+// the credits charged when the provider call fails after deduction.
+// Pass the same `context` as the deduction so the ledger pairs them.
+export async function refundCredit(
+  userId: string,
+  context: CreditContext,
+  amount: number = 1,
+): Promise<void> {
   // Atomic: increment in one statement
-  const { error } = await supabase.rpc("refund_credit", {
+  const { data, error } = await supabase.rpc("refund_credit", {
     p_user_id: userId,
+    p_amount: amount,
   });
 
-  if (!error) return;
+  if (!error) {
+    await recordCreditTransaction(
+      supabase,
+      userId,
+      { cost: amount, outcome: "refunded", balanceAfter: data >= 0 ? data : null },
+      context,
+    );
+    return;
+  }
 
   // Fallback
   console.warn("refund_credit RPC unavailable, using fallback:", error.message);
@@ -287,6 +357,13 @@ export async function refundCredit(userId: string): Promise<void> {
 
   await supabase
     .from("profiles")
-    .update({ ai_credits: profile.ai_credits + 1 })
+    .update({ ai_credits: profile.ai_credits + amount })
     .eq("id", userId);
+
+  await recordCreditTransaction(
+    supabase,
+    userId,
+    { cost: amount, outcome: "refunded", balanceAfter: profile.ai_credits + amount },
+    context,
+  );
 }
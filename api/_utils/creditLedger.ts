@@ -0,0 +1,206 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ============================================
+// CREDIT LEDGER
+// ============================================
+// Every deduction and refund made by deductCredit / refundCredit (auth.ts)
+// appends a row to `credit_transactions`, so users can see where their
+// credits went and refunds can be audited. The balance itself still lives in
+// `profiles.ai_credits`; the ledger is written after the balance changes and
+// a failed insert is logged rather than failing the user's request.
+//
+// /api/credits reads a page of the history back, and the usage summary for
+// the Settings page is grouped in SQL (`credit_usage_summary`) and shaped
+// by `summarizeUsage`.
+//
+// The Supabase client is passed in so the pure helpers can be imported by
+// tests without credentials.
+
+// ============================================
+// TYPES
+// ============================================
+export type CreditOutcome = "charged" | "insufficient" | "refunded";
+
+/** What a credit was spent on; passed by every endpoint that charges. */
+export interface CreditContext {
+  /** API route, e.g. "summarize" or "chat". */
+  endpoint: string;
+  /** AI provider that served the call, when known. */
+  provider?: string | null;
+  itemId?: string | null;
+}
+
+export interface CreditTransaction {
+  id: string;
+  endpoint: string;
+  cost: number;
+  outcome: CreditOutcome;
+  provider: string | null;
+  item_id: string | null;
+  balance_after: number | null;
+  created_at: string;
+}
+
+export interface EndpointUsage {
+  endpoint: string;
+  /** Calls that were charged, including ones refunded later. */
+  calls: number;
+  charged: number;
+  refunded: number;
+  /** Credits actually spent: charged minus refunded. */
+  net: number;
+}
+
+export interface DailyUsage {
+  /** UTC day, YYYY-MM-DD. */
+  date: string;
+  charged: number;
+  refunded: number;
+  net: number;
+}
+
+export interface UsageSummary {
+  totals: { calls: number; charged: number; refunded: number; net: number };
+  byEndpoint: EndpointUsage[];
+  /** One entry per day of the window, oldest first; days without usage are zero. */
+  daily: DailyUsage[];
+}
+
+// ============================================
+// WRITING
+// ============================================
+export async function recordCreditTransaction(
+  supabase: SupabaseClient,
+  userId: string,
+  entry: { cost: number; outcome: CreditOutcome; balanceAfter: number | null },
+  context: CreditContext,
+): Promise<void> {
+  const { error } = await supabase.from("credit_transactions").insert({
+    user_id: userId,
+    endpoint: context.endpoint,
+    cost: entry.cost,
+    outcome: entry.outcome,
+    provider: context.provider ?? null,
+    item_id: context.itemId ?? null,
+    balance_after: entry.balanceAfter,
+  });
+  if (error) console.error("Failed to record credit transaction:", error.message);
+}
+
+// ============================================
+// READING
+// ============================================
+export const TRANSACTION_COLUMNS =
+  "id, endpoint, cost, outcome, provider, item_id, balance_after, created_at";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Start of the usage window: midnight UTC, `days - 1` days before `now`. */
+export function windowStart(days: number, now = new Date()): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return new Date(today - (days - 1) * DAY_MS);
+}
+
+/**
+ * One row of the `credit_usage_summary` RPC: the window's charged or
+ * refunded transactions grouped either per endpoint (`day` null) or per UTC
+ * day (`endpoint` null).
+ */
+export interface UsageRow {
+  endpoint: string | null;
+  day: string | null;
+  outcome: Exclude<CreditOutcome, "insufficient">;
+  transactions: number;
+  credits: number;
+}
+
+/**
+ * Per-endpoint and per-day totals from the grouped rows of
+ * `credit_usage_summary`. Totals are taken from the per-endpoint rows.
+ */
+export function summarizeUsage(rows: UsageRow[], days: number, now = new Date()): UsageSummary {
+  const start = windowStart(days, now);
+  const daily = new Map<string, DailyUsage>();
+  for (let i = 0; i < days; i++) {
+    const date = utcDay(new Date(start.getTime() + i * DAY_MS));
+    daily.set(date, { date, charged: 0, refunded: 0, net: 0 });
+  }
+
+  const byEndpoint = new Map<string, EndpointUsage>();
+  const totals = { calls: 0, charged: 0, refunded: 0, net: 0 };
+
+  for (const row of rows) {
+    const charged = row.outcome === "charged";
+    const credits = Number(row.credits);
+    const signed = charged ? credits : -credits;
+
+    if (row.day !== null) {
+      const day = daily.get(row.day);
+      if (!day) continue;
+      if (charged) day.charged += credits;
+      else day.refunded += credits;
+      day.net += signed;
+      continue;
+    }
+    if (row.endpoint === null) continue;
+
+    const usage = byEndpoint.get(row.endpoint) ?? {
+      endpoint: row.endpoint,
+      calls: 0,
+      charged: 0,
+      refunded: 0,
+      net: 0,
+    };
+    if (charged) {
+      usage.calls += Number(row.transactions);
+      usage.charged += credits;
+      totals.calls += Number(row.transactions);
+      totals.charged += credits;
+    } else {
+      usage.refunded += credits;
+      totals.refunded += credits;
+    }
+    usage.net += signed;
+    totals.net += signed;
+    byEndpoint.set(row.endpoint, usage);
+  }
+
+  return {
+    totals,
+    byEndpoint: Array.from(byEndpoint.values()).sort((a, b) => b.net - a.net || b.calls - a.calls),
+    daily: Array.from(daily.values()),
+  };
+}
+
+/**
+ * Per-endpoint and per-day totals for individual transactions: groups them
+ * the way `credit_usage_summary` does, then summarizes the groups.
+ * "insufficient" rows count neither as calls nor as credits.
+ */
+export function summarizeTransactions(
+  transactions: Pick<CreditTransaction, "endpoint" | "cost" | "outcome" | "created_at">[],
+  days: number,
+  now = new Date(),
+): UsageSummary {
+  const start = windowStart(days, now).getTime();
+  const groups = new Map<string, UsageRow>();
+  const add = (endpoint: string | null, day: string | null, outcome: UsageRow["outcome"], cost: number) => {
+    const key = `${endpoint}|${day}|${outcome}`;
+    const row = groups.get(key) ?? { endpoint, day, outcome, transactions: 0, credits: 0 };
+    row.transactions++;
+    row.credits += cost;
+    groups.set(key, row);
+  };
+
+  for (const tx of transactions) {
+    if (tx.outcome === "insufficient") continue;
+    const at = new Date(tx.created_at);
+    if (at.getTime() < start) continue;
+    add(tx.endpoint, null, tx.outcome, tx.cost);
+    add(null, utcDay(at), tx.outcome, tx.cost);
+  }
+
+  return summarizeUsage(Array.from(groups.values()), days, now);
+}
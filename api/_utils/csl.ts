@@ -0,0 +1,244 @@
+// ============================================
+// CSL-JSON HELPERS
+// ============================================
+// Builds the structured citation record returned by /api/extract-citation
+// and /api/cite. Keep the types in sync with `CslItem` in src/types.ts.
+
+// ============================================
+// TYPES
+// ============================================
+export type CslItemType =
+  | "article-journal"
+  | "article-magazine"
+  | "article-newspaper"
+  | "paper-conference"
+  | "book"
+  | "chapter"
+  | "report"
+  | "thesis"
+  | "dataset"
+  | "motion_picture"
+  | "post"
+  | "webpage";
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+export interface CslDate {
+  "date-parts"?: [number, number?, number?][];
+  literal?: string;
+}
+
+export interface CslItem {
+  type: CslItemType;
+  title: string;
+  author: CslName[];
+  "container-title"?: string;
+  publisher?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  DOI?: string;
+  ISBN?: string;
+  URL?: string;
+  issued?: CslDate;
+  accessed?: CslDate;
+  abstract?: string;
+}
+
+/** Loose metadata shape produced by the various lookups. */
+export interface CitationMetadataInput {
+  title?: string;
+  author?: string;
+  authors?: (string | CslName | { fullName?: string; firstName?: string; lastName?: string })[];
+  publishDate?: string;
+  publishYear?: string;
+  accessDate?: string;
+  siteName?: string;
+  journal?: string;
+  publisher?: string;
+  volume?: string | number;
+  issue?: string | number;
+  pages?: string;
+  doi?: string | null;
+  isbn?: string;
+  url?: string;
+  description?: string;
+  type?: string;
+}
+
+// ============================================
+// NAME PARSING
+// ============================================
+const PLACEHOLDER_AUTHORS = new Set(["unknown author", "unknown", "anonymous", "n/a"]);
+const NAME_PARTICLES = new Set(["van", "von", "der", "den", "de", "del", "da", "di", "la", "le"]);
+
+/** Splits "Given Middle Family" or "Family, Given" into a CSL name. */
+export function parseName(raw: string): CslName | null {
+  const name = raw.replace(/\s+/g, " ").trim();
+  if (!name || PLACEHOLDER_AUTHORS.has(name.toLowerCase())) return null;
+
+  if (name.includes(",")) {
+    const [family, given] = name.split(",").map((p) => p.trim());
+    return given ? { family, given } : { family };
+  }
+
+  const parts = name.split(" ");
+  if (parts.length === 1) return { literal: name };
+
+  // Pull lowercase particles ("van", "de") into the family name
+  let familyStart = parts.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.has(parts[familyStart - 1].toLowerCase())) {
+    familyStart--;
+  }
+  return {
+    given: parts.slice(0, familyStart).join(" "),
+    family: parts.slice(familyStart).join(" "),
+  };
+}
+
+/**
+ * Parses an author list string. ";" always separates authors; otherwise
+ * "A Smith, B Jones and C Lee" style lists are split on commas and "and".
+ * A list of single-word comma pairs ("Smith, A., Jones, B.") is read as
+ * "Family, Given" pairs.
+ */
+export function parseAuthorList(raw: string): CslName[] {
+  if (!raw) return [];
+  const cleaned = raw.replace(/\bet al\.?/i, "").trim();
+
+  let chunks: string[];
+  if (cleaned.includes(";")) {
+    chunks = cleaned.split(";");
+  } else {
+    const parts = cleaned.split(/,|\s+(?:and|&)\s+/).map((p) => p.trim()).filter(Boolean);
+    const looksLikePairs =
+      parts.length >= 2 &&
+      parts.length % 2 === 0 &&
+      parts.every((p, i) => (i % 2 === 0 ? !p.includes(" ") : /^[A-Z][A-Za-z.\s-]*$/.test(p)));
+    chunks = parts;
+    if (looksLikePairs) {
+      chunks = [];
+      for (let i = 0; i < parts.length; i += 2) chunks.push(`${parts[i]}, ${parts[i + 1]}`);
+    }
+  }
+
+  return chunks
+    .map((c) => parseName(c))
+    .filter((n): n is CslName => n !== null);
+}
+
+function normalizeAuthors(input: CitationMetadataInput): CslName[] {
+  if (Array.isArray(input.authors) && input.authors.length > 0) {
+    const names = input.authors
+      .map((a) => {
+        if (typeof a === "string") return parseName(a);
+        if ("family" in a || "literal" in a) return a as CslName;
+        const person = a as { fullName?: string; firstName?: string; lastName?: string };
+        if (person.lastName) return { family: person.lastName, given: person.firstName || undefined };
+        return person.fullName ? parseName(person.fullName) : null;
+      })
+      .filter((n): n is CslName => n !== null);
+    if (names.length > 0) return names;
+  }
+  return input.author ? parseAuthorList(input.author) : [];
+}
+
+// ============================================
+// DATES
+// ============================================
+export function toCslDate(value?: string | number | null): CslDate | undefined {
+  if (value === undefined || value === null || value === "" || value === "n.d.") return undefined;
+  const str = String(value);
+
+  const iso = str.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/);
+  if (iso) {
+    const parts: [number, number?, number?] = [Number(iso[1])];
+    if (iso[2]) parts.push(Number(iso[2]));
+    if (iso[2] && iso[3]) parts.push(Number(iso[3]));
+    return { "date-parts": [parts] };
+  }
+
+  const parsed = new Date(str);
+  if (!isNaN(parsed.getTime())) {
+    return {
+      "date-parts": [[parsed.getUTCFullYear(), parsed.getUTCMonth() + 1, parsed.getUTCDate()]],
+    };
+  }
+
+  const year = str.match(/\b(1[5-9]|20)\d{2}\b/);
+  return year ? { "date-parts": [[Number(year[0])]] } : { literal: str };
+}
+
+// ============================================
+// ITEM TYPE
+// ============================================
+const CSL_TYPES = new Set<CslItemType>([
+  "article-journal", "article-magazine", "article-newspaper", "paper-conference",
+  "book", "chapter", "report", "thesis", "dataset", "motion_picture", "post", "webpage",
+]);
+
+// CrossRef / OpenAlex work types → CSL
+const TYPE_ALIASES: Record<string, CslItemType> = {
+  "journal-article": "article-journal",
+  article: "article-journal",
+  "proceedings-article": "paper-conference",
+  "book-chapter": "chapter",
+  "book-section": "chapter",
+  monograph: "book",
+  "edited-book": "book",
+  dissertation: "thesis",
+  "posted-content": "post",
+  preprint: "article-journal",
+  video: "motion_picture",
+};
+
+export function toCslType(raw?: string, fallback: CslItemType = "webpage"): CslItemType {
+  if (!raw) return fallback;
+  const key = raw.toLowerCase();
+  if (CSL_TYPES.has(key as CslItemType)) return key as CslItemType;
+  return TYPE_ALIASES[key] || fallback;
+}
+
+// ============================================
+// BUILDER
+// ============================================
+/** Turns lookup metadata into a CSL item, dropping empty fields. */
+export function buildCslItem(
+  input: CitationMetadataInput,
+  fallbackType: CslItemType = "webpage",
+): CslItem {
+  const doi = input.doi ? String(input.doi).replace(/^https?:\/\/(dx\.)?doi\.org\//i, "") : undefined;
+  const type = toCslType(input.type, doi && input.journal ? "article-journal" : fallbackType);
+  const isWebLike = type === "webpage" || type === "post";
+
+  const item: CslItem = {
+    type,
+    title: (input.title || "").trim(),
+    author: normalizeAuthors(input),
+    "container-title": input.journal || (isWebLike ? input.siteName : undefined) || undefined,
+    publisher: input.publisher || undefined,
+    volume: input.volume ? String(input.volume) : undefined,
+    issue: input.issue ? String(input.issue) : undefined,
+    page: input.pages ? String(input.pages).replace(/\s*[-–]\s*/, "-") : undefined,
+    DOI: doi || undefined,
+    ISBN: input.isbn || undefined,
+    URL: input.url || (doi ? `https://doi.org/${doi}` : undefined),
+    issued: toCslDate(input.publishDate || input.publishYear),
+    accessed: toCslDate(input.accessDate || new Date().toISOString()),
+    abstract: input.description || undefined,
+  };
+
+  // Academic sources report the venue as siteName
+  if (!item["container-title"] && !isWebLike && input.siteName && type !== "book") {
+    item["container-title"] = input.siteName;
+  }
+
+  for (const key of Object.keys(item) as (keyof CslItem)[]) {
+    if (item[key] === undefined) delete item[key];
+  }
+  return item;
+}
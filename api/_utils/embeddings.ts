@@ -0,0 +1,191 @@
+import { AiProviderError, getGeminiKeys, isSelfHostedExclusive } from "./aiRouter.js";
+
+// ============================================
+// TEXT EMBEDDINGS
+// ============================================
+// Vectors for retrieval over the user's library (see rag.ts). Every
+// embedder produces EMBEDDING_DIMENSIONS-long, L2-normalised vectors so
+// they fit the `item_chunks.embedding vector(768)` column, and reports a
+// `model` name that is stored next to each vector.
+//
+// `createLocalEmbedder()` is a deterministic, dependency-free stand-in
+// (feature hashing of word unigrams/bigrams). It is used by tests, in
+// development when EMBEDDING_PROVIDER=local or no Gemini key is configured,
+// and in self-hosted exclusive mode (OPENAI_COMPAT_EXCLUSIVE), where library
+// text must not be sent to Google.
+
+// ============================================
+// TYPES
+// ============================================
+export const EMBEDDING_DIMENSIONS = 768;
+
+/** Documents are indexed chunks; queries are user questions. */
+export type EmbeddingKind = "document" | "query";
+
+export interface Embedder {
+  model: string;
+  dimensions: number;
+  /** Runs in-process, so no text leaves the server. */
+  local?: boolean;
+  embed(texts: string[], kind: EmbeddingKind): Promise<number[][]>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/** Cosine similarity; equal to the dot product for normalised vectors. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** pgvector text literal, e.g. "[0.1,0.2]". */
+export function toPgVector(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+/** PostgREST returns vector columns as their text literal. */
+export function parsePgVector(value: string | number[]): number[] {
+  return Array.isArray(value) ? value : JSON.parse(value);
+}
+
+/** Normalised centroid of several vectors, e.g. all chunks of one item. */
+export function averageVectors(vectors: number[][]): number[] {
+  if (vectors.length === 0) return [];
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) vector.forEach((v, i) => (sum[i] += v));
+  return normalizeVector(sum);
+}
+
+// ============================================
+// LOCAL EMBEDDER (deterministic)
+// ============================================
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it its of on or that the this to was were with".split(" "),
+);
+
+/** 32-bit FNV-1a hash. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length > 1 && !STOPWORDS.has(token),
+  );
+}
+
+export function createLocalEmbedder(dimensions = EMBEDDING_DIMENSIONS): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // Bigrams count half as much as single words
+      const weight = feature.includes(" ") ? 0.5 : 1;
+      vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    model: `local-hash-${dimensions}`,
+    dimensions,
+    local: true,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+// ============================================
+// GEMINI EMBEDDER
+// ============================================
+const GEMINI_EMBEDDING_MODEL = "text-embedding-004";
+const GEMINI_EMBEDDING_ENDPOINT = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_EMBEDDING_MODEL}:batchEmbedContents`;
+const GEMINI_BATCH_SIZE = 100;
+const EMBEDDING_TIMEOUT_MS = 20_000;
+
+/** Google text-embedding-004 (768 dimensions). Tries each key in turn. */
+export function geminiEmbedder(keys: string[]): Embedder {
+  const embedBatch = async (texts: string[], kind: EmbeddingKind) => {
+    let lastError: unknown;
+    for (const key of keys) {
+      try {
+        const response = await fetch(`${GEMINI_EMBEDDING_ENDPOINT}?key=${key}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            requests: texts.map((text) => ({
+              model: `models/${GEMINI_EMBEDDING_MODEL}`,
+              content: { parts: [{ text }] },
+              taskType: kind === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+            })),
+          }),
+          signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new AiProviderError(errorData.error?.message || `HTTP ${response.status}`, {
+            status: response.status,
+          });
+        }
+        const data = await response.json();
+        return (data.embeddings || []).map((e: { values: number[] }) => normalizeVector(e.values));
+      } catch (error) {
+        lastError = error;
+        console.warn(`⚠️ Embedding key ...${key.slice(-4)} failed:`, (error as Error).message);
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error("No embedding keys configured");
+  };
+
+  return {
+    model: GEMINI_EMBEDDING_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts, kind) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+        vectors.push(...(await embedBatch(texts.slice(i, i + GEMINI_BATCH_SIZE), kind)));
+      }
+      if (vectors.length !== texts.length) {
+        throw new AiProviderError("Embedding response did not match the request");
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Server embedder. All users share one model so their vectors stay
+ * comparable; a BYOK Gemini key is only used when no server key exists.
+ * Exclusive mode always embeds locally, for every user alike.
+ */
+export function getEmbedder(customKey?: string): Embedder {
+  if (process.env.EMBEDDING_PROVIDER === "local" || isSelfHostedExclusive()) return createLocalEmbedder();
+  const keys = getGeminiKeys();
+  if (keys.length > 0) return geminiEmbedder(keys);
+  if (customKey) return geminiEmbedder([customKey]);
+  return createLocalEmbedder();
+}
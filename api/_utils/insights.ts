@@ -0,0 +1,178 @@
+// ============================================
+// STRUCTURED INSIGHTS
+// ============================================
+// Typed research insights extracted by /api/insights and stored on the item
+// (`items.insights`). The model is asked for JSON; whatever it returns is
+// normalized here so the client can filter and sort on every field.
+// The evidence matrix also asks for user-named fields ("Country", "Outcome
+// measure"), stored alongside as `customFields`.
+// Keep the types in sync with `ItemInsights` in src/types.ts.
+
+// ============================================
+// TYPES
+// ============================================
+export const STUDY_DESIGNS = [
+  "experimental",
+  "quasi-experimental",
+  "observational",
+  "survey",
+  "qualitative",
+  "mixed-methods",
+  "case-study",
+  "review",
+  "theoretical",
+  "computational",
+  "other",
+] as const;
+
+export type StudyDesign = (typeof STUDY_DESIGNS)[number];
+
+export interface ItemInsights {
+  researchQuestion: string | null;
+  /** How the study was done, in one or two sentences. */
+  methodology: string | null;
+  /** Coarse design category, for comparing methodologies across items. */
+  studyDesign: StudyDesign;
+  sample: string | null;
+  /** Number of participants / cases / documents, when the text states one. */
+  sampleSize: number | null;
+  keyFindings: string[];
+  limitations: string[];
+  implications: string[];
+  /** Evidence-matrix columns the user added, keyed by column name. */
+  customFields?: Record<string, string | null>;
+  generatedAt: string;
+}
+
+// ============================================
+// PROMPT
+// ============================================
+export const INSIGHTS_PROMPT = `You are ResearchMate, an expert academic analysis engine.
+
+Extract structured research insights from the text below. Return ONLY a JSON object with exactly these fields:
+
+{
+  "researchQuestion": string | null,   // the question or aim the work addresses
+  "methodology": string | null,        // how it was done: design, data collection and analysis, 1-2 sentences
+  "studyDesign": one of ${STUDY_DESIGNS.map((d) => `"${d}"`).join(", ")},
+  "sample": string | null,             // who or what was studied (population, dataset, corpus)
+  "sampleSize": number | null,         // total N as a plain number, only if the text states it
+  "keyFindings": string[],             // up to 5 concrete results, with numbers where given
+  "limitations": string[],             // up to 3, as stated or clearly implied by the text
+  "implications": string[]             // up to 3 consequences or applications
+}
+
+Rules:
+- Every value must be supported by the text. Use null or [] when the text does not say; never guess.
+- Use "review" for literature reviews and meta-analyses, "theoretical" for essays and conceptual work, and "other" for non-research text (news, notes).
+- Each list entry is one specific sentence.
+
+Text to analyze:
+`;
+
+export const MAX_CUSTOM_FIELDS = 8;
+
+/** Prompt for the values of user-named fields, answered as one JSON object. */
+export function buildFieldsPrompt(fields: string[]): string {
+  return `You are ResearchMate, an expert academic analysis engine.
+
+Extract the following fields from the text below for a systematic-review evidence table:
+${fields.map((field) => `- ${JSON.stringify(field)}`).join("\n")}
+
+Return ONLY a JSON object whose keys are exactly these field names and whose values are short strings (one phrase or sentence, with numbers where given), e.g. {${fields.map((f) => `${JSON.stringify(f)}: "..."`).join(", ")}}.
+Use null for a field the text does not state; never guess.
+
+Text to analyze:
+`;
+}
+
+// ============================================
+// PARSING
+// ============================================
+const MAX_LIST_ENTRIES = 5;
+
+const cleanString = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed && !/^(null|n\/a|none|not stated|unknown)$/i.test(trimmed) ? trimmed : null;
+};
+
+const cleanList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === "string" ? [value] : [])
+    .map(cleanString)
+    .filter((entry): entry is string => entry !== null)
+    .slice(0, MAX_LIST_ENTRIES);
+
+const cleanSampleSize = (value: unknown): number | null => {
+  // Models sometimes answer "120 participants" or "N = 1,204"
+  const digits = typeof value === "string" ? value.match(/\d[\d,]*/)?.[0].replace(/,/g, "") : undefined;
+  const n = typeof value === "number" ? value : Number(digits ?? NaN);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : null;
+};
+
+const cleanDesign = (value: unknown): StudyDesign => {
+  const normalized = String(value ?? "")
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_]+/g, "-");
+  if ((STUDY_DESIGNS as readonly string[]).includes(normalized)) return normalized as StudyDesign;
+  if (/meta-analysis|systematic|review/.test(normalized)) return "review";
+  if (/mixed/.test(normalized)) return "mixed-methods";
+  if (/case/.test(normalized)) return "case-study";
+  if (/simulation|computational|modell?ing/.test(normalized)) return "computational";
+  return "other";
+};
+
+/** The JSON object in a model response, ignoring code fences and prose around it. */
+const readJsonObject = (responseText: string): Record<string, unknown> | null => {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    const raw = JSON.parse(jsonMatch[0]);
+    return raw && typeof raw === "object" && !Array.isArray(raw) ? raw : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Normalized insights from a model response. Tolerates code fences and
+ * prose around the JSON object; returns null when no object can be read.
+ */
+export function parseInsights(responseText: string, now = new Date()): ItemInsights | null {
+  const raw = readJsonObject(responseText);
+  if (!raw) return null;
+
+  return {
+    researchQuestion: cleanString(raw.researchQuestion),
+    methodology: cleanString(raw.methodology),
+    studyDesign: cleanDesign(raw.studyDesign),
+    sample: cleanString(raw.sample),
+    sampleSize: cleanSampleSize(raw.sampleSize),
+    keyFindings: cleanList(raw.keyFindings),
+    limitations: cleanList(raw.limitations),
+    implications: cleanList(raw.implications),
+    generatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Values for the requested fields, matched by name case-insensitively.
+ * Fields the response omits are null; returns null when no object can be read.
+ */
+export function parseFieldValues(
+  responseText: string,
+  fields: string[],
+): Record<string, string | null> | null {
+  const raw = readJsonObject(responseText);
+  if (!raw) return null;
+
+  const byKey = new Map(Object.entries(raw).map(([key, value]) => [key.trim().toLowerCase(), value]));
+  return Object.fromEntries(
+    fields.map((field) => {
+      const value = byKey.get(field.trim().toLowerCase());
+      const text = Array.isArray(value) ? value.map(cleanString).filter(Boolean).join("; ") : value;
+      return [field, typeof text === "number" ? String(text) : cleanString(text)];
+    }),
+  );
+}
@@ -0,0 +1,357 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { type ByokProvider, type UserProviderKey, isByokProvider } from "./aiRouter.js";
+import { assertPublicUrl } from "./ssrf.js";
+
+// ============================================
+// BYOK KEY VAULT
+// ============================================
+// Personal API keys live in `user_provider_keys`, one row per user and
+// provider, encrypted with AES-256-GCM under BYOK_ENCRYPTION_KEY. Keys are
+// decrypted only inside the API, for the request that uses them, and are
+// never sent back to the browser (Settings sees the last four characters).
+//
+// A key is pinged against its provider before it is saved, so a typo shows
+// up in Settings rather than as a failed summary later.
+//
+// An "openai-compatible" entry is the user's own server; it also stores the
+// server's base URL and model (not secret), and its key may be empty.
+//
+// The Supabase client is passed in so the pure helpers can be imported by
+// tests without credentials.
+
+// ============================================
+// TYPES
+// ============================================
+/** What Settings sees about a saved key. */
+export interface ProviderKeySummary {
+  provider: ByokProvider;
+  /** Empty when an OpenAI-compatible server was saved without a key. */
+  keyHint: string;
+  priority: number;
+  lastValidatedAt: string | null;
+  baseUrl: string | null;
+  model: string | null;
+}
+
+/** Where an "openai-compatible" entry points. */
+export interface CompatibleEndpoint {
+  baseUrl: string;
+  model: string;
+}
+
+export interface KeyPingResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+// ============================================
+// FORMAT CHECKS
+// ============================================
+// Cheap shape checks before the network ping. Loose on length so a
+// provider changing its key format only needs the ping to agree.
+const KEY_FORMATS: Record<ByokProvider, { pattern: RegExp; hint: string }> = {
+  gemini: { pattern: /^AIz[\w-]{30,}$/, hint: "Gemini keys start with 'AIz'" },
+  openrouter: { pattern: /^sk-or-[\w-]{20,}$/, hint: "OpenRouter keys start with 'sk-or-'" },
+  groq: { pattern: /^gsk_\w{20,}$/, hint: "Groq keys start with 'gsk_'" },
+  openai: { pattern: /^sk-[\w-]{20,}$/, hint: "OpenAI keys start with 'sk-'" },
+  "openai-compatible": { pattern: /^(\S{4,})?$/, hint: "Leave the key empty or paste it without spaces" },
+};
+
+/** Error message for a malformed key, or null when it looks right. */
+export function checkKeyFormat(provider: ByokProvider, key: string): string | null {
+  const format = KEY_FORMATS[provider];
+  return format.pattern.test(key) ? null : `Invalid ${provider} key format. ${format.hint}.`;
+}
+
+export const keyHint = (key: string) => key.slice(-4);
+
+const modelsUrl = (baseUrl: string) => `${baseUrl.replace(/\/+$/, "")}/models`;
+
+/**
+ * Error message for an unusable OpenAI-compatible endpoint, or null.
+ * Private addresses are refused unless OPENAI_COMPAT_ALLOW_PRIVATE=true.
+ */
+export async function checkEndpoint(endpoint: Partial<CompatibleEndpoint> | undefined): Promise<string | null> {
+  if (!endpoint?.baseUrl || !endpoint.model?.trim()) return "A base URL and a model are required";
+  if (process.env.OPENAI_COMPAT_ALLOW_PRIVATE === "true") {
+    try {
+      const { protocol } = new URL(endpoint.baseUrl);
+      return protocol === "http:" || protocol === "https:" ? null : "Only http(s) AI endpoint URLs are allowed";
+    } catch {
+      return "Invalid AI endpoint URL";
+    }
+  }
+  try {
+    await assertPublicUrl(endpoint.baseUrl, { label: "AI endpoint" });
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+// ============================================
+// ENCRYPTION
+// ============================================
+// Stored as "v1:<iv>:<auth tag>:<ciphertext>", all base64. The version
+// prefix leaves room to rotate the scheme without a migration.
+const VAULT_VERSION = "v1";
+
+function vaultSecret(secret = process.env.BYOK_ENCRYPTION_KEY): Buffer {
+  if (!secret) throw new Error("BYOK_ENCRYPTION_KEY is not configured");
+  // Any length of secret → a 256-bit AES key
+  return createHash("sha256").update(secret).digest();
+}
+
+export function encryptApiKey(plaintext: string, secret?: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", vaultSecret(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [VAULT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+/** Throws when the payload was tampered with or encrypted under another secret. */
+export function decryptApiKey(payload: string, secret?: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  // An empty key encrypts to an empty ciphertext
+  if (version !== VAULT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognized key vault payload");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", vaultSecret(secret), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+// ============================================
+// VALIDATION PING
+// ============================================
+// A free, read-only request per provider that fails with 401/403 for a bad
+// key. None of them spend tokens. OpenAI-compatible servers are asked for
+// their model list, which also confirms the chosen model exists.
+//
+// The ping may go to a URL the user typed, so redirects are not followed
+// and errors never include what the server sent back: the response must
+// not become a way to read internal pages.
+const PING_TIMEOUT_MS = 10_000;
+
+const bearer = (key: string): Record<string, string> => (key ? { Authorization: `Bearer ${key}` } : {});
+
+const PING_REQUESTS: Record<
+  ByokProvider,
+  (key: string, endpoint?: CompatibleEndpoint) => { url: string; headers: Record<string, string> }
+> = {
+  gemini: (key) => ({
+    url: `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1&key=${key}`,
+    headers: {},
+  }),
+  openrouter: (key) => ({
+    url: "https://openrouter.ai/api/v1/auth/key",
+    headers: { Authorization: `Bearer ${key}` },
+  }),
+  groq: (key) => ({
+    url: "https://api.groq.com/openai/v1/models",
+    headers: { Authorization: `Bearer ${key}` },
+  }),
+  openai: (key) => ({
+    url: "https://api.openai.com/v1/models",
+    headers: { Authorization: `Bearer ${key}` },
+  }),
+  "openai-compatible": (key, endpoint) => ({
+    url: modelsUrl(endpoint!.baseUrl),
+    headers: bearer(key),
+  }),
+};
+
+/** True when the server's model list includes `model`; a server that lists nothing is refused. */
+function serverHasModel(data: any, model: string): boolean {
+  const ids: unknown[] = Array.isArray(data?.data) ? data.data.map((m: any) => m?.id) : [];
+  return ids.includes(model);
+}
+
+export async function pingProviderKey(
+  provider: ByokProvider,
+  key: string,
+  endpoint?: CompatibleEndpoint,
+): Promise<KeyPingResult> {
+  const { url, headers } = PING_REQUESTS[provider](key, endpoint);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { headers, redirect: "manual", signal: controller.signal });
+    if (response.ok) {
+      if (provider === "openai-compatible" && endpoint) {
+        const data = await response.json().catch(() => null);
+        if (!serverHasModel(data, endpoint.model)) {
+          return {
+            ok: false,
+            status: response.status,
+            error: `Model "${endpoint.model}" is not available on this server`,
+          };
+        }
+      }
+      return { ok: true, status: response.status };
+    }
+
+    const rejected = response.status === 401 || response.status === 403;
+    const redirected = response.status >= 300 && response.status < 400;
+    return {
+      ok: false,
+      status: response.status,
+      error: rejected
+        ? `${provider} rejected this key`
+        : redirected
+          ? `${provider} answered with a redirect; enter the API's final URL`
+          : `${provider} is unreachable or refused the request (HTTP ${response.status})`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: controller.signal.aborted
+        ? `${provider} did not respond within ${PING_TIMEOUT_MS / 1000}s`
+        : `Could not reach ${provider}`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================
+// STORAGE
+// ============================================
+export async function listProviderKeys(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<ProviderKeySummary[]> {
+  const { data, error } = await supabase
+    .from("user_provider_keys")
+    .select("provider, key_hint, priority, last_validated_at, base_url, model")
+    .eq("user_id", userId)
+    .order("priority", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data || []).map((row) => ({
+    provider: row.provider,
+    keyHint: row.key_hint,
+    priority: row.priority,
+    lastValidatedAt: row.last_validated_at,
+    baseUrl: row.base_url,
+    model: row.model,
+  }));
+}
+
+/**
+ * Decrypted keys in the user's order. Rows that fail to decrypt (e.g. after
+ * the secret was rotated) are skipped and logged; a missing table or
+ * secret means no user keys rather than a failed request.
+ */
+export async function loadUserKeys(supabase: SupabaseClient, userId: string): Promise<UserProviderKey[]> {
+  if (!process.env.BYOK_ENCRYPTION_KEY) return [];
+
+  const { data, error } = await supabase
+    .from("user_provider_keys")
+    .select("provider, encrypted_key, base_url, model")
+    .eq("user_id", userId)
+    .order("priority", { ascending: true });
+
+  if (error) {
+    console.warn("Key vault unavailable:", error.message);
+    return [];
+  }
+
+  const keys: UserProviderKey[] = [];
+  for (const row of data || []) {
+    if (!isByokProvider(row.provider)) continue;
+    try {
+      keys.push({
+        provider: row.provider,
+        key: decryptApiKey(row.encrypted_key),
+        baseUrl: row.base_url ?? undefined,
+        model: row.model ?? undefined,
+      });
+    } catch (err) {
+      console.error(`Could not decrypt ${row.provider} key for user ${userId}:`, (err as Error).message);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Encrypts and saves `key` (plus `endpoint` for an OpenAI-compatible
+ * server); a new provider goes to the end of the user's order.
+ */
+export async function saveProviderKey(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: ByokProvider,
+  key: string,
+  endpoint?: CompatibleEndpoint,
+): Promise<void> {
+  const existing = await listProviderKeys(supabase, userId);
+  const current = existing.find((k) => k.provider === provider);
+  const priority = current
+    ? current.priority
+    : existing.reduce((max, k) => Math.max(max, k.priority + 1), 0);
+  const now = new Date().toISOString();
+
+  const { error } = await supabase.from("user_provider_keys").upsert({
+    user_id: userId,
+    provider,
+    encrypted_key: encryptApiKey(key),
+    key_hint: keyHint(key),
+    base_url: endpoint?.baseUrl ?? null,
+    model: endpoint?.model ?? null,
+    priority,
+    last_validated_at: now,
+    updated_at: now,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteProviderKey(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: ByokProvider,
+): Promise<void> {
+  const { error } = await supabase
+    .from("user_provider_keys")
+    .delete()
+    .eq("user_id", userId)
+    .eq("provider", provider);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * `saved` providers rearranged to follow `order`. Unknown or duplicate
+ * entries in `order` are dropped; saved providers it leaves out keep their
+ * relative order after the listed ones.
+ */
+export function rankProviders(saved: ByokProvider[], order: ByokProvider[]): ByokProvider[] {
+  const listed = order.filter((p, i) => saved.includes(p) && order.indexOf(p) === i);
+  return [...listed, ...saved.filter((p) => !listed.includes(p))];
+}
+
+/** Renumbers the user's keys to follow `order` (see rankProviders). */
+export async function reorderProviderKeys(
+  supabase: SupabaseClient,
+  userId: string,
+  order: ByokProvider[],
+): Promise<void> {
+  const existing = await listProviderKeys(supabase, userId);
+  const ranked = rankProviders(existing.map((k) => k.provider), order);
+
+  const results = await Promise.all(
+    ranked.map((provider, priority) =>
+      supabase
+        .from("user_provider_keys")
+        .update({ priority })
+        .eq("user_id", userId)
+        .eq("provider", provider),
+    ),
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw new Error(failed.error.message);
+}
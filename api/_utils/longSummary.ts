@@ -0,0 +1,333 @@
+import { type AiProvider, routeAiRequest } from "./aiRouter.js";
+import { chunkText } from "./rag.js";
+
+// ============================================
+// MAP-REDUCE SUMMARIZATION FOR LONG DOCUMENTS
+// ============================================
+// A long PDF or transcript does not fit in one prompt, so it is split along
+// its own structure — `[Page N]` markers from PDF import, `[MM:SS]` transcript
+// timestamps, or section headings — into chunks that are summarized one by
+// one ("map") and then merged into a single summary ("reduce"). Partial
+// summaries keep their section headings and page references, so the merged
+// summary can still say where each finding came from.
+//
+// The plan (chunk count and credit cost) is computed before any AI call so
+// the client can quote the cost up front.
+
+// ============================================
+// TYPES
+// ============================================
+export type SummaryMode = "ultra-short" | "standard" | "detailed";
+
+export interface SummaryChunk {
+  index: number;
+  /** Where the chunk sits in the document, e.g. "Pages 4–7" or "Methods". */
+  label: string;
+  text: string;
+}
+
+export interface SummaryPlan {
+  strategy: "single" | "map-reduce";
+  chunks: SummaryChunk[];
+  credits: number;
+}
+
+export interface LongSummaryResult {
+  summary: string;
+  /** Provider of the final merge. */
+  provider: string;
+  /** Every call ran on the user's own keys, so no credits are due. */
+  userKey: boolean;
+}
+
+export type SummaryProgress =
+  | { stage: "map"; completed: number; total: number; label: string }
+  | { stage: "reduce" };
+
+interface Unit {
+  label: string;
+  text: string;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+/** Documents longer than this are summarized with map-reduce. */
+export const LONG_DOCUMENT_CHARS = 40_000;
+export const SUMMARY_CHUNK_CHARS = 16_000;
+/** Map calls covered by one credit; the merge step is included. */
+export const CHUNKS_PER_CREDIT = 3;
+/**
+ * About 160k characters. The whole map-reduce runs inside one function call
+ * (maxDuration 60 s in vercel.json): every chunk is summarized in a single
+ * parallel round, then at most one round of intermediate merges and the
+ * final merge. Longer documents are rejected up front, at quote time.
+ */
+export const MAX_SUMMARY_CHUNKS = 10;
+/** Partial summaries are merged in batches once they exceed this. */
+const REDUCE_INPUT_CHARS = 48_000;
+const MAP_CONCURRENCY = MAX_SUMMARY_CHUNKS;
+/** The merged summary has to fit in a single response. */
+const MAX_SUMMARY_WORDS = 2_500;
+
+const PAGE_MARKER = /^\[Page (\d+)\]\s*$/;
+const TIMESTAMP = /^\[((?:\d{1,2}:)?\d{2}:\d{2})\]/;
+const HEADING =
+  /^(?:#{1,3}\s+(.+)|(\d+(?:\.\d+)*\.?\s+[A-Z][^\n]{2,80})|(abstract|introduction|background|methods?|methodology|materials and methods|results|findings|discussion|conclusions?|limitations|references|bibliography))\s*$/i;
+
+// ============================================
+// SUMMARY LENGTH
+// ============================================
+export function getSummaryRange(mode: SummaryMode, wordCount: number): { min: number; max: number; label: string } {
+  switch (mode) {
+    case "ultra-short":
+      return {
+        min: Math.round(wordCount * 0.05),
+        max: Math.round(wordCount * 0.10),
+        label: "Ultra-Short (5–10% — headlines, quick notes, AI previews)",
+      };
+    case "detailed":
+      return {
+        min: Math.round(wordCount * 0.30),
+        max: Math.round(wordCount * 0.40),
+        label: "Detailed (30–40% — full context, examples, and steps preserved)",
+      };
+    case "standard":
+    default:
+      return {
+        min: Math.round(wordCount * 0.15),
+        max: Math.round(wordCount * 0.25),
+        label: "Standard (15–25% — core ideas, most research summaries)",
+      };
+  }
+}
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+/** `getSummaryRange`, capped so a merged summary fits in one response. */
+function cappedRange(mode: SummaryMode, wordCount: number) {
+  const range = getSummaryRange(mode, wordCount);
+  if (range.max <= MAX_SUMMARY_WORDS) return range;
+  return { ...range, min: Math.round(MAX_SUMMARY_WORDS * 0.75), max: MAX_SUMMARY_WORDS };
+}
+
+// ============================================
+// SPLITTING
+// ============================================
+
+/** Splits lines into units that each start at a line matching `start`. */
+function splitAt(lines: string[], start: (line: string) => string | null, intro: string): Unit[] {
+  const units: Unit[] = [];
+  let current: Unit = { label: intro, text: "" };
+  for (const line of lines) {
+    const label = start(line);
+    if (label !== null) {
+      if (current.text.trim()) units.push(current);
+      current = { label, text: "" };
+    }
+    current.text += `${line}\n`;
+  }
+  if (current.text.trim()) units.push(current);
+  return units;
+}
+
+/**
+ * Packs consecutive units into chunks of at most `maxChars`. A unit that is
+ * too large on its own is split into parts.
+ */
+function groupUnits(units: Unit[], maxChars: number, range: (first: string, last: string) => string): Unit[] {
+  const groups: Unit[] = [];
+  let batch: Unit[] = [];
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    groups.push({
+      label: range(batch[0].label, batch[batch.length - 1].label),
+      text: batch.map((u) => u.text.trim()).join("\n\n"),
+    });
+    batch = [];
+  };
+
+  for (const unit of units) {
+    if (unit.text.length > maxChars) {
+      flush();
+      const parts = chunkText(unit.text, maxChars, 0);
+      parts.forEach((text, i) =>
+        groups.push({ label: `${range(unit.label, unit.label)} (part ${i + 1} of ${parts.length})`, text }),
+      );
+      continue;
+    }
+    const size = batch.reduce((sum, u) => sum + u.text.length, 0);
+    if (size + unit.text.length > maxChars) flush();
+    batch.push(unit);
+  }
+  flush();
+  return groups;
+}
+
+/**
+ * Splits a document into summary chunks along its structure: PDF pages,
+ * transcript timestamps, then section headings, falling back to plain
+ * size-based chunks.
+ */
+export function splitDocument(text: string, maxChars = SUMMARY_CHUNK_CHARS): SummaryChunk[] {
+  const clean = text.replace(/\r\n/g, "\n").trim();
+  if (!clean) return [];
+  const lines = clean.split("\n");
+
+  let groups: Unit[];
+  if (lines.some((l) => PAGE_MARKER.test(l.trim()))) {
+    const pages = splitAt(lines, (l) => PAGE_MARKER.exec(l.trim())?.[1] ?? null, "1");
+    groups = groupUnits(pages, maxChars, (a, b) => (a === b ? `Page ${a}` : `Pages ${a}–${b}`));
+  } else if (lines.filter((l) => TIMESTAMP.test(l)).length >= lines.length / 2) {
+    const segments = splitAt(lines, (l) => TIMESTAMP.exec(l)?.[1] ?? null, "00:00");
+    groups = groupUnits(segments, maxChars, (a, b) => (a === b ? `[${a}]` : `[${a}–${b}]`));
+  } else if (lines.filter((l) => HEADING.test(l.trim())).length >= 2) {
+    const sections = splitAt(
+      lines,
+      (l) => {
+        const match = HEADING.exec(l.trim());
+        return match ? (match[1] || match[2] || match[3]).trim() : null;
+      },
+      "Opening",
+    );
+    groups = groupUnits(sections, maxChars, (a, b) => (a === b ? a : `${a} – ${b}`));
+  } else {
+    groups = chunkText(clean, maxChars, 0).map((chunk, i) => ({ label: `Part ${i + 1}`, text: chunk }));
+  }
+
+  return groups.map((group, index) => ({ index, ...group }));
+}
+
+// ============================================
+// PLANNING & QUOTING
+// ============================================
+
+/** Credits charged for a summary: one for a single prompt, else per CHUNKS_PER_CREDIT chunks. */
+export function quoteSummaryCredits(chunkCount: number): number {
+  return Math.max(1, Math.ceil(chunkCount / CHUNKS_PER_CREDIT));
+}
+
+export function planSummary(text: string): SummaryPlan {
+  if (text.length <= LONG_DOCUMENT_CHARS) return { strategy: "single", chunks: [], credits: 1 };
+  const chunks = splitDocument(text);
+  return { strategy: "map-reduce", chunks, credits: quoteSummaryCredits(chunks.length) };
+}
+
+// ============================================
+// PROMPTS
+// ============================================
+const MAP_INSTRUCTION = `
+You are ResearchMate, summarizing ONE PART of a longer document. Your output will later be merged with summaries of the other parts.
+
+Rules:
+- Keep the document's structure: reproduce section headings found in this part as "### " headings, in order.
+- Attach page references to claims as (p. N) using the [Page N] markers in the text; for transcripts, use the [MM:SS] timestamps instead. Never invent a page or timestamp.
+- Preserve critical specifics: numbers, statistics, sample sizes, named methods, definitions and conclusions.
+- Do not introduce the part ("This section…") and do not comment on it being partial. Lead with substance.
+- NEVER add information that is not in the text.
+`.trim();
+
+const REDUCE_INSTRUCTION = `
+You are ResearchMate, merging partial summaries of consecutive parts of ONE document into a single coherent summary.
+
+Rules:
+- Keep the document's section structure: use "## " headings for its major sections, in document order. Merge sections that were split across parts.
+- Keep the page references — (p. N) — and transcript timestamps from the partial summaries; combine them where claims merge, e.g. (pp. 4–6). Never invent new ones.
+- Remove repetition between parts and keep the most important findings, data and conclusions.
+- For ULTRA-SHORT mode ignore the headings rule: write one tight paragraph.
+- NEVER start with filler like "This document discusses"; never mention that the input was split into parts.
+- NEVER add information not present in the partial summaries.
+`.trim();
+
+function buildMapPrompt(chunk: SummaryChunk, total: number, mode: SummaryMode): string {
+  const range = cappedRange(mode, countWords(chunk.text));
+  return [
+    `PART ${chunk.index + 1} OF ${total} — ${chunk.label}`,
+    `TARGET LENGTH: ${range.min}–${range.max} words`,
+    `TEXT:\n${chunk.text}`,
+  ].join("\n\n");
+}
+
+function buildReducePrompt(partials: string[], mode: SummaryMode, wordCount: number, final: boolean): string {
+  const range = cappedRange(mode, wordCount);
+  return [
+    final
+      ? `SUMMARY MODE: ${range.label}\nTARGET SUMMARY LENGTH: ${range.min}–${range.max} words`
+      : "This merge is intermediate: keep all headings, findings and page references; only remove repetition.",
+    `PARTIAL SUMMARIES (in document order):\n\n${partials.join("\n\n---\n\n")}`,
+  ].join("\n\n");
+}
+
+// ============================================
+// MAP-REDUCE
+// ============================================
+
+/**
+ * Summarizes each chunk (MAP_CONCURRENCY at a time), then merges the partial
+ * summaries, in parallel batches when they are still too long for one prompt. `onProgress` is
+ * called after each step; aborting `signal` stops before the next AI call.
+ * `userKey` is only true when no call fell back to the server's keys.
+ */
+export async function summarizeLongDocument(
+  chunks: SummaryChunk[],
+  mode: SummaryMode,
+  chain: AiProvider[],
+  options: { onProgress?: (progress: SummaryProgress) => void; signal?: AbortSignal } = {},
+): Promise<LongSummaryResult> {
+  const { onProgress, signal } = options;
+  const checkAborted = () => {
+    if (signal?.aborted) throw Object.assign(new Error("Request aborted"), { name: "AbortError" });
+  };
+  const wordCount = chunks.reduce((sum, c) => sum + countWords(c.text), 0);
+  let userKey = true;
+
+  // Map
+  const partials: string[] = new Array(chunks.length);
+  let completed = 0;
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      checkAborted();
+      const result = await routeAiRequest(
+        { system: MAP_INSTRUCTION, prompt: buildMapPrompt(chunk, chunks.length, mode), temperature: 0.3, maxTokens: 4096 },
+        chain,
+      );
+      userKey &&= result.userKey;
+      partials[chunk.index] = `### ${chunk.label}\n${result.text}`;
+      onProgress?.({ stage: "map", completed: ++completed, total: chunks.length, label: chunk.label });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAP_CONCURRENCY, chunks.length) }, worker));
+
+  // Reduce, in batches until everything fits in one prompt. Every batch
+  // merges at least two summaries, so each round shrinks the list.
+  onProgress?.({ stage: "reduce" });
+  let level = partials;
+  while (true) {
+    checkAborted();
+    const size = level.reduce((sum, p) => sum + p.length, 0);
+    const final = level.length === 1 || size <= REDUCE_INPUT_CHARS;
+    const perBatch = final ? level.length : Math.max(2, Math.ceil(level.length / Math.ceil(size / REDUCE_INPUT_CHARS)));
+
+    const batches: string[][] = [];
+    for (let i = 0; i < level.length; i += perBatch) batches.push(level.slice(i, i + perBatch));
+    const results = await Promise.all(
+      batches.map((batch) =>
+        routeAiRequest(
+          {
+            system: REDUCE_INSTRUCTION,
+            prompt: buildReducePrompt(batch, mode, wordCount, final),
+            temperature: 0.3,
+            maxTokens: 8192,
+          },
+          chain,
+        ),
+      ),
+    );
+    for (const result of results) userKey &&= result.userKey;
+    if (final) return { summary: results[0].text, provider: results[0].provider, userKey };
+    level = results.map((result) => result.text);
+  }
+}
@@ -0,0 +1,350 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { type Embedder, averageVectors, parsePgVector, toPgVector } from "./embeddings.js";
+
+// ============================================
+// RETRIEVAL OVER THE USER'S LIBRARY
+// ============================================
+// Items are split into overlapping chunks (text, OCR text and note), embedded
+// and stored in `item_chunks`. Before answering, the chat endpoint brings the
+// index up to date (`indexLibrary`), fetches the top-k chunks for the
+// question (`retrieveChunks`) and hands them to the model as numbered
+// excerpts tagged with their item ID (`buildRetrievalContext`). The model
+// cites items inline as [[item:<id>]], which the client renders as chips.
+//
+// The same index powers related items and search by meaning
+// (`findSimilarItems`), which rank whole items by their best chunk.
+//
+// The Supabase client is passed in so the pure helpers can be imported by
+// tests without credentials.
+
+// ============================================
+// TYPES
+// ============================================
+export interface IndexableItem {
+  id: string;
+  text?: string | null;
+  ocr_text?: string | null;
+  note?: string | null;
+  source_title?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface RetrievedChunk {
+  itemId: string;
+  chunkIndex: number;
+  content: string;
+  title: string;
+  similarity: number;
+}
+
+export interface RetrievalSource {
+  id: string;
+  title: string;
+}
+
+export interface SimilarItem {
+  itemId: string;
+  /** Cosine similarity of the item's best-matching chunk. */
+  score: number;
+  snippet: string;
+}
+
+export interface IndexResult {
+  indexedItems: number;
+  indexedChunks: number;
+  /** True when the per-call budget ran out before every item was indexed. */
+  incomplete: boolean;
+}
+
+// ============================================
+// CHUNKING
+// ============================================
+export const CHUNK_SIZE = 1200;
+export const CHUNK_OVERLAP = 200;
+
+/** Last paragraph / sentence / word break in the window, so chunks end cleanly. */
+function findBreak(text: string, start: number, end: number): number {
+  const window = text.slice(start, end);
+  const minimum = Math.floor((end - start) / 2);
+  for (const pattern of [/\n\s*\n/g, /[.!?]["')\]]?\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) {
+      const at = (match.index ?? 0) + match[0].length;
+      if (at >= minimum) last = at;
+    }
+    if (last !== -1) return start + last;
+  }
+  return end;
+}
+
+/** Split text into ~`size` character chunks overlapping by ~`overlap`. */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const clean = text.replace(/\r\n/g, "\n").replace(/[ \t]+/g, " ").trim();
+  if (!clean) return [];
+  if (clean.length <= size) return [clean];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    const end = start + size >= clean.length ? clean.length : findBreak(clean, start, start + size);
+    const chunk = clean.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= clean.length) break;
+
+    // Step back by the overlap, then forward to the next word boundary
+    let next = Math.max(end - overlap, start + 1);
+    const space = clean.indexOf(" ", next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+  return chunks;
+}
+
+/**
+ * Chunks for one item. The title is prefixed to every chunk so excerpts
+ * stay attributable; OCR text is skipped when it merely repeats `text`.
+ */
+export function chunkItem(item: IndexableItem): string[] {
+  const title = item.source_title?.trim();
+  const text = item.text?.trim() || "";
+  const ocr = item.ocr_text?.trim() || "";
+  const note = item.note?.trim() || "";
+
+  const sections = [
+    ...chunkText(text),
+    ...(ocr && ocr !== text ? chunkText(ocr) : []),
+    ...chunkText(note).map((chunk) => `Note: ${chunk}`),
+  ];
+  return title ? sections.map((chunk) => `${title}\n${chunk}`) : sections;
+}
+
+/** Version stamp used to decide whether an item must be re-indexed. */
+const itemVersion = (item: IndexableItem) => item.updated_at || item.created_at || null;
+
+const sameInstant = (a: string | null, b: string | null) =>
+  a === b || (!!a && !!b && new Date(a).getTime() === new Date(b).getTime());
+
+// ============================================
+// INDEXING
+// ============================================
+/** Upper bound on chunks embedded per request, to keep chat latency sane. */
+const MAX_CHUNKS_PER_CALL = 300;
+/** Items whose text is loaded per query while indexing. */
+const TEXT_PAGE_SIZE = 25;
+
+const ITEM_TEXT_COLUMNS = "id, text, ocr_text, note, source_title, created_at, updated_at";
+
+/**
+ * Embed items whose chunks are missing or older than the item. Re-indexing
+ * replaces all of an item's chunks for the embedder's model. Only ids and
+ * timestamps are read for the whole library; text is loaded a page at a
+ * time for the items that actually need indexing.
+ */
+export async function indexLibrary(
+  db: SupabaseClient,
+  userId: string,
+  embedder: Embedder,
+  options: { itemIds?: string[] } = {},
+): Promise<IndexResult> {
+  let itemsQuery = db.from("items").select("id, created_at, updated_at").eq("user_id", userId);
+  if (options.itemIds) itemsQuery = itemsQuery.in("id", options.itemIds);
+  const { data: items, error: itemsError } = await itemsQuery;
+  if (itemsError) throw itemsError;
+
+  const { data: indexed, error: indexedError } = await db
+    .from("item_chunks")
+    .select("item_id, item_updated_at")
+    .eq("user_id", userId)
+    .eq("embedding_model", embedder.model)
+    .eq("chunk_index", 0);
+  if (indexedError) throw indexedError;
+
+  const versions = new Map<string, string | null>(
+    (indexed || []).map((row) => [row.item_id, row.item_updated_at]),
+  );
+  const stale = ((items || []) as IndexableItem[]).filter(
+    (item) => !versions.has(item.id) || !sameInstant(versions.get(item.id) ?? null, itemVersion(item)),
+  );
+
+  const result: IndexResult = { indexedItems: 0, indexedChunks: 0, incomplete: false };
+  let budget = MAX_CHUNKS_PER_CALL;
+
+  for (let page = 0; page < stale.length; page += TEXT_PAGE_SIZE) {
+    const ids = stale.slice(page, page + TEXT_PAGE_SIZE).map((item) => item.id);
+    const { data: rows, error: textError } = await db
+      .from("items")
+      .select(ITEM_TEXT_COLUMNS)
+      .eq("user_id", userId)
+      .in("id", ids);
+    if (textError) throw textError;
+    const byId = new Map(((rows || []) as IndexableItem[]).map((row) => [row.id, row]));
+
+    for (const id of ids) {
+      const item = byId.get(id);
+      if (!item) continue; // deleted meanwhile
+      const version = itemVersion(item);
+      const known = versions.has(item.id);
+
+      const chunks = chunkItem(item);
+      if (chunks.length === 0 && !known) continue;
+      if (chunks.length > budget && result.indexedItems > 0) {
+        // Leave it for the next call rather than indexing it partially
+        result.incomplete = true;
+        return result;
+      }
+      // A single item longer than the whole budget keeps only its first chunks
+      const batch = chunks.slice(0, MAX_CHUNKS_PER_CALL);
+
+      const vectors = batch.length > 0 ? await embedder.embed(batch, "document") : [];
+      const { error: deleteError } = await db
+        .from("item_chunks")
+        .delete()
+        .eq("item_id", item.id)
+        .eq("embedding_model", embedder.model);
+      if (deleteError) throw deleteError;
+
+      if (batch.length > 0) {
+        const { error: insertError } = await db.from("item_chunks").insert(
+          batch.map((content, index) => ({
+            user_id: userId,
+            item_id: item.id,
+            chunk_index: index,
+            content,
+            embedding: toPgVector(vectors[index]),
+            embedding_model: embedder.model,
+            item_updated_at: version,
+          })),
+        );
+        if (insertError) throw insertError;
+      }
+
+      result.indexedItems++;
+      result.indexedChunks += batch.length;
+      budget -= batch.length;
+      if (budget <= 0) {
+        result.incomplete = true;
+        return result;
+      }
+    }
+  }
+
+  return result;
+}
+
+// ============================================
+// RETRIEVAL
+// ============================================
+export const DEFAULT_TOP_K = 8;
+
+/** Top-k chunks for a question, most similar first. */
+export async function retrieveChunks(
+  db: SupabaseClient,
+  userId: string,
+  question: string,
+  embedder: Embedder,
+  k = DEFAULT_TOP_K,
+): Promise<RetrievedChunk[]> {
+  const [queryVector] = await embedder.embed([question], "query");
+  const { data, error } = await db.rpc("match_item_chunks", {
+    p_user_id: userId,
+    p_embedding_model: embedder.model,
+    p_query: toPgVector(queryVector),
+    p_match_count: k,
+  });
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    itemId: row.item_id,
+    chunkIndex: row.chunk_index,
+    content: row.content,
+    title: row.title || "Untitled",
+    similarity: row.similarity,
+  }));
+}
+
+/**
+ * Items ranked by similarity to a query vector. `excludeItemId` drops the
+ * item a "related items" lookup starts from.
+ */
+export async function findSimilarItems(
+  db: SupabaseClient,
+  userId: string,
+  embedder: Embedder,
+  query: number[],
+  options: { limit?: number; excludeItemId?: string } = {},
+): Promise<SimilarItem[]> {
+  const { data, error } = await db.rpc("match_items", {
+    p_user_id: userId,
+    p_embedding_model: embedder.model,
+    p_query: toPgVector(query),
+    p_match_count: options.limit ?? 10,
+    p_exclude_item_id: options.excludeItemId ?? null,
+  });
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    itemId: row.item_id,
+    score: row.similarity,
+    snippet: row.content,
+  }));
+}
+
+/** Centroid of an item's stored chunk vectors, or null when it is not indexed. */
+export async function getItemVector(
+  db: SupabaseClient,
+  userId: string,
+  itemId: string,
+  embedder: Embedder,
+): Promise<number[] | null> {
+  const { data, error } = await db
+    .from("item_chunks")
+    .select("embedding")
+    .eq("user_id", userId)
+    .eq("item_id", itemId)
+    .eq("embedding_model", embedder.model);
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+  return averageVectors(data.map((row) => parsePgVector(row.embedding)));
+}
+
+/** Whether the user has any chunks for the embedder's model. */
+export async function hasIndexedChunks(db: SupabaseClient, userId: string, embedder: Embedder) {
+  const { count, error } = await db
+    .from("item_chunks")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("embedding_model", embedder.model);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+// ============================================
+// PROMPT CONSTRUCTION
+// ============================================
+export const CITATION_INSTRUCTION = `
+LIBRARY CITATIONS:
+- The LIBRARY EXCERPTS come from the user's own saved items. Each is labelled with its item ID.
+- When a statement draws on an excerpt, cite it inline right after the statement as [[item:<id>]], e.g. "... reduced error rates [[item:3f2a...]]".
+- Only cite IDs that appear in the excerpts, copied exactly. Never invent IDs.
+- If the excerpts do not answer the question, say so instead of guessing.
+`.trim();
+
+/** Numbered excerpts grouped by item, plus the distinct sources in rank order. */
+export function buildRetrievalContext(chunks: RetrievedChunk[]): {
+  context: string;
+  sources: RetrievalSource[];
+} {
+  const sources: RetrievalSource[] = [];
+  for (const chunk of chunks) {
+    if (!sources.some((s) => s.id === chunk.itemId)) {
+      sources.push({ id: chunk.itemId, title: chunk.title });
+    }
+  }
+
+  const context = chunks
+    .map((chunk, i) => `[${i + 1}] (item:${chunk.itemId}) "${chunk.title}"\n${chunk.content}`)
+    .join("\n\n---\n\n");
+
+  return { context, sources };
+}
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { VercelResponse } from "@vercel/node";
+
+// ============================================
+// TOKEN-BUCKET RATE LIMITING
+// ============================================
+// Each user has one bucket per endpoint. A bucket holds up to `capacity`
+// tokens and refills continuously at `refillPerMinute`; every request takes
+// one token and is refused when the bucket is empty. Bursts up to the
+// capacity are fine, sustained traffic is held to the refill rate.
+//
+// Buckets live in Postgres (`rate_limit_buckets`, updated atomically by the
+// `take_rate_limit_token` RPC) so limits survive cold starts and are shared
+// by every serverless instance. The store is pluggable: when the RPC is not
+// available the limiter falls back to a per-instance in-memory store.
+//
+// Decisions are reported to the client as `X-RateLimit-Limit`,
+// `X-RateLimit-Remaining`, `X-RateLimit-Reset` (seconds until the bucket is
+// full) and, when refused, `Retry-After` (seconds until the next token).
+
+// ============================================
+// BUDGETS
+// ============================================
+export interface BucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/** Per-endpoint budgets: cheap calls get more headroom than slow, costly ones. */
+export const RATE_LIMITS = {
+  chat: { capacity: 30, refillPerMinute: 20 },
+  search: { capacity: 30, refillPerMinute: 30 },
+  "similar-items": { capacity: 30, refillPerMinute: 30 },
+  credits: { capacity: 30, refillPerMinute: 30 },
+  "provider-keys": { capacity: 10, refillPerMinute: 10 },
+  redaction: { capacity: 20, refillPerMinute: 20 },
+  rss: { capacity: 20, refillPerMinute: 20 },
+  "generate-tags": { capacity: 20, refillPerMinute: 10 },
+  summarize: { capacity: 15, refillPerMinute: 10 },
+  insights: { capacity: 15, refillPerMinute: 10 },
+  cite: { capacity: 15, refillPerMinute: 10 },
+  "extract-citation": { capacity: 15, refillPerMinute: 10 },
+  "identify-source": { capacity: 10, refillPerMinute: 6 },
+  synthesize: { capacity: 5, refillPerMinute: 2 },
+  ocr: { capacity: 10, refillPerMinute: 5 },
+  transcribe: { capacity: 3, refillPerMinute: 1 },
+  default: { capacity: 20, refillPerMinute: 10 },
+} satisfies Record<string, BucketConfig>;
+
+export type RateLimitEndpoint = keyof typeof RATE_LIMITS;
+
+// ============================================
+// TYPES
+// ============================================
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Seconds until the next token; 0 when allowed. */
+  retryAfter: number;
+  /** Seconds until the bucket is full again. */
+  reset: number;
+}
+
+export interface RateLimitStore {
+  /** Takes one token from the bucket and reports the outcome. */
+  take(userId: string, endpoint: RateLimitEndpoint, config: BucketConfig): Promise<RateLimitDecision>;
+}
+
+export interface BucketState {
+  tokens: number;
+  /** Epoch milliseconds of the last update. */
+  updatedAt: number;
+}
+
+// ============================================
+// BUCKET MATH
+// ============================================
+const perSecond = (config: BucketConfig) => config.refillPerMinute / 60;
+
+/** Describes a bucket holding `tokens` after the request was allowed or refused. */
+export function decide(allowed: boolean, tokens: number, config: BucketConfig): RateLimitDecision {
+  const rate = perSecond(config);
+  return {
+    allowed,
+    limit: config.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / rate)),
+    reset: Math.ceil((config.capacity - tokens) / rate),
+  };
+}
+
+/** Refills the bucket up to `now` and takes one token if there is one. */
+export function takeToken(
+  state: BucketState | null,
+  config: BucketConfig,
+  now: number,
+): { state: BucketState; decision: RateLimitDecision } {
+  const elapsed = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state
+    ? Math.min(config.capacity, state.tokens + elapsed * perSecond(config))
+    : config.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  return { state: { tokens, updatedAt: now }, decision: decide(allowed, tokens, config) };
+}
+
+// ============================================
+// STORES
+// ============================================
+/** Per-instance store; resets on cold start. Used in tests and as a fallback. */
+export function createMemoryStore(now: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+  return {
+    async take(userId, endpoint, config) {
+      const key = `${userId}:${endpoint}`;
+      const { state, decision } = takeToken(buckets.get(key) ?? null, config, now());
+      buckets.set(key, state);
+      return decision;
+    },
+  };
+}
+
+/**
+ * Shared store backed by `take_rate_limit_token`. Falls back to `fallback`
+ * when the RPC fails, e.g. before the migration has been applied.
+ */
+export function createPostgresStore(supabase: SupabaseClient, fallback: RateLimitStore): RateLimitStore {
+  return {
+    async take(userId, endpoint, config) {
+      const { data, error } = await supabase.rpc("take_rate_limit_token", {
+        p_user_id: userId,
+        p_bucket: endpoint,
+        p_capacity: config.capacity,
+        p_refill_per_second: perSecond(config),
+      });
+      const row = Array.isArray(data) ? data[0] : data;
+      if (error || !row) {
+        console.warn("take_rate_limit_token RPC unavailable, using in-memory limiter:", error?.message);
+        return fallback.take(userId, endpoint, config);
+      }
+      return decide(!!row.allowed, Number(row.remaining), config);
+    },
+  };
+}
+
+// ============================================
+// RESPONSE HEADERS
+// ============================================
+export const RATE_LIMIT_HEADERS = [
+  "Retry-After",
+  "X-RateLimit-Limit",
+  "X-RateLimit-Remaining",
+  "X-RateLimit-Reset",
+];
+
+export function setRateLimitHeaders(res: VercelResponse, decision: RateLimitDecision): void {
+  res.setHeader("X-RateLimit-Limit", String(decision.limit));
+  res.setHeader("X-RateLimit-Remaining", String(decision.remaining));
+  res.setHeader("X-RateLimit-Reset", String(decision.reset));
+  if (!decision.allowed) res.setHeader("Retry-After", String(decision.retryAfter));
+}
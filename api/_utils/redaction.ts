@@ -0,0 +1,611 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AiProvider, AiRequest } from "./aiRouter.js";
+import type { Embedder } from "./embeddings.js";
+
+// ============================================
+// PII REDACTION
+// ============================================
+// Optional, per user. Before item text goes to an AI provider, emails,
+// phone numbers, names, IDs and the user's own patterns are swapped for
+// placeholders like [EMAIL_1]; the provider's answer gets the originals
+// back. A value keeps its placeholder for the whole request, so the model
+// can still tell [NAME_1] from [NAME_2]. Text sent to a hosted embedding
+// model is redacted the same way (`withEmbeddingRedaction`). Audio and
+// video sent for transcription can't be, and Settings says so.
+//
+// Names are found heuristically — after a title ("Dr. Jane Smith"), as a
+// transcript speaker label ("Jane Smith: ...") and from the user's own
+// list. There is no NER model here; the preview in Settings is the way to
+// check a text before relying on it.
+//
+// Each redacted request leaves a row in `redaction_audit` with counts per
+// category only; the original values never leave the function.
+//
+// The Supabase client is passed in so the pure helpers can be imported by
+// tests without credentials.
+
+// ============================================
+// TYPES
+// ============================================
+export const REDACTION_CATEGORIES = ["email", "phone", "name", "id", "custom"] as const;
+
+export type RedactionCategory = (typeof REDACTION_CATEGORIES)[number];
+
+export interface CustomPattern {
+  /** Shown in Settings and used for the placeholder, e.g. "Project code" → [PROJECT_CODE_1]. */
+  label: string;
+  pattern: string;
+  /** Treat `pattern` as a regular expression instead of literal text. */
+  regex?: boolean;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  /** Detectors to run; "custom" covers `names` and `customPatterns`. */
+  categories: RedactionCategory[];
+  /** People to always redact (participants, colleagues). */
+  names: string[];
+  customPatterns: CustomPattern[];
+}
+
+export interface Redaction {
+  placeholder: string;
+  category: RedactionCategory;
+  /** The custom pattern's label. */
+  label?: string;
+  original: string;
+  /** Times the value was replaced. */
+  occurrences: number;
+}
+
+/** What the audit keeps: no original values. */
+export interface RedactionSummary {
+  total: number;
+  counts: Partial<Record<RedactionCategory, number>>;
+  /** Labels of the custom patterns that matched. */
+  labels: string[];
+}
+
+export interface Redactor {
+  redact(text: string): string;
+  restore(text: string): string;
+  /** Every distinct value replaced so far. */
+  redactions(): Redaction[];
+  summary(): RedactionSummary;
+}
+
+export interface RedactionAuditEntry {
+  id: string;
+  endpoint: string;
+  provider: string | null;
+  total: number;
+  counts: RedactionSummary["counts"];
+  labels: string[];
+  createdAt: string;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  categories: [...REDACTION_CATEGORIES],
+  names: [],
+  customPatterns: [],
+};
+
+export const MAX_NAMES = 200;
+export const MAX_CUSTOM_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_LABEL_LENGTH = 40;
+/** Longest placeholder the stream restorer waits for, e.g. "[PROJECT_CODE_12]". */
+const MAX_PLACEHOLDER_LENGTH = MAX_LABEL_LENGTH + 8;
+
+const TAGS: Record<Exclude<RedactionCategory, "custom">, string> = {
+  email: "EMAIL",
+  phone: "PHONE",
+  name: "NAME",
+  id: "ID",
+};
+
+// ============================================
+// DETECTORS
+// ============================================
+// Each detector yields candidate spans; overlaps are resolved afterwards
+// (earliest first, then longest, then list order — so an SSN is an ID
+// rather than a phone number). `group` picks the part of the match to
+// replace, so "Dr. Jane Smith" keeps its title.
+
+interface Detector {
+  category: RedactionCategory;
+  label?: string;
+  regex: RegExp;
+  group?: number;
+  accept?: (value: string) => boolean;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  category: RedactionCategory;
+  label?: string;
+}
+
+const NAME_WORD = "[A-Z][a-z]+(?:['’-][A-Z]?[a-z]+)?";
+
+/** Capitalised words that open transcript lines but aren't people. */
+const NOT_NAMES = new Set([
+  "interviewer", "interviewee", "participant", "respondent", "speaker", "moderator",
+  "facilitator", "note", "notes", "summary", "abstract", "introduction", "conclusion",
+  "key", "findings", "question", "answer", "transcript", "source", "title", "date",
+  "time", "location", "action", "items", "next", "steps", "research", "method", "methods",
+  "results", "discussion", "background", "follow", "quote", "theme", "topic", "the",
+]);
+
+const digitCount = (value: string) => value.replace(/\D/g, "").length;
+
+/** Dates and year ranges look like phone numbers to the phone pattern. */
+const isPhoneNumber = (value: string) =>
+  digitCount(value) >= 7 &&
+  digitCount(value) <= 15 &&
+  !/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$/.test(value) &&
+  !/^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/.test(value) &&
+  !/^(1[5-9]|20)\d{2}\s*[-–]\s*(1[5-9]|20)\d{2}$/.test(value);
+
+/** Card numbers carry a Luhn check digit; random digit runs mostly don't. */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+const BUILT_IN_DETECTORS: Detector[] = [
+  { category: "email", regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  { category: "id", regex: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { category: "id", regex: /\b\d(?:[ -]?\d){12,18}\b/g, accept: passesLuhn },
+  { category: "id", regex: /\b[A-CEGHJ-PR-TW-Z]{2}\d{6}[A-D]\b/g },
+  // Participant / record codes: "P07", "PID-12", "MRN 448812", "participant #3"
+  { category: "id", regex: /\bP-?\d{1,4}\b/g },
+  { category: "id", regex: /\b(?:PID|MRN|participant|respondent|subject)[ #:-]{0,2}\d{1,10}\b/gi },
+  {
+    category: "phone",
+    regex: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,5}\)[ .-]?)?\d{2,5}(?:[ .-]\d{2,5}){1,4}(?![\w-])/g,
+    accept: isPhoneNumber,
+  },
+  {
+    category: "name",
+    regex: new RegExp(`\\b(?:Dr|Mr|Mrs|Ms|Mx|Prof|Professor)\\.? (${NAME_WORD}(?: ${NAME_WORD}){0,2})`, "g"),
+    group: 1,
+  },
+  {
+    category: "name",
+    regex: new RegExp(`^[ \\t]*(${NAME_WORD}(?: ${NAME_WORD}){1,2})[ \\t]*:`, "gm"),
+    group: 1,
+    accept: (value) => !value.split(" ").some((word) => NOT_NAMES.has(word.toLowerCase())),
+  },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Literal text, case-insensitive, not inside a longer word. */
+function literalRegex(text: string): RegExp {
+  const start = /^\w/.test(text) ? "(?<!\\w)" : "";
+  const end = /\w$/.test(text) ? "(?!\\w)" : "";
+  return new RegExp(`${start}${escapeRegExp(text)}${end}`, "giu");
+}
+
+function detectorsFor(settings: RedactionSettings): Detector[] {
+  const enabled = new Set(settings.categories);
+  const detectors = BUILT_IN_DETECTORS.filter((d) => enabled.has(d.category));
+
+  if (enabled.has("custom")) {
+    for (const name of settings.names) {
+      detectors.push({ category: "name", regex: literalRegex(name) });
+    }
+    for (const custom of settings.customPatterns) {
+      detectors.push({
+        category: "custom",
+        label: custom.label,
+        regex: custom.regex ? new RegExp(custom.pattern, "giu") : literalRegex(custom.pattern),
+      });
+    }
+  }
+  return detectors;
+}
+
+function findSpans(text: string, detectors: Detector[]): Span[] {
+  const spans: Span[] = [];
+  for (const detector of detectors) {
+    // `d` gives the group's indices
+    const regex = new RegExp(detector.regex.source, detector.regex.flags + "d");
+    for (const match of text.matchAll(regex)) {
+      const indices = match.indices?.[detector.group ?? 0];
+      if (!indices || indices[0] === indices[1]) continue;
+      const value = text.slice(indices[0], indices[1]);
+      if (detector.accept && !detector.accept(value)) continue;
+      spans.push({ start: indices[0], end: indices[1], category: detector.category, label: detector.label });
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: Span[] = [];
+  for (const span of spans) {
+    if (kept.length === 0 || span.start >= kept[kept.length - 1].end) kept.push(span);
+  }
+  return kept;
+}
+
+// ============================================
+// SETTINGS VALIDATION
+// ============================================
+
+/**
+ * Custom regexes are limited to a subset that can't backtrack badly: `*`,
+ * `+` and `{n,m}` repeat single characters, classes and escapes only, never
+ * a group (so `(a|aa)*` and `(\w|\d)+` are refused), at most one of them
+ * is open-ended (two, as in `.*.*x`, already backtrack quadratically on a
+ * miss), and there are no backreferences or lookarounds. Returns what was refused, or null. Expects a pattern that
+ * already compiles with the `u` flag.
+ */
+function unsafeRegexReason(pattern: string): string | null {
+  // What the next quantifier would apply to
+  let previous: "none" | "atom" | "group" | "quantifier" = "none";
+  let openRepeats = 0;
+  let i = 0;
+  while (i < pattern.length) {
+    const c = pattern[i];
+    if (c === "\\") {
+      const escaped = pattern[i + 1];
+      if (/[1-9k]/.test(escaped)) return "uses backreferences";
+      i += 2;
+      // \p{L}, \u{1F600}: skip the braces so they aren't read as a quantifier
+      if (/[pPu]/.test(escaped) && pattern[i] === "{") i = pattern.indexOf("}", i) + 1;
+      previous = "atom";
+    } else if (c === "[") {
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+      i++;
+      previous = "atom";
+    } else if (c === "(") {
+      if (pattern.startsWith("(?:", i)) i += 3;
+      else if (pattern[i + 1] === "?") return "uses lookarounds or named groups";
+      else i++;
+      previous = "none";
+    } else if (c === ")") {
+      i++;
+      previous = "group";
+    } else if (c === "*" || c === "+" || c === "{") {
+      if (previous === "group") return "repeats a group (nested repetition)";
+      const end = c === "{" ? pattern.indexOf("}", i) + 1 : i + 1;
+      if (c !== "{" || pattern[end - 2] === ",") openRepeats++;
+      if (openRepeats > 1) return "has more than one open-ended repeat (*, +, {n,})";
+      i = end;
+      previous = "quantifier";
+    } else if (c === "?") {
+      // Optional group, or the lazy marker after a quantifier: both bounded
+      i++;
+      previous = "quantifier";
+    } else {
+      i++;
+      previous = c === "|" ? "none" : "atom";
+    }
+  }
+  return null;
+}
+
+/** Rejects patterns that can't compile, match nothing, or backtrack badly. */
+export function checkCustomPattern(custom: CustomPattern): string | null {
+  const label = custom.label?.trim();
+  if (!label) return "Every pattern needs a label";
+  if (label.length > MAX_LABEL_LENGTH) return `Labels can be at most ${MAX_LABEL_LENGTH} characters`;
+  if (!/[A-Za-z0-9]/.test(label)) return "Labels need at least one letter or digit";
+  if (!custom.pattern?.trim()) return `"${label}" has no pattern`;
+  if (custom.pattern.length > MAX_PATTERN_LENGTH) {
+    return `"${label}" is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (!custom.regex) return null;
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(custom.pattern, "giu");
+  } catch (err) {
+    return `"${label}" is not a valid regular expression: ${(err as Error).message}`;
+  }
+  if (regex.test("")) return `"${label}" matches empty text`;
+  const unsafe = unsafeRegexReason(custom.pattern);
+  return unsafe ? `"${label}" ${unsafe}, which is not allowed` : null;
+}
+
+/** Normalises settings sent by the browser; `error` says what was wrong. */
+export function checkRedactionSettings(input: unknown): { settings?: RedactionSettings; error?: string } {
+  if (!input || typeof input !== "object") return { error: "settings must be an object" };
+  const raw = input as Record<string, unknown>;
+
+  const categories = Array.isArray(raw.categories) ? raw.categories : [];
+  if (!categories.every((c) => (REDACTION_CATEGORIES as readonly unknown[]).includes(c))) {
+    return { error: `categories must be among: ${REDACTION_CATEGORIES.join(", ")}` };
+  }
+
+  const names = Array.isArray(raw.names) ? raw.names : [];
+  if (!names.every((n) => typeof n === "string")) return { error: "names must be a list of text" };
+  const cleanNames = [...new Set((names as string[]).map((n) => n.trim()).filter(Boolean))];
+  if (cleanNames.length > MAX_NAMES) return { error: `At most ${MAX_NAMES} names` };
+  if (cleanNames.some((n) => n.length > MAX_PATTERN_LENGTH)) {
+    return { error: `Names can be at most ${MAX_PATTERN_LENGTH} characters` };
+  }
+
+  const patterns: Array<Record<string, unknown> | null> = Array.isArray(raw.customPatterns) ? raw.customPatterns : [];
+  if (patterns.length > MAX_CUSTOM_PATTERNS) return { error: `At most ${MAX_CUSTOM_PATTERNS} custom patterns` };
+  const customPatterns: CustomPattern[] = [];
+  for (const p of patterns) {
+    const custom: CustomPattern = {
+      label: typeof p?.label === "string" ? p.label.trim() : "",
+      pattern: typeof p?.pattern === "string" ? p.pattern : "",
+      regex: p?.regex === true,
+    };
+    const error = checkCustomPattern(custom);
+    if (error) return { error };
+    customPatterns.push(custom);
+  }
+
+  return {
+    settings: {
+      enabled: raw.enabled === true,
+      categories: REDACTION_CATEGORIES.filter((c) => categories.includes(c)),
+      names: cleanNames,
+      customPatterns,
+    },
+  };
+}
+
+// ============================================
+// REDACTOR
+// ============================================
+const PLACEHOLDER_PATTERN = /\[([A-Z0-9]+(?:_[A-Z0-9]+)*_\d+)\]/g;
+
+const tagFor = (category: RedactionCategory, label?: string) =>
+  category === "custom"
+    ? (label || "custom").toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "CUSTOM"
+    : TAGS[category];
+
+/**
+ * Keeps one request's placeholder mapping. `redact` may be called for
+ * every field of a request (and again on fallback attempts): the same
+ * value always gets the same placeholder and is counted once per field.
+ */
+export function createRedactor(settings: RedactionSettings): Redactor {
+  const detectors = detectorsFor(settings);
+  const byValue = new Map<string, Redaction>();
+  const byPlaceholder = new Map<string, Redaction>();
+  const counters = new Map<string, number>();
+  const done = new Map<string, string>();
+
+  const placeholderFor = (value: string, span: Span, text: string): Redaction => {
+    const key = `${span.category}\u0000${value.toLowerCase()}`;
+    let entry = byValue.get(key);
+    if (!entry) {
+      const tag = tagFor(span.category, span.label);
+      let n = counters.get(tag) ?? 0;
+      let placeholder: string;
+      // Skip numbers whose placeholder already appears in the text itself
+      do placeholder = `[${tag}_${++n}]`;
+      while (text.includes(placeholder));
+      counters.set(tag, n);
+      entry = { placeholder, category: span.category, label: span.label, original: value, occurrences: 0 };
+      byValue.set(key, entry);
+      byPlaceholder.set(placeholder, entry);
+    }
+    return entry;
+  };
+
+  const redact = (text: string): string => {
+    if (!text || detectors.length === 0) return text;
+    const cached = done.get(text);
+    if (cached !== undefined) return cached;
+
+    let spans = findSpans(text, detectors);
+    // A name found once ("Dr. Jane Smith") is redacted everywhere ("Jane Smith said")
+    const found = [...new Set(spans.filter((s) => s.category === "name").map((s) => text.slice(s.start, s.end)))];
+    if (found.length > 0) {
+      const repeats = found.map((value) => ({ category: "name" as const, regex: literalRegex(value) }));
+      spans = findSpans(text, [...detectors, ...repeats]);
+    }
+
+    let output = "";
+    let cursor = 0;
+    for (const span of spans) {
+      const entry = placeholderFor(text.slice(span.start, span.end), span, text);
+      entry.occurrences++;
+      output += text.slice(cursor, span.start) + entry.placeholder;
+      cursor = span.end;
+    }
+    output += text.slice(cursor);
+    done.set(text, output);
+    return output;
+  };
+
+  const restore = (text: string): string =>
+    byPlaceholder.size === 0
+      ? text
+      : text.replace(PLACEHOLDER_PATTERN, (match) => byPlaceholder.get(match)?.original ?? match);
+
+  const redactions = () => [...byValue.values()];
+
+  const summary = (): RedactionSummary => {
+    const counts: RedactionSummary["counts"] = {};
+    const labels = new Set<string>();
+    let total = 0;
+    for (const entry of byValue.values()) {
+      counts[entry.category] = (counts[entry.category] ?? 0) + entry.occurrences;
+      total += entry.occurrences;
+      if (entry.label) labels.add(entry.label);
+    }
+    return { total, counts, labels: [...labels] };
+  };
+
+  return { redact, restore, redactions, summary };
+}
+
+/**
+ * Restores placeholders in streamed text. A placeholder split across
+ * deltas ("[NAM" + "E_1]") is held back until it is complete.
+ */
+export async function* restoreStream(redactor: Redactor, deltas: AsyncIterable<string>): AsyncIterable<string> {
+  let pending = "";
+  for await (const delta of deltas) {
+    pending += delta;
+    const open = pending.lastIndexOf("[");
+    const unfinished = open >= 0 && !pending.includes("]", open) && pending.length - open <= MAX_PLACEHOLDER_LENGTH;
+    const ready = unfinished ? pending.slice(0, open) : pending;
+    pending = unfinished ? pending.slice(open) : "";
+    if (ready) yield redactor.restore(ready);
+  }
+  if (pending) yield redactor.restore(pending);
+}
+
+// ============================================
+// CHAIN WRAPPER
+// ============================================
+const redactRequest = (redactor: Redactor, request: AiRequest): AiRequest => ({
+  ...request,
+  system: request.system === undefined ? undefined : redactor.redact(request.system),
+  prompt: redactor.redact(request.prompt),
+});
+
+/**
+ * Wraps every provider of a chain so it only ever sees redacted text and
+ * returns restored text. `null` (redaction off) returns the chain as is.
+ */
+export function withRedaction(chain: AiProvider[], redactor: Redactor | null): AiProvider[] {
+  if (!redactor) return chain;
+  return chain.map((provider): AiProvider => {
+    const stream = provider.stream;
+    return {
+      ...provider,
+      call: async (request, key, signal) =>
+        redactor.restore(await provider.call(redactRequest(redactor, request), key, signal)),
+      stream: stream
+        ? (request, key, signal) => restoreStream(redactor, stream.call(provider, redactRequest(redactor, request), key, signal))
+        : undefined,
+    };
+  });
+}
+
+/**
+ * Embedder that only ever sees redacted text. The chunks stored next to
+ * the vectors keep the original text; only the embedding call is redacted.
+ */
+export function withEmbeddingRedaction(embedder: Embedder, redactor: Redactor | null): Embedder {
+  if (!redactor) return embedder;
+  return { ...embedder, embed: (texts, kind) => embedder.embed(texts.map(redactor.redact), kind) };
+}
+
+// ============================================
+// STORAGE
+// ============================================
+/** Postgres "undefined table" and PostgREST "table not in schema cache". */
+const MISSING_TABLE_CODES = ["42P01", "PGRST205"];
+
+const fromRow = (row: any): RedactionSettings => ({
+  enabled: row.enabled === true,
+  categories: (row.categories || []).filter((c: unknown) => (REDACTION_CATEGORIES as readonly unknown[]).includes(c)),
+  names: row.names || [],
+  customPatterns: row.custom_patterns || [],
+});
+
+export async function getRedactionSettings(supabase: SupabaseClient, userId: string): Promise<RedactionSettings> {
+  const { data, error } = await supabase
+    .from("redaction_settings")
+    .select("enabled, categories, names, custom_patterns")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  // Before the migration has run nobody can have turned redaction on
+  if (error && MISSING_TABLE_CODES.includes(error.code)) return { ...DEFAULT_REDACTION_SETTINGS };
+  if (error) throw new Error(error.message);
+  return data ? fromRow(data) : { ...DEFAULT_REDACTION_SETTINGS };
+}
+
+/**
+ * The user's redactor, or null when redaction is off. Throws when the
+ * settings can't be read, so text is never sent unredacted by accident.
+ */
+export async function loadRedactor(supabase: SupabaseClient, userId: string): Promise<Redactor | null> {
+  const settings = await getRedactionSettings(supabase, userId);
+  return settings.enabled ? createRedactor(settings) : null;
+}
+
+export async function saveRedactionSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: RedactionSettings,
+): Promise<void> {
+  const { error } = await supabase.from("redaction_settings").upsert(
+    {
+      user_id: userId,
+      enabled: settings.enabled,
+      categories: settings.categories,
+      names: settings.names,
+      custom_patterns: settings.customPatterns,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" },
+  );
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Writes the audit row for one AI request. Best effort: the answer is
+ * already there, so a failed write is logged rather than thrown.
+ */
+export async function recordRedaction(
+  supabase: SupabaseClient,
+  userId: string,
+  context: { endpoint: string; provider?: string },
+  redactor: Redactor | null,
+): Promise<void> {
+  if (!redactor) return;
+  const { total, counts, labels } = redactor.summary();
+  const { error } = await supabase.from("redaction_audit").insert({
+    user_id: userId,
+    endpoint: context.endpoint,
+    provider: context.provider ?? null,
+    total,
+    counts,
+    labels,
+  });
+  if (error) console.warn("Redaction audit write failed:", error.message);
+}
+
+export async function listRedactionAudit(
+  supabase: SupabaseClient,
+  userId: string,
+  limit: number,
+): Promise<RedactionAuditEntry[]> {
+  const { data, error } = await supabase
+    .from("redaction_audit")
+    .select("id, endpoint, provider, total, counts, labels, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return (data || []).map((row) => ({
+    id: row.id,
+    endpoint: row.endpoint,
+    provider: row.provider,
+    total: row.total,
+    counts: row.counts || {},
+    labels: row.labels || [],
+    createdAt: row.created_at,
+  }));
+}
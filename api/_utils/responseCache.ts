@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AiProvider } from "./aiRouter.js";
+
+// ============================================
+// AI RESPONSE CACHE
+// ============================================
+// Answers to text-in / text-out AI calls (summaries, tags, insights) are
+// kept per user in `ai_response_cache`, keyed by endpoint, mode, the model
+// chain and a hash of the normalized input text. Asking for the same thing
+// again within the TTL returns the stored answer without calling a
+// provider or charging a credit; the response says `cached: true`.
+// Requests with `refresh: true` skip the lookup and overwrite the entry.
+//
+// The input text itself is never stored, only its hash. A cache problem
+// never fails a request: a failed lookup is a miss, a failed write is
+// logged.
+//
+// The Supabase client is passed in so the pure helpers can be imported by
+// tests without credentials.
+
+// ============================================
+// TYPES
+// ============================================
+export interface CacheKeyParts {
+  endpoint: string;
+  /** Anything besides the text that changes the answer (summary mode, requested fields). */
+  mode?: string;
+  /** See `chainSignature`. */
+  model: string;
+  text: string;
+}
+
+export interface CachedResponse<T> {
+  value: T;
+  provider: string | null;
+  createdAt: string;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+export const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+
+/** AI_CACHE_TTL_HOURS, 0 turns the cache off. */
+export function cacheTtlSeconds(): number {
+  const hours = Number(process.env.AI_CACHE_TTL_HOURS ?? DEFAULT_CACHE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? Math.round(hours * 3600) : 0;
+}
+
+// ============================================
+// KEYS
+// ============================================
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+/**
+ * Whitespace and line-ending differences (a re-pasted text, a re-run OCR
+ * with trailing spaces) should not defeat the cache; wording and case do.
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The configured providers and models a request would run on, in order.
+ * Adding a personal key or changing a deployment's model changes it, so
+ * answers from the old setup are not served for the new one.
+ */
+export function chainSignature(chain: AiProvider[]): string {
+  return chain
+    .filter((provider) => provider.keys.length > 0)
+    .map((provider) => `${provider.name}:${provider.model ?? ""}`)
+    .join(">");
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return sha256(JSON.stringify([parts.endpoint, parts.mode ?? "", parts.model, sha256(normalizeCacheText(parts.text))]));
+}
+
+// ============================================
+// STORAGE
+// ============================================
+export async function readCache<T>(
+  supabase: SupabaseClient,
+  userId: string,
+  key: string,
+): Promise<CachedResponse<T> | null> {
+  if (cacheTtlSeconds() === 0) return null;
+
+  const { data, error } = await supabase
+    .from("ai_response_cache")
+    .select("response, provider, created_at")
+    .eq("user_id", userId)
+    .eq("cache_key", key)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Response cache unavailable:", error.message);
+    return null;
+  }
+  return data ? { value: data.response as T, provider: data.provider, createdAt: data.created_at } : null;
+}
+
+export async function writeCache(
+  supabase: SupabaseClient,
+  userId: string,
+  key: string,
+  entry: { endpoint: string; value: unknown; provider?: string },
+): Promise<void> {
+  const ttl = cacheTtlSeconds();
+  if (ttl === 0) return;
+
+  const now = Date.now();
+  const { error } = await supabase.from("ai_response_cache").upsert(
+    {
+      user_id: userId,
+      cache_key: key,
+      endpoint: entry.endpoint,
+      response: entry.value,
+      provider: entry.provider ?? null,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttl * 1000).toISOString(),
+    },
+    { onConflict: "user_id,cache_key" },
+  );
+  if (error) console.warn("Response cache write failed:", error.message);
+}
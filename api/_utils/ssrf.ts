@@ -0,0 +1,156 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+// ============================================
+// SSRF GUARD
+// ============================================
+// Shared by every endpoint that fetches a URL supplied by a user: RSS feeds
+// (rss.ts) and users' own OpenAI-compatible AI endpoints (aiRouter.ts).
+// A URL passes only when it is http(s), carries no credentials and its host
+// — and every address that host resolves to — is public. Errors carry a
+// client-safe message.
+//
+// The check covers one URL only, so callers fetch with `redirect: "manual"`
+// and either re-check every hop (rss.ts) or refuse redirects (aiRouter.ts,
+// keyVault.ts).
+
+// Hostnames that must never be fetched, regardless of what they resolve to
+const BLOCKED_HOSTNAMES = [
+  "localhost",
+  "metadata.google.internal",
+  "metadata",
+  "instance-data",
+];
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".lan", ".home.arpa"];
+
+export interface PublicUrlRules {
+  /** Noun used in error messages, e.g. "feed" → "Feed host is not allowed". */
+  label?: string;
+  /** Explicit ports that are allowed; any port when omitted. */
+  allowedPorts?: string[];
+}
+
+// ============================================
+// ADDRESS CHECKS
+// ============================================
+function ipv4ToInt(ip: string): number {
+  return ip
+    .split(".")
+    .reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+}
+
+function inIpv4Range(ip: string, base: string, bits: number): boolean {
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return (ipv4ToInt(ip) & mask) === (ipv4ToInt(base) & mask);
+}
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local + cloud metadata (169.254.169.254)
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // TEST-NET-1
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // TEST-NET-2
+  ["203.0.113.0", 24], // TEST-NET-3
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved + broadcast
+];
+
+function isPrivateIpv4(ip: string): boolean {
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => inIpv4Range(ip, base, bits));
+}
+
+function isPrivateIpv6(ip: string): boolean {
+  const addr = ip.toLowerCase().replace(/^\[|\]$/g, "");
+
+  // IPv4-mapped / IPv4-compatible (::ffff:10.0.0.1, ::10.0.0.1)
+  const mapped = addr.match(/^(?:::ffff:|::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIpv4(mapped[1]);
+
+  // Hex-form IPv4-mapped (::ffff:a00:1)
+  const hexMapped = addr.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hexMapped) {
+    const hi = parseInt(hexMapped[1], 16);
+    const lo = parseInt(hexMapped[2], 16);
+    return isPrivateIpv4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+
+  if (addr === "::" || addr === "::1") return true;
+  if (/^f[cd][0-9a-f]{2}:/.test(addr)) return true; // fc00::/7 unique local
+  if (/^fe[89ab][0-9a-f]:/.test(addr)) return true; // fe80::/10 link-local
+  if (/^ff[0-9a-f]{2}:/.test(addr)) return true; // ff00::/8 multicast
+  if (addr.startsWith("64:ff9b:")) return true; // NAT64 can reach private v4
+  if (addr.startsWith("2001:db8:")) return true; // documentation
+  return false;
+}
+
+export function isPrivateAddress(ip: string): boolean {
+  const family = isIP(ip.replace(/^\[|\]$/g, ""));
+  if (family === 4) return isPrivateIpv4(ip);
+  if (family === 6) return isPrivateIpv6(ip);
+  return true; // Unknown format — refuse
+}
+
+// ============================================
+// URL CHECK
+// ============================================
+/**
+ * Validates a URL and every address its hostname resolves to.
+ * WHATWG `URL` already canonicalizes octal/hex/short IPv4 forms
+ * (e.g. `http://0x7f.1/` → `127.0.0.1`), so checks run on the normalized host.
+ * Throws with a client-safe message if the target is not allowed.
+ */
+export async function assertPublicUrl(rawUrl: string, rules: PublicUrlRules = {}): Promise<URL> {
+  const label = rules.label ?? "target";
+  const Label = label.charAt(0).toUpperCase() + label.slice(1);
+
+  let parsed: URL;
+  try {
+    parsed = new URL(rawUrl);
+  } catch {
+    throw new Error(`Invalid ${label} URL`);
+  }
+
+  if (!["http:", "https:"].includes(parsed.protocol)) {
+    throw new Error(`Only http(s) ${label} URLs are allowed`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error(`${Label} URLs must not contain credentials`);
+  }
+  if (parsed.port && rules.allowedPorts && !rules.allowedPorts.includes(parsed.port)) {
+    throw new Error(`${Label} URL port is not allowed`);
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  if (
+    BLOCKED_HOSTNAMES.includes(hostname) ||
+    BLOCKED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    throw new Error(`${Label} host is not allowed`);
+  }
+
+  const bareHost = hostname.replace(/^\[|\]$/g, "");
+  if (isIP(bareHost)) {
+    if (isPrivateAddress(bareHost)) throw new Error(`${Label} host is not allowed`);
+    return parsed;
+  }
+
+  // Resolve and check EVERY address — a hostname with one public and one
+  // private A record must be rejected, otherwise the fetch could land on either.
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(bareHost, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`${Label} host could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new Error(`${Label} host is not allowed`);
+  }
+
+  return parsed;
+}
@@ -1,23 +1,36 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+  supabase,
+} from "./_utils/auth.js";
+import {
+  type AiProvider,
+  type AiRequest,
+  AiRouterError,
+  aiErrorResponse,
+  defaultAiChain,
+  routeAiRequest,
+  streamAiRequest,
+} from "./_utils/aiRouter.js";
+import { getEmbedder } from "./_utils/embeddings.js";
+import {
+  CITATION_INSTRUCTION,
+  type RetrievalSource,
+  buildRetrievalContext,
+  indexLibrary,
+  retrieveChunks,
+} from "./_utils/rag.js";
+import { loadRedactor, recordRedaction, withEmbeddingRedaction, withRedaction } from "./_utils/redaction.js";
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const GEMINI_MODEL = "gemini-2.5-flash";
-const GEMINI_ENDPOINT =
-  "https://generativelanguage.googleapis.com/v1beta/models";
-
-// Fallback 1: OpenRouter (Grok)
-const OPENROUTER_MODEL = "x-ai/grok-2-1212"; // User requested
-const OPENROUTER_ENDPOINT = "https://openrouter.ai/api/v1/chat/completions";
-
-// Fallback 2: Groq (Llama 3.3 70B)
-// Old "llama3-70b-8192" is deprecated. Using new stable model.
-const GROQ_MODEL = "llama-3.3-70b-versatile";
-const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
-
 const SYSTEM_INSTRUCTION = `
 You are ResearchMate, an expert academic research assistant.
 Your purpose is to help users deeply analyze research papers, academic text, and scholarly content.
@@ -49,139 +62,102 @@ STRICT GUARDRAILS:
 `.trim();
 
 // ============================================
-// KEY ROTATION HELPER (GEMINI)
+// LIBRARY RETRIEVAL
 // ============================================
-function getRandomGeminiKey(): string | undefined {
-  const multipleKeys = process.env.GEMINI_API_KEYS;
-  if (multipleKeys) {
-    const keys = multipleKeys
-      .split(",")
-      .map((k) => k.trim())
-      .filter(Boolean);
-    if (keys.length > 0) {
-      return keys[Math.floor(Math.random() * keys.length)];
+// Grounds the answer in the user's whole library: the chunk index is brought
+// up to date, the top-k excerpts for the question are added to the prompt and
+// the model is asked to cite them as [[item:<id>]]. Retrieval problems are
+// logged and the chat carries on with the client-supplied context only.
+async function retrieveLibraryContext(userId: string, message: string, customKey?: string) {
+  try {
+    const base = getEmbedder(customKey);
+    const redactor = base.local ? null : await loadRedactor(supabase, userId);
+    const embedder = withEmbeddingRedaction(base, redactor);
+    const indexed = await indexLibrary(supabase, userId, embedder);
+    if (indexed.indexedChunks > 0) {
+      console.log(`📚 Indexed ${indexed.indexedChunks} chunks from ${indexed.indexedItems} items`);
     }
+    const chunks = await retrieveChunks(supabase, userId, message, embedder);
+    await recordRedaction(supabase, userId, { endpoint: "chat", provider: embedder.model }, redactor);
+    return chunks.length > 0 ? buildRetrievalContext(chunks) : null;
+  } catch (error) {
+    console.error("Library retrieval failed:", error);
+    return null;
   }
-  return process.env.GEMINI_API_KEY; // Fallback
 }
 
 // ============================================
-// AI PROVIDER 1: GEMINI (Primary)
+// STREAMING MODE (Server-Sent Events)
 // ============================================
-async function callGeminiAPI(
-  prompt: string,
-  apiKey: string,
-  options: any = {},
+// Events are an optional `data: {"type":"sources","items":[{id,title}]}`,
+// then `{"type":"delta","text"}` chunks, then one of
+// `{"type":"done","provider","credits_remaining"}` or `{"type":"error","error","code"}`.
+// The credit is charged only after the full answer has been produced, and
+// refunded if the client disconnects before the `done` event is sent. If
+// the balance ran out meanwhile the stream ends with a NO_CREDITS error
+// instead of `done`.
+async function streamChat(
+  res: VercelResponse,
+  request: AiRequest,
+  chain: AiProvider[],
+  chargeUserId: string | null,
+  sources: RetrievalSource[],
+  recordAudit: (provider: string) => Promise<void>,
 ) {
-  const url = `${GEMINI_ENDPOINT}/${GEMINI_MODEL}:generateContent?key=${apiKey}`;
-
-  const fullPrompt = `${SYSTEM_INSTRUCTION}\n\nUSER REQUEST:\n${prompt}`;
-
-  const requestBody = {
-    contents: [{ parts: [{ text: fullPrompt }] }],
-    generationConfig: {
-      temperature: options.temperature || 0.7,
-      maxOutputTokens: options.maxTokens || 4096,
-    },
-  };
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(requestBody),
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  const send = (event: Record<string, unknown>) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+  // Stop button / navigation closes the connection before we end the response
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
   });
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `Gemini Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
-  }
+  if (sources.length > 0) send({ type: "sources", items: sources });
 
-  const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 2: OPENROUTER (Fallback 1)
-// ============================================
-async function callOpenRouterAPI(prompt: string, options: any = {}) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OpenRouter API Key not configured.");
-  }
-
-  const response = await fetch(OPENROUTER_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": "https://researchmate.vercel.app",
-      "X-Title": "ResearchMate",
-    },
-    body: JSON.stringify({
-      model: OPENROUTER_MODEL,
-      messages: [
-        { role: "system", content: SYSTEM_INSTRUCTION },
-        { role: "user", content: prompt },
-      ],
-      temperature: options.temperature || 0.7,
-      max_tokens: options.maxTokens || 4096,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `OpenRouter Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
+  let charged = false;
+  const ledger: CreditContext = { endpoint: "chat" };
+  try {
+    const result = await streamAiRequest(
+      request,
+      chain,
+      (delta) => send({ type: "delta", text: delta }),
+      controller.signal,
     );
-  }
+    await recordAudit(result.provider);
 
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 3: GROQ (Fallback 2)
-// ============================================
-async function callGroqAPI(prompt: string, options: any = {}) {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error("Groq API Key not configured.");
-  }
-
-  const response = await fetch(GROQ_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: GROQ_MODEL,
-      messages: [
-        { role: "system", content: SYSTEM_INSTRUCTION },
-        { role: "user", content: prompt },
-      ],
-      temperature: options.temperature || 0.7,
-      max_tokens: options.maxTokens || 4096,
-    }),
-  });
+    let creditsRemaining: number | string = "Unlimited";
+    if (chargeUserId && !result.userKey) {
+      ledger.provider = result.provider;
+      const balance = await deductCredit(chargeUserId, ledger);
+      if (balance === null) {
+        send({ type: "error", ...NO_CREDITS_BODY });
+        return;
+      }
+      creditsRemaining = balance;
+      charged = true;
+    }
+    if (controller.signal.aborted) throw new Error("Client disconnected");
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `Groq Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
+    send({ type: "done", provider: result.provider, credits_remaining: creditsRemaining });
+  } catch (error) {
+    if (charged && chargeUserId) await refundCredit(chargeUserId, ledger);
+    if (controller.signal.aborted) {
+      console.log("⏹️ Chat stream cancelled by client");
+    } else if (error instanceof AiRouterError) {
+      console.error("Chat stream failed:", error.message);
+      send({ type: "error", ...aiErrorResponse(error).body });
+    } else {
+      console.error("Chat stream error:", error);
+      send({ type: "error", error: "An internal error occurred. Please try again." });
+    }
+  } finally {
+    res.end();
   }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
 }
 
 // ============================================
@@ -197,10 +173,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "chat" };
 
   try {
     // 1. Authenticate & Check Credits
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "chat" });
 
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
@@ -209,100 +186,75 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const { user, isFreeTier, customKey } = authResult;
+    const { user, customKey, userKeys } = authResult;
     const userId = user?.id;
 
     // 2. Prepare Request
-    const { message, context } = req.body;
+    const { message, context, stream, retrieve } = req.body;
     if (!message) return res.status(400).json({ error: "Message is required" });
 
-    const keyToUse = customKey || getRandomGeminiKey();
-    if (!keyToUse)
-      return res
-        .status(500)
-        .json({ error: "Server misconfiguration: No API keys." });
-
-    const prompt = `Use this context to answer the user.\n\nCONTEXT:\n${context || "No context."}\n\nMessage: ${message}`;
-    let responseText = "";
-
-    // 3. Call AI (With 3-Layer Fallback)
-    const errors: string[] = [];
-
-    try {
-      // Attempt 1: Gemini
-      responseText = await callGeminiAPI(prompt, keyToUse);
-    } catch (geminiError) {
-      const msg = `Gemini Failed: ${(geminiError as Error).message}`;
-      console.warn(msg);
-      errors.push(msg);
-
-      // Attempt 2: OpenRouter (Fallback 1)
-      if (process.env.OPENROUTER_API_KEY) {
-        console.log("🔄 Switching to Fallback 1: OpenRouter (Grok)...");
-        try {
-          responseText = await callOpenRouterAPI(prompt);
-        } catch (openRouterError) {
-          const msg = `OpenRouter Failed: ${(openRouterError as Error).message}`;
-          console.warn(msg);
-          errors.push(msg);
-
-          // Attempt 3: Groq (Fallback 2)
-          if (process.env.GROQ_API_KEY) {
-            console.log("🔄 Switching to Fallback 2: Groq (Llama 3)...");
-            try {
-              responseText = await callGroqAPI(prompt);
-            } catch (groqError) {
-              const msg = `Groq Failed: ${(groqError as Error).message}`;
-              console.error(msg);
-              errors.push(msg);
-              // All failed
-              throw new Error(
-                `All providers failed. Logs: ${errors.join(" | ")}`,
-              );
-            }
-          } else {
-            const msg = "Groq Skipped: No GROQ_API_KEY found.";
-            errors.push(msg);
-            throw new Error(
-              `Gemini/OpenRouter failed. Logs: ${errors.join(" | ")}`,
-            );
-          }
-        }
-      } else if (process.env.GROQ_API_KEY) {
-        // OpenRouter Key missing, but Groq exists, try Groq directly
-        console.log(
-          "🔄 OpenRouter Key missing. Switching to Fallback 2: Groq...",
-        );
-        try {
-          responseText = await callGroqAPI(prompt);
-        } catch (groqError) {
-          const msg = `Groq Failed: ${(groqError as Error).message}`;
-          errors.push(msg);
-          throw new Error(`Gemini/Groq failed. Logs: ${errors.join(" | ")}`);
-        }
-      } else {
-        const msg =
-          "Fallbacks Skipped: No OPENROUTER_API_KEY or GROQ_API_KEY found.";
-        errors.push(msg);
-        throw new Error(msg);
+    const library = retrieve && userId ? await retrieveLibraryContext(userId, message, customKey) : null;
+    const sources = library?.sources || [];
+
+    const prompt = [
+      `Use this context to answer the user.\n\nCONTEXT:\n${context || "No context."}`,
+      library ? `LIBRARY EXCERPTS:\n${library.context}` : "",
+      `Message: ${message}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const request: AiRequest = {
+      system: library ? `${SYSTEM_INSTRUCTION}\n\n${CITATION_INSTRUCTION}` : SYSTEM_INSTRUCTION,
+      prompt,
+      temperature: 0.7,
+      maxTokens: 4096,
+    };
+
+    // Redacted if the user asked for it; the audit row is written once the answer is in
+    const redactor = userId ? await loadRedactor(supabase, userId) : null;
+    const chain = withRedaction(defaultAiChain(userKeys), redactor);
+    const recordAudit = async (provider: string) => {
+      if (userId) await recordRedaction(supabase, userId, { endpoint: "chat", provider }, redactor);
+    };
+
+    if (stream) {
+      // Streamed text can't be taken back, so an empty balance is refused up
+      // front whenever the server's keys may answer (BYOK keys fall back to them)
+      const reachesServerKeys = chain.some((provider) => !provider.userKey && provider.keys.length > 0);
+      if (reachesServerKeys && (authResult.credits ?? 0) < 1) {
+        return res.status(403).json(NO_CREDITS_BODY);
       }
+      return await streamChat(res, request, chain, userId ?? null, sources, recordAudit);
     }
 
-    // 4. Deduct Credit (Only if success)
+    // 3. Call AI (Gemini → OpenRouter → Groq)
+    const { text: responseText, provider, userKey } = await routeAiRequest(request, chain);
+    await recordAudit(provider);
+
+    // 4. Deduct Credit (Only if success, and not for the user's own keys)
     let creditsRemaining: number | string = "Unlimited";
-    if (isFreeTier && userId) {
-      creditsRemaining = await deductCredit(userId);
+    if (userId && !userKey) {
+      ledger.provider = provider;
+      const balance = await deductCredit(userId, ledger);
+      if (balance === null) return res.status(403).json(NO_CREDITS_BODY);
+      creditsRemaining = balance;
       creditDeducted = true;
       deductedUserId = userId;
     }
 
     return res.status(200).json({
       response: responseText,
+      sources,
+      provider,
       credits_remaining: creditsRemaining,
     });
   } catch (error) {
     console.error("Chat API Error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
+    if (error instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(error);
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: "An internal error occurred. Please try again." });
   }
 }
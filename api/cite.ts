@@ -4,7 +4,15 @@
 // ============================================
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+} from "./_utils/auth.js";
+import { buildCslItem, CslItem } from "./_utils/csl.js";
 
 
 async function safeJsonParse(response: Response): Promise<any | null> {
@@ -111,9 +119,20 @@ async function lookupDOIData(doi: string) {
                     type: "academic",
                     data: {
                         title: Array.isArray(work.title) ? work.title[0] : work.title || "Unknown Title",
-                        authors: work.author ? work.author.map((a:any) => ({fullName: `${a.given || ''} ${a.family || ''}`.trim()})) : [],
+                        authors: work.author ? work.author.map((a:any) => ({
+                          fullName: `${a.given || ''} ${a.family || ''}`.trim() || a.name || "",
+                          firstName: a.given || "",
+                          lastName: a.family || "",
+                        })) : [],
                         journal: Array.isArray(work["container-title"]) ? work["container-title"][0] : work["container-title"] || "",
+                        publisher: work.publisher || undefined,
+                        volume: work.volume || undefined,
+                        issue: work.issue || undefined,
+                        pages: work.page || undefined,
+                        workType: work.type,
                         publishYear: work.published?.["date-parts"]?.[0]?.[0]?.toString() || "n.d.",
+                        publishMonth: work.published?.["date-parts"]?.[0]?.[1]?.toString().padStart(2, "0"),
+                        publishDay: work.published?.["date-parts"]?.[0]?.[2]?.toString().padStart(2, "0"),
                         doi: cleanedDOI,
                         url: work.URL || `https://doi.org/${cleanedDOI}`
                     }
@@ -171,6 +190,36 @@ async function lookupYouTubeData(url: string) {
     return null;
 }
 
+// ============================================
+// PART 4: CSL CONVERSION
+// ============================================
+function toCsl(result: { type: string; data: any }): CslItem {
+    const { data } = result;
+    switch (result.type) {
+        case "book":
+            return buildCslItem({
+                ...data,
+                url: `https://openlibrary.org/isbn/${data.isbn}`,
+                type: "book",
+            }, "book");
+        case "academic":
+            return buildCslItem({
+                ...data,
+                publishDate: data.publishMonth
+                    ? `${data.publishYear}-${data.publishMonth}${data.publishDay ? `-${data.publishDay}` : ""}`
+                    : data.publishYear,
+                type: data.workType,
+            }, "article-journal");
+        default:
+            return buildCslItem({
+                ...data,
+                authors: data.channelTitle ? [{ literal: data.channelTitle }] : [],
+                siteName: "YouTube",
+                type: "motion_picture",
+            }, "motion_picture");
+    }
+}
+
 // ============================================
 // MAIN HANDLER
 // ============================================
@@ -182,9 +231,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "cite" };
 
   try {
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "cite" });
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
         error: authResult.error,
@@ -213,16 +263,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     if (authResult.isFreeTier && authResult.user?.id) {
-      await deductCredit(authResult.user.id);
+      if ((await deductCredit(authResult.user.id, ledger)) === null) {
+        return res.status(403).json(NO_CREDITS_BODY);
+      }
       creditDeducted = true;
       deductedUserId = authResult.user.id;
     }
 
-    return res.status(200).json(result);
+    return res.status(200).json({ ...result, csl: toCsl(result) });
 
   } catch (error) {
     console.error("Citation error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
     return res.status(500).json({ error: (error as Error).message });
   }
 }
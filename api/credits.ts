@@ -0,0 +1,101 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { authenticateUser, setCorsHeaders, supabase } from "./_utils/auth.js";
+import {
+  type CreditTransaction,
+  type UsageRow,
+  TRANSACTION_COLUMNS,
+  summarizeUsage,
+  windowStart,
+} from "./_utils/creditLedger.js";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+// GET /api/credits?days=30&limit=50&before=<ISO timestamp>
+// Returns the caller's balance, a usage summary for the last `days` days
+// (per endpoint and per day) and one page of the credit ledger, newest
+// first. Pass the last row's `created_at` as `before` for the next page.
+// The summary is grouped in SQL (credit_usage_summary), so it covers every
+// transaction in the window.
+// Reading the history is free.
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const clampInt = (value: unknown, fallback: number, max: number) => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 1 ? Math.min(n, max) : fallback;
+};
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET")
+    return res.status(405).json({ error: "Method not allowed" });
+
+  try {
+    // 1. Authenticate
+    const authResult = await authenticateUser(req, { res, endpoint: "credits" });
+
+    if (authResult.error || !authResult.user) {
+      return res.status(authResult.statusCode || 401).json({ error: authResult.error });
+    }
+
+    const userId = authResult.user.id;
+
+    // 2. Parse query
+    const days = clampInt(req.query.days, DEFAULT_DAYS, MAX_DAYS);
+    const limit = clampInt(req.query.limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const before = typeof req.query.before === "string" && !isNaN(Date.parse(req.query.before))
+      ? new Date(req.query.before).toISOString()
+      : null;
+
+    // 3. Load balance, window and page
+    let page = supabase
+      .from("credit_transactions")
+      .select(TRANSACTION_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit + 1);
+    if (before) page = page.lt("created_at", before);
+
+    const [profileResult, usageResult, pageResult] = await Promise.all([
+      supabase.from("profiles").select("ai_credits").eq("id", userId).maybeSingle(),
+      supabase.rpc("credit_usage_summary", {
+        p_user_id: userId,
+        p_since: windowStart(days).toISOString(),
+      }),
+      page,
+    ]);
+
+    if (profileResult.error) {
+      console.error("Credits API: balance query failed:", profileResult.error.message);
+      return res.status(500).json({ error: "Could not load your credit balance." });
+    }
+    const error = usageResult.error || pageResult.error;
+    if (error) {
+      console.error("Credits API: ledger query failed:", error.message);
+      return res.status(500).json({ error: "Could not load credit history." });
+    }
+
+    const rows = (pageResult.data || []) as CreditTransaction[];
+
+    return res.status(200).json({
+      balance: profileResult.data?.ai_credits ?? null,
+      byok: !authResult.isFreeTier,
+      days,
+      summary: summarizeUsage((usageResult.data || []) as UsageRow[], days),
+      transactions: rows.slice(0, limit),
+      hasMore: rows.length > limit,
+    });
+  } catch (error) {
+    console.error("Credits API Error:", error);
+    return res.status(500).json({ error: "An internal error occurred. Please try again." });
+  }
+}
@@ -5,7 +5,15 @@
 // ============================================
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+} from "./_utils/auth.js";
+import { buildCslItem } from "./_utils/csl.js";
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 const GEMINI_API_URL =
@@ -448,7 +456,7 @@ async function lookupDOI(doi: string): Promise<any | null> {
     const response = await fetch(
       `https://api.semanticscholar.org/graph/v1/paper/DOI:${encodeURIComponent(
         doi
-      )}?fields=title,authors,year,venue,publicationDate,abstract`,
+      )}?fields=title,authors,year,venue,publicationDate,abstract,journal,publicationTypes`,
       { headers: { "User-Agent": "ResearchMate/1.0" } }
     );
 
@@ -459,9 +467,16 @@ async function lookupDOI(doi: string): Promise<any | null> {
         return {
           title: paper.title,
           author: paper.authors.map((a: any) => a.name).join(", "),
+          authors: paper.authors.map((a: any) => a.name),
           publishDate:
             paper.publicationDate || (paper.year ? `${paper.year}-01-01` : ""),
           siteName: paper.venue || "Academic Publication",
+          journal: paper.journal?.name || paper.venue || undefined,
+          volume: paper.journal?.volume?.trim() || undefined,
+          pages: paper.journal?.pages?.trim() || undefined,
+          type: paper.publicationTypes?.includes("Conference")
+            ? "paper-conference"
+            : "article-journal",
           description: paper.abstract || "",
           doi: doi,
         };
@@ -488,10 +503,20 @@ async function lookupDOI(doi: string): Promise<any | null> {
             ?.map((a: any) => a.author?.display_name)
             .filter(Boolean)
             .join(", "),
+          authors: work.authorships
+            ?.map((a: any) => a.author?.display_name)
+            .filter(Boolean),
           publishDate: work.publication_date || "",
           siteName:
             work.primary_location?.source?.display_name ||
             "Academic Publication",
+          journal: work.primary_location?.source?.display_name || undefined,
+          volume: work.biblio?.volume || undefined,
+          issue: work.biblio?.issue || undefined,
+          pages: work.biblio?.first_page
+            ? [work.biblio.first_page, work.biblio.last_page].filter(Boolean).join("-")
+            : undefined,
+          type: work.type,
           description: "",
           doi: doi,
         };
@@ -519,11 +544,20 @@ async function lookupDOI(doi: string): Promise<any | null> {
           author: work.author
             ?.map((a: any) => `${a.given || ""} ${a.family || ""}`.trim())
             .join(", "),
+          authors: work.author?.map((a: any) =>
+            a.family ? { family: a.family, given: a.given } : { literal: a.name }
+          ),
           publishDate: year ? `${year}-01-01` : "",
           siteName:
             work["container-title"]?.[0] ||
             work.publisher ||
             "Academic Publication",
+          journal: work["container-title"]?.[0] || undefined,
+          publisher: work.publisher || undefined,
+          volume: work.volume || undefined,
+          issue: work.issue || undefined,
+          pages: work.page || undefined,
+          type: work.type,
           description: work.abstract || "",
           doi: doi,
         };
@@ -956,6 +990,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "extract-citation" };
+
+  // Every successful response carries the structured CSL record next to the
+  // flat metadata the extractor card displays.
+  const sendCitation = (payload: { metadata: any; doi?: string | null; [key: string]: unknown }) =>
+    res.status(200).json({
+      ...payload,
+      csl: buildCslItem({
+        ...payload.metadata,
+        doi: payload.metadata.doi || payload.doi,
+      }),
+    });
 
   try {
     const { url, useAI } = req.body;
@@ -965,7 +1011,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // 1. Authenticate Request
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "extract-citation" });
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
         error: authResult.error,
@@ -990,7 +1036,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const openAlexData = await lookupOpenAlexByURL(urlString);
     if (openAlexData && openAlexData.author) {
       console.log("✅ Found via OpenAlex URL Lookup!");
-      return res.status(200).json({
+      return sendCitation({
         success: true,
         metadata: {
           ...openAlexData,
@@ -1033,7 +1079,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       if (academicData && academicData.author) {
         console.log(`✅ SUCCESS: Found full citation data`);
-        return res.status(200).json({
+        return sendCitation({
           success: true,
           metadata: {
             ...academicData,
@@ -1052,11 +1098,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       console.log(
         `Using preloaded metadata from ${extraction.lookupType} lookup`
       );
-      return res.status(200).json({
+      return sendCitation({
         success: true,
         metadata: {
           title: preloadedMetadata.title,
           author: preloadedMetadata.authors.join(", "),
+          authors: preloadedMetadata.authors,
           publishDate: preloadedMetadata.year
             ? `${preloadedMetadata.year}-01-01`
             : "",
@@ -1101,7 +1148,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // If we have preloaded metadata from earlier lookups, use that first
       if (preloadedMetadata && preloadedMetadata.title) {
         console.log("Using preloaded metadata from earlier lookup");
-        return res.status(200).json({
+        return sendCitation({
           success: true,
           metadata: {
             title: preloadedMetadata.title || "Unknown Title",
@@ -1122,7 +1169,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Try AI blind guess (always, regardless of useAI flag - fail open!)
       const blindGuess = await blindGuessFromURL(urlString);
       if (blindGuess) {
-        return res.status(200).json({
+        return sendCitation({
           success: true,
           metadata: {
             ...blindGuess,
@@ -1138,7 +1185,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       console.log(
         "❌ All attempts failed. Returning minimal fallback citation."
       );
-      return res.status(200).json({
+      return sendCitation({
         success: true,
         metadata: {
           title: new URL(urlString).pathname.split("/").pop() || "Web Page",
@@ -1181,7 +1228,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       );
       const blindGuess = await blindGuessFromURL(urlString);
       if (blindGuess && blindGuess.title) {
-        return res.status(200).json({
+        return sendCitation({
           success: true,
           metadata: {
             ...blindGuess,
@@ -1226,7 +1273,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // If we found a DOI via title search, we can treat this as an authoritative academic match
         if (titleData.doi) {
           doi = titleData.doi; // Set DOI so we can link it
-          return res.status(200).json({
+          return sendCitation({
             success: true,
             metadata: {
               ...metadata,
@@ -1241,19 +1288,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    // STEP 7: AI enhancement if requested
-    if (useAI && (!metadata.author || !metadata.publishDate)) {
+    // STEP 7: AI enhancement if requested (always on the server's Gemini key)
+    const enhance = useAI && (!metadata.author || !metadata.publishDate);
+    if (enhance) {
       metadata = await enhanceWithAI(metadata, urlString);
     }
 
-    // Charge credit if on free tier
-    if (authResult.isFreeTier && authResult.user?.id) {
-      await deductCredit(authResult.user.id);
+    // Charge credit if on free tier, or when the server's AI key was used
+    if ((authResult.isFreeTier || enhance) && authResult.user?.id) {
+      if ((await deductCredit(authResult.user.id, ledger)) === null) {
+        return res.status(403).json(NO_CREDITS_BODY);
+      }
       creditDeducted = true;
       deductedUserId = authResult.user.id;
     }
 
-    return res.status(200).json({
+    return sendCitation({
       success: true,
       metadata: {
         ...metadata,
@@ -1266,7 +1316,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   } catch (error) {
     console.error("Extract citation error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
     return res.status(500).json({ error: (error as Error).message });
   }
 }
@@ -1,22 +1,21 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+  supabase,
+} from "./_utils/auth.js";
+import { AiRouterError, aiErrorResponse, defaultAiChain, routeAiRequest } from "./_utils/aiRouter.js";
+import { loadRedactor, recordRedaction, withRedaction } from "./_utils/redaction.js";
+import { cacheKey, chainSignature, readCache, writeCache } from "./_utils/responseCache.js";
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const GEMINI_MODEL = "gemini-2.5-flash";
-const GEMINI_ENDPOINT =
-  "https://generativelanguage.googleapis.com/v1beta/models";
-
-// Fallback 1: OpenRouter
-const OPENROUTER_MODEL = "x-ai/grok-2-1212";
-const OPENROUTER_ENDPOINT = "https://openrouter.ai/api/v1/chat/completions";
-
-// Fallback 2: Groq
-const GROQ_MODEL = "llama-3.3-70b-versatile";
-const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
-
 const TAG_PROMPT = `Analyze this research text and generate 3-5 relevant academic tags/keywords.
 
 Rules:
@@ -31,134 +30,6 @@ Example: ["deep reinforcement learning", "robotics", "sim-to-real transfer"]
 
 Text: `;
 
-// ============================================
-// KEY ROTATION HELPER
-// ============================================
-function getRandomGeminiKey(): string | undefined {
-  const multipleKeys = process.env.GEMINI_API_KEYS;
-  if (multipleKeys) {
-    const keys = multipleKeys
-      .split(",")
-      .map((k) => k.trim())
-      .filter(Boolean);
-    if (keys.length > 0) {
-      return keys[Math.floor(Math.random() * keys.length)];
-    }
-  }
-  return process.env.GEMINI_API_KEY;
-}
-
-// ============================================
-// AI PROVIDER 1: GEMINI (Primary)
-// ============================================
-async function callGeminiAPI(text: string, apiKey: string) {
-  const url = `${GEMINI_ENDPOINT}/${GEMINI_MODEL}:generateContent?key=${apiKey}`;
-
-  const fullPrompt = `${TAG_PROMPT}\n${text}`;
-
-  const requestBody = {
-    contents: [{ parts: [{ text: fullPrompt }] }],
-    generationConfig: {
-      temperature: 0.3,
-      maxOutputTokens: 100,
-    },
-  };
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.error?.message || `Gemini API error: ${response.status}`,
-    );
-  }
-
-  const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 2: OPENROUTER (Fallback 1)
-// ============================================
-async function callOpenRouterAPI(text: string) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OpenRouter API Key not configured.");
-  }
-
-  const response = await fetch(OPENROUTER_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": "https://researchmate.vercel.app",
-      "X-Title": "ResearchMate",
-    },
-    body: JSON.stringify({
-      model: OPENROUTER_MODEL,
-      messages: [
-        { role: "user", content: `${TAG_PROMPT}\n${text}` },
-      ],
-      temperature: 0.3,
-      max_tokens: 100,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `OpenRouter Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 3: GROQ (Fallback 2)
-// ============================================
-async function callGroqAPI(text: string) {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error("Groq API Key not configured.");
-  }
-
-  const response = await fetch(GROQ_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: GROQ_MODEL,
-      messages: [
-        { role: "user", content: `${TAG_PROMPT}\n${text}` },
-      ],
-      temperature: 0.3,
-      max_tokens: 100,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `Groq Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
-}
-
 function parseTags(responseText: string): string[] {
   try {
     const jsonMatch = responseText.match(/\[[\s\S]*\]/);
@@ -188,10 +59,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "generate-tags" };
 
   try {
     // 1. Authenticate
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "generate-tags" });
 
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
@@ -200,87 +72,63 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const { user, isFreeTier, customKey } = authResult;
+    const { user, isFreeTier, userKeys } = authResult;
     const userId = user?.id;
 
     // 2. Prepare Request
-    const { text } = req.body;
+    const { text, refresh } = req.body;
     if (!text) return res.status(400).json({ error: "Text is required" });
 
-    const keyToUse = customKey || getRandomGeminiKey();
-    if (!keyToUse)
-      return res
-        .status(500)
-        .json({ error: "Server misconfiguration: No API keys." });
-
-    // 3. Call AI (With 3-Layer Fallback)
-    let rawResponse = "";
-    const errors: string[] = [];
-
-    try {
-      rawResponse = await callGeminiAPI(text, keyToUse);
-    } catch (geminiError) {
-      const msg = `Gemini Failed: ${(geminiError as Error).message}`;
-      console.warn(msg);
-      errors.push(msg);
-
-      if (process.env.OPENROUTER_API_KEY) {
-        try {
-          rawResponse = await callOpenRouterAPI(text);
-        } catch (orError) {
-          const msg = `OpenRouter Failed: ${(orError as Error).message}`;
-          console.warn(msg);
-          errors.push(msg);
-
-          if (process.env.GROQ_API_KEY) {
-            try {
-              rawResponse = await callGroqAPI(text);
-            } catch (groqError) {
-              const msg = `Groq Failed: ${(groqError as Error).message}`;
-              console.error(msg);
-              errors.push(msg);
-              throw new Error(
-                `All providers failed. Logs: ${errors.join(" | ")}`,
-              );
-            }
-          } else {
-            throw new Error(
-              `Gemini/OpenRouter failed. Logs: ${errors.join(" | ")}`,
-            );
-          }
-        }
-      } else if (process.env.GROQ_API_KEY) {
-        try {
-          rawResponse = await callGroqAPI(text);
-        } catch (groqError) {
-          const msg = `Groq Failed: ${(groqError as Error).message}`;
-          errors.push(msg);
-          throw new Error(`Gemini/Groq failed. Logs: ${errors.join(" | ")}`);
-        }
-      } else {
-        throw new Error(
-          `Gemini failed and no fallbacks configured. Log: ${msg}`,
-        );
-      }
+    // 3. Same text as before? Answer from the cache, free of charge
+    const chain = defaultAiChain(userKeys);
+    const key = cacheKey({ endpoint: "generate-tags", model: chainSignature(chain), text });
+    const cached = userId && !refresh ? await readCache<string[]>(supabase, userId, key) : null;
+    if (cached) {
+      return res.status(200).json({
+        tags: cached.value,
+        cached: true,
+        credits_remaining: isFreeTier ? authResult.credits : "Unlimited",
+      });
     }
 
+    // 4. Call AI (Gemini → OpenRouter → Groq), redacted if the user asked for it
+    const redactor = userId ? await loadRedactor(supabase, userId) : null;
+    const { text: rawResponse, provider, userKey } = await routeAiRequest(
+      { prompt: `${TAG_PROMPT}\n${text}`, temperature: 0.3, maxTokens: 100 },
+      withRedaction(chain, redactor),
+    );
+    if (userId) await recordRedaction(supabase, userId, { endpoint: "generate-tags", provider }, redactor);
+
     const tags = parseTags(rawResponse);
 
-    // 4. Deduct Credit
+    // 5. Deduct Credit unless the user's own key answered (a refused charge gets no tags)
     let creditsRemaining: number | string = "Unlimited";
-    if (isFreeTier && userId) {
-      creditsRemaining = await deductCredit(userId);
+    if (userId && !userKey) {
+      ledger.provider = provider;
+      const balance = await deductCredit(userId, ledger);
+      if (balance === null) return res.status(403).json(NO_CREDITS_BODY);
+      creditsRemaining = balance;
       creditDeducted = true;
       deductedUserId = userId;
     }
 
+    // 6. Cache only answers that were paid for
+    if (userId && tags.length > 0) {
+      await writeCache(supabase, userId, key, { endpoint: "generate-tags", value: tags, provider });
+    }
+
     return res.status(200).json({
       tags: tags,
+      cached: false,
       credits_remaining: creditsRemaining,
     });
   } catch (error) {
     console.error("Generate Tags API Error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
+    if (error instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(error);
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: "An internal error occurred. Please try again." });
   }
 }
@@ -1,8 +1,13 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
-
-const GEMINI_MODEL = "gemini-2.5-flash";
-const GEMINI_ENDPOINT = "https://generativelanguage.googleapis.com/v1beta/models";
+import { NO_CREDITS_BODY, authenticateUser, deductCredit, setCorsHeaders, supabase } from "./_utils/auth.js";
+import {
+  type AiProvider,
+  AiRouterError,
+  aiErrorResponse,
+  defaultAiChain,
+  routeAiRequest,
+} from "./_utils/aiRouter.js";
+import { loadRedactor, recordRedaction, withRedaction } from "./_utils/redaction.js";
 
 const PROMPT = `You are a source identification expert. Analyze the following text (OCR output from a physical document) and identify what book, academic paper, journal article, movie, or other source it is from.
 
@@ -28,35 +33,19 @@ Return ONLY a JSON object with this structure (no markdown, no explanation):
 
 If you cannot identify with confidence below 30, still return your best guess with that confidence.`;
 
-async function identifyWithGemini(text: string, apiKey: string): Promise<any> {
-  const res = await fetch(
-    `${GEMINI_ENDPOINT}/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
+async function identifySource(
+  text: string,
+  chain: AiProvider[],
+): Promise<{ source: any; provider: string; userKey: boolean }> {
+  const { text: raw, provider, userKey } = await routeAiRequest(
     {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: `${PROMPT}\n\nTEXT TO ANALYZE:\n${text.slice(0, 3000)}` }] }],
-        generationConfig: { temperature: 0.1, maxOutputTokens: 1024 },
-      }),
-    }
+      prompt: `${PROMPT}\n\nTEXT TO ANALYZE:\n${text.slice(0, 3000)}`,
+      temperature: 0.1,
+      maxTokens: 1024,
+    },
+    chain,
   );
-
-  if (!res.ok) {
-    const errText = await res.text();
-    console.error("Gemini HTTP error:", res.status, errText.slice(0, 300));
-    throw new Error(`Gemini error ${res.status}: ${errText.slice(0, 100)}`);
-  }
-
-  const data = await res.json();
-
-  // Log any safety/block issues
-  if (data.promptFeedback?.blockReason) {
-    console.error("Gemini blocked:", data.promptFeedback.blockReason);
-    throw new Error(`Gemini blocked: ${data.promptFeedback.blockReason}`);
-  }
-
-  const raw = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-  console.log("Gemini raw response:", raw.slice(0, 200));
+  console.log(`${provider} raw response:`, raw.slice(0, 200));
 
   // Strip markdown code fences if present
   const cleaned = raw.replace(/```(?:json)?\n?/g, "").replace(/```/g, "").trim();
@@ -67,15 +56,15 @@ async function identifyWithGemini(text: string, apiKey: string): Promise<any> {
     const partial = cleaned.match(/\{[\s\S]*/);
     if (partial) {
       try {
-        return JSON.parse(partial[0] + "}");
+        return { source: JSON.parse(partial[0] + "}"), provider, userKey };
       } catch {
         // ignore, fall through
       }
     }
-    console.error("No JSON found in Gemini response:", raw.slice(0, 300));
+    console.error("No JSON found in AI response:", raw.slice(0, 300));
     throw new Error("No JSON in response");
   }
-  return JSON.parse(jsonMatch[0]);
+  return { source: JSON.parse(jsonMatch[0]), provider, userKey };
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -83,33 +72,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === "OPTIONS") return res.status(200).end();
   if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
 
-  const auth = await authenticateUser(req);
+  const auth = await authenticateUser(req, { res, endpoint: "identify-source" });
   if (!auth.user) return res.status(auth.statusCode || 401).json({ error: auth.error });
 
   const { text } = req.body || {};
   if (!text?.trim()) return res.status(400).json({ error: "Text is required" });
 
-  // Match the key rotation pattern used by other endpoints
-  const multipleKeys = process.env.GEMINI_API_KEYS;
-  let apiKey: string | undefined = auth.customKey;
-  if (!apiKey) {
-    if (multipleKeys) {
-      const keys = multipleKeys.split(",").map((k) => k.trim()).filter(Boolean);
-      apiKey = keys[Math.floor(Math.random() * keys.length)];
-    } else {
-      apiKey = process.env.GEMINI_API_KEY;
-    }
-  }
-  if (!apiKey) return res.status(503).json({ error: "AI not configured" });
-
   try {
-    if (auth.isFreeTier) await deductCredit(auth.user.id);
-
-    const result = await identifyWithGemini(text, apiKey);
-    return res.status(200).json(result);
+    const redactor = await loadRedactor(supabase, auth.user.id);
+    const { source, provider, userKey } = await identifySource(
+      text,
+      withRedaction(defaultAiChain(auth.userKeys), redactor),
+    );
+    await recordRedaction(supabase, auth.user.id, { endpoint: "identify-source", provider }, redactor);
+
+    // Charged once identified, unless the user's own key answered
+    if (!userKey && (await deductCredit(auth.user.id, { endpoint: "identify-source", provider })) === null) {
+      return res.status(403).json(NO_CREDITS_BODY);
+    }
+    return res.status(200).json(source);
   } catch (err: any) {
     console.error("identify-source failed:", err?.message || err);
-    if (auth.isFreeTier) await refundCredit(auth.user.id);
+    if (err instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(err);
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: err.message });
   }
 }
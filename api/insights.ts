@@ -1,167 +1,39 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+  supabase,
+} from "./_utils/auth.js";
+import { AiRouterError, aiErrorResponse, defaultAiChain, routeAiRequest } from "./_utils/aiRouter.js";
+import { loadRedactor, recordRedaction, withRedaction } from "./_utils/redaction.js";
+import { cacheKey, chainSignature, readCache, writeCache } from "./_utils/responseCache.js";
+import {
+  INSIGHTS_PROMPT,
+  type ItemInsights,
+  MAX_CUSTOM_FIELDS,
+  buildFieldsPrompt,
+  parseFieldValues,
+  parseInsights,
+} from "./_utils/insights.js";
 
 // ============================================
 // CONFIGURATION
 // ============================================
-
-const GEMINI_MODEL = "gemini-2.5-flash";
-const GEMINI_ENDPOINT =
-  "https://generativelanguage.googleapis.com/v1beta/models";
-
-// Fallback 1: OpenRouter
-const OPENROUTER_MODEL = "x-ai/grok-2-1212";
-const OPENROUTER_ENDPOINT = "https://openrouter.ai/api/v1/chat/completions";
-
-// Fallback 2: Groq
-const GROQ_MODEL = "llama-3.3-70b-versatile";
-const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
-
-const INSIGHTS_PROMPT = `You are ResearchMate, an expert academic analysis engine.
-
-Extract exactly 5 key insights from the following text. Each insight must be:
-
-1. **Specific** — Include concrete details (numbers, names, findings) from the text. Never be vague.
-2. **Categorized** — Prefix each insight with one of these labels in bold:
-   - **Finding**: A concrete result or conclusion from the text
-   - **Method**: A notable approach, technique, or methodology used
-   - **Implication**: A consequence, application, or significance of the findings
-   - **Gap**: A limitation, unanswered question, or area for future work
-   - **Connection**: A relationship between ideas, or how this relates to broader knowledge
-3. **Evidence-backed** — Each insight must be directly supported by the source text. Do not hallucinate.
-
-Output format: Return exactly 5 bullet points (using -), each 1-2 sentences. Start each with the bold category label.
-
-Text to analyze:
-`;
-
-// ============================================
-// KEY ROTATION HELPER
-// ============================================
-function getRandomGeminiKey(): string | undefined {
-  const multipleKeys = process.env.GEMINI_API_KEYS;
-  if (multipleKeys) {
-    const keys = multipleKeys
-      .split(",")
-      .map((k) => k.trim())
-      .filter(Boolean);
-    if (keys.length > 0) {
-      return keys[Math.floor(Math.random() * keys.length)];
-    }
-  }
-  return process.env.GEMINI_API_KEY;
-}
-
-// ============================================
-// AI PROVIDER 1: GEMINI (Primary)
-// ============================================
-async function callGeminiAPI(text: string, apiKey: string) {
-  const url = `${GEMINI_ENDPOINT}/${GEMINI_MODEL}:generateContent?key=${apiKey}`;
-
-  const fullPrompt = `${INSIGHTS_PROMPT}\n${text}`;
-
-  const requestBody = {
-    contents: [{ parts: [{ text: fullPrompt }] }],
-    generationConfig: {
-      temperature: 0.5,
-      maxOutputTokens: 1024,
-    },
-  };
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.error?.message || `Gemini API error: ${response.status}`,
-    );
-  }
-
-  const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 2: OPENROUTER (Fallback 1)
-// ============================================
-async function callOpenRouterAPI(text: string) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OpenRouter API Key not configured.");
-  }
-
-  const response = await fetch(OPENROUTER_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": "https://researchmate.vercel.app",
-      "X-Title": "ResearchMate",
-    },
-    body: JSON.stringify({
-      model: OPENROUTER_MODEL,
-      messages: [
-        { role: "user", content: `${INSIGHTS_PROMPT}\n${text}` },
-      ],
-      temperature: 0.5,
-      max_tokens: 1024,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `OpenRouter Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 3: GROQ (Fallback 2)
-// ============================================
-async function callGroqAPI(text: string) {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error("Groq API Key not configured.");
-  }
-
-  const response = await fetch(GROQ_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: GROQ_MODEL,
-      messages: [
-        { role: "user", content: `${INSIGHTS_PROMPT}\n${text}` },
-      ],
-      temperature: 0.5,
-      max_tokens: 1024,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `Groq Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
-}
+// Returns `{ insights: ItemInsights }` (see _utils/insights.ts). With an
+// `itemId` the insights are also saved to that item's `insights` column,
+// keeping any evidence-matrix `customFields` it already has.
+//
+// With `fields: string[]` it instead returns `{ values: { [field]: string | null } }`
+// for those user-named evidence-matrix columns; the client stores them.
+//
+// Both answers are cached per user for the same text (and fields); a hit
+// is free and says `cached: true`. `refresh: true` skips the cache.
+
+const MAX_INSIGHTS_TEXT = 60_000;
 
 // ============================================
 // MAIN HANDLER
@@ -175,10 +47,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "insights" };
 
   try {
     // 1. Authenticate
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "insights" });
 
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
@@ -187,87 +60,137 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const { user, isFreeTier, customKey } = authResult;
+    const { user, isFreeTier, userKeys } = authResult;
     const userId = user?.id;
 
     // 2. Prepare Request
-    const { text } = req.body;
+    const { text, itemId, fields, refresh } = req.body;
     if (!text) return res.status(400).json({ error: "Text is required" });
+    const input = String(text).slice(0, MAX_INSIGHTS_TEXT);
+    const chain = defaultAiChain(userKeys);
+    const model = chainSignature(chain);
+    const balance = isFreeTier ? authResult.credits : "Unlimited";
+
+    // MODE A: user-named evidence-matrix fields
+    if (fields !== undefined) {
+      const names: string[] = Array.isArray(fields)
+        ? Array.from(
+            new Set(
+              fields
+                .filter((f: unknown) => typeof f === "string" && f.trim())
+                .map((f: string) => f.trim().slice(0, 80)),
+            ),
+          )
+        : [];
+      if (names.length === 0 || names.length > MAX_CUSTOM_FIELDS) {
+        return res.status(400).json({ error: `Between 1 and ${MAX_CUSTOM_FIELDS} fields are required` });
+      }
 
-    const keyToUse = customKey || getRandomGeminiKey();
-    if (!keyToUse)
-      return res
-        .status(500)
-        .json({ error: "Server misconfiguration: No API keys." });
-
-    // 3. Call AI (With 3-Layer Fallback)
-    let insights = "";
-    const errors: string[] = [];
-
-    try {
-      insights = await callGeminiAPI(text, keyToUse);
-    } catch (geminiError) {
-      const msg = `Gemini Failed: ${(geminiError as Error).message}`;
-      console.warn(msg);
-      errors.push(msg);
+      const key = cacheKey({ endpoint: "insights", mode: `fields:${JSON.stringify(names)}`, model, text: input });
+      const cached = userId && !refresh ? await readCache<Record<string, string | null>>(supabase, userId, key) : null;
+      if (cached) return res.status(200).json({ values: cached.value, cached: true, credits_remaining: balance });
+
+      const redactor = userId ? await loadRedactor(supabase, userId) : null;
+      const { text: response, provider, userKey } = await routeAiRequest(
+        {
+          prompt: `${buildFieldsPrompt(names)}\n${input}`,
+          temperature: 0.2,
+          maxTokens: 1024,
+        },
+        withRedaction(chain, redactor),
+      );
+      if (userId) await recordRedaction(supabase, userId, { endpoint: "insights", provider }, redactor);
+      const values = parseFieldValues(response, names);
+      if (!values) {
+        console.error("Insights API: unreadable field values");
+        return res.status(502).json({ error: "Could not extract these fields. Please try again." });
+      }
 
-      // Fallback 1: OpenRouter
-      if (process.env.OPENROUTER_API_KEY) {
-        try {
-          insights = await callOpenRouterAPI(text);
-        } catch (orError) {
-          const msg = `OpenRouter Failed: ${(orError as Error).message}`;
-          console.warn(msg);
-          errors.push(msg);
+      let creditsRemaining: number | string = "Unlimited";
+      if (userId && !userKey) {
+        ledger.provider = provider;
+        const charged = await deductCredit(userId, ledger);
+        if (charged === null) return res.status(403).json(NO_CREDITS_BODY);
+        creditsRemaining = charged;
+        creditDeducted = true;
+        deductedUserId = userId;
+      }
+      if (userId) await writeCache(supabase, userId, key, { endpoint: "insights", value: values, provider });
+      return res.status(200).json({ values, cached: false, credits_remaining: creditsRemaining });
+    }
 
-          // Fallback 2: Groq
-          if (process.env.GROQ_API_KEY) {
-            try {
-              insights = await callGroqAPI(text);
-            } catch (groqError) {
-              const msg = `Groq Failed: ${(groqError as Error).message}`;
-              console.error(msg);
-              errors.push(msg);
-              throw new Error(
-                `All providers failed. Logs: ${errors.join(" | ")}`,
-              );
-            }
-          } else {
-            throw new Error(
-              `Gemini/OpenRouter failed. Logs: ${errors.join(" | ")}`,
-            );
-          }
-        }
-      } else if (process.env.GROQ_API_KEY) {
-        try {
-          insights = await callGroqAPI(text);
-        } catch (groqError) {
-          const msg = `Groq Failed: ${(groqError as Error).message}`;
-          errors.push(msg);
-          throw new Error(`Gemini/Groq failed. Logs: ${errors.join(" | ")}`);
-        }
-      } else {
-        throw new Error(
-          `Gemini failed and no fallbacks configured. Log: ${msg}`,
-        );
+    // MODE B: structured insights
+    // 3. Cached for this text, or call AI (Gemini → OpenRouter → Groq)
+    const key = cacheKey({ endpoint: "insights", model, text: input });
+    const cached = userId && !refresh ? await readCache<ItemInsights>(supabase, userId, key) : null;
+    let insights: ItemInsights | null = cached?.value ?? null;
+    let provider: string | undefined;
+    let userKey = false;
+
+    if (!insights) {
+      const redactor = userId ? await loadRedactor(supabase, userId) : null;
+      const result = await routeAiRequest(
+        {
+          prompt: `${INSIGHTS_PROMPT}\n${input}`,
+          temperature: 0.2,
+          maxTokens: 2048,
+        },
+        withRedaction(chain, redactor),
+      );
+      provider = result.provider;
+      userKey = result.userKey;
+      if (userId) await recordRedaction(supabase, userId, { endpoint: "insights", provider }, redactor);
+
+      insights = parseInsights(result.text);
+      if (!insights) {
+        console.error("Insights API: unreadable model response");
+        return res.status(502).json({ error: "Could not extract insights. Please try again." });
       }
     }
 
-    // 4. Deduct Credit
-    let creditsRemaining: number | string = "Unlimited";
-    if (isFreeTier && userId) {
-      creditsRemaining = await deductCredit(userId);
+    // 4. Deduct Credit (cache hits and the user's own keys are free; a refused charge gets nothing)
+    let creditsRemaining: number | string | undefined = balance;
+    if (userId && !cached && !userKey) {
+      Object.assign(ledger, { provider, itemId: itemId || null });
+      const charged = await deductCredit(userId, ledger);
+      if (charged === null) return res.status(403).json(NO_CREDITS_BODY);
+      creditsRemaining = charged;
       creditDeducted = true;
       deductedUserId = userId;
     }
+    if (userId && !cached) await writeCache(supabase, userId, key, { endpoint: "insights", value: insights, provider });
+
+    // 5. Store on the item
+    if (itemId && userId) {
+      const { data: existing } = await supabase
+        .from("items")
+        .select("insights")
+        .eq("id", itemId)
+        .eq("user_id", userId)
+        .maybeSingle();
+      const customFields = existing?.insights?.customFields;
+      if (customFields) insights = { ...insights, customFields };
+
+      const { error } = await supabase
+        .from("items")
+        .update({ insights })
+        .eq("id", itemId)
+        .eq("user_id", userId);
+      if (error) console.error("Failed to save insights:", error.message);
+    }
 
     return res.status(200).json({
-      insights: insights,
+      insights,
+      cached: !!cached,
       credits_remaining: creditsRemaining,
     });
   } catch (error) {
     console.error("Insights API Error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
+    if (error instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(error);
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: "An internal error occurred. Please try again." });
   }
 }
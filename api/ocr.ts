@@ -4,7 +4,23 @@
 // ============================================
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+} from "./_utils/auth.js";
+import {
+  AiRouterError,
+  type UserProviderKey,
+  claudeProvider,
+  geminiProvider,
+  openRouterProvider,
+  routeAiRequest,
+  withUserKeys,
+} from "./_utils/aiRouter.js";
 
 // ============================================
 // PART 1: IMPORTS & DEPENDENCIES
@@ -19,6 +35,8 @@ type OcrResult = {
   success: boolean;
   text: string;
   provider?: string;
+  /** Read with the user's own key (BYOK), so no credit is due. */
+  userKey?: boolean;
   error?: string;
 };
 
@@ -58,24 +76,6 @@ Content:
 // PART 4: HELPER FUNCTIONS
 // ============================================
 
-function getRandomGeminiKey(): string | undefined {
-  const multipleKeys = process.env.GEMINI_API_KEYS;
-  if (multipleKeys) {
-    const keys = multipleKeys
-      .split(",")
-      .map((k) => k.trim())
-      .filter(Boolean);
-    if (keys.length > 0) {
-      const randomKey = keys[Math.floor(Math.random() * keys.length)];
-      console.log(
-        `🔑 Using Gemini key ${keys.indexOf(randomKey) + 1} of ${keys.length}`,
-      );
-      return randomKey;
-    }
-  }
-  return process.env.GEMINI_API_KEY;
-}
-
 function calculateOcrConfidence(text: string, provider: string): number {
   const wordCount = text.split(/\s+/).filter(Boolean).length;
 
@@ -105,296 +105,71 @@ function calculateOcrConfidence(text: string, provider: string): number {
 
 // ---------- PART 5A: TEXT EXTRACTION ----------
 
-async function extractTextFromImage(imageBase64: string): Promise<OcrResult> {
-  const openRouterKey = process.env.OPENROUTER_API_KEY;
-  const claudeKey = process.env.OCR_API_KEY;
-  const geminiKey = getRandomGeminiKey();
-
-  if (!openRouterKey && !claudeKey && !geminiKey) {
-    return { success: false, text: "", error: "No API keys configured for OCR" };
-  }
-
+// User keys → OpenRouter (Gemini 2.5 Flash) → Gemini Vision → Claude
+const extractionChain = (userKeys?: UserProviderKey[]) =>
+  withUserKeys(
+    userKeys,
+    [
+      openRouterProvider({ model: "google/gemini-2.5-flash", timeoutMs: 15000 }),
+      geminiProvider({ timeoutMs: 15000 }),
+      claudeProvider({ timeoutMs: 20000 }),
+    ],
+    { timeoutMs: 15000 },
+  );
+
+async function extractTextFromImage(imageBase64: string, userKeys?: UserProviderKey[]): Promise<OcrResult> {
   const match = imageBase64.match(/^data:(image\/\w+);base64,/);
   const mimeType = match ? match[1] : "image/jpeg";
   const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, "");
 
-  let openRouterErrorMsg = "Skipped (No Key)";
-  let geminiErrorMsg = "Skipped (No Key)";
-  let claudeErrorMsg = "Skipped (No Key)";
-
-  // 1. PRIMARY: OpenRouter (Gemini 2.5 Flash)
-  if (openRouterKey) {
-    const orStart = Date.now();
-    try {
-      console.log("🔍 Processing image with OpenRouter...");
-      const orAbort = AbortController ? new AbortController() : null;
-      const orTimeout = orAbort ? setTimeout(() => orAbort.abort(), 15000) : null;
-      const response = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${openRouterKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "google/gemini-2.5-flash",
-            messages: [
-              {
-                role: "user",
-                content: [
-                  { type: "text", text: OCR_EXTRACTION_PROMPT },
-                  {
-                    type: "image_url",
-                    image_url: { url: `data:${mimeType};base64,${base64Data}` },
-                  },
-                ],
-              },
-            ],
-            temperature: 0.1,
-            max_tokens: 8192,
-          }),
-          ...(orAbort ? { signal: orAbort.signal } : {}),
-        },
-      );
-      if (orTimeout) clearTimeout(orTimeout);
-
-      if (response.ok) {
-        const data = await response.json();
-        const extractedText = data.choices?.[0]?.message?.content || "";
-        if (extractedText.trim()) {
-          console.log("✅ OpenRouter OCR completed successfully");
-          return { success: true, text: extractedText.trim(), provider: "openrouter" };
-        } else {
-          openRouterErrorMsg = "Empty response from provider";
-          console.error("OpenRouter OCR returned empty text");
-        }
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        openRouterErrorMsg = errorData.error?.message || `HTTP ${response.status}`;
-        console.error("OpenRouter OCR failed:", openRouterErrorMsg);
-      }
-    } catch (error) {
-      openRouterErrorMsg = (error as Error).message;
-      console.error("OpenRouter OCR error:", openRouterErrorMsg);
-    }
-    console.log(`⚠️ OpenRouter failed after ${Date.now() - orStart}ms, falling back to Gemini Vision API...`);
-  }
-
-  // 2. SECONDARY: Gemini API
-  if (geminiKey) {
-    const gemStart = Date.now();
-    try {
-      console.log("🔍 Processing image with Gemini Vision...");
-      const gemAbort = AbortController ? new AbortController() : null;
-      const gemTimeout = gemAbort ? setTimeout(() => gemAbort.abort(), 15000) : null;
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  { text: OCR_EXTRACTION_PROMPT },
-                  {
-                    inlineData: {
-                      mimeType:
-                        mimeType === "image/webp" ||
-                        mimeType === "image/png" ||
-                        mimeType === "image/jpeg"
-                          ? mimeType
-                          : "image/jpeg",
-                      data: base64Data,
-                    },
-                  },
-                ],
-              },
-            ],
-            generationConfig: { temperature: 0.1, maxOutputTokens: 8192 },
-          }),
-          ...(gemAbort ? { signal: gemAbort.signal } : {}),
-        },
-      );
-      if (gemTimeout) clearTimeout(gemTimeout);
-
-      if (response.ok) {
-        const data = await response.json();
-        const extractedText = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-        if (extractedText.trim()) {
-          console.log("✅ Gemini OCR completed successfully");
-          return { success: true, text: extractedText.trim(), provider: "gemini" };
-        } else {
-          geminiErrorMsg = "Empty response from provider";
-          console.error("Gemini OCR returned empty text");
-        }
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        geminiErrorMsg = errorData.error?.message || `HTTP ${response.status}`;
-        console.error("Gemini Vision failed:", geminiErrorMsg);
-      }
-    } catch (error) {
-      geminiErrorMsg = (error as Error).message;
-      console.error("Gemini OCR error:", geminiErrorMsg);
-    }
-    console.log(`⚠️ Gemini API failed after ${Date.now() - gemStart}ms, falling back to Claude...`);
-  }
-
-  // 3. TERTIARY: Claude
-  if (claudeKey) {
-    try {
-      console.log("🔍 Processing image with Claude AI Server...");
-      const clAbort = AbortController ? new AbortController() : null;
-      const clTimeout = clAbort ? setTimeout(() => clAbort.abort(), 20000) : null;
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": claudeKey,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 4096,
-          temperature: 0.1,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "image",
-                  source: { type: "base64", media_type: mimeType, data: base64Data },
-                },
-                { type: "text", text: OCR_EXTRACTION_PROMPT },
-              ],
-            },
-          ],
-        }),
-        ...(clAbort ? { signal: clAbort.signal } : {}),
-      });
-      if (clTimeout) clearTimeout(clTimeout);
-
-      if (response.ok) {
-        const data = await response.json();
-        const extractedText = data.content?.[0]?.text || "";
-        if (extractedText.trim()) {
-          console.log("✅ Claude OCR completed successfully");
-          return { success: true, text: extractedText.trim(), provider: "claude" };
-        } else {
-          claudeErrorMsg = "Empty response from provider";
-          console.error("Claude OCR returned empty text");
-        }
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        claudeErrorMsg = errorData.error?.message || `HTTP ${response.status}`;
-        console.error("Claude OCR failed:", claudeErrorMsg);
-      }
-    } catch (error) {
-      claudeErrorMsg = (error as Error).message;
-      console.error("Claude OCR error:", claudeErrorMsg);
-    }
+  try {
+    const result = await routeAiRequest(
+      {
+        prompt: OCR_EXTRACTION_PROMPT,
+        image: { mimeType, data: base64Data },
+        temperature: 0.1,
+        maxTokens: 8192,
+      },
+      extractionChain(userKeys),
+    );
+    console.log(`✅ ${result.provider} OCR completed successfully`);
+    return { success: true, text: result.text, provider: result.provider, userKey: result.userKey };
+  } catch (error) {
+    if (!(error instanceof AiRouterError)) throw error;
+    console.log("❌ All OCR endpoints failed in the fallback chain.");
+    const configured = error.attempts.filter((a) => a.skipped !== "not_configured");
+    return {
+      success: false,
+      text: "",
+      error: configured.length
+        ? configured.map((a) => `${a.provider}: [${a.error || a.skipped}]`).join(" | ")
+        : "No API keys configured for OCR",
+    };
   }
-
-  console.log("❌ All OCR endpoints failed in the fallback chain.");
-  return {
-    success: false,
-    text: "",
-    error: `OpenRouter: [${openRouterErrorMsg}] | Gemini: [${geminiErrorMsg}] | Claude: [${claudeErrorMsg}]`,
-  };
 }
 
 // ---------- PART 5B: SUMMARY GENERATION ----------
 
-async function generateSummary(text: string): Promise<string | null> {
-  const openRouterKey = process.env.OPENROUTER_API_KEY;
-  const claudeKey = process.env.OCR_API_KEY;
-  const geminiKey = getRandomGeminiKey();
-
-  if (!openRouterKey && !claudeKey && !geminiKey) return null;
+async function generateSummary(
+  text: string,
+  userKeys?: UserProviderKey[],
+): Promise<{ summary: string; userKey: boolean } | null> {
   if (!text || text.length < 50) return null;
 
-  // 1. PRIMARY: OpenRouter
-  if (openRouterKey) {
-    try {
-      const response = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${openRouterKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "google/gemini-2.5-flash",
-            messages: [{ role: "user", content: `${OCR_SUMMARY_PROMPT}${text}` }],
-            temperature: 0.3,
-            max_tokens: 300,
-          }),
-        },
-      );
-      if (response.ok) {
-        const data = await response.json();
-        const summary = data.choices?.[0]?.message?.content || null;
-        if (summary) return summary;
-      }
-    } catch (e) {
-      console.error("OpenRouter Summary error:", e);
-    }
-  }
-
-  // 2. SECONDARY: Gemini
-  if (geminiKey) {
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: `${OCR_SUMMARY_PROMPT}${text}` }] }],
-            generationConfig: { temperature: 0.3, maxOutputTokens: 300 },
-          }),
-        },
-      );
-      if (response.ok) {
-        const data = await response.json();
-        const summary = data.candidates?.[0]?.content?.parts?.[0]?.text || null;
-        if (summary) return summary;
-      }
-    } catch (e) {
-      console.error("Gemini Summary error:", e);
-    }
-  }
-
-  // 3. TERTIARY: Claude
-  if (claudeKey) {
-    try {
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": claudeKey,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 300,
-          temperature: 0.3,
-          messages: [{ role: "user", content: `${OCR_SUMMARY_PROMPT}${text}` }],
-        }),
-      });
-      if (response.ok) {
-        const data = await response.json();
-        const summary = data.content?.[0]?.text || null;
-        if (summary) return summary;
-      }
-    } catch (e) {
-      console.error("Claude Summary error:", e);
-    }
+  try {
+    const result = await routeAiRequest(
+      { prompt: `${OCR_SUMMARY_PROMPT}${text}`, temperature: 0.3, maxTokens: 300 },
+      withUserKeys(userKeys, [
+        openRouterProvider({ model: "google/gemini-2.5-flash" }),
+        geminiProvider(),
+        claudeProvider(),
+      ]),
+    );
+    return { summary: result.text, userKey: result.userKey };
+  } catch (error) {
+    console.error("OCR summary error:", (error as Error).message);
+    return null;
   }
-
-  return null;
 }
 
 // ============================================
@@ -414,6 +189,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "ocr" };
 
   try {
     const { image, includeSummary = true } = req.body;
@@ -452,7 +228,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Authenticate request
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "ocr" });
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
         error: authResult.error,
@@ -461,7 +237,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Extract text from image
-    const ocrResult = await extractTextFromImage(image);
+    const ocrResult = await extractTextFromImage(image, authResult.userKeys);
 
     if (!ocrResult.success) {
       console.error("OCR failed:", ocrResult.error);
@@ -482,14 +258,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Optionally generate summary
-    let summary = null;
-    if (includeSummary) {
-      summary = await generateSummary(ocrResult.text);
-    }
-
-    // Charge credit if on free tier
-    if (authResult.isFreeTier && authResult.user?.id) {
-      await deductCredit(authResult.user.id);
+    const summaryResult = includeSummary ? await generateSummary(ocrResult.text, authResult.userKeys) : null;
+    const summary = summaryResult?.summary ?? null;
+
+    // Charge credit unless the user's own keys did all the work
+    const ownKeysOnly = ocrResult.userKey && (!summaryResult || summaryResult.userKey);
+    if (!ownKeysOnly && authResult.user?.id) {
+      ledger.provider = ocrResult.provider;
+      if ((await deductCredit(authResult.user.id, ledger)) === null) {
+        return res.status(403).json(NO_CREDITS_BODY);
+      }
       creditDeducted = true;
       deductedUserId = authResult.user.id;
     }
@@ -510,7 +288,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   } catch (error) {
     console.error("OCR handler error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
     return res.status(500).json({ error: "An internal error occurred. Please try again." });
   }
 }
@@ -0,0 +1,147 @@
+// ============================================
+// PROVIDER-KEYS.TS — BYOK Key Vault
+// ============================================
+// Manages the user's own AI provider keys (see _utils/keyVault.ts).
+// SECURITY: Requires a valid JWT. Keys go in, only hints come out.
+//
+//   GET                                          → { keys, providers, available, selfHosted }
+//   POST { action: "save", provider, apiKey }    → validates, encrypts, stores
+//        (+ baseUrl, model for "openai-compatible"; apiKey may be empty)
+//   POST { action: "remove", provider }
+//   POST { action: "reorder", order: [...] }     → preference order, first tried first
+//
+// Every POST answers with the updated `keys` list.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { serialize } from "cookie";
+import { authenticateUser, setCorsHeaders, supabase } from "./_utils/auth.js";
+import { BYOK_PROVIDERS, isByokProvider, selfHostedProvider } from "./_utils/aiRouter.js";
+import {
+  type CompatibleEndpoint,
+  checkEndpoint,
+  checkKeyFormat,
+  deleteProviderKey,
+  listProviderKeys,
+  pingProviderKey,
+  reorderProviderKeys,
+  saveProviderKey,
+} from "./_utils/keyVault.js";
+
+// ============================================
+// PART 2: HELPERS
+// ============================================
+
+/** Expires the pre-vault `custom_gemini_key` cookie so it can't shadow the vault. */
+function clearLegacyCookie(res: VercelResponse) {
+  res.setHeader(
+    "Set-Cookie",
+    serialize("custom_gemini_key", "", {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      path: "/",
+      maxAge: 0,
+    }),
+  );
+}
+
+// ============================================
+// PART 3: MAIN HANDLER
+// ============================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const authResult = await authenticateUser(req, { res, endpoint: "provider-keys" });
+  if (authResult.error || !authResult.user) {
+    return res.status(authResult.statusCode || 401).json({ error: authResult.error });
+  }
+  const userId = authResult.user.id;
+
+  // The vault can't encrypt without its secret; say so instead of failing later
+  const available = !!process.env.BYOK_ENCRYPTION_KEY;
+
+  try {
+    if (req.method === "GET") {
+      const keys = available ? await listProviderKeys(supabase, userId) : [];
+      // The deployment's own model (OPENAI_COMPAT_*), so Settings can mention it
+      const selfHosted = selfHostedProvider()
+        ? { model: process.env.OPENAI_COMPAT_MODEL, exclusive: process.env.OPENAI_COMPAT_EXCLUSIVE === "true" }
+        : null;
+      return res.status(200).json({ keys, providers: BYOK_PROVIDERS, available, selfHosted });
+    }
+
+    if (!available) {
+      return res.status(503).json({ error: "Personal API keys are not enabled on this deployment." });
+    }
+
+    const { action, provider, apiKey, order, baseUrl, model } = req.body || {};
+
+    switch (action) {
+      case "save": {
+        if (!isByokProvider(provider)) {
+          return res.status(400).json({ error: "Unknown provider" });
+        }
+        const key = typeof apiKey === "string" ? apiKey.trim() : "";
+        const formatError = checkKeyFormat(provider, key);
+        if (formatError) return res.status(400).json({ error: formatError });
+
+        let endpoint: CompatibleEndpoint | undefined;
+        if (provider === "openai-compatible") {
+          endpoint = {
+            baseUrl: typeof baseUrl === "string" ? baseUrl.trim() : "",
+            model: typeof model === "string" ? model.trim() : "",
+          };
+          const endpointError = await checkEndpoint(endpoint);
+          if (endpointError) return res.status(400).json({ error: endpointError });
+        }
+
+        // Validation ping before anything is stored
+        const ping = await pingProviderKey(provider, key, endpoint);
+        if (!ping.ok) {
+          return res.status(422).json({ error: ping.error, code: "KEY_REJECTED" });
+        }
+
+        await saveProviderKey(supabase, userId, provider, key, endpoint);
+        if (provider === "gemini") clearLegacyCookie(res);
+        console.log(`🔑 BYOK ${provider} key saved for user ${userId}`);
+        break;
+      }
+
+      case "remove": {
+        if (!isByokProvider(provider)) {
+          return res.status(400).json({ error: "Unknown provider" });
+        }
+        await deleteProviderKey(supabase, userId, provider);
+        if (provider === "gemini") clearLegacyCookie(res);
+        console.log(`🔑 BYOK ${provider} key removed for user ${userId}`);
+        break;
+      }
+
+      case "reorder": {
+        if (!Array.isArray(order) || !order.every(isByokProvider)) {
+          return res.status(400).json({ error: "order must be a list of providers" });
+        }
+        await reorderProviderKeys(supabase, userId, order);
+        break;
+      }
+
+      default:
+        return res.status(400).json({ error: "Unknown action" });
+    }
+
+    return res.status(200).json({ keys: await listProviderKeys(supabase, userId) });
+  } catch (error) {
+    console.error("Provider keys error:", error);
+    return res.status(500).json({ error: "Could not update your API keys. Please try again." });
+  }
+}
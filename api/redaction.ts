@@ -0,0 +1,104 @@
+// ============================================
+// REDACTION.TS — PII Redaction Settings & Audit
+// ============================================
+// Manages the user's redaction settings (see _utils/redaction.ts).
+// SECURITY: Requires a valid JWT.
+//
+//   GET                                          → { settings, categories, audit }
+//   POST { action: "save", settings }            → validates and stores, answers { settings }
+//   POST { action: "preview", text, settings? }  → { text, redactions, summary }
+//
+// The preview runs the given (possibly unsaved) settings as if redaction
+// were on, and sends nothing to an AI provider. Reading and previewing are
+// free.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { authenticateUser, setCorsHeaders, supabase } from "./_utils/auth.js";
+import {
+  REDACTION_CATEGORIES,
+  checkRedactionSettings,
+  createRedactor,
+  getRedactionSettings,
+  listRedactionAudit,
+  saveRedactionSettings,
+} from "./_utils/redaction.js";
+
+// ============================================
+// PART 2: CONFIGURATION
+// ============================================
+
+const AUDIT_PAGE_SIZE = 20;
+const MAX_PREVIEW_LENGTH = 20_000;
+
+// ============================================
+// PART 3: MAIN HANDLER
+// ============================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const authResult = await authenticateUser(req, { res, endpoint: "redaction" });
+  if (authResult.error || !authResult.user) {
+    return res.status(authResult.statusCode || 401).json({ error: authResult.error });
+  }
+  const userId = authResult.user.id;
+
+  try {
+    if (req.method === "GET") {
+      const [settings, audit] = await Promise.all([
+        getRedactionSettings(supabase, userId),
+        listRedactionAudit(supabase, userId, AUDIT_PAGE_SIZE),
+      ]);
+      return res.status(200).json({ settings, categories: REDACTION_CATEGORIES, audit });
+    }
+
+    const { action, settings: rawSettings, text } = req.body || {};
+
+    switch (action) {
+      case "save": {
+        const { settings, error } = checkRedactionSettings(rawSettings);
+        if (!settings) return res.status(400).json({ error });
+        await saveRedactionSettings(supabase, userId, settings);
+        console.log(`🛡️ Redaction ${settings.enabled ? "on" : "off"} for user ${userId}`);
+        return res.status(200).json({ settings });
+      }
+
+      case "preview": {
+        if (typeof text !== "string" || !text.trim()) {
+          return res.status(400).json({ error: "text is required" });
+        }
+        if (text.length > MAX_PREVIEW_LENGTH) {
+          return res.status(400).json({ error: `Preview text can be at most ${MAX_PREVIEW_LENGTH} characters` });
+        }
+
+        const { settings, error } = rawSettings === undefined
+          ? { settings: await getRedactionSettings(supabase, userId), error: undefined }
+          : checkRedactionSettings(rawSettings);
+        if (!settings) return res.status(400).json({ error });
+
+        const redactor = createRedactor(settings);
+        const redacted = redactor.redact(text);
+        return res.status(200).json({
+          text: redacted,
+          redactions: redactor.redactions(),
+          summary: redactor.summary(),
+        });
+      }
+
+      default:
+        return res.status(400).json({ error: "Unknown action" });
+    }
+  } catch (error) {
+    console.error("Redaction settings error:", error);
+    return res.status(500).json({ error: "Could not update your redaction settings. Please try again." });
+  }
+}
@@ -0,0 +1,530 @@
+// ============================================
+// rss.ts - RSS / Atom / JSON Feed Proxy
+// Vercel Serverless Function
+// ============================================
+// Fetches a feed server-side (browsers can't read most feeds cross-origin)
+// and normalizes RSS 2.0, RSS 1.0 (RDF), Atom and JSON Feed into the
+// `RssFeedResponse` shape consumed by `src/services/rssFeedsService.ts`.
+// Auth required, no credit cost.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { createHash } from "crypto";
+import { authenticateUser, setCorsHeaders } from "./_utils/auth.js";
+import { assertPublicUrl } from "./_utils/ssrf.js";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+type FeedSource = "atom" | "rss2" | "rdf" | "json" | "unknown";
+
+interface RssItem {
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+  authors: string[];
+  pubDate: string | null;
+  categories: string[];
+}
+
+interface ParsedFeed {
+  title: string;
+  description: string;
+  link: string;
+  items: RssItem[];
+  source: FeedSource;
+}
+
+// ============================================
+// PART 3: CONSTANTS & CONFIGURATION
+// ============================================
+
+const MAX_FEED_BYTES = 5 * 1024 * 1024; // 5 MB
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_ITEMS = 50;
+const MAX_REDIRECTS = 3;
+const MAX_SUMMARY_CHARS = 600;
+
+const USER_AGENT = "ResearchMate-FeedFetcher/1.0 (+https://researchmate.vercel.app)";
+
+// Feeds are only fetched from public hosts on the usual web ports
+const FEED_URL_RULES = { label: "feed", allowedPorts: ["80", "443", "8080", "8443"] };
+
+// ============================================
+// PART 4: FETCH WITH LIMITS
+// ============================================
+
+interface FetchOutcome {
+  status: number;
+  body: string;
+  contentType: string;
+  etag: string | null;
+  lastModified: string | null;
+  finalUrl: string;
+}
+
+/**
+ * Reads the response body with a hard byte cap so a hostile or runaway feed
+ * can't exhaust function memory.
+ */
+async function readCappedBody(response: Response): Promise<string> {
+  const declared = Number(response.headers.get("content-length") || 0);
+  if (declared > MAX_FEED_BYTES) {
+    throw new Error("Feed is too large (max 5 MB)");
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_FEED_BYTES) {
+      await reader.cancel().catch(() => {});
+      throw new Error("Feed is too large (max 5 MB)");
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Fetches a feed, following redirects manually so every hop is re-validated
+ * against the SSRF guard. Sends conditional headers when validators are given.
+ */
+async function fetchFeed(
+  url: string,
+  validators: { etag?: string; lastModified?: string },
+): Promise<FetchOutcome> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let current = (await assertPublicUrl(url, FEED_URL_RULES)).toString();
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const headers: Record<string, string> = {
+        "User-Agent": USER_AGENT,
+        Accept:
+          "application/rss+xml, application/atom+xml, application/feed+json, application/json, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5",
+      };
+      if (validators.etag) headers["If-None-Match"] = validators.etag;
+      if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+      const response = await fetch(current, {
+        method: "GET",
+        headers,
+        redirect: "manual",
+        signal: controller.signal,
+      });
+
+      if ([301, 302, 303, 307, 308].includes(response.status)) {
+        const location = response.headers.get("location");
+        if (!location) throw new Error("Feed redirect without location");
+        current = (await assertPublicUrl(new URL(location, current).toString(), FEED_URL_RULES)).toString();
+        continue;
+      }
+
+      const outcome: FetchOutcome = {
+        status: response.status,
+        body: "",
+        contentType: (response.headers.get("content-type") || "").toLowerCase(),
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+        finalUrl: current,
+      };
+
+      if (response.status === 304 || !response.ok) return outcome;
+
+      outcome.body = await readCappedBody(response);
+      return outcome;
+    }
+
+    throw new Error("Too many redirects");
+  } catch (error) {
+    if ((error as Error).name === "AbortError") {
+      throw new Error("Feed took too long to respond");
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// ============================================
+// PART 5: XML HELPERS (regex-based, no deps)
+// ============================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+function decodeEntities(str: string): string {
+  return str.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Unwraps CDATA sections, or decodes entities for plain text nodes. */
+function textValue(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1].trim();
+  return decodeEntities(raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")).trim();
+}
+
+function stripHtml(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<br\s*\/?>/gi, " ")
+      .replace(/<\/p>/gi, " ")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** First inner text of `<tag>` (tag may include a namespace prefix). */
+function extractTag(xml: string, tag: string): string {
+  const t = escapeTag(tag);
+  const match = xml.match(new RegExp(`<${t}(?:\\s[^>]*)?>([\\s\\S]*?)</${t}>`, "i"));
+  return match ? textValue(match[1]) : "";
+}
+
+function extractAllTags(xml: string, tag: string): string[] {
+  const t = escapeTag(tag);
+  const re = new RegExp(`<${t}(?:\\s[^>]*)?>([\\s\\S]*?)</${t}>`, "gi");
+  const values: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(xml)) !== null) {
+    const value = textValue(match[1]);
+    if (value) values.push(value);
+  }
+  return values;
+}
+
+/** Blocks of `<tag ...>...</tag>` including the wrapping element. */
+function extractBlocks(xml: string, tag: string): string[] {
+  const t = escapeTag(tag);
+  const re = new RegExp(`<${t}(?:\\s[^>]*)?>[\\s\\S]*?</${t}>`, "gi");
+  return xml.match(re) || [];
+}
+
+function extractAttr(tagSource: string, attr: string): string {
+  const match = tagSource.match(new RegExp(`\\s${escapeTag(attr)}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i"));
+  return match ? decodeEntities(match[2] ?? match[3] ?? "").trim() : "";
+}
+
+/** Drops item blocks so channel-level fields aren't read from the first item. */
+function channelHead(xml: string, itemTag: string): string {
+  const idx = xml.search(new RegExp(`<${escapeTag(itemTag)}[\\s>]`, "i"));
+  return idx >= 0 ? xml.slice(0, idx) : xml;
+}
+
+function toIsoDate(raw: string | undefined | null): string | null {
+  if (!raw) return null;
+  const time = Date.parse(raw.trim());
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function stableId(...parts: Array<string | undefined>): string {
+  const seed = parts.filter(Boolean).join("|") || Math.random().toString();
+  return createHash("sha1").update(seed).digest("hex").slice(0, 16);
+}
+
+function uniq(values: string[]): string[] {
+  return Array.from(new Set(values.map((v) => v.trim()).filter(Boolean)));
+}
+
+// ============================================
+// PART 6: FORMAT PARSERS
+// ============================================
+
+// ---------- PART 6A: RSS 2.0 ----------
+
+function parseRss2(xml: string): ParsedFeed {
+  const head = channelHead(xml, "item");
+  const items = extractBlocks(xml, "item").slice(0, MAX_ITEMS).map((block) => {
+    const link = extractTag(block, "link") || extractTag(block, "guid");
+    const title = stripHtml(extractTag(block, "title")) || "Untitled";
+    const description =
+      extractTag(block, "description") || extractTag(block, "content:encoded");
+    const authors = uniq([
+      ...extractAllTags(block, "dc:creator"),
+      ...extractAllTags(block, "author"),
+    ].map(stripHtml));
+
+    return {
+      id: extractTag(block, "guid") || link || stableId(title, description),
+      title,
+      link,
+      summary: truncate(stripHtml(description), MAX_SUMMARY_CHARS),
+      authors,
+      pubDate: toIsoDate(extractTag(block, "pubDate") || extractTag(block, "dc:date")),
+      categories: uniq(extractAllTags(block, "category").map(stripHtml)),
+    };
+  });
+
+  return {
+    title: stripHtml(extractTag(head, "title")),
+    description: stripHtml(extractTag(head, "description")),
+    link: extractTag(head, "link"),
+    items,
+    source: "rss2",
+  };
+}
+
+// ---------- PART 6B: RSS 1.0 / RDF ----------
+
+function parseRdf(xml: string): ParsedFeed {
+  const channel = extractBlocks(xml, "channel")[0] || "";
+  const items = extractBlocks(xml, "item").slice(0, MAX_ITEMS).map((block) => {
+    const openTag = block.match(/^<item[^>]*>/i)?.[0] || "";
+    const link = extractTag(block, "link") || extractAttr(openTag, "rdf:about");
+    const title = stripHtml(extractTag(block, "title")) || "Untitled";
+    const description = extractTag(block, "description") || extractTag(block, "content:encoded");
+
+    return {
+      id: extractAttr(openTag, "rdf:about") || link || stableId(title, description),
+      title,
+      link,
+      summary: truncate(stripHtml(description), MAX_SUMMARY_CHARS),
+      authors: uniq(extractAllTags(block, "dc:creator").map(stripHtml)),
+      pubDate: toIsoDate(extractTag(block, "dc:date")),
+      categories: uniq(extractAllTags(block, "dc:subject").map(stripHtml)),
+    };
+  });
+
+  return {
+    title: stripHtml(extractTag(channel, "title")),
+    description: stripHtml(extractTag(channel, "description")),
+    link: extractTag(channel, "link"),
+    items,
+    source: "rdf",
+  };
+}
+
+// ---------- PART 6C: ATOM ----------
+
+function atomLink(xml: string): string {
+  const links = xml.match(/<link\b[^>]*\/?>/gi) || [];
+  const alternate = links.find((l) => {
+    const rel = extractAttr(l, "rel");
+    return !rel || rel === "alternate";
+  });
+  return extractAttr(alternate || links[0] || "", "href");
+}
+
+function parseAtom(xml: string): ParsedFeed {
+  const head = channelHead(xml, "entry");
+  const items = extractBlocks(xml, "entry").slice(0, MAX_ITEMS).map((block) => {
+    const link = atomLink(block);
+    const title = stripHtml(extractTag(block, "title")) || "Untitled";
+    const content = extractTag(block, "summary") || extractTag(block, "content");
+    const authors = uniq(
+      extractBlocks(block, "author").map((a) => stripHtml(extractTag(a, "name"))),
+    );
+    const categories = uniq(
+      (block.match(/<category\b[^>]*\/?>/gi) || []).map(
+        (c) => extractAttr(c, "label") || extractAttr(c, "term"),
+      ),
+    );
+
+    return {
+      id: extractTag(block, "id") || link || stableId(title, content),
+      title,
+      link,
+      summary: truncate(stripHtml(content), MAX_SUMMARY_CHARS),
+      authors,
+      pubDate: toIsoDate(extractTag(block, "published") || extractTag(block, "updated")),
+      categories,
+    };
+  });
+
+  return {
+    title: stripHtml(extractTag(head, "title")),
+    description: stripHtml(extractTag(head, "subtitle")),
+    link: atomLink(head),
+    items,
+    source: "atom",
+  };
+}
+
+// ---------- PART 6D: JSON FEED (1.0 / 1.1) ----------
+
+function parseJsonFeed(feed: any): ParsedFeed {
+  const feedAuthors = [
+    ...(Array.isArray(feed.authors) ? feed.authors : []),
+    ...(feed.author ? [feed.author] : []),
+  ];
+
+  const rawItems: any[] = Array.isArray(feed.items) ? feed.items : [];
+  const items = rawItems.slice(0, MAX_ITEMS).map((item) => {
+    const itemAuthors = [
+      ...(Array.isArray(item.authors) ? item.authors : []),
+      ...(item.author ? [item.author] : []),
+    ];
+    const link = String(item.url || item.external_url || "");
+    const title = stripHtml(String(item.title || "")) || "Untitled";
+    const summary =
+      item.summary || item.content_text || stripHtml(String(item.content_html || ""));
+
+    return {
+      id: String(item.id ?? "") || link || stableId(title, summary),
+      title,
+      link,
+      summary: truncate(stripHtml(String(summary || "")), MAX_SUMMARY_CHARS),
+      authors: uniq(
+        (itemAuthors.length ? itemAuthors : feedAuthors).map((a: any) => String(a?.name || "")),
+      ),
+      pubDate: toIsoDate(item.date_published || item.date_modified),
+      categories: uniq(Array.isArray(item.tags) ? item.tags.map(String) : []),
+    };
+  });
+
+  return {
+    title: stripHtml(String(feed.title || "")),
+    description: stripHtml(String(feed.description || "")),
+    link: String(feed.home_page_url || ""),
+    items,
+    source: "json",
+  };
+}
+
+// ---------- PART 6E: FORMAT SNIFFING ----------
+
+function parseFeed(body: string, contentType: string): ParsedFeed {
+  const trimmed = body.replace(/^﻿/, "").trimStart();
+
+  if (contentType.includes("json") || trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed);
+      if (json && typeof json === "object" && Array.isArray(json.items)) {
+        return parseJsonFeed(json);
+      }
+    } catch {
+      // Not JSON after all — fall through to XML sniffing
+    }
+  }
+
+  // Strip comments so a commented-out <rss> doesn't mislead the sniffer
+  const xml = trimmed.replace(/<!--[\s\S]*?-->/g, "");
+
+  if (/<rdf:RDF[\s>]/i.test(xml)) return parseRdf(xml);
+  if (/<feed[\s>]/i.test(xml)) return parseAtom(xml);
+  if (/<rss[\s>]/i.test(xml) || /<channel[\s>]/i.test(xml)) return parseRss2(xml);
+
+  return { title: "", description: "", link: "", items: [], source: "unknown" };
+}
+
+// ============================================
+// PART 7: MAIN HANDLER
+// ============================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const auth = await authenticateUser(req, { res, endpoint: "rss" });
+  if (!auth.user) {
+    return res.status(auth.statusCode || 401).json({ error: auth.error });
+  }
+
+  const url = typeof req.query.url === "string" ? req.query.url.trim() : "";
+  if (!url) return res.status(400).json({ error: "Feed URL is required" });
+
+  // Validators from the last successful fetch (stored on rss_feeds)
+  const etag = typeof req.query.etag === "string" ? req.query.etag : undefined;
+  const lastModified =
+    typeof req.query.lastModified === "string" ? req.query.lastModified : undefined;
+
+  let outcome: FetchOutcome;
+  try {
+    outcome = await fetchFeed(url, { etag, lastModified });
+  } catch (error) {
+    // Guard/limit errors are written to be client-safe
+    console.warn(`RSS fetch rejected for user ${auth.user.id}:`, (error as Error).message);
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  const fetchedAt = new Date().toISOString();
+
+  if (outcome.status === 304) {
+    return res.status(200).json({
+      title: "",
+      description: "",
+      link: "",
+      items: [],
+      fetchedAt,
+      source: "unknown",
+      notModified: true,
+      etag: outcome.etag ?? etag ?? null,
+      lastModified: outcome.lastModified ?? lastModified ?? null,
+    });
+  }
+
+  if (outcome.status < 200 || outcome.status >= 300) {
+    return res.status(502).json({ error: `Feed server responded with ${outcome.status}` });
+  }
+
+  try {
+    const feed = parseFeed(outcome.body, outcome.contentType);
+    if (feed.source === "unknown") {
+      return res.status(422).json({ error: "URL did not return a recognizable RSS, Atom or JSON feed" });
+    }
+
+    return res.status(200).json({
+      ...feed,
+      link: feed.link || outcome.finalUrl,
+      fetchedAt,
+      notModified: false,
+      etag: outcome.etag,
+      lastModified: outcome.lastModified,
+    });
+  } catch (error) {
+    console.error("RSS parse error:", error);
+    return res.status(500).json({ error: "An internal error occurred. Please try again." });
+  }
+}
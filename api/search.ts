@@ -388,7 +388,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === "OPTIONS") return res.status(200).end();
   if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
 
-  const auth = await authenticateUser(req);
+  const auth = await authenticateUser(req, { res, endpoint: "search" });
   if (!auth.user) return res.status(auth.statusCode || 401).json({ error: auth.error });
 
   const { query, type = "academic", source = "all" } = (req.body || {}) as {
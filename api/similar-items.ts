@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { authenticateUser, setCorsHeaders, supabase } from "./_utils/auth.js";
+import { getEmbedder } from "./_utils/embeddings.js";
+import { findSimilarItems, getItemVector, hasIndexedChunks, indexLibrary } from "./_utils/rag.js";
+import { loadRedactor, recordRedaction, withEmbeddingRedaction } from "./_utils/redaction.js";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+// Embedding similarity over the user's library, for "search by meaning"
+// ({ query }) and "related items" ({ itemId }). Free: no credit is charged.
+//
+// Responds { mode: "semantic", results: [{ id, score, snippet }] }, or
+// { mode: "unavailable", results: [] } when there are no embeddings to
+// compare against — the client then falls back to keyword search.
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "POST")
+    return res.status(405).json({ error: "Method not allowed" });
+
+  try {
+    // 1. Authenticate
+    const authResult = await authenticateUser(req, { res, endpoint: "similar-items" });
+    if (authResult.error || !authResult.user) {
+      return res.status(authResult.statusCode || 401).json({ error: authResult.error });
+    }
+    const userId = authResult.user.id;
+
+    // 2. Validate Request
+    const { query, itemId, limit } = req.body || {};
+    const trimmedQuery = typeof query === "string" ? query.trim() : "";
+    if (!trimmedQuery && !itemId) {
+      return res.status(400).json({ error: "Query or itemId is required" });
+    }
+    const matchCount = Math.min(Math.max(Number(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    // 3. Bring the index up to date, then build the query vector (redacted
+    //    on the way to a hosted embedding model if the user asked for it)
+    const base = getEmbedder(authResult.customKey);
+    const redactor = base.local ? null : await loadRedactor(supabase, userId);
+    const embedder = withEmbeddingRedaction(base, redactor);
+    await indexLibrary(supabase, userId, embedder);
+
+    const unavailable = () => res.status(200).json({ mode: "unavailable", results: [] });
+    if (!(await hasIndexedChunks(supabase, userId, embedder))) return unavailable();
+
+    const vector = itemId
+      ? await getItemVector(supabase, userId, itemId, embedder)
+      : (await embedder.embed([trimmedQuery], "query"))[0];
+    if (!vector) return unavailable();
+    await recordRedaction(supabase, userId, { endpoint: "similar-items", provider: embedder.model }, redactor);
+
+    // 4. Rank
+    const matches = await findSimilarItems(supabase, userId, embedder, vector, {
+      limit: matchCount,
+      excludeItemId: itemId,
+    });
+
+    return res.status(200).json({
+      mode: "semantic",
+      results: matches.map((m) => ({ id: m.itemId, score: m.score, snippet: m.snippet })),
+    });
+  } catch (error) {
+    console.error("Similar Items API Error:", error);
+    return res.status(500).json({ error: "An internal error occurred. Please try again." });
+  }
+}
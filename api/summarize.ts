@@ -1,23 +1,43 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { createClient } from "@supabase/supabase-js";
-import { authenticateUser, deductCredit, refundCredit, setCorsHeaders } from "./_utils/auth.js";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+  supabase,
+} from "./_utils/auth.js";
+import {
+  type AiProvider,
+  AiRouterError,
+  type UserProviderKey,
+  aiErrorResponse,
+  claudeProvider,
+  defaultAiChain,
+  geminiProvider,
+  openRouterProvider,
+  routeAiRequest,
+  withSelfHosted,
+  withUserKeys,
+} from "./_utils/aiRouter.js";
+import {
+  MAX_SUMMARY_CHUNKS,
+  SUMMARY_CHUNK_CHARS,
+  type SummaryMode,
+  type SummaryPlan,
+  getSummaryRange,
+  planSummary,
+  summarizeLongDocument,
+} from "./_utils/longSummary.js";
+import { loadRedactor, recordRedaction, withRedaction } from "./_utils/redaction.js";
+import { cacheKey, chainSignature, readCache, writeCache } from "./_utils/responseCache.js";
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const GEMINI_MODEL = "gemini-2.5-flash";
-const GEMINI_ENDPOINT =
-  "https://generativelanguage.googleapis.com/v1beta/models";
-
-// Fallback 1: OpenRouter (Grok)
-const OPENROUTER_MODEL = "x-ai/grok-2-1212";
-const OPENROUTER_ENDPOINT = "https://openrouter.ai/api/v1/chat/completions";
-
-// Fallback 2: Groq (Llama 3.3)
-const GROQ_MODEL = "llama-3.3-70b-versatile";
-const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
-
 const SYSTEM_INSTRUCTION = `
 You are ResearchMate, an expert academic summarization engine.
 
@@ -56,174 +76,112 @@ Tone & Style:
 `.trim();
 
 // ============================================
-// SUMMARY MODE CONFIGURATION
+// LONG DOCUMENTS (MAP-REDUCE)
 // ============================================
-type SummaryMode = "ultra-short" | "standard" | "detailed";
-
-function getSummaryRange(mode: SummaryMode, wordCount: number): { min: number; max: number; label: string } {
-  switch (mode) {
-    case "ultra-short":
-      return {
-        min: Math.round(wordCount * 0.05),
-        max: Math.round(wordCount * 0.10),
-        label: "Ultra-Short (5–10% — headlines, quick notes, AI previews)",
-      };
-    case "detailed":
-      return {
-        min: Math.round(wordCount * 0.30),
-        max: Math.round(wordCount * 0.40),
-        label: "Detailed (30–40% — full context, examples, and steps preserved)",
-      };
-    case "standard":
-    default:
-      return {
-        min: Math.round(wordCount * 0.15),
-        max: Math.round(wordCount * 0.25),
-        label: "Standard (15–25% — core ideas, most research summaries)",
-      };
-  }
+// Texts over LONG_DOCUMENT_CHARS are split by page / section and summarized
+// with map-reduce (see _utils/longSummary.ts), which costs more than one
+// credit. `{ quote: true }` returns the plan without calling the AI; the
+// summary itself only runs when `maxCredits` covers the quoted cost, so a
+// client can never be charged more than it agreed to.
+//
+// With `stream: true` progress arrives as Server-Sent Events:
+// `{"type":"plan","chunks","credits"}`, then
+// `{"type":"progress","stage":"map","completed","total","label"}` per chunk
+// and `{"type":"progress","stage":"reduce"}`, then
+// `{"type":"done","summary","credits_remaining"}` or `{"type":"error","error","code"}`.
+// Credits are charged once the summary is complete; if the balance no longer
+// covers them the stream ends with a NO_CREDITS error instead of `done`.
+//
+// Summaries are cached per user for the same text and mode (see
+// _utils/responseCache.ts). A cached summary is quoted at 0 credits, comes
+// back with `cached: true` and is free; `refresh: true` skips the cache.
+
+const quoteBody = (plan: SummaryPlan, cached = false) => ({
+  strategy: plan.strategy,
+  chunks: plan.chunks.length,
+  sections: plan.chunks.map((c) => c.label),
+  credits: cached ? 0 : plan.credits,
+  cached,
+});
+
+const startEventStream = (res: VercelResponse) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  return (event: Record<string, unknown>) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+};
+
+/** A cached summary in the shape the request asked for (one `done` event when streaming). */
+function sendCachedSummary(res: VercelResponse, summary: string, creditsRemaining: unknown, stream: boolean) {
+  const body = { summary, cached: true, credits_remaining: creditsRemaining };
+  if (!stream) return res.status(200).json(body);
+  startEventStream(res)({ type: "done", ...body });
+  return res.end();
 }
 
-// ============================================
-// KEY ROTATION HELPER
-// ============================================
-function getRandomGeminiKey(): string | undefined {
-  const multipleKeys = process.env.GEMINI_API_KEYS;
-  if (multipleKeys) {
-    const keys = multipleKeys
-      .split(",")
-      .map((k) => k.trim())
-      .filter(Boolean);
-    if (keys.length > 0) {
-      return keys[Math.floor(Math.random() * keys.length)];
-    }
-  }
-  return process.env.GEMINI_API_KEY;
+/** Redaction audit as soon as a summary is in; cache entry only once it was paid for and delivered. */
+interface SummaryHooks {
+  recordAudit(provider?: string): Promise<void>;
+  cacheSummary(summary: string, provider?: string): Promise<void>;
 }
 
-// ============================================
-// AI PROVIDER 1: GEMINI (Primary)
-// ============================================
-async function callGeminiAPI(
-  prompt: string,
-  apiKey: string,
-  mode: SummaryMode = "standard",
-  options: any = {},
+async function streamLongSummary(
+  res: VercelResponse,
+  plan: SummaryPlan,
+  mode: SummaryMode,
+  chain: AiProvider[],
+  chargeUserId: string | null,
+  hooks: SummaryHooks,
 ) {
-  const url = `${GEMINI_ENDPOINT}/${GEMINI_MODEL}:generateContent?key=${apiKey}`;
-
-  // Count words and compute target range based on mode
-  const wordCount = prompt.trim().split(/\s+/).length;
-  const range = getSummaryRange(mode, wordCount);
-  const fullPrompt = `${SYSTEM_INSTRUCTION}\n\nORIGINAL WORD COUNT: ${wordCount} words\nSUMMARY MODE: ${range.label}\nTARGET SUMMARY LENGTH: ${range.min}–${range.max} words\n\nTEXT TO SUMMARIZE:\n${prompt}`;
-
-  const requestBody = {
-    contents: [{ parts: [{ text: fullPrompt }] }],
-    generationConfig: {
-      temperature: options.temperature || 0.3,
-      maxOutputTokens: options.maxTokens || 8192,
-    },
-  };
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.error?.message || `Gemini API error: ${response.status}`,
-    );
-  }
-
-  const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || "";
-}
-
-// ============================================
-// AI PROVIDER 2: OPENROUTER (Fallback 1)
-// ============================================
-async function callOpenRouterAPI(prompt: string, mode: SummaryMode = "standard", options: any = {}) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OpenRouter API Key not configured.");
-  }
+  const send = startEventStream(res);
 
-  const wordCount = prompt.trim().split(/\s+/).length;
-  const range = getSummaryRange(mode, wordCount);
-  const response = await fetch(OPENROUTER_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": "https://researchmate.vercel.app",
-      "X-Title": "ResearchMate",
-    },
-    body: JSON.stringify({
-      model: OPENROUTER_MODEL,
-      messages: [
-        { role: "system", content: SYSTEM_INSTRUCTION },
-        { role: "user", content: `ORIGINAL WORD COUNT: ${wordCount} words\nSUMMARY MODE: ${range.label}\nTARGET SUMMARY LENGTH: ${range.min}–${range.max} words\n\nTEXT TO SUMMARIZE:\n${prompt}` },
-      ],
-      temperature: options.temperature || 0.3,
-      max_tokens: options.maxTokens || 4096,
-    }),
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
   });
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `OpenRouter Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
-}
+  send({ type: "plan", chunks: plan.chunks.length, credits: plan.credits });
 
-// ============================================
-// AI PROVIDER 3: GROQ (Fallback 2)
-// ============================================
-async function callGroqAPI(prompt: string, mode: SummaryMode = "standard", options: any = {}) {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error("Groq API Key not configured.");
-  }
+  let charged = false;
+  const ledger: CreditContext = { endpoint: "summarize" };
+  try {
+    const { summary, provider, userKey } = await summarizeLongDocument(plan.chunks, mode, chain, {
+      onProgress: (progress) => send({ type: "progress", ...progress }),
+      signal: controller.signal,
+    });
+    await hooks.recordAudit(provider);
 
-  const wordCount = prompt.trim().split(/\s+/).length;
-  const range = getSummaryRange(mode, wordCount);
-  const response = await fetch(GROQ_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: GROQ_MODEL,
-      messages: [
-        { role: "system", content: SYSTEM_INSTRUCTION },
-        { role: "user", content: `ORIGINAL WORD COUNT: ${wordCount} words\nSUMMARY MODE: ${range.label}\nTARGET SUMMARY LENGTH: ${range.min}–${range.max} words\n\nTEXT TO SUMMARIZE:\n${prompt}` },
-      ],
-      temperature: options.temperature || 0.3,
-      max_tokens: options.maxTokens || 4096,
-    }),
-  });
+    let creditsRemaining: number | string = "Unlimited";
+    ledger.provider = provider;
+    if (chargeUserId && !userKey) {
+      const balance = await deductCredit(chargeUserId, ledger, plan.credits);
+      if (balance === null) {
+        send({ type: "error", ...NO_CREDITS_BODY });
+        return;
+      }
+      creditsRemaining = balance;
+      charged = true;
+    }
+    if (controller.signal.aborted) throw new Error("Client disconnected");
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      `Groq Error (${response.status}): ${
-        errorData.error?.message || response.statusText
-      }`,
-    );
+    await hooks.cacheSummary(summary, provider);
+    send({ type: "done", summary, cached: false, credits_remaining: creditsRemaining });
+  } catch (error) {
+    if (charged && chargeUserId) await refundCredit(chargeUserId, ledger, plan.credits);
+    if (controller.signal.aborted) {
+      console.log("⏹️ Long summary cancelled by client");
+    } else if (error instanceof AiRouterError) {
+      console.error("Long summary failed:", error.message);
+      send({ type: "error", ...aiErrorResponse(error).body });
+    } else {
+      console.error("Long summary error:", error);
+      send({ type: "error", error: "An internal error occurred. Please try again." });
+    }
+  } finally {
+    res.end();
   }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content?.trim() || "";
 }
 
 // ============================================
@@ -243,93 +201,18 @@ Text to summarize:
 `;
 
 // ============================================
-// ITEM SUMMARY FALLBACK CHAIN (OpenRouter -> Gemini -> Claude)
+// ITEM SUMMARY CHAIN (User keys -> Self-hosted -> OpenRouter -> Gemini -> Claude)
 // ============================================
 
-async function callItemSummaryChain(text: string): Promise<string | null> {
-  const openRouterKey = process.env.OPENROUTER_API_KEY;
-  const claudeKey = process.env.OCR_API_KEY;
-  const geminiKey = getRandomGeminiKey();
-
-  // Fallback 1: OpenRouter
-  if (openRouterKey) {
-    try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openRouterKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-flash",
-          messages: [{ role: "user", content: `${ITEM_SUMMARY_PROMPT}${text}` }],
-          temperature: 0.3,
-          max_tokens: 300,
-        }),
-      });
-      if (response.ok) {
-        const data = await response.json();
-        const summary = data.choices?.[0]?.message?.content || null;
-        if (summary) return summary;
-      }
-    } catch (e) {
-      console.error("OpenRouter item summary error:", e);
-    }
-  }
-
-  // Fallback 2: Gemini
-  if (geminiKey) {
-    try {
-      const response = await fetch(
-        `${GEMINI_ENDPOINT}/gemini-2.5-flash:generateContent?key=${geminiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: `${ITEM_SUMMARY_PROMPT}${text}` }] }],
-            generationConfig: { temperature: 0.3, maxOutputTokens: 300 },
-          }),
-        }
-      );
-      if (response.ok) {
-        const data = await response.json();
-        const summary = data.candidates?.[0]?.content?.parts?.[0]?.text || null;
-        if (summary) return summary;
-      }
-    } catch (e) {
-      console.error("Gemini item summary error:", e);
-    }
-  }
-
-  // Fallback 3: Claude
-  if (claudeKey) {
-    try {
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": claudeKey,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-3-5-sonnet-20241022",
-          max_tokens: 300,
-          temperature: 0.3,
-          messages: [{ role: "user", content: `${ITEM_SUMMARY_PROMPT}${text}` }],
-        }),
-      });
-      if (response.ok) {
-        const data = await response.json();
-        const summary = data.content?.[0]?.text || null;
-        if (summary) return summary;
-      }
-    } catch (e) {
-      console.error("Claude item summary error:", e);
-    }
-  }
-
-  return null;
-}
+const itemSummaryChain = (userKeys?: UserProviderKey[]) =>
+  withUserKeys(
+    userKeys,
+    withSelfHosted([
+      openRouterProvider({ model: "google/gemini-2.5-flash" }),
+      geminiProvider(),
+      claudeProvider({ model: "claude-3-5-sonnet-20241022" }),
+    ]),
+  );
 
 // ============================================
 // MAIN HANDLER
@@ -343,10 +226,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   let creditDeducted = false;
   let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "summarize" };
 
   try {
     // 1. Authenticate
-    const authResult = await authenticateUser(req);
+    const authResult = await authenticateUser(req, { res, endpoint: "summarize" });
 
     if (authResult.error) {
       return res.status(authResult.statusCode || 401).json({
@@ -359,19 +243,60 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const userId = user?.id;
 
     // 2. Parse request — itemId presence determines the mode
-    const { text, mode, itemId } = req.body;
+    const { text, mode, itemId, quote, maxCredits, stream, refresh } = req.body;
     if (!text) return res.status(400).json({ error: "Text is required" });
 
+    const validModes: SummaryMode[] = ["ultra-short", "standard", "detailed"];
+    const summaryMode: SummaryMode = validModes.includes(mode) ? mode : "standard";
+    const chain = itemId ? itemSummaryChain(authResult.userKeys) : defaultAiChain(authResult.userKeys);
+    const balance = isFreeTier ? authResult.credits : "Unlimited";
+
+    // The same text in the same mode was summarized before: answer from the cache
+    const key = cacheKey({
+      endpoint: "summarize",
+      mode: itemId ? "item" : summaryMode,
+      model: chainSignature(chain),
+      text,
+    });
+    const cached = userId && !refresh ? await readCache<string>(supabase, userId, key) : null;
+
+    const redactor = cached || quote || !userId ? null : await loadRedactor(supabase, userId);
+    const hooks: SummaryHooks = {
+      async recordAudit(provider) {
+        if (userId) await recordRedaction(supabase, userId, { endpoint: "summarize", provider }, redactor);
+      },
+      async cacheSummary(summary, provider) {
+        if (userId) await writeCache(supabase, userId, key, { endpoint: "summarize", value: summary, provider });
+      },
+    };
+
     // ============================================
     // MODE A: Item Summary (short, writes to DB)
     // Triggered when itemId is provided
     // ============================================
     if (itemId) {
-      const summary = await callItemSummaryChain(text);
+      let summary = cached?.value;
+      let provider: string | undefined;
+      let userKey = false;
+      if (summary === undefined) {
+        const result = await routeAiRequest(
+          { prompt: `${ITEM_SUMMARY_PROMPT}${text}`, temperature: 0.3, maxTokens: 300 },
+          withRedaction(chain, redactor),
+        );
+        summary = result.text;
+        provider = result.provider;
+        userKey = result.userKey;
+        await hooks.recordAudit(provider);
+      }
 
-      if (!summary) {
-        return res.status(500).json({ error: "All AI providers failed to generate summary." });
+      // Charge credit (cache hits and the user's own keys are free), before the summary is stored
+      if (userId && !cached && !userKey) {
+        Object.assign(ledger, { provider, itemId });
+        if ((await deductCredit(userId, ledger)) === null) return res.status(403).json(NO_CREDITS_BODY);
+        creditDeducted = true;
+        deductedUserId = userId;
       }
+      if (!cached) await hooks.cacheSummary(summary, provider);
 
       // Write summary directly to DB using service role key
       const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
@@ -388,96 +313,94 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.error("Supabase env vars not found for item summary DB write");
       }
 
-      // Charge credit if on free tier
-      if (isFreeTier && userId) {
-        await deductCredit(userId);
-        creditDeducted = true;
-        deductedUserId = userId;
-      }
-
-      return res.status(200).json({ success: true, summary });
+      return res.status(200).json({ success: true, summary, cached: !!cached });
     }
 
     // ============================================
     // MODE B: Full Summarization (configurable length)
     // Default mode when no itemId
     // ============================================
-    const validModes: SummaryMode[] = ["ultra-short", "standard", "detailed"];
-    const summaryMode: SummaryMode = validModes.includes(mode) ? mode : "standard";
+    const plan = planSummary(text);
+    // Refused at quote time, before the user confirms anything: longer
+    // documents can't be summarized within one function run.
+    if (plan.chunks.length > MAX_SUMMARY_CHUNKS) {
+      return res.status(413).json({
+        error: `This document is too long to summarize (over ${MAX_SUMMARY_CHUNKS} parts of ${SUMMARY_CHUNK_CHARS.toLocaleString("en-US")} characters).`,
+      });
+    }
+    if (quote) return res.status(200).json(quoteBody(plan, !!cached));
+    if (cached) return sendCachedSummary(res, cached.value, balance, !!stream);
+
+    if (plan.strategy === "map-reduce") {
+      if (!(Number(maxCredits) >= plan.credits)) {
+        return res.status(409).json({
+          error: `Summarizing this document costs ${plan.credits} credits.`,
+          code: "QUOTE_REQUIRED",
+          ...quoteBody(plan),
+        });
+      }
+      if (isFreeTier && (authResult.credits ?? 0) < plan.credits) {
+        return res.status(403).json({
+          error: `Summarizing this document needs ${plan.credits} credits.`,
+          code: "NO_CREDITS",
+          credits_required: plan.credits,
+        });
+      }
 
-    const keyToUse = authResult.customKey || getRandomGeminiKey();
-    if (!keyToUse)
-      return res
-        .status(500)
-        .json({ error: "Server misconfiguration: No API keys." });
-
-    let summary = "";
-    const errors: string[] = [];
-
-    try {
-      summary = await callGeminiAPI(text, keyToUse, summaryMode);
-    } catch (geminiError) {
-      const geminiMsg = `Gemini Failed: ${(geminiError as Error).message}`;
-      console.warn(geminiMsg);
-      errors.push(geminiMsg);
-
-      // Fallback 1: OpenRouter
-      if (process.env.OPENROUTER_API_KEY) {
-        try {
-          summary = await callOpenRouterAPI(text, summaryMode);
-        } catch (orError) {
-          const orMsg = `OpenRouter Failed: ${(orError as Error).message}`;
-          console.warn(orMsg);
-          errors.push(orMsg);
-
-          // Fallback 2: Groq
-          if (process.env.GROQ_API_KEY) {
-            try {
-              summary = await callGroqAPI(text, summaryMode);
-            } catch (groqError) {
-              const groqMsg = `Groq Failed: ${(groqError as Error).message}`;
-              console.error(groqMsg);
-              errors.push(groqMsg);
-              throw new Error(
-                `All providers failed. Logs: ${errors.join(" | ")}`,
-              );
-            }
-          } else {
-            throw new Error(
-              `Gemini/OpenRouter failed. Logs: ${errors.join(" | ")}`,
-            );
-          }
-        }
-      } else if (process.env.GROQ_API_KEY) {
-        try {
-          summary = await callGroqAPI(text, summaryMode);
-        } catch (groqError) {
-          const groqMsg = `Groq Failed: ${(groqError as Error).message}`;
-          errors.push(groqMsg);
-          throw new Error(`Gemini/Groq failed. Logs: ${errors.join(" | ")}`);
-        }
-      } else {
-        throw new Error(
-          `Gemini failed and no fallbacks configured. Log: ${geminiMsg}`,
-        );
+      const redactedChain = withRedaction(chain, redactor);
+      const chargeUserId = userId ?? null;
+      if (stream) return await streamLongSummary(res, plan, summaryMode, redactedChain, chargeUserId, hooks);
+
+      const { summary, provider, userKey } = await summarizeLongDocument(plan.chunks, summaryMode, redactedChain);
+      await hooks.recordAudit(provider);
+      let creditsRemaining: number | string = "Unlimited";
+      ledger.provider = provider;
+      if (chargeUserId && !userKey) {
+        const balance = await deductCredit(chargeUserId, ledger, plan.credits);
+        if (balance === null) return res.status(403).json(NO_CREDITS_BODY);
+        creditsRemaining = balance;
       }
+      await hooks.cacheSummary(summary, provider);
+      return res.status(200).json({ summary, cached: false, credits_remaining: creditsRemaining });
     }
 
+    const wordCount = text.trim().split(/\s+/).length;
+    const range = getSummaryRange(summaryMode, wordCount);
+    const { text: summary, provider, userKey } = await routeAiRequest(
+      {
+        system: SYSTEM_INSTRUCTION,
+        prompt: `ORIGINAL WORD COUNT: ${wordCount} words\nSUMMARY MODE: ${range.label}\nTARGET SUMMARY LENGTH: ${range.min}–${range.max} words\n\nTEXT TO SUMMARIZE:\n${text}`,
+        temperature: 0.3,
+        maxTokens: 8192,
+      },
+      withRedaction(chain, redactor),
+    );
+    await hooks.recordAudit(provider);
+
     // Deduct credit
     let creditsRemaining: number | string = "Unlimited";
-    if (isFreeTier && userId) {
-      creditsRemaining = await deductCredit(userId);
+    if (userId && !userKey) {
+      ledger.provider = provider;
+      const balance = await deductCredit(userId, ledger);
+      if (balance === null) return res.status(403).json(NO_CREDITS_BODY);
+      creditsRemaining = balance;
       creditDeducted = true;
       deductedUserId = userId;
     }
+    await hooks.cacheSummary(summary, provider);
 
     return res.status(200).json({
       summary: summary,
+      cached: false,
       credits_remaining: creditsRemaining,
     });
   } catch (error) {
     console.error("Summarize API Error:", error);
-    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
+    if (error instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(error);
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: "An internal error occurred. Please try again." });
   }
 }
@@ -0,0 +1,168 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  refundCredit,
+  setCorsHeaders,
+  supabase,
+} from "./_utils/auth.js";
+import { AiRouterError, aiErrorResponse, defaultAiChain, routeAiRequest } from "./_utils/aiRouter.js";
+import { loadRedactor, recordRedaction, withRedaction } from "./_utils/redaction.js";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const SYSTEM_INSTRUCTION = `
+You are ResearchMate, an expert academic writing assistant.
+
+Write a structured literature review that synthesizes the SOURCES provided. Each source is labelled with its item ID.
+
+Structure (markdown):
+# <A concise, descriptive title for the review>
+## Introduction
+One paragraph on the scope of the sources and the questions they address.
+## Themes
+One ### subheading per major theme, each followed by a paragraph comparing what the sources say about it.
+## Agreements
+Where the sources converge: shared findings, methods or conclusions.
+## Contradictions
+Where the sources disagree or report conflicting results, and possible reasons (method, sample, context).
+## Gaps
+What the sources leave unanswered: open questions, under-studied populations or methods, and directions for future work.
+## Conclusion
+One paragraph drawing the synthesis together.
+
+Citations:
+- Cite sources inline right after the claim they support as [[item:<id>]], e.g. "... reduced error rates [[item:3f2a...]]". Cite several sources as [[item:<id>, item:<id>]].
+- Only cite IDs listed in the SOURCES, copied exactly. Never invent IDs.
+- Every paragraph in Themes, Agreements and Contradictions must cite at least one source.
+
+Rules:
+- Synthesize across sources; do not summarize them one by one.
+- Use only the information given. If the sources are too thin for a section, say so in one sentence.
+- Write in authoritative academic prose. No bibliography: it is generated separately.
+`.trim();
+
+const MIN_SYNTHESIS_ITEMS = 2;
+const MAX_SYNTHESIS_ITEMS = 40;
+/** Total characters of source material sent to the model, shared across items. */
+const MAX_SOURCE_CHARS = 60_000;
+const MAX_ITEM_CHARS = 6_000;
+
+interface SynthesisSource {
+  id: string;
+  title?: string;
+  citation?: string;
+  summary?: string;
+  notes?: string;
+  text?: string;
+}
+
+const clip = (value: unknown, max: number) =>
+  typeof value === "string" ? value.trim().slice(0, max) : "";
+
+/** Numbered source blocks, each trimmed to an equal share of the budget. */
+function buildSourcesContext(sources: SynthesisSource[]): string {
+  const budget = Math.min(MAX_ITEM_CHARS, Math.floor(MAX_SOURCE_CHARS / sources.length));
+
+  return sources
+    .map((source, i) => {
+      const summary = clip(source.summary, budget);
+      const notes = clip(source.notes, Math.max(0, budget - summary.length));
+      const text = clip(source.text, Math.max(0, budget - summary.length - notes.length));
+      return [
+        `[${i + 1}] (item:${source.id}) "${clip(source.title, 200) || "Untitled"}"`,
+        source.citation && `CITATION: ${clip(source.citation, 500)}`,
+        summary && `SUMMARY: ${summary}`,
+        notes && `NOTES: ${notes}`,
+        text && `EXCERPT: ${text}`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n\n---\n\n");
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "POST")
+    return res.status(405).json({ error: "Method not allowed" });
+
+  let creditDeducted = false;
+  let deductedUserId: string | null = null;
+  const ledger: CreditContext = { endpoint: "synthesize" };
+
+  try {
+    // 1. Authenticate
+    const authResult = await authenticateUser(req, { res, endpoint: "synthesize" });
+
+    if (authResult.error) {
+      return res.status(authResult.statusCode || 401).json({
+        error: authResult.error,
+        code: authResult.statusCode === 403 ? "NO_CREDITS" : undefined,
+      });
+    }
+
+    const { user, userKeys } = authResult;
+    const userId = user?.id;
+
+    // 2. Validate sources
+    const { items, collectionName } = req.body;
+    const sources: SynthesisSource[] = Array.isArray(items)
+      ? items.filter((item: SynthesisSource) => item && typeof item.id === "string")
+      : [];
+
+    if (sources.length < MIN_SYNTHESIS_ITEMS) {
+      return res.status(400).json({ error: `At least ${MIN_SYNTHESIS_ITEMS} items are needed for a synthesis.` });
+    }
+    if (sources.length > MAX_SYNTHESIS_ITEMS) {
+      return res.status(413).json({ error: `A synthesis can cover at most ${MAX_SYNTHESIS_ITEMS} items.` });
+    }
+
+    // 3. Call AI, redacted if the user asked for it
+    const redactor = userId ? await loadRedactor(supabase, userId) : null;
+    const topic = clip(collectionName, 200);
+    const { text: review, provider, userKey } = await routeAiRequest(
+      {
+        system: SYSTEM_INSTRUCTION,
+        prompt: `${topic ? `COLLECTION: ${topic}\n\n` : ""}SOURCES:\n${buildSourcesContext(sources)}`,
+        temperature: 0.4,
+        maxTokens: 8192,
+      },
+      withRedaction(defaultAiChain(userKeys), redactor),
+    );
+    if (userId) await recordRedaction(supabase, userId, { endpoint: "synthesize", provider }, redactor);
+
+    // 4. Deduct Credit unless the user's own key answered
+    let creditsRemaining: number | string = "Unlimited";
+    if (userId && !userKey) {
+      ledger.provider = provider;
+      const charged = await deductCredit(userId, ledger);
+      if (charged === null) return res.status(403).json(NO_CREDITS_BODY);
+      creditsRemaining = charged;
+      creditDeducted = true;
+      deductedUserId = userId;
+    }
+
+    return res.status(200).json({
+      review,
+      credits_remaining: creditsRemaining,
+    });
+  } catch (error) {
+    console.error("Synthesize API Error:", error);
+    if (creditDeducted && deductedUserId) await refundCredit(deductedUserId, ledger);
+    if (error instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(error);
+      return res.status(status).json(body);
+    }
+    return res.status(500).json({ error: "An internal error occurred. Please try again." });
+  }
+}
@@ -0,0 +1,347 @@
+// ============================================
+// transcribe.ts - Audio / Video / YouTube Transcription
+// Vercel Serverless Function
+// ============================================
+// Accepts `{ audioBase64, mimeType, fileName? }` OR `{ youtubeUrl }`.
+// Inline media: user keys -> Gemini (native audio/video) -> Groq Whisper
+// (audio only). YouTube: Gemini only, via `fileData.fileUri` — no download.
+// Costs 3 credits when the server's keys transcribe, charged only after a
+// transcript came back (the balance is checked up front).
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  type CreditContext,
+  NO_CREDITS_BODY,
+  authenticateUser,
+  deductCredit,
+  setCorsHeaders,
+} from "./_utils/auth.js";
+import {
+  type AiMedia,
+  type AiProvider,
+  type UserProviderKey,
+  AiRouterError,
+  aiErrorResponse,
+  geminiProvider,
+  groqWhisperProvider,
+  isSelfHostedExclusive,
+  routeAiRequest,
+  userKeyProviders,
+  withSelfHosted,
+  withUserKeys,
+} from "./_utils/aiRouter.js";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface TranscriptSegment {
+  start: number; // seconds from the start of the media
+  end: number | null;
+  text: string;
+}
+
+interface TranscribeResult {
+  transcript: string;
+  segments: TranscriptSegment[];
+  summary: string;
+  tags: string[];
+  provider: "gemini" | "gemini-youtube" | "groq-whisper";
+  source: { youtubeUrl?: string; fileName?: string | null };
+}
+
+// ============================================
+// PART 3: CONSTANTS & CONFIGURATION
+// ============================================
+
+const TRANSCRIBE_CREDIT_COST = 3;
+const TRANSCRIBE_MAX_BYTES = 18 * 1024 * 1024; // 18 MB — Gemini inline cap is 20 MB
+
+// Gemini then Whisper, plus auth and charging, must fit the 60s maxDuration
+const GEMINI_TIMEOUT_MS = 38_000;
+const WHISPER_TIMEOUT_MS = 15_000;
+
+// Keep in sync with ACCEPTED_MIME_TYPES in src/services/transcribeService.ts
+const ACCEPTED_AUDIO_TYPES = [
+  "audio/mpeg",
+  "audio/mp3",
+  "audio/wav",
+  "audio/x-wav",
+  "audio/webm",
+  "audio/ogg",
+  "audio/m4a",
+  "audio/x-m4a",
+  "audio/mp4",
+  "audio/flac",
+];
+const ACCEPTED_VIDEO_TYPES = [
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+  "video/x-matroska",
+];
+const ACCEPTED_MIME_TYPES = [...ACCEPTED_AUDIO_TYPES, ...ACCEPTED_VIDEO_TYPES];
+
+const YOUTUBE_ID_RE =
+  /(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/|youtube\.com\/shorts\/|youtube\.com\/embed\/)([A-Za-z0-9_-]{6,})/i;
+
+const TRANSCRIBE_PROMPT = `You are ResearchMate's transcription engine.
+
+Transcribe the spoken content of this media verbatim, in its original language.
+
+Rules:
+- Split the transcript into segments of roughly one to three sentences, each with the timestamp where it starts.
+- Timestamps are "MM:SS" (or "H:MM:SS" past one hour), measured from the start of the media.
+- Do NOT paraphrase, summarize, or clean up the speech inside segments. Omit filler-only noises.
+- If there is no speech, return an empty segments array.
+- Then write a 2-4 sentence summary that leads with the main point (no filler like "The speaker discusses").
+- Then generate 3-5 lowercase academic tags (1-3 words each).
+
+Return ONLY a JSON object with this shape:
+{
+  "segments": [{ "start": "00:00", "end": "00:07", "text": "..." }],
+  "summary": "...",
+  "tags": ["...", "..."]
+}`;
+
+// ============================================
+// PART 4: HELPER FUNCTIONS
+// ============================================
+
+function isAcceptedMimeType(mimeType: string): boolean {
+  const t = mimeType.toLowerCase().split(";")[0].trim();
+  return ACCEPTED_MIME_TYPES.includes(t);
+}
+
+/**
+ * Rebuilds a canonical watch URL from the video ID. Gemini rejects URLs with
+ * extra query params (e.g. `&t=42s`, playlists).
+ */
+function sanitizeYoutubeUrl(raw: string): string | null {
+  const match = raw.trim().match(YOUTUBE_ID_RE);
+  return match ? `https://www.youtube.com/watch?v=${match[1]}` : null;
+}
+
+/** "01:02:03" | "02:03" | "123.4" | 123 → seconds */
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return Math.max(0, value);
+  if (typeof value !== "string" || !value.trim()) return null;
+  const parts = value.trim().split(":").map(Number);
+  if (parts.some((p) => !Number.isFinite(p))) return null;
+  return Math.max(0, parts.reduce((acc, p) => acc * 60 + p, 0));
+}
+
+function normalizeSegments(raw: unknown): TranscriptSegment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((seg: any) => ({
+      start: parseTimestamp(seg?.start) ?? 0,
+      end: parseTimestamp(seg?.end),
+      text: String(seg?.text ?? "").trim(),
+    }))
+    .filter((seg) => seg.text.length > 0)
+    .sort((a, b) => a.start - b.start);
+}
+
+function joinSegments(segments: TranscriptSegment[]): string {
+  return segments.map((s) => s.text).join(" ").replace(/\s+/g, " ").trim();
+}
+
+function normalizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return Array.from(
+    new Set(
+      raw
+        .map((t) => String(t).toLowerCase().trim())
+        .filter((t) => t.length > 0 && t.length <= 40),
+    ),
+  ).slice(0, 5);
+}
+
+/** Strips optional ```json fences and parses the first JSON object. */
+function parseJsonResponse(raw: string): any {
+  const cleaned = raw.replace(/```(?:json)?\n?/g, "").replace(/```/g, "").trim();
+  const match = cleaned.match(/\{[\s\S]*\}/);
+  if (!match) throw new Error("No JSON in response");
+  return JSON.parse(match[0]);
+}
+
+// ============================================
+// PART 5: TRANSCRIPTION
+// ============================================
+
+// User keys → Gemini (inline media + YouTube) → Groq Whisper (inline audio).
+// Providers that can't take the media are skipped by the router, so in
+// self-hosted exclusive mode only the user's own Gemini key can transcribe.
+const transcriptionChain = (userKeys?: UserProviderKey[]): AiProvider[] =>
+  withUserKeys(
+    userKeys,
+    withSelfHosted([
+      geminiProvider({ timeoutMs: GEMINI_TIMEOUT_MS }),
+      groqWhisperProvider({ timeoutMs: WHISPER_TIMEOUT_MS }),
+    ]),
+    { timeoutMs: GEMINI_TIMEOUT_MS },
+  );
+
+/** Gemini answers in the prompt's JSON shape; Whisper with `{ text, segments }`. */
+function parseTranscription(
+  raw: string,
+  provider: string,
+): Pick<TranscribeResult, "transcript" | "segments" | "summary" | "tags"> {
+  const parsed = parseJsonResponse(raw);
+  const segments = normalizeSegments(parsed.segments);
+
+  if (provider !== "groq-whisper") {
+    return {
+      transcript: joinSegments(segments),
+      segments,
+      summary: String(parsed.summary ?? "").trim(),
+      tags: normalizeTags(parsed.tags),
+    };
+  }
+
+  const transcript = segments.length ? joinSegments(segments) : String(parsed.text ?? "").trim();
+
+  // Whisper returns no summary — synthesize one from the first 20 words
+  const words = transcript.split(/\s+/).filter(Boolean);
+  const summary = words.length > 20 ? `${words.slice(0, 20).join(" ")}…` : words.join(" ");
+
+  return {
+    transcript,
+    segments: segments.length
+      ? segments
+      : transcript
+        ? [{ start: 0, end: null, text: transcript }]
+        : [],
+    summary,
+    tags: ["transcription", "audio"],
+  };
+}
+
+// ============================================
+// PART 6: MAIN HANDLER
+// ============================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const ledger: CreditContext = { endpoint: "transcribe" };
+
+  try {
+    // 1. Authenticate
+    const authResult = await authenticateUser(req, { res, endpoint: "transcribe" });
+    if (authResult.error) {
+      return res.status(authResult.statusCode || 401).json({
+        error: authResult.error,
+        code: authResult.statusCode === 403 ? "NO_CREDITS" : "AUTH_ERROR",
+      });
+    }
+
+    const { user, userKeys, credits } = authResult;
+    const userId = user?.id;
+
+    // 2. Validate input (before any credits are touched)
+    const { audioBase64, mimeType, fileName, youtubeUrl } = req.body || {};
+
+    let youtube: string | null = null;
+    if (youtubeUrl) {
+      if (typeof youtubeUrl !== "string") {
+        return res.status(400).json({ error: "Invalid YouTube URL" });
+      }
+      youtube = sanitizeYoutubeUrl(youtubeUrl);
+      if (!youtube) return res.status(400).json({ error: "Invalid YouTube URL" });
+    } else {
+      if (!audioBase64 || typeof audioBase64 !== "string") {
+        return res.status(400).json({ error: "audioBase64 or youtubeUrl is required" });
+      }
+      if (typeof mimeType !== "string" || !isAcceptedMimeType(mimeType)) {
+        return res.status(415).json({
+          error: `Unsupported media type (${mimeType || "unknown"}). Use MP3, WAV, M4A, OGG, FLAC, WebM, MP4, or MOV.`,
+        });
+      }
+      const estimatedBytes = (audioBase64.length * 3) / 4;
+      if (estimatedBytes > TRANSCRIBE_MAX_BYTES) {
+        return res.status(413).json({ error: "Media too large. Maximum size is 18 MB." });
+      }
+    }
+
+    const cleanMime = typeof mimeType === "string" ? mimeType.toLowerCase().split(";")[0].trim() : "";
+    const media: AiMedia = youtube
+      ? { mimeType: "video/*", fileUri: youtube }
+      : {
+          mimeType: cleanMime,
+          data: audioBase64,
+          fileName: typeof fileName === "string" && fileName ? fileName : undefined,
+        };
+    const chain = transcriptionChain(userKeys);
+    if (!chain.some((p) => p.keys.length > 0 && p.acceptsMedia?.(media))) {
+      if (isSelfHostedExclusive()) {
+        return res.status(503).json({
+          error: "This deployment doesn't send media to hosted AI providers. Add your own Gemini key to transcribe.",
+          code: "AI_UNAVAILABLE",
+        });
+      }
+      return res.status(500).json({ error: "Server misconfiguration: No API keys." });
+    }
+
+    // 3. Check the balance up front unless one of the user's keys can take
+    //    this media. The charge itself waits for a transcript: a function
+    //    killed at maxDuration never gets to refund an upfront charge.
+    const ownKeyFirst = userKeyProviders(userKeys ?? []).some((p) => p.acceptsMedia?.(media));
+    if (!ownKeyFirst && userId && typeof credits === "number" && credits < TRANSCRIBE_CREDIT_COST) {
+      return res.status(403).json({
+        error: `Transcription costs ${TRANSCRIBE_CREDIT_COST} credits.`,
+        code: "NO_CREDITS",
+      });
+    }
+
+    // 4. Transcribe (the router falls back from the user's keys to the server's)
+    const source = youtube
+      ? { youtubeUrl: youtube }
+      : { fileName: typeof fileName === "string" ? fileName : null };
+    const routed = await routeAiRequest(
+      { prompt: TRANSCRIBE_PROMPT, media, temperature: 0.1, maxTokens: 65536 },
+      chain,
+    );
+    ledger.provider = routed.provider;
+    const result: TranscribeResult = {
+      ...parseTranscription(routed.text, routed.provider),
+      provider: routed.provider === "groq-whisper" ? "groq-whisper" : youtube ? "gemini-youtube" : "gemini",
+      source,
+    };
+
+    if (!result.transcript) {
+      // Nothing to bill for — silent or music-only media
+      return res.status(422).json({ error: "No speech was detected in this media." });
+    }
+
+    // 5. Charge when the server's keys answered
+    if (!routed.userKey && userId) {
+      if ((await deductCredit(userId, ledger, TRANSCRIBE_CREDIT_COST)) === null) {
+        return res.status(403).json({ ...NO_CREDITS_BODY, error: `Transcription costs ${TRANSCRIBE_CREDIT_COST} credits.` });
+      }
+    }
+
+    console.log(
+      `🎙️ Transcription — provider: ${result.provider}, segments: ${result.segments.length}, words: ${result.transcript.split(/\s+/).length}`,
+    );
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Transcribe API Error:", error);
+    if (error instanceof AiRouterError) {
+      const { status, body } = aiErrorResponse(error);
+      return res.status(status).json(body);
+    }
+    return res.status(500).json({ error: "An internal error occurred. Please try again." });
+  }
+}
@@ -20,6 +20,8 @@ import { NotificationProvider } from "./context/NotificationContext";
 import { MarketingLayout } from "./components/shared/MarketingLayout";
 import { DashboardLayout } from "./components/shared/DashboardLayout";
 import OfflineDetector from "./components/shared/OfflineDetector";
+import RateLimitNotice from "./components/shared/RateLimitNotice";
+import { isRateLimited } from "./services/rateLimitService";
 import ErrorBoundary from "./components/shared/ErrorBoundary";
 import { motion } from "motion/react";
 import { CheckCircle2, Bell, X } from "lucide-react";
@@ -130,6 +132,8 @@ export const useToast = () => {
 
   const showToast = useCallback(
     (message: string, type: "success" | "error" | "info" = "info") => {
+      // RateLimitNotice already shows a countdown for 429s
+      if (type === "error" && isRateLimited()) return;
       setToast({ message, type });
     },
     [],
@@ -310,6 +314,7 @@ import SmartPenGallery from "./components/App/SmartPenGallery";
 import PairSmartPen from "./components/App/PairSmartPen";
 import DocumentEditor from "./components/App/DocumentEditor";
 import PdfReader from "./components/App/PdfReader";
+import KnowledgeGraph from "./components/App/KnowledgeGraph";
 import SupportPage from "./components/marketing/SupportPage";
 
 // ============================================
@@ -390,6 +395,7 @@ export default function App() {
         <OAuthPopupHandler />
         {ToastComponent}
         <OfflineDetector />
+        <RateLimitNotice />
         <NotificationProvider>
           <HashRouter>
             <Routes>
@@ -450,6 +456,14 @@ export default function App() {
                             />
                           }
                         />
+                        <Route
+                          path="knowledge-graph"
+                          element={
+                            <KnowledgeGraph
+                              useToast={() => ({ showToast, ToastComponent })}
+                            />
+                          }
+                        />
                         <Route
                           path="ai-assistant"
                           element={
@@ -12,7 +12,9 @@ import { Zap, MessageSquare, Coins } from "lucide-react";
 import useAIAssistant from "./useAIAssistant";
 import SummaryOverview from "./SummaryOverview";
 import ChatPanel from "./ChatPanel";
+import ChatSessionSidebar from "./ChatSessionSidebar";
 import SummaryModal from "./SummaryModal";
+import ConfirmDialog from "../../shared/ConfirmDialog";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -46,6 +48,12 @@ const AIAssistant: React.FC<AIProps> = ({ useToast }) => {
     setSummaryMode,
     handleSummarize,
     handleBatchSummarize,
+    cachedSummaryIds,
+    pendingLongSummary,
+    confirmLongSummary,
+    cancelLongSummary,
+    summaryProgress,
+    openItem,
     chatInput,
     chatHistory,
     isChatting,
@@ -60,6 +68,15 @@ const AIAssistant: React.FC<AIProps> = ({ useToast }) => {
     handleKeyDown,
     credits,
     clearHistory,
+    canSaveSessions,
+    filteredSessions,
+    activeSessionId,
+    sessionSearch,
+    setSessionSearch,
+    newChat,
+    selectSession,
+    renameSession,
+    deleteSession,
   } = useAIAssistant(showToast);
 
   // ---------- PART 3A: RENDER ----------
@@ -122,6 +139,7 @@ const AIAssistant: React.FC<AIProps> = ({ useToast }) => {
           itemsWithoutSummary={itemsWithoutSummary}
           itemsWithSummary={itemsWithSummary}
           summarizing={summarizing}
+          summaryProgress={summaryProgress}
           batchProcessing={batchProcessing}
           searchQuery={searchQuery}
           setSearchQuery={setSearchQuery}
@@ -135,28 +153,61 @@ const AIAssistant: React.FC<AIProps> = ({ useToast }) => {
 
       {/* Chat Tab */}
       {activeTab === "chat" && (
-        <ChatPanel
-          items={items}
-          chatInput={chatInput}
-          chatHistory={chatHistory}
-          isChatting={isChatting}
-          chatEndRef={chatEndRef}
-          chatAbortRef={chatAbortRef}
-          handleSendMessage={handleSendMessage}
-          isMentionMenuOpen={isMentionMenuOpen}
-          filteredMentions={filteredMentions}
-          inputRef={inputRef}
-          handleInputChange={handleInputChange}
-          insertMention={insertMention}
-          handleKeyDown={handleKeyDown}
-          clearHistory={clearHistory}
-        />
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_minmax(0,1fr)] gap-4">
+          <ChatSessionSidebar
+            canSaveSessions={canSaveSessions}
+            sessions={filteredSessions}
+            activeSessionId={activeSessionId}
+            sessionSearch={sessionSearch}
+            setSessionSearch={setSessionSearch}
+            isChatting={isChatting}
+            newChat={newChat}
+            selectSession={selectSession}
+            renameSession={renameSession}
+            deleteSession={deleteSession}
+          />
+          <ChatPanel
+            items={items}
+            chatInput={chatInput}
+            chatHistory={chatHistory}
+            isChatting={isChatting}
+            chatEndRef={chatEndRef}
+            chatAbortRef={chatAbortRef}
+            handleSendMessage={handleSendMessage}
+            isMentionMenuOpen={isMentionMenuOpen}
+            filteredMentions={filteredMentions}
+            inputRef={inputRef}
+            handleInputChange={handleInputChange}
+            insertMention={insertMention}
+            handleKeyDown={handleKeyDown}
+            clearHistory={clearHistory}
+            onOpenItem={openItem}
+          />
+        </div>
       )}
 
+      {/* Long Document Cost Confirmation */}
+      <ConfirmDialog
+        isOpen={!!pendingLongSummary}
+        onClose={cancelLongSummary}
+        onConfirm={confirmLongSummary}
+        title="Summarize Long Document"
+        message={
+          pendingLongSummary
+            ? `"${pendingLongSummary.item.sourceTitle || "Untitled"}" is long, so it will be summarized in ${pendingLongSummary.quote.chunks} parts (${pendingLongSummary.quote.sections[0]} to ${pendingLongSummary.quote.sections[pendingLongSummary.quote.sections.length - 1]}) and then merged. This costs ${pendingLongSummary.quote.credits} credits.`
+            : ""
+        }
+        confirmText={`Summarize (${pendingLongSummary?.quote.credits ?? 0} credits)`}
+        variant="info"
+      />
+
       {/* Detail Modal */}
       <SummaryModal
         selectedItem={selectedItem}
         onClose={() => setSelectedItem(null)}
+        cached={!!selectedItem && cachedSummaryIds.has(selectedItem.id)}
+        onRegenerate={() => selectedItem && handleSummarize(selectedItem, { refresh: true })}
+        regenerating={!!selectedItem && summarizing === selectedItem.id}
       />
     </div>
   );
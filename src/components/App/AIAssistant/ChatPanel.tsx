@@ -45,6 +45,7 @@ interface ChatPanelProps {
   insertMention: (item: StorageItem) => void;
   handleKeyDown: (e: React.KeyboardEvent) => void;
   clearHistory: () => void;
+  onOpenItem: (id: string) => void;
 }
 
 // ============================================
@@ -63,6 +64,24 @@ const getSourceIcon = (type: string) => {
   }
 };
 
+// ============================================
+// ITEM CITATIONS
+// ============================================
+// Answers grounded in the library cite items as [[item:<id>]] (models
+// sometimes drop a bracket or group several IDs). Citations are rewritten to
+// `#item:<id>` links, which the markdown `a` renderer turns into chips.
+// IDs that are neither retrieved sources nor loaded items are dropped.
+const ITEM_CITATION = /\[\[?((?:\s*,?\s*item:\s*[\w-]+)+)\s*\]\]?/g;
+const ITEM_LINK_PREFIX = "#item:";
+
+const linkItemCitations = (text: string, titles: Map<string, string>) =>
+  text.replace(ITEM_CITATION, (_, group: string) =>
+    Array.from(group.matchAll(/item:\s*([\w-]+)/g), (m) => m[1])
+      .filter((id) => titles.has(id))
+      .map((id) => `[${titles.get(id)!.replace(/[[\]]/g, "")}](${ITEM_LINK_PREFIX}${id})`)
+      .join(" "),
+  );
+
 const ChatPanel: React.FC<ChatPanelProps> = ({
   items,
   chatInput,
@@ -78,6 +97,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   insertMention,
   handleKeyDown,
   clearHistory,
+  onOpenItem,
 }) => {
   // Source pane states
   const [sourceSearch, setSourceSearch] = useState("");
@@ -130,6 +150,17 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
 
   const userMessages = chatHistory.filter((m) => m.role === "user").length;
 
+  const itemTitles = useMemo(
+    () => new Map(items.map((item) => [item.id, item.sourceTitle || "Untitled"])),
+    [items],
+  );
+
+  const renderCitedText = (msg: ChatMessage) => {
+    const titles = new Map(itemTitles);
+    msg.sources?.forEach((source) => titles.set(source.id, source.title || "Untitled"));
+    return linkItemCitations(msg.text, titles);
+  };
+
   return (
     <div className="h-[650px] grid grid-cols-1 lg:grid-cols-12 bg-white dark:bg-[#1C1C1E] rounded-3xl border border-slate-200/80 dark:border-slate-800/80 overflow-hidden shadow-xl animate-fade-in-up">
       {/* ============================================
@@ -259,7 +290,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
             </div>
             <div>
               <h3 className="text-sm font-bold text-slate-900 dark:text-white">Active Synthesis Stream</h3>
-              <p className="text-[10px] text-slate-400">Context is automatically retrieved from mentioned nodes.</p>
+              <p className="text-[10px] text-slate-400">Answers draw on your whole library and cite the items they use.</p>
             </div>
             {userMessages > 0 && (
               <span className="text-[10px] px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 font-bold ml-2">
@@ -314,7 +345,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                     }`}
                   >
                     {/* Copy and Actions overlay */}
-                    {isAI && (
+                    {isAI && !msg.streaming && (
                       <div className="absolute top-2 right-2 opacity-0 group-hover/msg:opacity-100 transition-opacity duration-200">
                         <button
                           onClick={() => handleCopyMessage(msg.text, msg.id)}
@@ -327,7 +358,17 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                     )}
 
                     {/* Rich text formatting via react-markdown */}
-                    {isAI ? (
+                    {isAI && msg.streaming && !msg.text ? (
+                      <div className="flex items-center gap-1 py-1" aria-label="Generating response">
+                        {[0, 150, 300].map((delay) => (
+                          <span
+                            key={delay}
+                            className="w-1.5 h-1.5 rounded-full bg-slate-400 animate-bounce"
+                            style={{ animationDelay: `${delay}ms` }}
+                          />
+                        ))}
+                      </div>
+                    ) : isAI ? (
                       <ReactMarkdown
                         className="markdown-body space-y-2.5 break-words"
                         components={{
@@ -338,6 +379,22 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                           ul: ({ node, ...props }) => <ul className="list-disc pl-5 space-y-1 my-1.5" {...props} />,
                           ol: ({ node, ...props }) => <ol className="list-decimal pl-5 space-y-1 my-1.5" {...props} />,
                           li: ({ node, ...props }) => <li className="text-xs sm:text-sm text-slate-700 dark:text-slate-300" {...props} />,
+                          a: ({ node, href, children, ...props }) =>
+                            href?.startsWith(ITEM_LINK_PREFIX) ? (
+                              <button
+                                type="button"
+                                onClick={() => onOpenItem(href.slice(ITEM_LINK_PREFIX.length))}
+                                className="inline-flex items-center gap-1 max-w-[14rem] align-baseline px-1.5 py-0.5 mx-0.5 rounded-md bg-blue-50 dark:bg-blue-900/30 text-[10px] font-semibold text-[#007AFF] hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors"
+                                title={`Open "${String(children)}"`}
+                              >
+                                <FileText className="w-3 h-3 shrink-0" />
+                                <span className="truncate">{children}</span>
+                              </button>
+                            ) : (
+                              <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#007AFF] underline" {...props}>
+                                {children}
+                              </a>
+                            ),
                           blockquote: ({ node, ...props }) => (
                             <blockquote className="border-l-4 border-blue-500 pl-3 py-1 my-2 bg-slate-50 dark:bg-slate-800/30 text-xs italic text-slate-600 dark:text-slate-400 rounded-r-lg" {...props} />
                           ),
@@ -363,11 +420,14 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                           },
                         }}
                       >
-                        {msg.text}
+                        {renderCitedText(msg)}
                       </ReactMarkdown>
                     ) : (
                       <div className="whitespace-pre-wrap text-xs sm:text-sm">{msg.text}</div>
                     )}
+                    {isAI && msg.streaming && msg.text && (
+                      <span className="inline-block w-1.5 h-3.5 mt-1 bg-[#007AFF] rounded-sm animate-pulse" />
+                    )}
                   </div>
 
                   {/* Timestamp tag */}
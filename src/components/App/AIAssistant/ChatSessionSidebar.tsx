@@ -0,0 +1,234 @@
+// ============================================
+// CHAT SESSION SIDEBAR - Saved AI Assistant conversations
+// ============================================
+
+import React, { useState } from "react";
+import { Check, MessageSquare, Pencil, Plus, Search, Trash2, X } from "lucide-react";
+import ConfirmDialog from "../../shared/ConfirmDialog";
+import type { ChatSession } from "../../../types";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface ChatSessionSidebarProps {
+  canSaveSessions: boolean;
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  sessionSearch: string;
+  setSessionSearch: (q: string) => void;
+  isChatting: boolean;
+  newChat: () => void;
+  selectSession: (id: string) => void;
+  renameSession: (id: string, title: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatUpdatedAt = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(iso).toLocaleDateString();
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+const ChatSessionSidebar: React.FC<ChatSessionSidebarProps> = ({
+  canSaveSessions,
+  sessions,
+  activeSessionId,
+  sessionSearch,
+  setSessionSearch,
+  isChatting,
+  newChat,
+  selectSession,
+  renameSession,
+  deleteSession,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ChatSession | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const id = editingId;
+    setEditingId(null);
+    const original = sessions.find((s) => s.id === id)?.title;
+    if (draftTitle.trim() && draftTitle.trim() !== original) {
+      await renameSession(id, draftTitle);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    await deleteSession(pendingDelete.id);
+    setIsDeleting(false);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="h-[650px] flex flex-col bg-white dark:bg-[#1C1C1E] rounded-3xl border border-slate-200/80 dark:border-slate-800/80 overflow-hidden shadow-xl animate-fade-in-up">
+      {/* Header */}
+      <div className="px-4 py-4 border-b border-slate-200/80 dark:border-slate-800/80 space-y-3">
+        <button
+          onClick={newChat}
+          disabled={isChatting}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-xs font-semibold text-white bg-[#007AFF] hover:bg-[#0066DD] disabled:opacity-50 rounded-xl transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          New Chat
+        </button>
+
+        {canSaveSessions && (
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400" />
+            <input
+              type="text"
+              value={sessionSearch}
+              onChange={(e) => setSessionSearch(e.target.value)}
+              placeholder="Search chats..."
+              className="w-full pl-9 pr-8 py-2 text-xs bg-slate-50 dark:bg-[#2C2C2E] border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/25 transition-all text-slate-900 dark:text-white"
+            />
+            {sessionSearch && (
+              <button
+                onClick={() => setSessionSearch("")}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Session List */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {!canSaveSessions ? (
+          <p className="text-center text-xs text-slate-400 py-10 px-4">
+            Sign in to save your conversations.
+          </p>
+        ) : sessions.length === 0 ? (
+          <p className="text-center text-xs text-slate-400 py-10 px-4">
+            {sessionSearch ? `No chats match "${sessionSearch}"` : "Your conversations will appear here."}
+          </p>
+        ) : (
+          sessions.map((session) => {
+            const isActive = session.id === activeSessionId;
+
+            return (
+              <div
+                key={session.id}
+                onClick={() => editingId !== session.id && selectSession(session.id)}
+                className={`group flex items-center gap-2 px-3 py-2.5 rounded-xl transition-colors ${
+                  isChatting ? "cursor-default" : "cursor-pointer"
+                } ${
+                  isActive
+                    ? "bg-blue-50 dark:bg-blue-900/20"
+                    : "hover:bg-slate-100 dark:hover:bg-slate-800/40"
+                }`}
+              >
+                <MessageSquare
+                  className={`w-3.5 h-3.5 shrink-0 ${isActive ? "text-[#007AFF]" : "text-slate-400"}`}
+                />
+
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 text-xs bg-white dark:bg-[#2C2C2E] border border-blue-500/40 rounded-lg focus:outline-none text-slate-900 dark:text-white"
+                  />
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={`text-xs font-semibold truncate ${
+                        isActive ? "text-[#007AFF]" : "text-slate-700 dark:text-slate-300"
+                      }`}
+                    >
+                      {session.title}
+                    </p>
+                    <p className="text-[10px] text-slate-400">{formatUpdatedAt(session.updated_at)}</p>
+                  </div>
+                )}
+
+                {editingId === session.id ? (
+                  <button
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      commitRename();
+                    }}
+                    className="p-1 rounded-lg text-slate-400 hover:text-green-500"
+                    title="Save title"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                ) : (
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(session);
+                      }}
+                      className="p-1 rounded-lg text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPendingDelete(session);
+                      }}
+                      disabled={isChatting && isActive}
+                      className="p-1 rounded-lg text-slate-400 hover:text-red-500 disabled:opacity-40"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!pendingDelete}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Conversation"
+        message={`Delete "${pendingDelete?.title}"? This cannot be undone.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+};
+
+export default ChatSessionSidebar;
@@ -7,7 +7,7 @@
 // ============================================
 
 import React from "react";
-import { Zap } from "lucide-react";
+import { RefreshCw, Zap } from "lucide-react";
 import { Modal } from "../../shared/ui";
 import { StorageItem } from "../../../services/storageService";
 
@@ -18,6 +18,11 @@ import { StorageItem } from "../../../services/storageService";
 interface SummaryModalProps {
   selectedItem: StorageItem | null;
   onClose: () => void;
+  /** The summary was served from the response cache without using a credit. */
+  cached?: boolean;
+  /** Summarizes again, skipping the cache. */
+  onRegenerate?: () => void;
+  regenerating?: boolean;
 }
 
 // ============================================
@@ -27,26 +32,47 @@ interface SummaryModalProps {
 const SummaryModal: React.FC<SummaryModalProps> = ({
   selectedItem,
   onClose,
+  cached = false,
+  onRegenerate,
+  regenerating = false,
 }) => {
   return (
     <Modal
       isOpen={!!selectedItem}
       onClose={onClose}
-      title="AI Summary"
+      title={selectedItem?.sourceTitle || "AI Summary"}
     >
       {selectedItem && (
         <div className="space-y-4">
-          <div className="bg-gradient-to-br from-[#007AFF]/10 via-[#5856D6]/10 to-[#AF52DE]/10 rounded-xl p-5 border border-[#007AFF]/20">
-            <div className="flex items-center gap-2 mb-3">
-              <Zap className="w-5 h-5 text-[#007AFF]" />
-              <span className="font-semibold text-gray-900 dark:text-white">
-                AI Generated Summary
-              </span>
+          {selectedItem.aiSummary && (
+            <div className="bg-gradient-to-br from-[#007AFF]/10 via-[#5856D6]/10 to-[#AF52DE]/10 rounded-xl p-5 border border-[#007AFF]/20">
+              <div className="flex items-center gap-2 mb-3">
+                <Zap className="w-5 h-5 text-[#007AFF]" />
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  AI Generated Summary
+                </span>
+                {cached && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-500">
+                    Cached · no credit used
+                  </span>
+                )}
+                {onRegenerate && (
+                  <button
+                    onClick={onRegenerate}
+                    disabled={regenerating}
+                    title="Ask the AI again instead of using the cached answer (uses a credit)"
+                    className="ml-auto flex items-center gap-1 text-xs text-[#007AFF] hover:underline disabled:opacity-50"
+                  >
+                    <RefreshCw className={`w-3.5 h-3.5 ${regenerating ? "animate-spin" : ""}`} />
+                    Regenerate
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                {selectedItem.aiSummary}
+              </p>
             </div>
-            <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
-              {selectedItem.aiSummary}
-            </p>
-          </div>
+          )}
 
           <div className="bg-[#F5F5F7] dark:bg-[#2C2C2E] rounded-xl p-4">
             <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
@@ -16,7 +16,7 @@ import {
   Wand2,
 } from "lucide-react";
 import { StorageItem } from "../../../services/storageService";
-import type { SummaryMode } from "../../../services/geminiService";
+import type { SummaryMode, SummaryProgress } from "../../../services/geminiService";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -27,6 +27,8 @@ interface SummaryOverviewProps {
   itemsWithoutSummary: StorageItem[];
   itemsWithSummary: StorageItem[];
   summarizing: string | null;
+  /** Progress of a long-document summary (the item in `summarizing`). */
+  summaryProgress: SummaryProgress | null;
   batchProcessing: boolean;
   searchQuery: string;
   setSearchQuery: (q: string) => void;
@@ -52,6 +54,7 @@ const SummaryOverview: React.FC<SummaryOverviewProps> = ({
   itemsWithoutSummary,
   itemsWithSummary,
   summarizing,
+  summaryProgress,
   batchProcessing,
   searchQuery,
   setSearchQuery,
@@ -197,7 +200,13 @@ const SummaryOverview: React.FC<SummaryOverviewProps> = ({
                   disabled={summarizing === item.id}
                   className="px-3 py-1.5 bg-[#F2F2F7] dark:bg-[#2C2C2E] rounded-lg text-xs font-medium hover:bg-[#E5E5EA] dark:hover:bg-[#3A3A3C] transition-colors"
                 >
-                  {summarizing === item.id ? "..." : "Summarize"}
+                  {summarizing !== item.id
+                    ? "Summarize"
+                    : summaryProgress?.stage === "map"
+                      ? `Part ${summaryProgress.completed}/${summaryProgress.total}`
+                      : summaryProgress?.stage === "reduce"
+                        ? "Merging…"
+                        : "..."}
                 </button>
               </div>
             ))
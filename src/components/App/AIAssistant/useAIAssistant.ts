@@ -9,15 +9,39 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import {
   getAllItems,
+  getItemById,
   updateItem,
   StorageItem,
 } from "../../../services/storageService";
 import { supabase } from "../../../services/supabaseClient";
 import {
+  LONG_DOCUMENT_CHARS,
   generateSummary,
-  generateChatResponse,
+  quoteSummary,
+  streamChatResponse,
+  summarizeLongText,
+  summarizeText,
 } from "../../../services/geminiService";
-import type { SummaryMode } from "../../../services/geminiService";
+import type {
+  CacheOptions,
+  ChatSource,
+  SummaryMode,
+  SummaryProgress,
+  SummaryQuote,
+} from "../../../services/geminiService";
+import {
+  createChatSession,
+  deleteChatSession,
+  getChatSessions,
+  migrateLegacyChatHistory,
+  renameChatSession,
+  saveChatMessages,
+  titleFromMessage,
+} from "../../../services/chatSessionsService";
+import type {
+  ChatMessage as StoredChatMessage,
+  ChatSession,
+} from "../../../types";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -28,6 +52,14 @@ export interface ChatMessage {
   role: "user" | "ai";
   text: string;
   timestamp: number;
+  /** True while the AI reply is still arriving. */
+  streaming?: boolean;
+  /** Library items retrieved for this reply; cited inline as [[item:<id>]]. */
+  sources?: ChatSource[];
+  /** IDs of the items used as context (@-mentions, plus retrieved items for replies). */
+  context?: string[];
+  /** Provider that generated an AI reply. */
+  model?: string;
 }
 
 export interface UseAIAssistantReturn {
@@ -50,8 +82,17 @@ export interface UseAIAssistantReturn {
   setSelectedItem: (item: StorageItem | null) => void;
   summaryMode: SummaryMode;
   setSummaryMode: (mode: SummaryMode) => void;
-  handleSummarize: (item: StorageItem) => Promise<void>;
+  /** `refresh` skips the server's cached summary and generates a new one. */
+  handleSummarize: (item: StorageItem, options?: CacheOptions) => Promise<void>;
   handleBatchSummarize: () => Promise<void>;
+  /** Items whose summary was last served from the server's cache (free). */
+  cachedSummaryIds: Set<string>;
+  /** Long document awaiting confirmation of its quoted credit cost. */
+  pendingLongSummary: { item: StorageItem; quote: SummaryQuote; refresh?: boolean } | null;
+  confirmLongSummary: () => Promise<void>;
+  cancelLongSummary: () => void;
+  summaryProgress: SummaryProgress | null;
+  openItem: (id: string) => Promise<void>;
 
   // Chat state
   chatInput: string;
@@ -77,16 +118,71 @@ export interface UseAIAssistantReturn {
 
   // Conversation management
   clearHistory: () => void;
+  canSaveSessions: boolean;
+  sessions: ChatSession[];
+  filteredSessions: ChatSession[];
+  activeSessionId: string | null;
+  sessionSearch: string;
+  setSessionSearch: (q: string) => void;
+  newChat: () => void;
+  selectSession: (id: string) => void;
+  renameSession: (id: string, title: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
 }
 
 // ============================================
-// PART 3: HOOK
+// PART 3: CONVERSATION HELPERS
+// ============================================
+
+const WELCOME_TEXT =
+  "Hello! I'm ResearchMate AI. I can help you analyze your saved research, find connections, or summarize complex topics. How can I help you today?";
+
+const welcomeMessage = (): ChatMessage => ({
+  id: "welcome",
+  role: "ai",
+  text: WELCOME_TEXT,
+  timestamp: Date.now(),
+});
+
+/** Stored form of the visible conversation; the welcome message is not saved. */
+const toStoredMessages = (messages: ChatMessage[]): StoredChatMessage[] =>
+  messages
+    .filter((m) => m.id !== "welcome" && !m.streaming)
+    .map((m) => ({
+      id: m.id,
+      role: m.role === "ai" ? "assistant" : "user",
+      content: m.text,
+      timestamp: m.timestamp,
+      metadata: {
+        context: m.context || [],
+        ...(m.sources?.length ? { sources: m.sources } : {}),
+        ...(m.model ? { model: m.model } : {}),
+      },
+    }));
+
+const fromStoredMessages = (messages: StoredChatMessage[]): ChatMessage[] => [
+  welcomeMessage(),
+  ...messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      id: m.id,
+      role: m.role === "assistant" ? ("ai" as const) : ("user" as const),
+      text: m.content,
+      timestamp: m.timestamp,
+      sources: m.metadata?.sources,
+      context: m.metadata?.context,
+      model: m.metadata?.model,
+    })),
+];
+
+// ============================================
+// PART 4: HOOK
 // ============================================
 
 const useAIAssistant = (
   showToast: (msg: string, type: "success" | "error" | "info") => void,
 ): UseAIAssistantReturn => {
-  // ---------- PART 3A: STATE ----------
+  // ---------- PART 4A: STATE ----------
   const [activeTab, setActiveTab] = useState<"overview" | "chat">("overview");
   const [items, setItems] = useState<StorageItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -98,31 +194,28 @@ const useAIAssistant = (
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
   const [selectedItem, setSelectedItem] = useState<StorageItem | null>(null);
   const [summaryMode, setSummaryMode] = useState<SummaryMode>("standard");
+  const [pendingLongSummary, setPendingLongSummary] = useState<{
+    item: StorageItem;
+    quote: SummaryQuote;
+    refresh?: boolean;
+  } | null>(null);
+  const [cachedSummaryIds, setCachedSummaryIds] = useState<Set<string>>(new Set());
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
 
   // Credits
   const [credits, setCredits] = useState<number | string>("...");
 
-  // Persist chat history in localStorage (keyed per user once session loads)
-  const CHAT_STORAGE_KEY = "rm_chat_history";
+  // Chat state
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => [welcomeMessage()]);
 
-  // Chat state — restore from localStorage if available
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => {
-    try {
-      const raw = localStorage.getItem(CHAT_STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as ChatMessage[];
-        if (Array.isArray(parsed) && parsed.length > 0) return parsed;
-      }
-    } catch { /* ignore */ }
-    return [
-      {
-        id: "welcome",
-        role: "ai",
-        text: "Hello! I'm ResearchMate AI. I can help you analyze your saved research, find connections, or summarize complex topics. How can I help you today?",
-        timestamp: Date.now(),
-      },
-    ];
-  });
+  // Saved conversations (signed-in users only; guests chat without saving)
+  const [canSaveSessions, setCanSaveSessions] = useState(false);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [sessionSearch, setSessionSearch] = useState("");
+  // Set once the user starts or picks a conversation, so the initial load
+  // does not replace it with the most recent session
+  const conversationTouchedRef = useRef(false);
 
   const [chatInput, setChatInput] = useState("");
   const [isChatting, setIsChatting] = useState(false);
@@ -135,25 +228,35 @@ const useAIAssistant = (
   const [cursorPosition, setCursorPosition] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // ---------- PART 3B: EFFECTS ----------
+  // ---------- PART 4B: EFFECTS ----------
 
-  // Persist chat history to localStorage whenever it changes
+  // Load saved conversations and reopen the most recent one
   useEffect(() => {
-    try {
-      localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(chatHistory));
-    } catch { /* quota exceeded — ignore */ }
-  }, [chatHistory, CHAT_STORAGE_KEY]);
+    const loadSessions = async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) return;
+      setCanSaveSessions(true);
 
-  const clearHistory = () => {
-    const welcome: ChatMessage = {
-      id: "welcome",
-      role: "ai",
-      text: "Hello! I'm ResearchMate AI. I can help you analyze your saved research, find connections, or summarize complex topics. How can I help you today?",
-      timestamp: Date.now(),
+      try {
+        const [loaded, migrated] = await Promise.all([
+          getChatSessions(),
+          migrateLegacyChatHistory(),
+        ]);
+        const all = migrated ? [migrated, ...loaded] : loaded;
+        setSessions(all);
+
+        if (all.length > 0 && !conversationTouchedRef.current) {
+          setActiveSessionId(all[0].id);
+          setChatHistory(fromStoredMessages(all[0].messages));
+        }
+      } catch (error) {
+        console.error("❌ Failed to load conversations:", error);
+      }
     };
-    setChatHistory([welcome]);
-    localStorage.removeItem(CHAT_STORAGE_KEY);
-  };
+    loadSessions();
+  }, []);
 
   // Fetch credits on mount
   useEffect(() => {
@@ -193,7 +296,7 @@ const useAIAssistant = (
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [chatHistory, activeTab]);
 
-  // ---------- PART 3C: MEMOS ----------
+  // ---------- PART 4C: MEMOS ----------
 
   const itemsWithoutSummary = useMemo(() => {
     return items.filter(
@@ -219,6 +322,16 @@ const useAIAssistant = (
     );
   }, [items, debouncedSearchQuery]);
 
+  const filteredSessions = useMemo(() => {
+    const query = sessionSearch.trim().toLowerCase();
+    if (!query) return sessions;
+    return sessions.filter(
+      (session) =>
+        session.title.toLowerCase().includes(query) ||
+        session.messages.some((m) => m.content.toLowerCase().includes(query)),
+    );
+  }, [sessions, sessionSearch]);
+
   const filteredMentions = useMemo(() => {
     if (!mentionQuery) return items.slice(0, 5);
     return items
@@ -228,9 +341,25 @@ const useAIAssistant = (
       .slice(0, 5);
   }, [items, mentionQuery]);
 
-  // ---------- PART 3D: HANDLERS ----------
+  // ---------- PART 4D: HANDLERS ----------
+
+  // Stores a new summary on the item and remembers whether it came from the cache
+  const applySummary = async (item: StorageItem, summary: string, cached: boolean) => {
+    await updateItem(item.id, { aiSummary: summary });
+    setItems((prev) =>
+      prev.map((i) => (i.id === item.id ? { ...i, aiSummary: summary } : i)),
+    );
+    setSelectedItem((prev) => (prev?.id === item.id ? { ...prev, aiSummary: summary } : prev));
+    setCachedSummaryIds((prev) => {
+      const next = new Set(prev);
+      if (cached) next.add(item.id);
+      else next.delete(item.id);
+      return next;
+    });
+    showToast(cached ? "Summary loaded from cache — no credit used" : "Summary generated!", "success");
+  };
 
-  const handleSummarize = async (item: StorageItem) => {
+  const handleSummarize = async (item: StorageItem, options: CacheOptions = {}) => {
     const textContent = item.text || item.ocrText || "";
 
     if (!textContent.trim()) {
@@ -238,15 +367,34 @@ const useAIAssistant = (
       return;
     }
 
+    // Long documents are summarized part by part; quote the cost first
+    if (textContent.length > LONG_DOCUMENT_CHARS) {
+      setSummarizing(item.id);
+      let quote: SummaryQuote | null;
+      try {
+        quote = await quoteSummary(textContent, summaryMode, options);
+      } catch (error) {
+        showToast((error as Error).message, "error");
+        return;
+      } finally {
+        setSummarizing(null);
+      }
+      if (!quote) {
+        showToast("Couldn't estimate the cost of this summary. Please try again.", "error");
+      } else if (quote.strategy === "map-reduce") {
+        // A cached summary is free, so there is nothing to confirm
+        if (quote.cached) await runLongSummary(item, quote);
+        else setPendingLongSummary({ item, quote, refresh: options.refresh });
+        return;
+      }
+    }
+
     setSummarizing(item.id);
     try {
-      const result = await generateSummary(textContent, summaryMode);
-      if (result) {
-        await updateItem(item.id, { aiSummary: result });
-        setItems((prev) =>
-          prev.map((i) => (i.id === item.id ? { ...i, aiSummary: result } : i)),
-        );
-        showToast("Summary generated!", "success");
+      const result = await summarizeText(textContent, summaryMode, options);
+      if (result.ok && result.summary) {
+        await applySummary(item, result.summary, !!result.cached);
+        if (result.credits_remaining !== undefined) setCredits(result.credits_remaining);
       } else {
         showToast(
           "Summary failed. Service might be busy or out of credits.",
@@ -260,11 +408,54 @@ const useAIAssistant = (
     setSummarizing(null);
   };
 
+  const runLongSummary = async (item: StorageItem, quote: SummaryQuote, options: CacheOptions = {}) => {
+    setSummarizing(item.id);
+    setSummaryProgress(null);
+
+    try {
+      const result = await summarizeLongText(
+        item.text || item.ocrText || "",
+        summaryMode,
+        quote.credits,
+        setSummaryProgress,
+        undefined,
+        options,
+      );
+      if (result.ok && result.summary) {
+        await applySummary(item, result.summary, !!result.cached);
+        if (result.credits_remaining !== undefined) setCredits(result.credits_remaining);
+      } else if (result.reason === "no_credits") {
+        showToast(`Not enough credits: this summary needs ${quote.credits}.`, "error");
+      } else {
+        showToast(`Summary failed: ${result.error || "Please try again."}`, "error");
+      }
+    } catch (e) {
+      console.error("Long summary error:", e);
+      showToast("Failed to summarize (Network/Server Error)", "error");
+    }
+    setSummaryProgress(null);
+    setSummarizing(null);
+  };
+
+  const confirmLongSummary = async () => {
+    if (!pendingLongSummary) return;
+    const { item, quote, refresh } = pendingLongSummary;
+    setPendingLongSummary(null);
+    await runLongSummary(item, quote, { refresh });
+  };
+
+  const cancelLongSummary = () => setPendingLongSummary(null);
+
   const handleBatchSummarize = async () => {
     if (itemsWithoutSummary.length === 0) return;
     setBatchProcessing(true);
 
-    for (const item of itemsWithoutSummary.slice(0, 5)) {
+    // Long documents need their cost confirmed, so they are summarized one at a time
+    const isLong = (i: StorageItem) => (i.text || i.ocrText || "").length > LONG_DOCUMENT_CHARS;
+    const batch = itemsWithoutSummary.filter((i) => !isLong(i)).slice(0, 5);
+    const skipped = itemsWithoutSummary.filter(isLong).length;
+
+    for (const item of batch) {
       try {
         const result = await generateSummary(
           item.text || item.ocrText || "",
@@ -284,7 +475,9 @@ const useAIAssistant = (
     }
 
     showToast(
-      `Processed ${Math.min(5, itemsWithoutSummary.length)} items!`,
+      skipped > 0
+        ? `Processed ${batch.length} items! ${skipped} long ${skipped === 1 ? "document needs" : "documents need"} summarizing individually.`
+        : `Processed ${batch.length} items!`,
       "success",
     );
     setBatchProcessing(false);
@@ -332,29 +525,109 @@ const useAIAssistant = (
     );
   };
 
+  /** Moves a saved conversation to the top of the list with its latest state. */
+  const upsertSession = (session: ChatSession) =>
+    setSessions((prev) => [session, ...prev.filter((s) => s.id !== session.id)]);
+
+  const persistMessages = async (sessionId: string, messages: ChatMessage[]) => {
+    try {
+      upsertSession(await saveChatMessages(sessionId, toStoredMessages(messages)));
+    } catch (error) {
+      console.error("❌ Failed to save conversation:", error);
+      showToast("Couldn't save this conversation", "error");
+    }
+  };
+
+  const newChat = () => {
+    if (isChatting) return;
+    conversationTouchedRef.current = true;
+    setActiveSessionId(null);
+    setChatHistory([welcomeMessage()]);
+    setChatInput("");
+  };
+
+  const selectSession = (id: string) => {
+    const session = sessions.find((s) => s.id === id);
+    if (!session || isChatting) return;
+    conversationTouchedRef.current = true;
+    setActiveSessionId(id);
+    setChatHistory(fromStoredMessages(session.messages));
+  };
+
+  const renameSession = async (id: string, title: string) => {
+    try {
+      const updated = await renameChatSession(id, title);
+      setSessions((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    } catch (error) {
+      console.error("❌ Failed to rename conversation:", error);
+      showToast("Failed to rename conversation", "error");
+    }
+  };
+
+  const deleteSession = async (id: string) => {
+    try {
+      await deleteChatSession(id);
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+      if (id === activeSessionId) {
+        setActiveSessionId(null);
+        setChatHistory([welcomeMessage()]);
+      }
+      showToast("Conversation deleted", "success");
+    } catch (error) {
+      console.error("❌ Failed to delete conversation:", error);
+      showToast("Failed to delete conversation", "error");
+    }
+  };
+
+  /** Empties the open conversation but keeps it (and its title) in the list. */
+  const clearHistory = () => {
+    setChatHistory([welcomeMessage()]);
+    if (activeSessionId) persistMessages(activeSessionId, []);
+  };
+
   const handleSendMessage = async () => {
     if (!chatInput.trim() || isChatting) return;
+    conversationTouchedRef.current = true;
+
+    // @-mentioned items are always sent in full; everything else in the
+    // library is found by server-side retrieval
+    const mentionedItems = items.filter((i) =>
+      chatInput.toLowerCase().includes(`@${i.sourceTitle?.toLowerCase()}`),
+    );
+    const mentionedIds = mentionedItems.map((i) => i.id);
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: "user",
       text: chatInput,
       timestamp: Date.now(),
+      context: mentionedIds,
     };
+    const priorHistory = chatHistory;
 
     setChatHistory((prev) => [...prev, userMsg]);
     setChatInput("");
     setIsMentionMenuOpen(false);
     setIsChatting(true);
 
-    const mentionedItems = items.filter((i) =>
-      userMsg.text.toLowerCase().includes(`@${i.sourceTitle?.toLowerCase()}`),
-    );
-
-    const itemsToUse =
-      mentionedItems.length > 0 ? mentionedItems : items.slice(0, 5);
-
-    const contextItems = itemsToUse
+    // The first message of a new conversation creates it, titled after the
+    // question; the exchange is saved once the reply is complete
+    const sessionPromise: Promise<string | null> = activeSessionId
+      ? Promise.resolve(activeSessionId)
+      : canSaveSessions
+        ? createChatSession(titleFromMessage(userMsg.text))
+            .then((session) => {
+              upsertSession(session);
+              setActiveSessionId(session.id);
+              return session.id;
+            })
+            .catch((error) => {
+              console.error("❌ Failed to create conversation:", error);
+              return null;
+            })
+        : Promise.resolve(null);
+
+    const contextItems = mentionedItems
       .map(
         (item) => `
       Title: ${item.sourceTitle}
@@ -365,77 +638,117 @@ const useAIAssistant = (
       )
       .join("\n---\n");
 
-    const context = `
+    const context = contextItems
+      ? `
     User Saved Research (Prioritize these):
     ${contextItems}
-    `;
+    `
+      : "";
 
     const controller = new AbortController();
     chatAbortRef.current = controller;
-    const timeoutId = setTimeout(() => controller.abort(), 30_000);
+
+    // Idle timeout: restarted whenever a chunk arrives, so long answers that
+    // keep streaming are never cut off
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const restartTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, 30_000);
+    };
+    restartTimeout();
+
+    // Placeholder reply that fills in as the stream arrives
+    // Mirrored locally so the finished reply can be saved without waiting
+    // for the state update
+    let aiMsg: ChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: "ai",
+      text: "",
+      timestamp: Date.now(),
+      streaming: true,
+      context: mentionedIds,
+    };
+    setChatHistory((prev) => [...prev, aiMsg]);
+    const updateAiMsg = (update: (msg: ChatMessage) => Partial<ChatMessage>) => {
+      aiMsg = { ...aiMsg, ...update(aiMsg) };
+      const next = aiMsg;
+      setChatHistory((prev) => prev.map((m) => (m.id === next.id ? next : m)));
+    };
 
     try {
-      const result = await generateChatResponse(
+      const result = await streamChatResponse(
         userMsg.text,
         context,
+        {
+          onDelta: (delta) => {
+            restartTimeout();
+            updateAiMsg((m) => ({ text: m.text + delta }));
+          },
+          onSources: (sources) =>
+            updateAiMsg(() => ({
+              sources,
+              context: [...new Set([...mentionedIds, ...sources.map((s) => s.id)])],
+            })),
+        },
         controller.signal,
       );
       clearTimeout(timeoutId);
 
       if (result.ok) {
+        if (result.provider) updateAiMsg(() => ({ model: result.provider }));
         if (result.response.includes("ACTION_REDIRECT_CITATIONS")) {
           handleRedirectCitations();
-          const aiMsg: ChatMessage = {
-            id: (Date.now() + 1).toString(),
-            role: "ai",
+          updateAiMsg(() => ({
             text: "I've navigated you to the Citations tab to view accurate references.",
-            timestamp: Date.now(),
-          };
-          setChatHistory((prev) => [...prev, aiMsg]);
+            streaming: false,
+          }));
         } else {
-          const aiMsg: ChatMessage = {
-            id: (Date.now() + 1).toString(),
-            role: "ai",
-            text: result.response,
-            timestamp: Date.now(),
-          };
-          setChatHistory((prev) => [...prev, aiMsg]);
+          updateAiMsg(() => ({ text: result.response, streaming: false }));
         }
 
         if (result.credits_remaining !== undefined) {
           setCredits(result.credits_remaining);
         }
       } else {
-        const errorMsg: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          role: "ai",
-          text:
-            result.reason === "no_credits"
-              ? "⚠️ **Out of AI Credits**. Please wait for your monthly refill or add your own API Key in Settings."
-              : result.reason === "aborted"
-                ? "Request was cancelled."
-                : `Error: ${result.error}`,
-          timestamp: Date.now(),
-        };
-        setChatHistory((prev) => [...prev, errorMsg]);
+        const notice =
+          result.reason === "no_credits"
+            ? "⚠️ **Out of AI Credits**. Please wait for your monthly refill or add your own API Key in Settings."
+            : result.reason === "aborted"
+              ? timedOut
+                ? "Request timed out. Please try again."
+                : "Request was cancelled."
+              : `Error: ${result.error}`;
+        // Keep whatever arrived before the stream stopped
+        updateAiMsg(() => ({
+          text: result.response ? `${result.response}\n\n*${notice}*` : notice,
+          streaming: false,
+        }));
         if (result.reason === "no_credits") setCredits(0);
       }
-    } catch (error) {
+    } catch {
       clearTimeout(timeoutId);
-      const isAbort = (error as Error).name === "AbortError";
-      const errorMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: "ai",
-        text: isAbort
-          ? "Request timed out or was cancelled. Please try again."
-          : "Sorry, I encountered a network error. Please try again.",
-        timestamp: Date.now(),
-      };
-      setChatHistory((prev) => [...prev, errorMsg]);
+      updateAiMsg((m) => ({
+        text: m.text || "Sorry, I encountered a network error. Please try again.",
+        streaming: false,
+      }));
     } finally {
       chatAbortRef.current = null;
       setIsChatting(false);
     }
+
+    const sessionId = await sessionPromise;
+    if (sessionId) persistMessages(sessionId, [...priorHistory, userMsg, aiMsg]);
+  };
+
+  /** Opens a cited item, fetching it when it is not among the loaded items. */
+  const openItem = async (id: string) => {
+    const item = items.find((i) => i.id === id) || (await getItemById(id));
+    if (item) setSelectedItem(item);
+    else showToast("That item is no longer in your library", "error");
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -451,7 +764,7 @@ const useAIAssistant = (
   };
 
   // ============================================
-  // PART 4: RETURN
+  // PART 5: RETURN
   // ============================================
 
   return {
@@ -471,6 +784,12 @@ const useAIAssistant = (
     setSummaryMode,
     handleSummarize,
     handleBatchSummarize,
+    cachedSummaryIds,
+    pendingLongSummary,
+    confirmLongSummary,
+    cancelLongSummary,
+    summaryProgress,
+    openItem,
     chatInput,
     setChatInput,
     chatHistory,
@@ -488,11 +807,21 @@ const useAIAssistant = (
     handleKeyDown,
     credits,
     clearHistory,
+    canSaveSessions,
+    sessions,
+    filteredSessions,
+    activeSessionId,
+    sessionSearch,
+    setSessionSearch,
+    newChat,
+    selectSession,
+    renameSession,
+    deleteSession,
   };
 };
 
 // ============================================
-// PART 5: EXPORTS
+// PART 6: EXPORTS
 // ============================================
 
 export default useAIAssistant;
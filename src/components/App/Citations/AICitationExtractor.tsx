@@ -20,6 +20,7 @@ import {
 } from "./extractorUtils";
 import ExtractorInput from "./ExtractorInput";
 import ExtractedCitationCard from "./ExtractedCitationCard";
+import { apiFetch } from "../../../services/rateLimitService";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -42,7 +43,7 @@ async function getAuthToken(): Promise<string | undefined> {
 
 async function extractISBN(isbn: string): Promise<ExtractedMetadata> {
   const token = await getAuthToken();
-  const response = await fetch(`${API_BASE_URL}/cite`, {
+  const response = await apiFetch(`${API_BASE_URL}/cite`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -73,12 +74,13 @@ async function extractISBN(isbn: string): Promise<ExtractedMetadata> {
     pages: book.pages,
     coverUrl: book.coverUrl,
     debugLogs: data.debugLogs,
+    csl: data.csl,
   };
 }
 
 async function extractDOI(doi: string): Promise<ExtractedMetadata> {
   const token = await getAuthToken();
-  const response = await fetch(`${API_BASE_URL}/cite`, {
+  const response = await apiFetch(`${API_BASE_URL}/cite`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -111,12 +113,13 @@ async function extractDOI(doi: string): Promise<ExtractedMetadata> {
     issue: paper.issue,
     doi: paper.doi,
     publisher: paper.publisher,
+    csl: data.csl,
   };
 }
 
 async function extractYouTube(videoId: string): Promise<ExtractedMetadata> {
   const token = await getAuthToken();
-  const response = await fetch(`${API_BASE_URL}/cite`, {
+  const response = await apiFetch(`${API_BASE_URL}/cite`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -140,6 +143,7 @@ async function extractYouTube(videoId: string): Promise<ExtractedMetadata> {
     url: video.url,
     channelTitle: video.channelTitle,
     duration: video.durationFormatted,
+    csl: data.csl,
   };
 }
 
@@ -148,7 +152,7 @@ async function extractURL(
   useAI: boolean
 ): Promise<ExtractedMetadata> {
   const token = await getAuthToken();
-  const response = await fetch(`${API_BASE_URL}/extract-citation`, {
+  const response = await apiFetch(`${API_BASE_URL}/extract-citation`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -169,6 +173,7 @@ async function extractURL(
     description: data.metadata.description || "",
     url: data.metadata.url || url,
     doi: data.doi,
+    csl: data.csl,
   };
 }
 
@@ -6,7 +6,7 @@
 // PART 1: IMPORTS & DEPENDENCIES
 // ============================================
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Card } from "../../shared/ui";
 import {
   BookOpen,
@@ -16,8 +16,17 @@ import {
   Building,
   Calendar,
   Link as LinkIcon,
+  Hash,
+  Tag,
 } from "lucide-react";
-import { CitationData } from "./citationUtils";
+import {
+  CitationData,
+  CITATION_ITEM_TYPES,
+  cslDateToIso,
+  formatAuthorsInput,
+  parseAuthorsInput,
+  toCslDate,
+} from "./citationUtils";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -39,6 +48,32 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
   const update = (patch: Partial<CitationData>) =>
     onChange({ ...citationData, ...patch });
 
+  // Authors are edited as free text and parsed on every keystroke, so keep
+  // the raw input locally and only resync when the data changes elsewhere.
+  const [authorInput, setAuthorInput] = useState(
+    formatAuthorsInput(citationData.author)
+  );
+  useEffect(() => {
+    const current = formatAuthorsInput(parseAuthorsInput(authorInput));
+    if (current !== formatAuthorsInput(citationData.author)) {
+      setAuthorInput(formatAuthorsInput(citationData.author));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [citationData.author]);
+
+  const isWebLike = ["webpage", "post", "motion_picture", "dataset"].includes(
+    citationData.type
+  );
+  const hasNumbering = [
+    "article-journal",
+    "article-magazine",
+    "article-newspaper",
+    "paper-conference",
+    "chapter",
+  ].includes(citationData.type);
+  const inputClass =
+    "w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+
   return (
     <Card className="p-4">
       <h3 className="font-semibold mb-4 flex items-center gap-2">
@@ -47,6 +82,31 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
       </h3>
 
       <div className="space-y-3">
+        {/* Item Type */}
+        <div>
+          <label
+            htmlFor="citation-type"
+            className="block text-xs font-medium text-gray-500 mb-1"
+          >
+            <Tag className="w-3 h-3 inline mr-1" />
+            Source Type
+          </label>
+          <select
+            id="citation-type"
+            value={citationData.type}
+            onChange={(e) =>
+              update({ type: e.target.value as CitationData["type"] })
+            }
+            className={inputClass}
+          >
+            {CITATION_ITEM_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Title */}
         <div>
           <label
@@ -73,14 +133,17 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
             className="block text-xs font-medium text-gray-500 mb-1"
           >
             <User className="w-3 h-3 inline mr-1" />
-            Author
+            Authors
           </label>
           <input
             id="citation-author"
             type="text"
-            value={citationData.author}
-            onChange={(e) => update({ author: e.target.value })}
-            placeholder="Last Name, First Name"
+            value={authorInput}
+            onChange={(e) => {
+              setAuthorInput(e.target.value);
+              update({ author: parseAuthorsInput(e.target.value) });
+            }}
+            placeholder="Last, First; Last, First"
             className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none"
           />
         </div>
@@ -92,14 +155,20 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
             className="block text-xs font-medium text-gray-500 mb-1"
           >
             <Globe className="w-3 h-3 inline mr-1" />
-            Website Name
+            {isWebLike
+              ? "Website Name"
+              : citationData.type === "chapter"
+                ? "Book Title"
+                : "Journal / Proceedings"}
           </label>
           <input
             id="citation-website"
             type="text"
-            value={citationData.websiteName}
-            onChange={(e) => update({ websiteName: e.target.value })}
-            placeholder="e.g., Wikipedia, BBC News"
+            value={citationData["container-title"] || ""}
+            onChange={(e) => update({ "container-title": e.target.value })}
+            placeholder={
+              isWebLike ? "e.g., Wikipedia, BBC News" : "e.g., Nature"
+            }
             className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none"
           />
         </div>
@@ -116,13 +185,65 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
           <input
             id="citation-publisher"
             type="text"
-            value={citationData.publisher}
+            value={citationData.publisher || ""}
             onChange={(e) => update({ publisher: e.target.value })}
             placeholder="Publishing organization"
             className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none"
           />
         </div>
 
+        {/* Volume / Issue / Pages */}
+        {hasNumbering && (
+          <div className="grid grid-cols-3 gap-3">
+            {(
+              [
+                ["volume", "Volume"],
+                ["issue", "Issue"],
+                ["page", "Pages"],
+              ] as const
+            ).map(([field, label]) => (
+              <div key={field}>
+                <label
+                  htmlFor={`citation-${field}`}
+                  className="block text-xs font-medium text-gray-500 mb-1"
+                >
+                  <Hash className="w-3 h-3 inline mr-1" />
+                  {label}
+                </label>
+                <input
+                  id={`citation-${field}`}
+                  type="text"
+                  value={citationData[field] || ""}
+                  onChange={(e) => update({ [field]: e.target.value })}
+                  placeholder={field === "page" ? "12-34" : ""}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* DOI */}
+        {!isWebLike && (
+          <div>
+            <label
+              htmlFor="citation-doi"
+              className="block text-xs font-medium text-gray-500 mb-1"
+            >
+              <LinkIcon className="w-3 h-3 inline mr-1" />
+              DOI
+            </label>
+            <input
+              id="citation-doi"
+              type="text"
+              value={citationData.DOI || ""}
+              onChange={(e) => update({ DOI: e.target.value.trim() })}
+              placeholder="10.1000/xyz123"
+              className={inputClass}
+            />
+          </div>
+        )}
+
         {/* URL */}
         <div>
           <label
@@ -135,8 +256,8 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
           <input
             id="citation-url"
             type="url"
-            value={citationData.url}
-            onChange={(e) => update({ url: e.target.value })}
+            value={citationData.URL || ""}
+            onChange={(e) => update({ URL: e.target.value })}
             placeholder="https://..."
             className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none"
           />
@@ -155,10 +276,8 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
             <input
               id="citation-publish-date"
               type="date"
-              value={citationData.publishDate.split("T")[0]}
-              onChange={(e) =>
-                update({ publishDate: new Date(e.target.value).toISOString() })
-              }
+              value={cslDateToIso(citationData.issued)}
+              onChange={(e) => update({ issued: toCslDate(e.target.value) })}
               className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none"
             />
           </div>
@@ -173,10 +292,8 @@ const CitationDetailsForm: React.FC<CitationDetailsFormProps> = ({
             <input
               id="citation-access-date"
               type="date"
-              value={citationData.accessDate.split("T")[0]}
-              onChange={(e) =>
-                update({ accessDate: new Date(e.target.value).toISOString() })
-              }
+              value={cslDateToIso(citationData.accessed)}
+              onChange={(e) => update({ accessed: toCslDate(e.target.value) })}
               className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 outline-none"
             />
           </div>
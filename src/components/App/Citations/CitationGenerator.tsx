@@ -8,23 +8,52 @@
 
 import React, { useState, useEffect } from "react";
 import { Quote } from "lucide-react";
-import { getAllItems, StorageItem } from "../../../services/storageService";
+import {
+  getAllItems,
+  updateItem,
+  StorageItem,
+} from "../../../services/storageService";
 import {
   CitationData,
+  CitationFormat,
   EMPTY_CITATION_DATA,
   extractDomain,
+  generateCitation,
+  parseName,
+  toCslDate,
 } from "./citationUtils";
+import { ExtractedMetadata } from "./extractorUtils";
+import { buildCitationDataFromItem } from "../DocumentEditor/bibliographyUtils";
 import AICitationExtractor from "./AICitationExtractor";
 import ResearchItemPicker from "./ResearchItemPicker";
 import CitationDetailsForm from "./CitationDetailsForm";
 import GeneratedCitations from "./GeneratedCitations";
 
 // ============================================
-// PART 2: MAIN COMPONENT
+// PART 2: HELPERS
+// ============================================
+
+// Older API responses without a `csl` record
+const metadataToCitationData = (metadata: ExtractedMetadata): CitationData => ({
+  type: "webpage",
+  title: metadata.title,
+  author: metadata.author
+    .split(/[;,]/)
+    .map((a) => parseName(a))
+    .filter((n): n is NonNullable<typeof n> => n !== null),
+  "container-title": metadata.siteName || extractDomain(metadata.url),
+  issued: toCslDate(metadata.publishDate),
+  accessed: toCslDate(metadata.accessDate),
+  URL: metadata.url,
+  DOI: metadata.doi,
+});
+
+// ============================================
+// PART 3: MAIN COMPONENT
 // ============================================
 
 const CitationGenerator: React.FC = () => {
-  // ---------- PART 2A: STATE ----------
+  // ---------- PART 3A: STATE ----------
   const [items, setItems] = useState<StorageItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
@@ -32,12 +61,12 @@ const CitationGenerator: React.FC = () => {
   const [citationData, setCitationData] =
     useState<CitationData>(EMPTY_CITATION_DATA);
 
-  // ---------- PART 2B: EFFECTS ----------
+  // ---------- PART 3B: EFFECTS ----------
   useEffect(() => {
     fetchItems();
   }, []);
 
-  // ---------- PART 2C: HANDLERS ----------
+  // ---------- PART 3C: HANDLERS ----------
   const fetchItems = async () => {
     setLoading(true);
     try {
@@ -51,15 +80,22 @@ const CitationGenerator: React.FC = () => {
 
   const handleSelectItem = (item: StorageItem) => {
     setSelectedItem(item);
-    setCitationData({
-      title: item.sourceTitle || "Untitled",
-      author: "",
-      publishDate: item.createdAt,
-      accessDate: new Date().toISOString(),
-      url: item.sourceUrl || "",
-      publisher: "",
-      websiteName: extractDomain(item.sourceUrl || ""),
-    });
+    setCitationData(buildCitationDataFromItem(item));
+  };
+
+  // Stores the edited structured citation on the item, plus the rendered
+  // string in the chosen format for places that only display text.
+  const handleSaveToItem = async (format: CitationFormat) => {
+    if (!selectedItem) return;
+    const updates = {
+      cslData: citationData,
+      citation: generateCitation(citationData, format),
+      citationFormat: format,
+    };
+    await updateItem(selectedItem.id, updates);
+    const updated = { ...selectedItem, ...updates };
+    setSelectedItem(updated);
+    setItems((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
   };
 
   const handleClearSelection = () => {
@@ -67,7 +103,7 @@ const CitationGenerator: React.FC = () => {
     setCitationData({ ...EMPTY_CITATION_DATA });
   };
 
-  // ---------- PART 2D: RENDER ----------
+  // ---------- PART 3D: RENDER ----------
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -86,15 +122,7 @@ const CitationGenerator: React.FC = () => {
       {/* AI Citation Extractor */}
       <AICitationExtractor
         onCitationExtracted={(metadata) => {
-          setCitationData({
-            title: metadata.title,
-            author: metadata.author,
-            publishDate: metadata.publishDate || new Date().toISOString(),
-            accessDate: metadata.accessDate,
-            url: metadata.url,
-            publisher: "",
-            websiteName: metadata.siteName,
-          });
+          setCitationData(metadata.csl || metadataToCitationData(metadata));
           setSelectedItem(null);
         }}
       />
@@ -123,7 +151,10 @@ const CitationGenerator: React.FC = () => {
 
         {/* Right: Generated Citations */}
         <div className="lg:col-span-1">
-          <GeneratedCitations citationData={citationData} />
+          <GeneratedCitations
+            citationData={citationData}
+            onSaveToItem={selectedItem ? handleSaveToItem : undefined}
+          />
         </div>
       </div>
     </div>
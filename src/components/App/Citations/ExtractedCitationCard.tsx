@@ -23,6 +23,7 @@ import {
   ExtractedMetadata,
   getTypeBadge,
 } from "./extractorUtils";
+import { generateCitation } from "./citationUtils";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -43,6 +44,8 @@ const buildAPACitation = (
   metadata: ExtractedMetadata,
   detectedType: DetectedType | null
 ): string => {
+  if (metadata.csl) return generateCitation(metadata.csl, "apa");
+
   const author = metadata.author || "Unknown Author";
   const year =
     metadata.publishYear ||
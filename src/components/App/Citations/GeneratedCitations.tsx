@@ -8,7 +8,7 @@
 
 import React, { useState } from "react";
 import { Button, Card } from "../../shared/ui";
-import { Copy, Quote, CheckCircle2, AtSign } from "lucide-react";
+import { Copy, Quote, CheckCircle2, AtSign, BookmarkPlus } from "lucide-react";
 import {
   CitationData,
   CitationFormat,
@@ -23,6 +23,8 @@ import {
 
 interface GeneratedCitationsProps {
   citationData: CitationData;
+  /** Set when a research item is selected; saves the citation onto it. */
+  onSaveToItem?: (format: CitationFormat) => Promise<void>;
 }
 
 // ============================================
@@ -31,9 +33,22 @@ interface GeneratedCitationsProps {
 
 const GeneratedCitations: React.FC<GeneratedCitationsProps> = ({
   citationData,
+  onSaveToItem,
 }) => {
   const [copiedFormat, setCopiedFormat] = useState<CitationFormat | null>(null);
   const [copiedInText, setCopiedInText] = useState<CitationFormat | null>(null);
+  const [savedFormat, setSavedFormat] = useState<CitationFormat | null>(null);
+
+  const handleSave = async (format: CitationFormat) => {
+    if (!onSaveToItem) return;
+    try {
+      await onSaveToItem(format);
+      setSavedFormat(format);
+      setTimeout(() => setSavedFormat(null), 2000);
+    } catch (error) {
+      console.error("Failed to save citation to item:", error);
+    }
+  };
 
   const handleCopy = async (format: CitationFormat) => {
     const citation = generateCitation(citationData, format);
@@ -78,22 +93,42 @@ const GeneratedCitations: React.FC<GeneratedCitationsProps> = ({
                 </span>
                 <p className="text-xs text-gray-400">{format.description}</p>
               </div>
-              <button
-                onClick={() => handleCopy(format.id)}
-                className={`p-1.5 rounded-lg transition-all ${
-                  copiedFormat === format.id
-                    ? "bg-green-100 text-green-600"
-                    : "text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700"
-                }`}
-                title={`Copy ${format.name} citation`}
-                aria-label={`Copy ${format.name} citation`}
-              >
-                {copiedFormat === format.id ? (
-                  <CheckCircle2 className="w-4 h-4" />
-                ) : (
-                  <Copy className="w-4 h-4" />
+              <div className="flex items-center gap-1">
+                {onSaveToItem && (
+                  <button
+                    onClick={() => handleSave(format.id)}
+                    className={`p-1.5 rounded-lg transition-all ${
+                      savedFormat === format.id
+                        ? "bg-green-100 text-green-600"
+                        : "text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    }`}
+                    title={`Save ${format.name} citation to the selected item`}
+                    aria-label={`Save ${format.name} citation to the selected item`}
+                  >
+                    {savedFormat === format.id ? (
+                      <CheckCircle2 className="w-4 h-4" />
+                    ) : (
+                      <BookmarkPlus className="w-4 h-4" />
+                    )}
+                  </button>
                 )}
-              </button>
+                <button
+                  onClick={() => handleCopy(format.id)}
+                  className={`p-1.5 rounded-lg transition-all ${
+                    copiedFormat === format.id
+                      ? "bg-green-100 text-green-600"
+                      : "text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  }`}
+                  title={`Copy ${format.name} citation`}
+                  aria-label={`Copy ${format.name} citation`}
+                >
+                  {copiedFormat === format.id ? (
+                    <CheckCircle2 className="w-4 h-4" />
+                  ) : (
+                    <Copy className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
             </div>
             <p
               className={`text-xs text-gray-600 dark:text-gray-400 break-all ${
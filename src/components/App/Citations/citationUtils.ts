@@ -6,7 +6,14 @@
 // PART 1: IMPORTS & DEPENDENCIES
 // ============================================
 
-// (no external imports needed)
+import type { CslDate, CslItem, CslItemType, CslName } from "../../../types";
+import {
+  isCslStyle,
+  renderCslBibliography,
+  renderCslCitations,
+  CslCitationCluster,
+  RenderedCslCitation,
+} from "./cslEngine";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -20,15 +27,18 @@ export type CitationFormat =
   | "ieee"
   | "bibtex";
 
-export interface CitationData {
-  title: string;
-  author: string;
-  publishDate: string;
-  accessDate: string;
-  url: string;
-  publisher: string;
-  websiteName: string;
-}
+/**
+ * A built-in format or the id of a CSL style (bundled, e.g. "vancouver",
+ * or an uploaded "custom:<uuid>" style).
+ */
+export type CitationStyleId = CitationFormat | (string & {});
+
+/** Citation input for every formatter — the CSL-JSON record stored on items. */
+export type CitationData = CslItem;
+
+/** An in-text citation node: one or more item IDs plus an optional locator. */
+export type InTextCitation = CslCitationCluster;
+export type RenderedInTextCitation = RenderedCslCitation;
 
 // ============================================
 // PART 3: CONSTANTS
@@ -55,20 +65,82 @@ export const CITATION_FORMATS: {
   { id: "bibtex", name: "BibTeX", description: "LaTeX Bibliography Format" },
 ];
 
+export const isBuiltinFormat = (id: CitationStyleId): id is CitationFormat =>
+  CITATION_FORMATS.some((f) => f.id === id);
+
+export const CITATION_ITEM_TYPES: { id: CslItemType; name: string }[] = [
+  { id: "webpage", name: "Web page" },
+  { id: "article-journal", name: "Journal article" },
+  { id: "paper-conference", name: "Conference paper" },
+  { id: "book", name: "Book" },
+  { id: "chapter", name: "Book chapter" },
+  { id: "report", name: "Report" },
+  { id: "thesis", name: "Thesis" },
+  { id: "article-magazine", name: "Magazine article" },
+  { id: "article-newspaper", name: "Newspaper article" },
+  { id: "motion_picture", name: "Video" },
+  { id: "dataset", name: "Dataset" },
+  { id: "post", name: "Blog / forum post" },
+];
+
 export const EMPTY_CITATION_DATA: CitationData = {
+  type: "webpage",
   title: "",
-  author: "",
-  publishDate: new Date().toISOString(),
-  accessDate: new Date().toISOString(),
-  url: "",
-  publisher: "",
-  websiteName: "",
+  author: [],
+  issued: toCslDate(new Date().toISOString()),
+  accessed: toCslDate(new Date().toISOString()),
+  URL: "",
 };
 
+const ARTICLE_TYPES: CslItemType[] = [
+  "article-journal",
+  "article-magazine",
+  "article-newspaper",
+  "paper-conference",
+];
+const BOOK_TYPES: CslItemType[] = ["book", "report", "thesis"];
+
+const PLACEHOLDER_AUTHORS = ["unknown author", "unknown", "anonymous"];
+const NAME_PARTICLES = ["van", "von", "der", "den", "de", "del", "da", "di", "la", "le"];
+
 // ============================================
-// PART 4: HELPER FUNCTIONS
+// PART 4: DATE HELPERS
 // ============================================
 
+/** Parses an ISO / free-form date into CSL `date-parts`. */
+export function toCslDate(value?: string | null): CslDate | undefined {
+  if (!value || value === "n.d.") return undefined;
+
+  const iso = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/);
+  if (iso) {
+    const parts: [number, number?, number?] = [Number(iso[1])];
+    if (iso[2]) parts.push(Number(iso[2]));
+    if (iso[2] && iso[3]) parts.push(Number(iso[3]));
+    return { "date-parts": [parts] };
+  }
+
+  const parsed = new Date(value);
+  if (!isNaN(parsed.getTime())) {
+    return {
+      "date-parts": [[parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate()]],
+    };
+  }
+  return { literal: value };
+}
+
+/** ISO string for a CSL date (missing month/day default to January 1st). */
+export function cslDateToIso(date?: CslDate): string {
+  const parts = date?.["date-parts"]?.[0];
+  if (!parts) return "";
+  const [year, month = 1, day = 1] = parts;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export const getIssuedYear = (data: CitationData): string =>
+  data.issued?.["date-parts"]?.[0]?.[0]?.toString() ||
+  data.issued?.literal?.match(/\d{4}/)?.[0] ||
+  "n.d.";
+
 export const formatDate = (
   dateStr: string,
   format: "full" | "year" | "mla" | "chicago"
@@ -125,51 +197,362 @@ export const formatDate = (
   }
 };
 
+const formatCslDate = (
+  date: CslDate | undefined,
+  format: "full" | "year" | "mla" | "chicago"
+): string => {
+  const iso = cslDateToIso(date);
+  if (!iso) return date?.literal || "n.d.";
+  const hasDay = (date?.["date-parts"]?.[0]?.length || 0) >= 3;
+  return hasDay ? formatDate(iso, format) : iso.slice(0, 4);
+};
+
+const accessedDate = (data: CitationData, format: "full" | "mla") =>
+  formatDate(cslDateToIso(data.accessed) || new Date().toISOString(), format);
+
+// ============================================
+// PART 5: NAME HELPERS
+// ============================================
+
+/** Splits "Given Middle Family" or "Family, Given" into a CSL name. */
+export function parseName(raw: string): CslName | null {
+  const name = raw.replace(/\s+/g, " ").trim();
+  if (!name || PLACEHOLDER_AUTHORS.includes(name.toLowerCase())) return null;
+
+  if (name.includes(",")) {
+    const [family, given] = name.split(",").map((p) => p.trim());
+    return given ? { family, given } : { family };
+  }
+
+  const parts = name.split(" ");
+  if (parts.length === 1) return { literal: name };
+
+  let familyStart = parts.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.includes(parts[familyStart - 1].toLowerCase())) {
+    familyStart--;
+  }
+  return {
+    given: parts.slice(0, familyStart).join(" "),
+    family: parts.slice(familyStart).join(" "),
+  };
+}
+
+/** Author field input: "Family, Given; Family, Given" (organisations as-is). */
+export const parseAuthorsInput = (value: string): CslName[] =>
+  value
+    .split(";")
+    .map((chunk) => parseName(chunk))
+    .filter((n): n is CslName => n !== null);
+
+export const formatAuthorsInput = (names: CslName[]): string =>
+  names
+    .map((n) => n.literal || [n.family, n.given].filter(Boolean).join(", "))
+    .join("; ");
+
+export const getFamilyName = (name?: CslName): string =>
+  name ? name.family || name.literal || name.given || "" : "";
+
+const initials = (given?: string): string =>
+  (given || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) =>
+      part
+        .split("-")
+        .map((p) => (p.endsWith(".") && p.length <= 3 ? p : `${p.charAt(0).toUpperCase()}.`))
+        .join("-")
+    )
+    .join(" ");
+
+const familyInitials = (n: CslName) =>
+  n.literal || [n.family, initials(n.given)].filter(Boolean).join(", ");
+const initialsFamily = (n: CslName) =>
+  n.literal || [initials(n.given), n.family].filter(Boolean).join(" ");
+const familyGiven = (n: CslName) =>
+  n.literal || [n.family, n.given].filter(Boolean).join(", ");
+const givenFamily = (n: CslName) =>
+  n.literal || [n.given, n.family].filter(Boolean).join(" ");
+
+/** "A", "A and B", "A, B, and C" with a configurable final separator. */
+const joinNames = (names: string[], finalSep: string, serial = true): string => {
+  if (names.length <= 1) return names[0] || "";
+  if (names.length === 2) return `${names[0]}${serial && finalSep.trim() === "&" ? "," : ""} ${finalSep} ${names[1]}`;
+  return `${names.slice(0, -1).join(", ")}${serial ? "," : ""} ${finalSep} ${names[names.length - 1]}`;
+};
+
+const UNKNOWN_AUTHOR = "Unknown Author";
+
+const formatAuthorList = (authors: CslName[], format: CitationFormat): string => {
+  if (authors.length === 0) return UNKNOWN_AUTHOR;
+
+  switch (format) {
+    case "apa": {
+      // APA 7: up to 20 names, then the first 19, an ellipsis and the last
+      const names = authors.map(familyInitials);
+      if (names.length > 20) {
+        return `${names.slice(0, 19).join(", ")}, . . . ${names[names.length - 1]}`;
+      }
+      return joinNames(names, "&");
+    }
+    case "mla":
+      if (authors.length === 1) return familyGiven(authors[0]);
+      if (authors.length === 2) {
+        return `${familyGiven(authors[0])}, and ${givenFamily(authors[1])}`;
+      }
+      return `${familyGiven(authors[0])}, et al.`;
+    case "chicago": {
+      const shown = authors.length > 10 ? authors.slice(0, 7) : authors;
+      const names = [familyGiven(shown[0]), ...shown.slice(1).map(givenFamily)];
+      if (authors.length > 10) return `${names.join(", ")}, et al.`;
+      return names.length === 2 ? `${names[0]}, and ${names[1]}` : joinNames(names, "and");
+    }
+    case "harvard": {
+      const names = authors.map((n) => familyInitials(n).replace(/\. /g, "."));
+      if (names.length > 3) return `${names[0]} et al.`;
+      return joinNames(names, "and", false);
+    }
+    case "ieee": {
+      const names = authors.map(initialsFamily);
+      if (names.length > 6) return `${names[0]} et al.`;
+      return joinNames(names, "and", names.length > 2);
+    }
+    case "bibtex":
+    default:
+      return authors.map(familyGiven).join(" and ");
+  }
+};
+
+// ============================================
+// PART 6: FORMATTING HELPERS
+// ============================================
+
+/** Appends `char` unless the text already ends in terminal punctuation. */
+const terminate = (text: string, char = "."): string =>
+  /[.?!]$/.test(text.trim()) ? text.trim() : `${text.trim()}${char}`;
+
+const compact = (parts: (string | false | undefined | null)[], sep = " "): string =>
+  parts.filter(Boolean).join(sep);
+
+const doiUrl = (data: CitationData) =>
+  data.DOI ? `https://doi.org/${data.DOI}` : data.URL || "";
+
+const pageRange = (page?: string, sep = "–") => (page ? page.replace(/\s*[-–]+\s*/, sep) : "");
+
+const isArticle = (data: CitationData) => ARTICLE_TYPES.includes(data.type);
+const isBook = (data: CitationData) => BOOK_TYPES.includes(data.type);
+
+/** Website / publisher shown for web-like items. */
+const siteName = (data: CitationData) =>
+  data["container-title"] || data.publisher || "Website";
+
+/**
+ * Stable BibTeX / LaTeX key: the persisted `citation-key` when the item has
+ * one (see citationKeyService), otherwise first author's family name + year
+ * + first significant title word, e.g. `vaswani2017attention`.
+ */
+export const generateCitationKey = (data: CitationData): string => {
+  if (data["citation-key"]) return data["citation-key"];
+  const family = getFamilyName(data.author[0])
+    .normalize("NFD")
+    .replace(/[^A-Za-z]/g, "")
+    .toLowerCase();
+  const year = getIssuedYear(data).replace(/\D/g, "") || "nd";
+  const word =
+    (data.title || "")
+      .normalize("NFD")
+      .toLowerCase()
+      .split(/\s+/)
+      .map((w) => w.replace(/[^a-z0-9]/g, ""))
+      .find((w) => w.length > 3 && !["the", "with", "from", "that", "this"].includes(w)) || "";
+  return `${family || "anon"}${year}${word}`;
+};
+
+const BIBTEX_TYPES: Partial<Record<CslItemType, string>> = {
+  "article-journal": "article",
+  "article-magazine": "article",
+  "article-newspaper": "article",
+  "paper-conference": "inproceedings",
+  book: "book",
+  chapter: "incollection",
+  report: "techreport",
+  thesis: "phdthesis",
+};
+
+const formatBibtex = (data: CitationData): string => {
+  const type = BIBTEX_TYPES[data.type] || "misc";
+  const container = data["container-title"];
+  const fields: [string, string | undefined][] = [
+    ["author", data.author.length ? formatAuthorList(data.author, "bibtex") : undefined],
+    ["title", data.title || "Untitled"],
+    [type === "article" ? "journal" : "booktitle", type === "article" || type === "inproceedings" || type === "incollection" ? container : undefined],
+    ["year", getIssuedYear(data) !== "n.d." ? getIssuedYear(data) : undefined],
+    ["volume", data.volume],
+    ["number", data.issue],
+    ["pages", data.page ? pageRange(data.page, "--") : undefined],
+    [type === "techreport" ? "institution" : type === "phdthesis" ? "school" : "publisher", data.publisher],
+    ["address", data["publisher-place"]],
+    ["doi", data.DOI],
+    ["isbn", data.ISBN],
+    ["url", data.URL],
+    ["howpublished", type === "misc" ? container : undefined],
+    ["note", type === "misc" && data.URL ? `Accessed: ${accessedDate(data, "mla")}` : undefined],
+  ];
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([key, value]) => `  ${key} = {${value}}`)
+    .join(",\n");
+  return `@${type}{${generateCitationKey(data)},\n${body}\n}`;
+};
+
+// ============================================
+// PART 7: MAIN FORMATTERS
+// ============================================
+
 export const generateCitation = (
   data: CitationData,
-  format: CitationFormat
+  format: CitationStyleId
 ): string => {
-  const { title, author, publishDate, accessDate, url, publisher, websiteName } =
-    data;
-  const authorDisplay = author || "Unknown Author";
-  const titleDisplay = title || "Untitled";
+  if (!isBuiltinFormat(format)) {
+    if (!isCslStyle(format)) return "";
+    return renderCslBibliography(format, [data], { stripLabels: true })[0] || "";
+  }
+
+  const authors = formatAuthorList(data.author || [], format);
+  const title = data.title || "Untitled";
+  const year = getIssuedYear(data);
+  const container = data["container-title"] || "";
+  const { volume, issue, page, publisher, URL: url = "" } = data;
 
   switch (format) {
-    case "apa":
-      return `${authorDisplay}. (${formatDate(publishDate, "year")}). ${titleDisplay}. ${
-        websiteName || publisher || "Website"
-      }. Retrieved ${formatDate(accessDate, "full")}, from ${url}`;
+    case "apa": {
+      const head = `${terminate(authors)} (${year}).`;
+      if (isArticle(data)) {
+        const source = compact(
+          [
+            container,
+            volume && `${volume}${issue ? `(${issue})` : ""}`,
+            !volume && issue && `(${issue})`,
+            page && pageRange(page),
+          ],
+          ", "
+        );
+        return compact([head, terminate(title), source && terminate(source), doiUrl(data)]);
+      }
+      if (data.type === "chapter") {
+        const inBook = `In ${container || "Untitled"}${page ? ` (pp. ${pageRange(page)})` : ""}.`;
+        return compact([head, terminate(title), inBook, publisher && terminate(publisher), data.DOI && doiUrl(data)]);
+      }
+      if (isBook(data)) {
+        return compact([head, terminate(title), publisher && terminate(publisher), data.DOI && doiUrl(data)]);
+      }
+      if (data.type === "motion_picture") {
+        return compact([head, `${title} [Video].`, terminate(siteName(data)), url]);
+      }
+      return `${head} ${title}. ${siteName(data)}. Retrieved ${accessedDate(data, "full")}, from ${url}`;
+    }
 
-    case "mla":
-      return `${authorDisplay}. "${titleDisplay}." ${
-        websiteName || publisher || "Website"
-      }, ${formatDate(publishDate, "mla")}, ${url}. Accessed ${formatDate(accessDate, "mla")}.`;
+    case "mla": {
+      const head = terminate(authors);
+      if (isArticle(data) || data.type === "chapter") {
+        const source = compact(
+          [
+            container,
+            volume && `vol. ${volume}`,
+            issue && `no. ${issue}`,
+            data.type === "chapter" && publisher,
+            year !== "n.d." && year,
+            page && `pp. ${pageRange(page)}`,
+          ],
+          ", "
+        );
+        const link = data.DOI ? `https://doi.org/${data.DOI}` : url;
+        return compact([head, `"${terminate(title)}"`, terminate(compact([source, link], ", "))]);
+      }
+      if (isBook(data)) {
+        return compact([head, terminate(title), terminate(compact([publisher, year], ", "))]);
+      }
+      return `${head} "${terminate(title)}" ${siteName(data)}, ${formatCslDate(data.issued, "mla")}, ${url}. Accessed ${accessedDate(data, "mla")}.`;
+    }
 
-    case "chicago":
-      return `${authorDisplay}. "${titleDisplay}." ${
-        websiteName || publisher || "Website"
-      }. ${formatDate(publishDate, "chicago")}. ${url}.`;
+    case "chicago": {
+      const head = terminate(authors);
+      if (isArticle(data)) {
+        const numbering = compact([volume, issue && `no. ${issue}`], ", ");
+        const source = `${compact([container, numbering])} (${year})${page ? `: ${pageRange(page)}` : ""}`;
+        return compact([head, `"${terminate(title)}"`, terminate(source), data.DOI || url ? terminate(doiUrl(data)) : ""]);
+      }
+      if (data.type === "chapter") {
+        const inBook = terminate(`In ${container || "Untitled"}${page ? `, ${pageRange(page)}` : ""}`);
+        return compact([head, `"${terminate(title)}"`, inBook, terminate(compact([publisher, year], ", "))]);
+      }
+      if (isBook(data)) {
+        const imprint = compact([data["publisher-place"] && `${data["publisher-place"]}:`, publisher]);
+        return compact([head, terminate(title), terminate(compact([imprint, year], ", "))]);
+      }
+      return `${head} "${terminate(title)}" ${siteName(data)}. ${formatCslDate(data.issued, "chicago")}. ${url}.`;
+    }
 
-    case "harvard":
-      return `${authorDisplay} (${formatDate(publishDate, "year")}) ${titleDisplay}. Available at: ${url} (Accessed: ${formatDate(accessDate, "mla")}).`;
+    case "harvard": {
+      const head = `${authors} (${year})`;
+      if (isArticle(data)) {
+        const source = compact(
+          [
+            `'${title}'`,
+            container,
+            volume && `${volume}${issue ? `(${issue})` : ""}`,
+            page && `pp. ${pageRange(page)}`,
+          ],
+          ", "
+        );
+        const link = data.DOI
+          ? `doi: ${data.DOI}.`
+          : url
+            ? `Available at: ${url} (Accessed: ${accessedDate(data, "mla")}).`
+            : "";
+        return compact([head, terminate(source), link]);
+      }
+      if (data.type === "chapter") {
+        return compact([head, `'${title}', in ${terminate(container || "Untitled")}`, terminate(compact([publisher, page && `pp. ${pageRange(page)}`], ", "))]);
+      }
+      if (isBook(data)) {
+        return compact([head, terminate(title), publisher && terminate(publisher)]);
+      }
+      return `${head} ${title}. Available at: ${url} (Accessed: ${accessedDate(data, "mla")}).`;
+    }
 
-    case "ieee":
-      return `${authorDisplay}, "${titleDisplay}," ${
-        websiteName || publisher || "Website"
-      }, ${formatDate(publishDate, "year")}. [Online]. Available: ${url}. [Accessed: ${formatDate(accessDate, "mla")}].`;
-
-    case "bibtex": {
-      const key =
-        titleDisplay.split(" ")[0].toLowerCase() + formatDate(publishDate, "year");
-      return `@misc{${key},
-  author = {${authorDisplay}},
-  title = {${titleDisplay}},
-  year = {${formatDate(publishDate, "year")}},
-  url = {${url}},
-  note = {Accessed: ${formatDate(accessDate, "mla")}}
-}`;
+    case "ieee": {
+      if (isArticle(data)) {
+        const parts = compact(
+          [
+            `${authors}, "${title},"`,
+            compact(
+              [
+                data.type === "paper-conference" ? container && `in ${container}` : container,
+                volume && `vol. ${volume}`,
+                issue && `no. ${issue}`,
+                page && `pp. ${pageRange(page)}`,
+                year,
+              ],
+              ", "
+            ),
+          ]
+        );
+        return data.DOI ? `${parts}, doi: ${data.DOI}.` : terminate(parts);
+      }
+      if (data.type === "chapter") {
+        return terminate(`${authors}, "${title}," in ${container || "Untitled"}. ${compact([publisher, year, page && `pp. ${pageRange(page)}`], ", ")}`);
+      }
+      if (isBook(data)) {
+        const imprint = compact([data["publisher-place"] && `${data["publisher-place"]}:`, publisher]);
+        return terminate(`${authors}, ${title}. ${compact([imprint, year], ", ")}`);
+      }
+      return `${authors}, "${title}," ${siteName(data)}, ${year}. [Online]. Available: ${url}. [Accessed: ${accessedDate(data, "mla")}].`;
     }
 
+    case "bibtex":
+      return formatBibtex(data);
+
     default:
       return "";
   }
@@ -184,30 +567,113 @@ export const extractDomain = (url: string): string => {
   }
 };
 
-/** Returns the parenthetical / in-text citation form for a given format. */
-export const generateInTextCitation = (
-  data: CitationData,
+const inTextAuthors = (data: CitationData, format: CitationFormat): string => {
+  const families = (data.author || []).map(getFamilyName).filter(Boolean);
+  const joiner = format === "apa" ? "&" : "and";
+  if (families.length === 0) return "Unknown";
+  if (families.length === 1) return families[0];
+  if (families.length === 2) return `${families[0]} ${joiner} ${families[1]}`;
+  return `${families[0]} et al.`;
+};
+
+/** "p. 4", "pp. 4–5" or "ch. 2"; MLA and Chicago cite bare page numbers. */
+const formatLocator = (
+  citation: Pick<InTextCitation, "locator" | "label">,
   format: CitationFormat
 ): string => {
-  const lastName = data.author
-    ? data.author.split(",")[0].trim() || data.author.split(" ").pop() || data.author
-    : "Unknown";
-  const year = formatDate(data.publishDate, "year");
-  const title = data.title ? `"${data.title.slice(0, 40)}${data.title.length > 40 ? "…" : ""}"` : "Untitled";
+  const locator = citation.locator?.trim();
+  if (!locator) return "";
+  if (citation.label === "chapter") return `ch. ${locator}`;
+  if (format === "mla" || format === "chicago") return pageRange(locator);
+  return `${/[-–,]/.test(locator) ? "pp." : "p."} ${pageRange(locator)}`;
+};
 
+/** One source inside a parenthetical citation, without the brackets. */
+const inTextEntry = (
+  data: CitationData,
+  format: CitationFormat,
+  locator = ""
+): string => {
+  const names = inTextAuthors(data, format);
+  const year = getIssuedYear(data);
   switch (format) {
-    case "apa":
-    case "harvard":
-      return `(${lastName}, ${year})`;
     case "mla":
-      return `(${lastName})`;
+      return compact([names, locator]);
     case "chicago":
-      return `(${lastName} ${year})`;
+      return compact([`${names} ${year}`, locator], ", ");
+    case "apa":
+    case "harvard":
+    default:
+      return compact([names, year, locator], ", ");
+  }
+};
+
+/** Returns the parenthetical / in-text citation form for a given format. */
+export const generateInTextCitation = (
+  data: CitationData,
+  format: CitationFormat
+): string => {
+  switch (format) {
     case "ieee":
       return `[n]`; // IEEE uses numbered references; placeholder
     case "bibtex":
-      return `\\cite{${lastName.toLowerCase()}${year}}`;
+      return `\\cite{${generateCitationKey(data)}}`;
     default:
-      return `(${lastName}, ${year})`;
+      return `(${inTextEntry(data, format)})`;
+  }
+};
+
+/**
+ * Renders every in-text citation of a document, in document order. Numbered
+ * styles (IEEE, numeric CSL styles) number sources by first citation, so
+ * the whole document is rendered at once and renumbers as citations move.
+ * Sources missing from `itemsById` render as "?".
+ */
+export const renderInTextCitations = (
+  citations: InTextCitation[],
+  itemsById: Map<string, CitationData>,
+  style: CitationStyleId
+): RenderedInTextCitation[] => {
+  if (!isBuiltinFormat(style)) {
+    if (!isCslStyle(style)) {
+      return citations.map(() => ({ text: "(?)", superscript: false }));
+    }
+    const rendered = renderCslCitations(style, Array.from(itemsById.values()), citations);
+    return rendered.map((r) => (r.text ? r : { text: "(?)", superscript: false }));
   }
+
+  const numbers = new Map<string, number>();
+  for (const citation of citations) {
+    for (const id of citation.itemIds) {
+      if (itemsById.has(id) && !numbers.has(id)) numbers.set(id, numbers.size + 1);
+    }
+  }
+
+  return citations.map((citation) => {
+    const known = citation.itemIds.filter((id) => itemsById.has(id));
+    const locator = formatLocator(citation, style);
+
+    if (style === "ieee") {
+      if (known.length === 0) return { text: "[?]", superscript: false };
+      // The locator belongs to the last cited source, wherever it sorts
+      const located = numbers.get(known[known.length - 1]);
+      const refs = known.map((id) => numbers.get(id) as number).sort((a, b) => a - b);
+      return {
+        text: refs.map((n) => (n === located && locator ? `[${n}, ${locator}]` : `[${n}]`)).join(", "),
+        superscript: false,
+      };
+    }
+
+    if (style === "bibtex") {
+      const keys = known.map((id) => generateCitationKey(itemsById.get(id) as CitationData));
+      const opt = locator ? `[${locator.replace(" ", "~")}]` : "";
+      return { text: `\\cite${opt}{${keys.join(",") || "?"}}`, superscript: false };
+    }
+
+    if (known.length === 0) return { text: "(?)", superscript: false };
+    const entries = known.map((id, i) =>
+      inTextEntry(itemsById.get(id) as CitationData, style, i === known.length - 1 ? locator : "")
+    );
+    return { text: `(${entries.join("; ")})`, superscript: false };
+  });
 };
@@ -0,0 +1,284 @@
+// ============================================
+// cslEngine.ts - Citation Style Language (CSL) Rendering
+// ============================================
+// Renders citations and bibliographies from `.csl` style files through
+// citeproc-js. Bundled styles live in ./styles; user-uploaded styles are
+// registered at runtime (see citationStyleService).
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import CSL from "citeproc";
+import type { CslItem } from "../../../types";
+import enUsLocale from "./styles/locales-en-US.xml?raw";
+import vancouverStyle from "./styles/vancouver.csl?raw";
+import acsStyle from "./styles/acs.csl?raw";
+import natureStyle from "./styles/nature.csl?raw";
+import amaStyle from "./styles/ama.csl?raw";
+import chicagoAuthorDateStyle from "./styles/chicago-author-date.csl?raw";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+export interface CslStyle {
+  id: string;
+  name: string;
+  description: string;
+  xml: string;
+  custom?: boolean;
+}
+
+/** One in-text citation: the cited items plus an optional locator. */
+export interface CslCitationCluster {
+  itemIds: string[];
+  locator?: string;
+  label?: "page" | "chapter";
+}
+
+export interface RenderedCslCitation {
+  text: string;
+  superscript: boolean;
+}
+
+export interface CslStyleInfo {
+  title: string;
+  numeric: boolean;
+}
+
+// ============================================
+// PART 3: BUNDLED STYLES
+// ============================================
+
+export const BUNDLED_CSL_STYLES: CslStyle[] = [
+  {
+    id: "vancouver",
+    name: "Vancouver",
+    description: "NLM / ICMJE numbered references",
+    xml: vancouverStyle,
+  },
+  {
+    id: "acs",
+    name: "ACS",
+    description: "American Chemical Society",
+    xml: acsStyle,
+  },
+  {
+    id: "nature",
+    name: "Nature",
+    description: "Nature journals",
+    xml: natureStyle,
+  },
+  {
+    id: "ama",
+    name: "AMA 11th",
+    description: "American Medical Association",
+    xml: amaStyle,
+  },
+  {
+    id: "chicago-author-date",
+    name: "Chicago (author-date)",
+    description: "Chicago Manual of Style, author-date",
+    xml: chicagoAuthorDateStyle,
+  },
+];
+
+const CSL_NAMESPACE = "http://purl.org/net/xbiblio/csl";
+const DEFAULT_LOCALE = "en-US";
+
+// ============================================
+// PART 4: STYLE REGISTRY
+// ============================================
+
+const styleRegistry = new Map<string, CslStyle>(
+  BUNDLED_CSL_STYLES.map((style) => [style.id, style])
+);
+const engineCache = new Map<string, InstanceType<typeof CSL.Engine>>();
+
+// citeproc pulls items through `retrieveItem`; each render fills this store
+const itemStore = new Map<string, CslItem>();
+
+/** Adds (or replaces) runtime styles such as the user's uploaded `.csl` files. */
+export function registerCslStyles(styles: CslStyle[]): void {
+  for (const style of styles) {
+    styleRegistry.set(style.id, style);
+    engineCache.delete(style.id);
+  }
+}
+
+export function unregisterCslStyle(id: string): void {
+  styleRegistry.delete(id);
+  engineCache.delete(id);
+}
+
+export const isCslStyle = (id: string): boolean => styleRegistry.has(id);
+
+export const getCslStyle = (id: string): CslStyle | undefined =>
+  styleRegistry.get(id);
+
+export const listCslStyles = (): CslStyle[] => Array.from(styleRegistry.values());
+
+/**
+ * Validates an uploaded `.csl` file and reads its title. Throws with a
+ * user-facing message when the XML is not a usable CSL style.
+ */
+export function parseCslStyle(xml: string): CslStyleInfo {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.documentElement;
+
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("This file is not valid XML.");
+  }
+  if (root.localName !== "style" || root.namespaceURI !== CSL_NAMESPACE) {
+    throw new Error("This file is not a CSL style.");
+  }
+  if (root.querySelector('link[rel="independent-parent"]')) {
+    throw new Error("Dependent styles are not supported — upload the parent style instead.");
+  }
+  if (root.getElementsByTagNameNS(CSL_NAMESPACE, "bibliography").length === 0) {
+    throw new Error("This style has no bibliography layout.");
+  }
+
+  try {
+    createEngine(xml);
+  } catch (err) {
+    throw new Error(
+      `citeproc could not load this style: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  const title =
+    root.getElementsByTagNameNS(CSL_NAMESPACE, "title")[0]?.textContent?.trim() ||
+    "Untitled style";
+  return { title, numeric: isNumericStyle(xml) };
+}
+
+// ============================================
+// PART 5: ENGINE HELPERS
+// ============================================
+
+function createEngine(xml: string) {
+  const engine = new CSL.Engine(
+    {
+      retrieveLocale: () => enUsLocale,
+      retrieveItem: (id: string) => itemStore.get(id),
+    },
+    xml,
+    DEFAULT_LOCALE,
+    true
+  );
+  engine.setOutputFormat("html");
+  engine.opt.development_extensions.wrap_url_and_doi = false;
+  return engine;
+}
+
+function getEngine(styleId: string) {
+  const cached = engineCache.get(styleId);
+  if (cached) return cached;
+
+  const style = styleRegistry.get(styleId);
+  if (!style) throw new Error(`Unknown citation style: ${styleId}`);
+
+  const engine = createEngine(style.xml);
+  engineCache.set(styleId, engine);
+  return engine;
+}
+
+const isNumericStyle = (xml: string): boolean =>
+  /citation-format="numeric"/.test(xml) || /variable="citation-number"/.test(xml);
+
+/** Loads items into the store, giving each a stable id citeproc can look up. */
+function loadItems(items: CslItem[]): string[] {
+  itemStore.clear();
+  return items.map((item, index) => {
+    const id = item.id || `item-${index + 1}`;
+    itemStore.set(id, { ...item, id });
+    return id;
+  });
+}
+
+/** Plain text of a citeproc HTML fragment, optionally without its number label. */
+function htmlToText(html: string, stripLabel = false): string {
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, "text/html");
+  const container = doc.body.firstElementChild;
+  if (!container) return "";
+  container.querySelectorAll(".csl-left-margin").forEach((el) => {
+    if (stripLabel) el.remove();
+    else el.append(" ");
+  });
+  return (container.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+// ============================================
+// PART 6: RENDERING
+// ============================================
+
+/**
+ * Renders bibliography entries in the style's own order. Numeric styles
+ * number items in the order given, so pass them in first-cited order.
+ */
+export function renderCslBibliography(
+  styleId: string,
+  items: CslItem[],
+  options: { stripLabels?: boolean } = {}
+): string[] {
+  if (items.length === 0) return [];
+  const engine = getEngine(styleId);
+  engine.updateItems(loadItems(items));
+
+  const result = engine.makeBibliography();
+  if (!result) return [];
+  return result[1]
+    .map((entry) => htmlToText(entry, options.stripLabels))
+    .filter(Boolean);
+}
+
+/**
+ * Renders every in-text citation of a document in one pass, so numeric
+ * styles number items by first citation and author-date styles can
+ * disambiguate ("Smith 2020a"). Clusters must be in document order.
+ */
+export function renderCslCitations(
+  styleId: string,
+  items: CslItem[],
+  clusters: CslCitationCluster[]
+): RenderedCslCitation[] {
+  if (clusters.length === 0) return [];
+  const engine = getEngine(styleId);
+  const known = new Set(loadItems(items));
+
+  const citations = clusters.map((cluster, index) => ({
+    citationID: `citation-${index}`,
+    citationItems: cluster.itemIds
+      .filter((id) => known.has(id))
+      .map((id, i, ids) => ({
+        id,
+        ...(cluster.locator && i === ids.length - 1
+          ? { locator: cluster.locator, label: cluster.label || "page" }
+          : {}),
+      })),
+    properties: { noteIndex: 0 },
+  }));
+
+  const rendered = new Map(
+    engine
+      .rebuildProcessorState(
+        citations.filter((c) => c.citationItems.length > 0),
+        "html",
+        []
+      )
+      .map(([citationId, , html]) => [citationId, html])
+  );
+
+  return citations.map((c) => {
+    const html = rendered.get(c.citationID) || "";
+    return { text: htmlToText(html), superscript: /^<sup>/.test(html.trim()) };
+  });
+}
+
+// ============================================
+// PART 7: EXPORTS
+// ============================================
+
+// Named exports above — no default export needed.
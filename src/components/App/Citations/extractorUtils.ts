@@ -14,6 +14,7 @@ import {
   Youtube,
   HelpCircle,
 } from "lucide-react";
+import type { CslItem } from "../../../types";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -44,6 +45,7 @@ export interface ExtractedMetadata {
   channelTitle?: string;
   duration?: string;
   debugLogs?: string[];
+  csl?: CslItem; // Structured record returned by /api/cite and /api/extract-citation
 }
 
 // ============================================
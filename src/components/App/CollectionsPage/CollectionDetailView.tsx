@@ -8,13 +8,14 @@
 
 import React from "react";
 import { Link } from "react-router-dom";
-import { ChevronLeft, FolderOpen, Plus, X, Check } from "lucide-react";
+import { ChevronLeft, FolderOpen, Plus, X, Check, Download, SlidersHorizontal, Sparkles } from "lucide-react";
 import { Collection as CollectionType } from "../../../services/collectionsService";
 import { StorageItem } from "../../../services/storageService";
 import { Button, Card } from "../../shared/ui";
 import BulkActions from "../../shared/BulkActions";
 import { SkeletonDashboardGrid } from "../../shared/SkeletonLoader";
 import AddItemsModal from "./AddItemsModal";
+import type { ItemExportFormat } from "../../../utils/export";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -46,8 +47,19 @@ interface CollectionDetailViewProps {
   onSearchChange: (value: string) => void;
   onToggleAvailableItem: (id: string) => void;
   onAddSelectedItems: () => void;
+  onExport: (format: ItemExportFormat, scope: "all" | "selected") => void;
+  onCustomExport: () => void;
+  // Literature review
+  isSynthesizing: boolean;
+  onSynthesize: () => void;
 }
 
+const REFERENCE_EXPORTS: { format: ItemExportFormat; label: string }[] = [
+  { format: "bibtex", label: "BibTeX (.bib)" },
+  { format: "ris", label: "RIS (.ris)" },
+  { format: "csl-json", label: "CSL-JSON" },
+];
+
 // ============================================
 // PART 3: COMPONENT
 // ============================================
@@ -76,6 +88,10 @@ const CollectionDetailView: React.FC<CollectionDetailViewProps> = ({
   onSearchChange,
   onToggleAvailableItem,
   onAddSelectedItems,
+  onExport,
+  onCustomExport,
+  isSynthesizing,
+  onSynthesize,
 }) => {
   return (
     <div className="space-y-6">
@@ -101,7 +117,42 @@ const CollectionDetailView: React.FC<CollectionDetailViewProps> = ({
             {collection.description || "No description"}
           </p>
         </div>
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center gap-2">
+          {items.length > 0 && (
+            <div className="relative group">
+              <Button variant="outline" aria-label="Export collection">
+                <Download className="w-4 h-4 mr-2" /> Export
+              </Button>
+              <div className="absolute top-full right-0 mt-2 w-44 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-100 dark:border-gray-700 overflow-hidden opacity-0 invisible group-hover:opacity-100 group-hover:visible group-focus-within:opacity-100 group-focus-within:visible transition-all z-50">
+                {REFERENCE_EXPORTS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => onExport(format, "all")}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    {label}
+                  </button>
+                ))}
+                <button
+                  onClick={onCustomExport}
+                  className="w-full flex items-center gap-2 text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 border-t border-gray-100 dark:border-gray-700"
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5" /> Custom…
+                </button>
+              </div>
+            </div>
+          )}
+          {items.length >= 2 && (
+            <Button
+              variant="outline"
+              onClick={onSynthesize}
+              isLoading={isSynthesizing}
+              title="Write a cited literature review of this collection (1 credit)"
+            >
+              {!isSynthesizing && <Sparkles className="w-4 h-4 mr-2" />}
+              {isSynthesizing ? "Synthesizing…" : "Synthesize collection"}
+            </Button>
+          )}
           <Button onClick={onOpenAddModal}>
             <Plus className="w-4 h-4 mr-2" /> Add Items
           </Button>
@@ -198,6 +249,7 @@ const CollectionDetailView: React.FC<CollectionDetailViewProps> = ({
         onDeselectAll={onDeselectAll}
         onBulkRemoveFromCollection={onBulkRemove}
         onBulkDelete={onBulkDelete}
+        onBulkExport={(format) => onExport(format, "selected")}
         isDeleting={isBulkDeleting}
       />
 
@@ -7,6 +7,7 @@
 // ============================================
 
 import React, { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   getAllCollections,
   createCollection,
@@ -22,8 +23,13 @@ import {
   getAllItems,
   deleteItem,
 } from "../../../services/storageService";
+import { exportItems, ItemExportFormat } from "../../../utils/export";
+import { synthesizeCollection, SynthesisSource } from "../../../services/geminiService";
+import { createDocument, updateDocument } from "../../../services/documentService";
+import { buildLiteratureReviewDocument } from "../DocumentEditor/literatureReview";
 import { Button } from "../../shared/ui";
 import ConfirmDialog from "../../shared/ConfirmDialog";
+import ExportDialog from "../../shared/ExportDialog";
 import { SkeletonCollection } from "../../shared/SkeletonLoader";
 import { FolderPlus } from "lucide-react";
 import CollectionCard from "./CollectionCard";
@@ -45,6 +51,17 @@ interface CollectionsPageProps {
 // ============================================
 
 const DEFAULT_COLOR = "#4F46E5";
+const REVIEW_CITATION_STYLE = "apa";
+const MAX_SOURCE_TEXT = 6000;
+
+const toSynthesisSource = (item: StorageItem): SynthesisSource => ({
+  id: item.id,
+  title: item.sourceTitle || "Untitled",
+  citation: item.citation || undefined,
+  summary: item.aiSummary || undefined,
+  notes: item.note || undefined,
+  text: (item.text || item.ocrText || "").slice(0, MAX_SOURCE_TEXT) || undefined,
+});
 
 // ============================================
 // PART 4: MAIN COMPONENT
@@ -81,6 +98,8 @@ const CollectionsPage: React.FC<CollectionsPageProps> = ({ useToast }) => {
   const [searchQuery, setSearchQuery] = useState("");
   const [isBulkRemoving, setIsBulkRemoving] = useState(false);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
 
   // Confirm delete dialog
   const [confirmDialog, setConfirmDialog] = useState<{
@@ -95,6 +114,7 @@ const CollectionsPage: React.FC<CollectionsPageProps> = ({ useToast }) => {
   const [formColor, setFormColor] = useState(DEFAULT_COLOR);
 
   const { showToast } = useToast();
+  const navigate = useNavigate();
 
   // ---------- PART 4B: EFFECTS ----------
 
@@ -173,6 +193,58 @@ const CollectionsPage: React.FC<CollectionsPageProps> = ({ useToast }) => {
     }
   };
 
+  // Exports the whole collection, or only the selection
+  const handleExport = async (format: ItemExportFormat, scope: "all" | "selected") => {
+    if (!viewingCollection) return;
+    const itemsToExport =
+      scope === "selected"
+        ? collectionItems.filter((i) => selectedItems.has(i.id))
+        : collectionItems;
+    const slug = viewingCollection.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    const extension = { bibtex: "bib", "csl-json": "csl.json" }[format as string] || format;
+    try {
+      await exportItems(itemsToExport, format, `${slug || "collection"}.${extension}`);
+      showToast(`Exported ${itemsToExport.length} items to ${format.toUpperCase()}`, "success");
+    } catch (error) {
+      showToast(`Export failed: ${(error as Error).message}`, "error");
+    }
+  };
+
+  // Writes a cited literature review of the collection and opens it in the editor
+  const handleSynthesize = async () => {
+    if (!viewingCollection || collectionItems.length < 2 || isSynthesizing) return;
+    setIsSynthesizing(true);
+    try {
+      const result = await synthesizeCollection(
+        collectionItems.map(toSynthesisSource),
+        viewingCollection.name,
+      );
+      if (!result.ok) {
+        showToast(
+          result.reason === "no_credits"
+            ? "Out of AI credits. Add your own API key in Settings to keep going."
+            : `Synthesis failed: ${result.error || "please try again"}`,
+          "error",
+        );
+        return;
+      }
+
+      const { title, content } = buildLiteratureReviewDocument(
+        result.review,
+        collectionItems,
+        REVIEW_CITATION_STYLE,
+      );
+      const doc = await createDocument(title || `${viewingCollection.name}: Literature Review`);
+      await updateDocument(doc.id, { content, citationStyle: REVIEW_CITATION_STYLE });
+      showToast("Literature review created", "success");
+      navigate(`/app/editor?doc=${doc.id}`);
+    } catch (error) {
+      showToast(`Synthesis failed: ${(error as Error).message}`, "error");
+    } finally {
+      setIsSynthesizing(false);
+    }
+  };
+
   // ---------- PART 4E: ADD ITEMS HANDLERS ----------
 
   const openAddModal = async () => {
@@ -322,34 +394,46 @@ const CollectionsPage: React.FC<CollectionsPageProps> = ({ useToast }) => {
   // Detail view
   if (viewingCollection) {
     return (
-      <CollectionDetailView
-        collection={viewingCollection}
-        items={collectionItems}
-        loadingItems={loadingItems}
-        removingItemId={removingItemId}
-        selectedItems={selectedItems}
-        isBulkRemoving={isBulkRemoving}
-        isBulkDeleting={isBulkDeleting}
-        showAddModal={showAddModal}
-        availableItems={availableItems}
-        selectedAvailableItems={selectedAvailableItems}
-        searchQuery={searchQuery}
-        onBack={() => {
-          setViewingCollection(null);
-          setSelectedItems(new Set());
-        }}
-        onOpenAddModal={openAddModal}
-        onToggleItemSelection={toggleItemSelection}
-        onRemoveItem={handleRemoveItem}
-        onSelectAll={selectAllItems}
-        onDeselectAll={deselectAllItems}
-        onBulkRemove={handleBulkRemove}
-        onBulkDelete={handleBulkDelete}
-        onCloseAddModal={() => setShowAddModal(false)}
-        onSearchChange={setSearchQuery}
-        onToggleAvailableItem={toggleAvailableItemSelection}
-        onAddSelectedItems={handleAddSelectedItems}
-      />
+      <>
+        <CollectionDetailView
+          collection={viewingCollection}
+          items={collectionItems}
+          loadingItems={loadingItems}
+          removingItemId={removingItemId}
+          selectedItems={selectedItems}
+          isBulkRemoving={isBulkRemoving}
+          isBulkDeleting={isBulkDeleting}
+          showAddModal={showAddModal}
+          availableItems={availableItems}
+          selectedAvailableItems={selectedAvailableItems}
+          searchQuery={searchQuery}
+          onBack={() => {
+            setViewingCollection(null);
+            setSelectedItems(new Set());
+          }}
+          onOpenAddModal={openAddModal}
+          onToggleItemSelection={toggleItemSelection}
+          onRemoveItem={handleRemoveItem}
+          onSelectAll={selectAllItems}
+          onDeselectAll={deselectAllItems}
+          onBulkRemove={handleBulkRemove}
+          onBulkDelete={handleBulkDelete}
+          onExport={handleExport}
+          onCustomExport={() => setShowExportDialog(true)}
+          isSynthesizing={isSynthesizing}
+          onSynthesize={handleSynthesize}
+          onCloseAddModal={() => setShowAddModal(false)}
+          onSearchChange={setSearchQuery}
+          onToggleAvailableItem={toggleAvailableItemSelection}
+          onAddSelectedItems={handleAddSelectedItems}
+        />
+        <ExportDialog
+          isOpen={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          showToast={showToast}
+          items={collectionItems}
+        />
+      </>
     );
   }
 
@@ -31,15 +31,19 @@ import BulkActions from "../../shared/BulkActions";
 import AdvancedSearchFilter from "../../shared/AdvancedSearchFilter";
 import SmartPenScanModal from "../SmartPenScanModal";
 import ConfirmDialog from "../../shared/ConfirmDialog";
+import ExportDialog from "../../shared/ExportDialog";
 
 import { useDashboardData } from "./useDashboardData";
 import { useDashboardActions } from "./useDashboardActions";
 import DashboardHeader from "./DashboardHeader";
-import DashboardToolbar from "./DashboardToolbar";
+import SearchAndFilters from "./SearchAndFilters";
 import DashboardStatsBar from "./DashboardStatsBar";
 import ItemGridCard from "./ItemGridCard";
 import ItemListRow from "./ItemListRow";
 import ItemDetailModal from "./ItemDetailModal";
+import ReferenceImportModal from "./ReferenceImportModal";
+import EvidenceMatrixModal from "./EvidenceMatrixModal";
+import { apiFetch } from "../../../services/rateLimitService";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -75,11 +79,14 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
     setConfirmDialog: data.setConfirmDialog,
     isSummarizingItem: data.isSummarizingItem,
     setIsSummarizingItem: data.setIsSummarizingItem,
+    isExtractingInsights: data.isExtractingInsights,
+    setIsExtractingInsights: data.setIsExtractingInsights,
     showCollectionModal: data.showCollectionModal,
     setShowCollectionModal: data.setShowCollectionModal,
     collectionActionType: data.collectionActionType,
     setCollectionActionType: data.setCollectionActionType,
     setIsImporting: data.setIsImporting,
+    setReferenceImportFiles: data.setReferenceImportFiles,
     showToast,
     filteredItems: data.filteredItems,
   });
@@ -142,17 +149,22 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
         }}
         onShowShortcuts={() => data.setShowKeyboardShortcuts(true)}
         onImport={actions.handleImport}
+        onExport={() => data.setShowExportMenu(true)}
       />
 
       {/* ========== SEARCH & FILTERS ========== */}
-      <DashboardToolbar
+      <SearchAndFilters
         searchQuery={data.searchQuery}
-        onSearchChange={data.setSearchQuery}
+        setSearchQuery={data.setSearchQuery}
         searchInputRef={data.searchInputRef}
-        viewMode={data.viewMode}
-        onViewModeChange={data.setViewMode}
+        semanticSearch={data.semanticSearch}
+        setSemanticSearch={data.setSemanticSearch}
+        isSemanticSearching={data.isSemanticSearching}
+        showAdvancedFilters={data.showAdvancedFilters}
+        setShowAdvancedFilters={data.setShowAdvancedFilters}
         advancedFilters={data.advancedFilters}
-        onShowAdvancedFilters={() => data.setShowAdvancedFilters(true)}
+        viewMode={data.viewMode}
+        setViewMode={data.setViewMode}
       />
 
       {/* ========== STATS BAR ========== */}
@@ -249,6 +261,7 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
               key={item.id}
               item={item}
               index={idx}
+              score={data.searchScores.get(item.id)}
               isSelected={data.selectedItems.has(item.id)}
               hasAnySelection={data.selectedItems.size > 0}
               onSelect={actions.toggleItemSelection}
@@ -264,6 +277,7 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
             <ItemListRow
               key={item.id}
               item={item}
+              score={data.searchScores.get(item.id)}
               isSelected={data.selectedItems.has(item.id)}
               hasAnySelection={data.selectedItems.size > 0}
               onSelect={actions.toggleItemSelection}
@@ -319,7 +333,10 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
         item={data.selectedItem}
         isSummarizingItem={data.isSummarizingItem}
         onGenerateSummary={actions.handleGenerateSummary}
+        isExtractingInsights={data.isExtractingInsights}
+        onExtractInsights={actions.handleExtractInsights}
         onColorChange={actions.handleColorChange}
+        onSaveNote={actions.handleSaveNote}
         onCopyMarkdown={actions.handleCopyMarkdown}
         onCopyText={(text) => {
           navigator.clipboard.writeText(text);
@@ -331,6 +348,7 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
           data.setShowCollectionModal(true);
         }}
         onDelete={actions.handleDeleteItem}
+        onOpenItem={handleItemClick}
       />
 
       {/* ========== SMART PEN SCAN MODAL ========== */}
@@ -356,7 +374,7 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
         onRunOCR={async (scan) => {
           if (!scan.imageUrl) return;
           try {
-            const response = await fetch("/api/ocr", {
+            const response = await apiFetch("/api/ocr", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -413,6 +431,21 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
         isLoading={data.confirmDialog.isDeleting}
       />
 
+      {/* Filtered Export */}
+      <ExportDialog
+        isOpen={data.showExportMenu}
+        onClose={() => data.setShowExportMenu(false)}
+        showToast={showToast}
+      />
+
+      {/* Reference Import Preview (BibTeX / RIS / CSL-JSON) */}
+      <ReferenceImportModal
+        files={data.referenceImportFiles}
+        onClose={() => data.setReferenceImportFiles(null)}
+        onImported={() => data.fetchItems()}
+        showToast={showToast}
+      />
+
       {/* Bulk Actions Bar */}
       <BulkActions
         selectedCount={data.selectedItems.size}
@@ -425,9 +458,22 @@ const Dashboard: React.FC<DashboardProps> = ({ useToast }) => {
           data.setCollectionActionType("bulk");
           data.setShowCollectionModal(true);
         }}
+        onOpenEvidenceMatrix={() => data.setShowEvidenceMatrix(true)}
         isDeleting={data.isBulkDeleting}
       />
 
+      {/* Evidence Matrix Modal */}
+      <EvidenceMatrixModal
+        isOpen={data.showEvidenceMatrix}
+        onClose={() => data.setShowEvidenceMatrix(false)}
+        items={data.filteredItems.filter((item) => data.selectedItems.has(item.id))}
+        onItemUpdated={(updated) => {
+          data.setItems((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
+          if (data.selectedItem?.id === updated.id) data.setSelectedItem(updated);
+        }}
+        showToast={showToast}
+      />
+
       {/* Select Collection Modal */}
       <Modal
         isOpen={data.showCollectionModal}
@@ -11,6 +11,7 @@ import {
   RefreshCw,
   Plus,
   HelpCircle,
+  Download,
   Wifi,
   WifiOff,
 } from "lucide-react";
@@ -28,6 +29,7 @@ interface DashboardHeaderProps {
   onRefresh: () => void;
   onShowShortcuts: () => void;
   onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onExport: () => void;
 }
 
 // ============================================
@@ -43,6 +45,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
   onRefresh,
   onShowShortcuts,
   onImport,
+  onExport,
 }) => {
   return (
     <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
@@ -87,6 +90,13 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
         >
           <RefreshCw className={`w-5 h-5 ${loading ? "animate-spin" : ""}`} />
         </button>
+        <button
+          onClick={onExport}
+          className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-xl transition-all active:scale-95"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
         <button
           onClick={() => importFileRef.current?.click()}
           disabled={isImporting}
@@ -102,7 +112,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
         <input
           ref={importFileRef}
           type="file"
-          accept=".json,.pdf,image/*"
+          accept=".json,.pdf,.bib,.ris,image/*"
           multiple
           className="hidden"
           onChange={onImport}
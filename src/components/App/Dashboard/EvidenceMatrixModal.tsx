@@ -0,0 +1,458 @@
+// ============================================
+// EvidenceMatrixModal.tsx - Compare extracted fields across selected items
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { FileDown, FilePlus, Plus, Sparkles, X } from "lucide-react";
+import { Button, Modal, Select } from "../../shared/ui";
+import { StorageItem, updateItem } from "../../../services/storageService";
+import { extractFieldValues, extractInsights } from "../../../services/geminiService";
+import {
+  Document,
+  createDocument,
+  getDocument,
+  getDocuments,
+  updateDocument,
+} from "../../../services/documentService";
+import { STUDY_DESIGNS } from "../../../types";
+import { exportTableToCSV } from "../../../utils/export";
+import { insertBeforeBibliography } from "../DocumentEditor/bibliographyUtils";
+import {
+  BUILTIN_COLUMNS,
+  DEFAULT_COLUMN_IDS,
+  MatrixColumn,
+  applyCellEdit,
+  customColumn,
+  getCellValue,
+  isCellMissing,
+  matrixToRows,
+  matrixToTableNodes,
+} from "./evidenceMatrix";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS & CONSTANTS
+// ============================================
+
+interface EvidenceMatrixModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Rows of the matrix, in display order. */
+  items: StorageItem[];
+  /** Called with each item whose insights were extracted or corrected. */
+  onItemUpdated: (item: StorageItem) => void;
+  showToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+const COLUMNS_STORAGE_KEY = "researchmate_matrix_columns";
+const NEW_DOCUMENT = "";
+
+const DESIGN_OPTIONS = Object.entries(STUDY_DESIGNS).map(([value, label]) => ({ value, label }));
+
+// ============================================
+// PART 3: HELPERS
+// ============================================
+
+const resolveColumn = (id: string): MatrixColumn | undefined =>
+  id.startsWith("custom:")
+    ? customColumn(id.slice("custom:".length))
+    : BUILTIN_COLUMNS.find((c) => c.id === id);
+
+const loadColumnIds = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || "null");
+    if (Array.isArray(saved) && saved.every((id) => typeof id === "string")) return saved;
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_COLUMN_IDS;
+};
+
+const itemText = (item: StorageItem) => item.text || item.ocrText || "";
+
+// ============================================
+// PART 4: MAIN COMPONENT
+// ============================================
+
+const EvidenceMatrixModal: React.FC<EvidenceMatrixModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  onItemUpdated,
+  showToast,
+}) => {
+  const navigate = useNavigate();
+  const [columnIds, setColumnIds] = useState<string[]>(loadColumnIds);
+  const [newColumn, setNewColumn] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [editing, setEditing] = useState<{ itemId: string; columnId: string; value: string } | null>(
+    null,
+  );
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [targetDocId, setTargetDocId] = useState(NEW_DOCUMENT);
+  const [isInserting, setIsInserting] = useState(false);
+
+  const columns = useMemo(
+    () => columnIds.map(resolveColumn).filter((c): c is MatrixColumn => !!c),
+    [columnIds],
+  );
+  const missingCount = items.filter((item) => columns.some((c) => isCellMissing(item, c))).length;
+
+  useEffect(() => {
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columnIds));
+  }, [columnIds]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEditing(null);
+    getDocuments()
+      .then(setDocuments)
+      .catch(() => setDocuments([]));
+  }, [isOpen]);
+
+  // ---------- PART 4A: COLUMNS ----------
+
+  const toggleColumn = (id: string) => {
+    setColumnIds((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+  };
+
+  const addCustomColumn = () => {
+    const label = newColumn.trim().slice(0, 80);
+    if (!label) return;
+    const id = customColumn(label).id;
+    setColumnIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+    setNewColumn("");
+  };
+
+  // ---------- PART 4B: AI EXTRACTION ----------
+
+  /**
+   * Fills every missing cell: items without insights are extracted first,
+   * then custom columns the item has no value for. One request at a time,
+   * stopping when the user runs out of credits.
+   */
+  const handleExtractMissing = async () => {
+    const pending = items.filter((item) => columns.some((c) => isCellMissing(item, c)));
+    if (pending.length === 0) return;
+    setProgress({ done: 0, total: pending.length });
+
+    let failed = 0;
+    try {
+      for (const [index, item] of pending.entries()) {
+        const text = itemText(item);
+        if (!text) {
+          failed++;
+          setProgress({ done: index + 1, total: pending.length });
+          continue;
+        }
+
+        let insights = item.insights ?? null;
+        if (!insights) {
+          const isLocal = item.id.startsWith("local_");
+          const result = await extractInsights(text, isLocal ? undefined : item.id);
+          if (result.reason === "no_credits") {
+            showToast("Out of AI credits. Add your own API key in Settings to keep going.", "error");
+            return;
+          }
+          if (!result.ok || !result.insights) {
+            failed++;
+            setProgress({ done: index + 1, total: pending.length });
+            continue;
+          }
+          insights = result.insights;
+        }
+
+        const labels = columns
+          .filter((c) => c.source === "custom" && !(c.label in (insights?.customFields || {})))
+          .map((c) => c.label);
+        if (labels.length > 0) {
+          const result = await extractFieldValues(text, labels);
+          if (result.reason === "no_credits") {
+            showToast("Out of AI credits. Add your own API key in Settings to keep going.", "error");
+            return;
+          }
+          if (result.ok) {
+            insights = { ...insights, customFields: { ...insights.customFields, ...result.values } };
+          } else {
+            failed++;
+          }
+        }
+
+        await updateItem(item.id, { insights });
+        onItemUpdated({ ...item, insights });
+        setProgress({ done: index + 1, total: pending.length });
+      }
+
+      showToast(
+        failed > 0 ? `Extraction finished; ${failed} item(s) could not be read` : "Matrix filled in",
+        failed > 0 ? "info" : "success",
+      );
+    } catch (error) {
+      showToast(`Extraction failed: ${(error as Error).message}`, "error");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // ---------- PART 4C: CELL EDITS ----------
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const { itemId, columnId, value } = editing;
+    setEditing(null);
+
+    const item = items.find((i) => i.id === itemId);
+    const column = resolveColumn(columnId);
+    if (!item?.insights || !column) return;
+
+    const insights = applyCellEdit(item.insights, column, value);
+    try {
+      await updateItem(item.id, { insights });
+      onItemUpdated({ ...item, insights });
+    } catch (error) {
+      showToast("Failed to save the correction", "error");
+    }
+  };
+
+  // ---------- PART 4D: EXPORT & INSERT ----------
+
+  const handleExportCSV = () => {
+    const { headers, rows } = matrixToRows(items, columns);
+    exportTableToCSV(headers, rows, "evidence-matrix.csv");
+  };
+
+  const handleInsert = async () => {
+    setIsInserting(true);
+    try {
+      const doc =
+        targetDocId === NEW_DOCUMENT
+          ? await createDocument("Evidence Matrix")
+          : await getDocument(targetDocId);
+      if (!doc) throw new Error("Document not found");
+
+      const nodes = matrixToTableNodes(items, columns, doc.citationStyle);
+      await updateDocument(doc.id, { content: insertBeforeBibliography(doc.content, nodes) });
+      showToast("Evidence matrix added to the document", "success");
+      onClose();
+      navigate(`/app/editor?doc=${doc.id}`);
+    } catch (error) {
+      showToast(`Could not insert the matrix: ${(error as Error).message}`, "error");
+    } finally {
+      setIsInserting(false);
+    }
+  };
+
+  // ---------- PART 4E: RENDER ----------
+
+  const renderCell = (item: StorageItem, column: MatrixColumn) => {
+    const isEditing = editing?.itemId === item.id && editing.columnId === column.id;
+    const value = getCellValue(item, column);
+    const editable = column.source !== "metadata" && !!item.insights;
+
+    if (isEditing && column.id === "studyDesign") {
+      return (
+        <select
+          autoFocus
+          value={editing.value}
+          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+          onBlur={saveEdit}
+          className="w-full text-sm bg-white dark:bg-gray-800 border border-indigo-300 dark:border-indigo-700 rounded-lg px-2 py-1"
+        >
+          {DESIGN_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    if (isEditing) {
+      return (
+        <textarea
+          autoFocus
+          value={editing.value}
+          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+          onBlur={saveEdit}
+          onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+          rows={Math.max(2, editing.value.split("\n").length)}
+          className="w-full min-w-[10rem] text-sm bg-white dark:bg-gray-800 border border-indigo-300 dark:border-indigo-700 rounded-lg px-2 py-1 resize-y"
+        />
+      );
+    }
+
+    return (
+      <button
+        onClick={() =>
+          editable &&
+          setEditing({
+            itemId: item.id,
+            columnId: column.id,
+            value: column.id === "studyDesign" ? item.insights!.studyDesign : value,
+          })
+        }
+        disabled={!editable}
+        className={`w-full text-left text-sm whitespace-pre-line rounded-lg px-2 py-1 ${
+          editable ? "hover:bg-indigo-50 dark:hover:bg-indigo-900/20 cursor-text" : "cursor-default"
+        }`}
+        title={editable ? "Click to correct" : undefined}
+      >
+        {value ||
+          (isCellMissing(item, column) ? (
+            <span className="text-gray-300 dark:text-gray-600">—</span>
+          ) : (
+            <span className="text-gray-400 italic">Not stated</span>
+          ))}
+      </button>
+    );
+  };
+
+  const customColumnIds = columnIds.filter((id) => id.startsWith("custom:"));
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={() => !progress && !isInserting && onClose()}
+      title={`Evidence Matrix · ${items.length} item${items.length === 1 ? "" : "s"}`}
+      size="full"
+    >
+      <div className="space-y-4">
+        {/* Column picker */}
+        <div className="flex flex-wrap items-center gap-2">
+          {BUILTIN_COLUMNS.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => toggleColumn(c.id)}
+              className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+                columnIds.includes(c.id)
+                  ? "bg-indigo-500 border-indigo-500 text-white"
+                  : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-indigo-300"
+              }`}
+            >
+              {c.label}
+            </button>
+          ))}
+          {customColumnIds.map((id) => (
+            <span
+              key={id}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 text-xs font-medium rounded-full bg-purple-500 text-white"
+            >
+              {resolveColumn(id)?.label}
+              <button onClick={() => toggleColumn(id)} aria-label="Remove column" className="p-0.5 rounded-full hover:bg-white/20">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              addCustomColumn();
+            }}
+            className="flex items-center gap-1"
+          >
+            <input
+              value={newColumn}
+              onChange={(e) => setNewColumn(e.target.value)}
+              placeholder="Custom field, e.g. Country"
+              className="px-3 py-1 text-xs rounded-full border border-gray-200 dark:border-gray-700 bg-transparent text-gray-700 dark:text-gray-200 w-48"
+            />
+            <button
+              type="submit"
+              disabled={!newColumn.trim()}
+              className="p-1.5 rounded-full text-purple-600 hover:bg-purple-50 dark:hover:bg-purple-900/20 disabled:opacity-40"
+              aria-label="Add column"
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </form>
+        </div>
+
+        {/* Table */}
+        <div className="overflow-auto max-h-[60vh] border border-gray-100 dark:border-gray-800 rounded-xl">
+          <table className="w-full border-collapse">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900 z-10">
+              <tr>
+                <th className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider px-3 py-2 min-w-[14rem]">
+                  Study
+                </th>
+                {columns.map((c) => (
+                  <th
+                    key={c.id}
+                    className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider px-3 py-2 min-w-[10rem]"
+                  >
+                    {c.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id} className="border-t border-gray-100 dark:border-gray-800 align-top">
+                  <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                    {item.sourceTitle || "Untitled"}
+                  </td>
+                  {columns.map((c) => (
+                    <td key={c.id} className="px-1 py-1 text-gray-700 dark:text-gray-300">
+                      {renderCell(item, c)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-col lg:flex-row lg:items-end gap-3 pt-2 border-t border-gray-100 dark:border-gray-700">
+          <div className="flex items-center gap-2 flex-1">
+            <Button
+              variant="outline"
+              onClick={handleExtractMissing}
+              isLoading={!!progress}
+              disabled={missingCount === 0 || columns.length === 0}
+              title="Uses 1 AI credit per request"
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              {progress
+                ? `Extracting ${progress.done}/${progress.total}…`
+                : `Extract missing (${missingCount})`}
+            </Button>
+            <Button variant="ghost" onClick={handleExportCSV} disabled={columns.length === 0}>
+              <FileDown className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+          <div className="flex items-end gap-2">
+            <Select
+              label="Insert into"
+              options={[
+                { value: NEW_DOCUMENT, label: "New document" },
+                ...documents.map((d) => ({ value: d.id, label: d.title })),
+              ]}
+              value={targetDocId}
+              onChange={setTargetDocId}
+              className="w-64"
+            />
+            <Button
+              onClick={handleInsert}
+              isLoading={isInserting}
+              disabled={columns.length === 0 || !!progress}
+            >
+              <FilePlus className="w-4 h-4 mr-2" />
+              Insert table
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default EvidenceMatrixModal;
@@ -24,11 +24,16 @@ import {
   Clock, 
   FileCode,
   CornerDownLeft,
-  ChevronRight
+  ChevronRight,
+  NotebookPen,
+  Square
 } from "lucide-react";
 import { TrashIcon, CopyIcon, ExternalLinkIcon } from "../../icons";
 import { StorageItem } from "../../../services/storageService";
 import { isMarkdown } from "./dashboardUtils";
+import RelatedItemsPanel from "./RelatedItemsPanel";
+import ItemInsightsCard from "./ItemInsightsCard";
+import useItemChat, { ITEM_QUICK_ACTIONS } from "./useItemChat";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -42,32 +47,23 @@ interface ItemDetailModalProps {
   item: StorageItem | null;
   isSummarizingItem: boolean;
   onGenerateSummary: (item: StorageItem) => void;
+  isExtractingInsights: boolean;
+  /** Extracts structured insights (question, methods, sample, findings…) and saves them on the item. */
+  onExtractInsights: (item: StorageItem) => void;
   onColorChange: (item: StorageItem, color: string) => void;
   onCopyMarkdown: (item: StorageItem) => void;
   onCopyText: (text: string) => void;
   onShare: (item: StorageItem) => void;
   onAddToCollection: () => void;
   onDelete: (id: string) => void;
+  /** Replaces the item's notes; quick actions in the chat save their output here. */
+  onSaveNote: (item: StorageItem, note: string) => Promise<void>;
+  /** Opens another item, e.g. from the Related Items panel. */
+  onOpenItem?: (item: StorageItem) => void;
 }
 
 // ============================================
-// PART 3: HELPERS
-// ============================================
-
-const stripMarkdown = (text: string) =>
-  text
-    .replace(/^#{1,6} /gm, "")
-    .replace(/\*\*(.*?)\*\*/g, "$1")
-    .replace(/\*(.*?)\*/g, "$1")
-    .replace(/`(.*?)`/g, "$1")
-    .replace(/\|.*\|/g, "")
-    .replace(/^[-*+] /gm, "")
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
-    .replace(/^\s*[-]{3,}\s*$/gm, "")
-    .trim();
-
-// ============================================
-// PART 4: COMPONENT
+// PART 3: COMPONENT
 // ============================================
 
 const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
@@ -76,25 +72,29 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
   item,
   isSummarizingItem,
   onGenerateSummary,
+  isExtractingInsights,
+  onExtractInsights,
   onColorChange,
   onCopyMarkdown,
   onCopyText,
   onShare,
   onAddToCollection,
   onDelete,
+  onSaveNote,
+  onOpenItem,
 }) => {
   const [activeLeftTab, setActiveLeftTab] = useState<"preview" | "raw">("preview");
   const [chatInput, setChatInput] = useState("");
   const [copiedField, setCopiedField] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Array<{ sender: "user" | "ai"; text: string }>>([]);
+  const { messages, isLoadingHistory, isReplying, sendMessage, runQuickAction, stop } =
+    useItemChat({ item, onSaveNote });
 
   const displayText = item ? (item.text || item.ocrText || "") : "";
 
-  // Reset custom messages when the item changes
+  // Reset the draft question when the item changes
   useEffect(() => {
-    setMessages([]);
     setChatInput("");
-  }, [item]);
+  }, [item?.id]);
 
   // Handle escape key to close workspace
   useEffect(() => {
@@ -115,33 +115,10 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
 
   const handleSendMessage = (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!chatInput.trim() || !item) return;
+    if (!chatInput.trim() || !item || isReplying) return;
 
-    const userMsg = chatInput;
-    setMessages((prev) => [...prev, { sender: "user", text: userMsg }]);
+    sendMessage(chatInput);
     setChatInput("");
-
-    // Simulated premium context-aware AI Assistant response
-    setTimeout(() => {
-      let replyText = "";
-      const lower = userMsg.toLowerCase();
-
-      if (lower.includes("insight") || lower.includes("key") || lower.includes("takeaway")) {
-        replyText = `### Key Takeaways from this document:\n\n1. **Core Summary:** The research addresses structural content saved from **${item.deviceSource || "web"}** source.\n2. **Length Profile:** Comprises **${displayText.length} characters** of dense research metadata.\n3. **Primary Intent:** Capturing context tags and highlighting entities recursively under the active collection system.`;
-      } else if (lower.includes("stat") || lower.includes("count") || lower.includes("size")) {
-        replyText = `### Document Profile Analysis:\n\n- **Character Count:** \`${displayText.length}\` characters\n- **Approx. Word Count:** \`${displayText.split(/\s+/).filter(Boolean).length}\` words\n- **Creation Date:** ${new Date(item.createdAt).toLocaleString()}\n- **Source Channel:** \`${item.deviceSource || "web"}\` capture\n- **Color Grouping:** \`${item.color || "None"}\``;
-      } else if (lower.includes("tag") || lower.includes("category")) {
-        replyText = `The current document has **${item.tags?.length || 0} associated tags**: ${
-          item.tags && item.tags.length > 0 
-            ? item.tags.map(t => `\`#${t}\``).join(", ") 
-            : "No active tags designated yet. You can associate tags under the Collection panel."
-        }`;
-      } else {
-        replyText = `I have analyzed the research document: **"${item.sourceTitle || "Untitled Document"}"**.\n\nThe content highlights:\n> "${stripMarkdown(displayText).substring(0, 180)}..."\n\nAsk me to **summarize key insights**, **compile statistical profiles**, or **outline a blog draft** from this data!`;
-      }
-
-      setMessages((prev) => [...prev, { sender: "ai", text: replyText }]);
-    }, 900);
   };
 
   return createPortal(
@@ -316,6 +293,13 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                     )}
                   </div>
 
+                  {/* Structured Research Insights */}
+                  <ItemInsightsCard
+                    item={item}
+                    isExtracting={isExtractingInsights}
+                    onExtract={onExtractInsights}
+                  />
+
                   {/* Dynamic Color Palette Swatch */}
                   <div className="bg-white/40 dark:bg-slate-900/30 backdrop-blur-md rounded-2xl p-4 border border-slate-200/40 dark:border-slate-800/40">
                     <h4 className="text-xs font-mono font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-3">
@@ -373,6 +357,19 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                     </div>
                   )}
 
+                  {/* Research Notes */}
+                  {item.note && (
+                    <div className="bg-white/40 dark:bg-slate-900/30 backdrop-blur-md rounded-2xl p-4 border border-slate-200/40 dark:border-slate-800/40">
+                      <h4 className="text-xs font-mono font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-3 flex items-center gap-1.5">
+                        <NotebookPen className="w-3.5 h-3.5" />
+                        Research Notes
+                      </h4>
+                      <div className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed prose dark:prose-invert max-w-none">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{item.note}</ReactMarkdown>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Metadata Tag Cloud */}
                   {item.tags && item.tags.length > 0 && (
                     <div className="bg-white/40 dark:bg-slate-900/30 backdrop-blur-md rounded-2xl p-4 border border-slate-200/40 dark:border-slate-800/40">
@@ -393,6 +390,9 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                     </div>
                   )}
 
+                  {/* Semantically Related Items */}
+                  {onOpenItem && <RelatedItemsPanel item={item} onOpenItem={onOpenItem} />}
+
                 </div>
               </div>
 
@@ -423,16 +423,6 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                 {/* Interactive AI Message Flow */}
                 <div className="flex-1 overflow-y-auto p-6 space-y-4 font-sans">
                   
-                  {/* Static Baseline Spark Query */}
-                  <div className="flex gap-3">
-                    <div className="w-7 h-7 rounded-full bg-slate-200 dark:bg-slate-800 flex items-center justify-center flex-shrink-0 text-slate-500 dark:text-slate-400 text-xs">
-                      USR
-                    </div>
-                    <div className="bg-slate-100/80 dark:bg-slate-800/60 p-3 rounded-2xl rounded-tl-none text-sm text-slate-705 dark:text-slate-300 max-w-[85%]">
-                      Can you analyze this research card and index its contents?
-                    </div>
-                  </div>
-
                   {/* AI Initial Summary Response */}
                   <div className="flex gap-3">
                     <div className="w-7 h-7 rounded-full bg-gradient-to-br from-indigo-500 to-purple-500 flex items-center justify-center flex-shrink-0 text-white shadow-md shadow-indigo-500/15">
@@ -477,10 +467,13 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                     </div>
                   </div>
 
-                  {/* Custom Message History */}
-                  {messages.map((m, idx) => (
-                    <div key={idx} className={`flex gap-3 ${m.sender === "user" ? "justify-end" : "justify-start"}`}>
-                      {m.sender === "user" ? (
+                  {/* Conversation History (saved per item) */}
+                  {isLoadingHistory && (
+                    <p className="text-center text-xs text-slate-400 font-mono">LOADING CONVERSATION…</p>
+                  )}
+                  {messages.map((m) => (
+                    <div key={m.id} className={`flex gap-3 ${m.role === "user" ? "justify-end" : "justify-start"}`}>
+                      {m.role === "user" ? (
                         <>
                           <div className="bg-indigo-600 text-white p-3 rounded-2xl rounded-tr-none text-sm max-w-[85%]">
                             {m.text}
@@ -495,9 +488,26 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                             <Sparkles className="w-3.5 h-3.5" />
                           </div>
                           <div className="bg-indigo-600/5 dark:bg-indigo-950/20 border border-indigo-500/10 p-3 rounded-2xl rounded-tl-none text-sm text-slate-700 dark:text-slate-300 leading-relaxed max-w-[85%] prose dark:prose-invert">
-                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                              {m.text}
-                            </ReactMarkdown>
+                            {m.streaming && !m.text ? (
+                              <div className="flex items-center gap-1 py-1" aria-label="Generating response">
+                                {[0, 150, 300].map((delay) => (
+                                  <span
+                                    key={delay}
+                                    className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-bounce"
+                                    style={{ animationDelay: `${delay}ms` }}
+                                  />
+                                ))}
+                              </div>
+                            ) : (
+                              <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                {m.text}
+                              </ReactMarkdown>
+                            )}
+                            {m.savedToNote && (
+                              <span className="not-prose mt-2 flex items-center gap-1 text-xs font-mono font-bold text-emerald-600 dark:text-emerald-400">
+                                <Check className="w-3 h-3" /> SAVED TO NOTES
+                              </span>
+                            )}
                           </div>
                         </>
                       )}
@@ -506,22 +516,19 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
 
                 </div>
 
-                {/* Quick-Click Preset Prompts Shelf */}
+                {/* Quick Actions Shelf (output is saved to the item's notes) */}
                 <div className="px-6 py-2 border-t border-slate-200/30 dark:border-slate-800/30 bg-slate-50/20 dark:bg-slate-900/20">
                   <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-thin">
-                    {[
-                      { prompt: "📝 Key Insights", label: "Insights" },
-                      { prompt: "📊 Document Statistics", label: "Stats Profile" },
-                      { prompt: "🏷️ Associated Tags", label: "Tag Details" },
-                    ].map((p, i) => (
+                    {ITEM_QUICK_ACTIONS.map((action) => (
                       <button
-                        key={i}
-                        onClick={() => {
-                          setChatInput(p.prompt);
-                        }}
-                        className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1 bg-white dark:bg-slate-800 hover:bg-indigo-500 hover:text-white dark:hover:bg-indigo-600 border border-slate-200/50 dark:border-slate-700 text-xs font-semibold text-slate-500 dark:text-slate-400 rounded-full transition-all"
+                        key={action.id}
+                        onClick={() => runQuickAction(action)}
+                        disabled={isReplying}
+                        title={`Runs on this item and saves the result to its notes under "${action.noteHeading}"`}
+                        className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1 bg-white dark:bg-slate-800 hover:bg-indigo-500 hover:text-white dark:hover:bg-indigo-600 disabled:opacity-50 disabled:pointer-events-none border border-slate-200/50 dark:border-slate-700 text-xs font-semibold text-slate-500 dark:text-slate-400 rounded-full transition-all"
                       >
-                        <span>{p.label}</span>
+                        <NotebookPen className="w-3 h-3 opacity-60" />
+                        <span>{action.label}</span>
                         <ChevronRight className="w-3 h-3 opacity-60" />
                       </button>
                     ))}
@@ -538,14 +545,25 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                       placeholder="Ask the research AI anything about this document..."
                       className="w-full pl-4 pr-12 py-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-sm text-slate-800 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500"
                     />
-                    <button
-                      type="submit"
-                      disabled={!chatInput.trim()}
-                      className="absolute right-2 p-1.5 bg-indigo-600 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-all"
-                      aria-label="Send query"
-                    >
-                      <Send className="w-3.5 h-3.5" />
-                    </button>
+                    {isReplying ? (
+                      <button
+                        type="button"
+                        onClick={stop}
+                        className="absolute right-2 p-1.5 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-all"
+                        aria-label="Stop response"
+                      >
+                        <Square className="w-3.5 h-3.5" />
+                      </button>
+                    ) : (
+                      <button
+                        type="submit"
+                        disabled={!chatInput.trim()}
+                        className="absolute right-2 p-1.5 bg-indigo-600 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-all"
+                        aria-label="Send query"
+                      >
+                        <Send className="w-3.5 h-3.5" />
+                      </button>
+                    )}
                   </form>
                 </div>
 
@@ -561,7 +579,7 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
 };
 
 // ============================================
-// PART 5: EXPORTS
+// PART 4: EXPORTS
 // ============================================
 
 export default ItemDetailModal;
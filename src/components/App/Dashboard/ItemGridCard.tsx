@@ -20,6 +20,8 @@ import { getSourceIcon, getSourceColor } from "./dashboardUtils";
 interface ItemGridCardProps {
   item: StorageItem;
   index: number;
+  /** Similarity (0-1) when shown as a search-by-meaning result. */
+  score?: number;
   isSelected: boolean;
   hasAnySelection: boolean;
   onSelect: (id: string) => void;
@@ -52,6 +54,7 @@ const isMarkdown = (text: string) => /^#{1,3} |\n#{1,3} |\|.+\|/.test(text);
 const ItemGridCard: React.FC<ItemGridCardProps> = ({
   item,
   index,
+  score,
   isSelected,
   hasAnySelection,
   onSelect,
@@ -135,6 +138,11 @@ const ItemGridCard: React.FC<ItemGridCardProps> = ({
         </div>
         
         <div className="flex items-center gap-1.5">
+          {score !== undefined && (
+            <span className="px-2 py-0.5 bg-[#007AFF]/10 text-[#007AFF] text-xs font-bold tracking-wider rounded-full font-mono">
+              {Math.round(score * 100)}% MATCH
+            </span>
+          )}
           {item.aiSummary && (
             <span className="flex items-center gap-1 px-2 py-0.5 bg-gradient-to-r from-indigo-500 to-purple-500 text-white text-xs font-bold tracking-wider uppercase rounded-full shadow-sm shadow-indigo-500/20">
               <Zap className="w-2.5 h-2.5 animate-pulse" />
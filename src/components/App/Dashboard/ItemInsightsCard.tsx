@@ -0,0 +1,126 @@
+// ============================================
+// ItemInsightsCard.tsx - Structured research insights for the detail modal
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React from "react";
+import { FlaskConical, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { StorageItem } from "../../../services/storageService";
+import { STUDY_DESIGNS } from "../../../types";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface ItemInsightsCardProps {
+  item: StorageItem;
+  isExtracting: boolean;
+  onExtract: (item: StorageItem) => void;
+}
+
+// ============================================
+// PART 3: HELPERS
+// ============================================
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-[10px] font-mono font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1">
+      {label}
+    </dt>
+    <dd className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">{children}</dd>
+  </div>
+);
+
+const List: React.FC<{ entries: string[] }> = ({ entries }) =>
+  entries.length > 0 ? (
+    <ul className="list-disc pl-4 space-y-1">
+      {entries.map((entry, i) => (
+        <li key={i}>{entry}</li>
+      ))}
+    </ul>
+  ) : (
+    <span className="text-slate-400 italic">Not stated</span>
+  );
+
+const orNotStated = (value: string | null) =>
+  value || <span className="text-slate-400 italic">Not stated</span>;
+
+// ============================================
+// PART 4: COMPONENT
+// ============================================
+
+const ItemInsightsCard: React.FC<ItemInsightsCardProps> = ({ item, isExtracting, onExtract }) => {
+  const insights = item.insights;
+  const hasText = !!(item.text || item.ocrText);
+
+  return (
+    <div className="bg-white/40 dark:bg-slate-900/30 backdrop-blur-md rounded-2xl p-4 border border-slate-200/40 dark:border-slate-800/40">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-mono font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest flex items-center gap-1.5">
+          <FlaskConical className="w-3.5 h-3.5" />
+          Research Insights
+        </h4>
+        {insights && (
+          <button
+            onClick={() => onExtract(item)}
+            disabled={isExtracting}
+            className="p-1 rounded-lg text-slate-400 hover:text-indigo-500 disabled:opacity-50 transition-colors"
+            title="Extract again (1 credit)"
+          >
+            {isExtracting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          </button>
+        )}
+      </div>
+
+      {!insights ? (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Pull out the research question, methods, sample, findings and limitations so this item can be compared with others.
+          </p>
+          <button
+            onClick={() => onExtract(item)}
+            disabled={isExtracting || !hasText}
+            className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-indigo-600 dark:text-indigo-400 bg-indigo-500/10 hover:bg-indigo-500/20 disabled:opacity-50 rounded-xl transition-colors"
+          >
+            {isExtracting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+            {isExtracting ? "Extracting…" : "Extract Insights"}
+          </button>
+        </div>
+      ) : (
+        <dl className="space-y-4">
+          <div className="flex flex-wrap gap-1.5">
+            <span className="px-2.5 py-1 bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 text-xs font-semibold rounded-full">
+              {STUDY_DESIGNS[insights.studyDesign]}
+            </span>
+            {insights.sampleSize !== null && (
+              <span className="px-2.5 py-1 bg-slate-500/10 text-slate-600 dark:text-slate-300 text-xs font-semibold rounded-full">
+                N = {insights.sampleSize.toLocaleString()}
+              </span>
+            )}
+          </div>
+          <Field label="Research Question">{orNotStated(insights.researchQuestion)}</Field>
+          <Field label="Methodology">{orNotStated(insights.methodology)}</Field>
+          <Field label="Sample">{orNotStated(insights.sample)}</Field>
+          <Field label="Key Findings">
+            <List entries={insights.keyFindings} />
+          </Field>
+          <Field label="Limitations">
+            <List entries={insights.limitations} />
+          </Field>
+          <Field label="Implications">
+            <List entries={insights.implications} />
+          </Field>
+        </dl>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default ItemInsightsCard;
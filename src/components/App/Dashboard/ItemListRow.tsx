@@ -18,6 +18,8 @@ import { getSourceIcon, getSourceColor, stripMarkdown, isMarkdown } from "./dash
 
 interface ItemListRowProps {
   item: StorageItem;
+  /** Similarity (0-1) when shown as a search-by-meaning result. */
+  score?: number;
   isSelected: boolean;
   hasAnySelection: boolean;
   onSelect: (id: string) => void;
@@ -31,6 +33,7 @@ interface ItemListRowProps {
 
 const ItemListRow: React.FC<ItemListRowProps> = ({
   item,
+  score,
   isSelected,
   hasAnySelection,
   onSelect,
@@ -106,6 +109,11 @@ const ItemListRow: React.FC<ItemListRowProps> = ({
 
       {/* Footer / Actions */}
       <div className="flex items-center gap-3 shrink-0 ml-auto sm:ml-0 mt-2 sm:mt-0">
+        {score !== undefined && (
+          <span className="px-2 py-1 bg-[#007AFF]/10 text-[#007AFF] text-xs font-semibold rounded-full">
+            {Math.round(score * 100)}% match
+          </span>
+        )}
         {item.aiSummary && (
           <span className="flex items-center gap-1 px-2 py-1 bg-gradient-to-r from-[#007AFF] to-[#5856D6] text-white text-xs font-semibold rounded-full">
             <Zap className="w-3 h-3" />
@@ -0,0 +1,225 @@
+// ============================================
+// ReferenceImportModal.tsx - Preview & confirm BibTeX / RIS / CSL-JSON imports
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, BookOpen, Loader2 } from "lucide-react";
+import { Badge, Button, Modal, Select } from "../../shared/ui";
+import {
+  ReferenceImportPreview,
+  commitReferenceImport,
+  previewReferenceImport,
+} from "../../../services/importService";
+import { Collection, getAllCollections } from "../../../services/collectionsService";
+import { getIssuedYear } from "../Citations/citationUtils";
+import type { CslItem } from "../../../types";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface ReferenceImportModalProps {
+  /** Files to preview; the modal is open while this is non-null. */
+  files: File[] | null;
+  onClose: () => void;
+  onImported?: (count: number) => void;
+  showToast: (message: string, type: "success" | "error" | "info") => void;
+}
+
+// ============================================
+// PART 3: HELPERS
+// ============================================
+
+const FORMAT_LABELS = { bibtex: "BibTeX", ris: "RIS", "csl-json": "CSL-JSON" };
+
+const describeAuthors = (csl: CslItem) => {
+  const names = csl.author.map((a) => a.family || a.literal || a.given || "").filter(Boolean);
+  if (names.length === 0) return "Unknown author";
+  return names.length > 3 ? `${names.slice(0, 3).join(", ")} et al.` : names.join(", ");
+};
+
+// ============================================
+// PART 4: MAIN COMPONENT
+// ============================================
+
+const ReferenceImportModal: React.FC<ReferenceImportModalProps> = ({
+  files,
+  onClose,
+  onImported,
+  showToast,
+}) => {
+  const [preview, setPreview] = useState<ReferenceImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionId, setCollectionId] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!files) return;
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    setCollectionId("");
+
+    previewReferenceImport(files)
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        // New entries are preselected; duplicates are opt-in
+        setSelected(
+          new Set(result.entries.flatMap((entry, i) => (entry.duplicate ? [] : [i]))),
+        );
+      })
+      .catch((err) => !cancelled && setError(err.message || "Could not read the file."));
+    getAllCollections()
+      .then((result) => !cancelled && setCollections(result))
+      .catch(() => !cancelled && setCollections([]));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  const collectionOptions = useMemo(
+    () => [
+      { value: "", label: "No collection" },
+      ...collections.map((c) => ({ value: c.id, label: c.name })),
+    ],
+    [collections],
+  );
+
+  const toggleEntry = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview || selected.size === 0) return;
+    setImporting(true);
+    try {
+      const count = await commitReferenceImport(
+        preview.entries.filter((_, i) => selected.has(i)),
+        { collectionId: collectionId || undefined, includeDuplicates: true },
+      );
+      showToast(`Imported ${count} reference(s) successfully!`, "success");
+      onImported?.(count);
+      onClose();
+    } catch (err: any) {
+      showToast(err.message || "Import failed", "error");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={files !== null}
+      onClose={() => !importing && onClose()}
+      title="Import references"
+      size="lg"
+    >
+      {error ? (
+        <div className="flex items-start gap-3 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          {error}
+        </div>
+      ) : !preview ? (
+        <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+          <Loader2 className="w-5 h-5 animate-spin" /> Reading references…
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            {preview.entries.length} reference(s) from{" "}
+            {preview.formats.map((f) => FORMAT_LABELS[f]).join(", ")}
+            {preview.duplicateCount > 0 &&
+              ` · ${preview.duplicateCount} possible duplicate(s) left unselected`}
+          </p>
+
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {preview.entries.map((entry, i) => {
+              const { csl, keywords } = entry.reference;
+              const year = getIssuedYear(csl);
+              return (
+                <label
+                  key={i}
+                  className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl cursor-pointer hover:shadow-sm transition-all"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(i)}
+                    onChange={() => toggleEntry(i)}
+                    className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start gap-2">
+                      <h4 className="flex-1 font-semibold text-sm text-gray-900 dark:text-white line-clamp-2">
+                        {csl.title}
+                      </h4>
+                      {entry.duplicate && (
+                        <Badge variant="warning">
+                          {entry.duplicateOf ? "In library" : "Repeated"} ·{" "}
+                          {entry.duplicate === "doi" ? "DOI" : "title"}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">
+                      {describeAuthors(csl)}
+                      {year && year !== "n.d." ? ` (${year})` : ""}
+                      {csl["container-title"] ? ` · ${csl["container-title"]}` : ""}
+                    </p>
+                    {keywords.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {keywords.slice(0, 6).map((k) => (
+                          <span
+                            key={k}
+                            className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-[11px] text-gray-600 dark:text-gray-300"
+                          >
+                            #{k}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <Select
+              label="Add to collection"
+              options={collectionOptions}
+              value={collectionId}
+              onChange={setCollectionId}
+              className="flex-1"
+            />
+            <Button
+              onClick={handleImport}
+              isLoading={importing}
+              disabled={selected.size === 0}
+            >
+              <BookOpen className="w-4 h-4 mr-2" />
+              Import {selected.size} item{selected.size === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default ReferenceImportModal;
@@ -0,0 +1,99 @@
+// ============================================
+// RelatedItemsPanel.tsx - Semantically similar items for the detail modal
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useEffect, useState } from "react";
+import { ChevronRight, Loader2, Network } from "lucide-react";
+import {
+  StorageItem,
+  SimilarItemsResult,
+  findSimilarItems,
+} from "../../../services/storageService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface RelatedItemsPanelProps {
+  item: StorageItem;
+  onOpenItem: (item: StorageItem) => void;
+}
+
+// ============================================
+// PART 3: COMPONENT
+// ============================================
+
+const RELATED_LIMIT = 5;
+
+const RelatedItemsPanel: React.FC<RelatedItemsPanelProps> = ({ item, onOpenItem }) => {
+  const [result, setResult] = useState<SimilarItemsResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    findSimilarItems({ itemId: item.id, limit: RELATED_LIMIT })
+      .then((next) => !cancelled && setResult(next))
+      .catch(() => !cancelled && setResult({ items: [], mode: "keyword" }));
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id]);
+
+  return (
+    <div className="bg-white/40 dark:bg-slate-900/30 backdrop-blur-md rounded-2xl p-4 border border-slate-200/40 dark:border-slate-800/40">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-mono font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest flex items-center gap-1.5">
+          <Network className="w-3.5 h-3.5" />
+          Related Items
+        </h4>
+        {result?.mode === "keyword" && result.items.length > 0 && (
+          <span className="text-[10px] font-mono text-slate-400" title="Embeddings unavailable; ranked by shared keywords">
+            KEYWORD MATCH
+          </span>
+        )}
+      </div>
+
+      {!result ? (
+        <div className="flex items-center gap-2 py-3 text-xs text-slate-400">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Finding related research…
+        </div>
+      ) : result.items.length === 0 ? (
+        <p className="py-2 text-xs text-slate-400">No related items in your library yet.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {result.items.map(({ item: related, score, snippet }) => (
+            <li key={related.id}>
+              <button
+                onClick={() => onOpenItem(related)}
+                className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left bg-white/60 dark:bg-slate-900/50 border border-slate-200/50 dark:border-slate-800/50 hover:border-indigo-500/40 transition-colors group"
+              >
+                <span className="shrink-0 w-11 text-center text-[11px] font-mono font-bold text-indigo-600 dark:text-indigo-400 bg-indigo-500/10 rounded-md py-0.5">
+                  {Math.round(score * 100)}%
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-semibold text-slate-700 dark:text-slate-200 truncate">
+                    {related.sourceTitle || "Untitled"}
+                  </span>
+                  <span className="block text-xs text-slate-400 truncate">
+                    {(snippet || related.text || "").replace(/\s+/g, " ").slice(0, 140)}
+                  </span>
+                </span>
+                <ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-indigo-500 shrink-0" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// PART 4: EXPORTS
+// ============================================
+
+export default RelatedItemsPanel;
@@ -1,5 +1,5 @@
 // ============================================
-// SearchAndFilters.tsx - Search input, filter button, view mode toggle
+// SearchAndFilters.tsx - Search input, search-by-meaning toggle, filter button, view mode toggle
 // ============================================
 
 // ============================================
@@ -7,7 +7,7 @@
 // ============================================
 
 import React from "react";
-import { Search, Filter, Grid3X3, List } from "lucide-react";
+import { Search, Filter, Grid3X3, List, Sparkles, Loader2 } from "lucide-react";
 import { SearchFilters } from "../../shared/AdvancedSearchFilter";
 
 // ============================================
@@ -17,7 +17,11 @@ import { SearchFilters } from "../../shared/AdvancedSearchFilter";
 interface SearchAndFiltersProps {
   searchQuery: string;
   setSearchQuery: (q: string) => void;
-  searchInputRef: React.RefObject<HTMLInputElement>;
+  searchInputRef: React.RefObject<HTMLInputElement | null>;
+  /** Rank by embedding similarity instead of matching keywords. */
+  semanticSearch: boolean;
+  setSemanticSearch: (enabled: boolean) => void;
+  isSemanticSearching?: boolean;
   showAdvancedFilters: boolean;
   setShowAdvancedFilters: (show: boolean) => void;
   advancedFilters: SearchFilters;
@@ -33,6 +37,9 @@ const SearchAndFilters: React.FC<SearchAndFiltersProps> = ({
   searchQuery,
   setSearchQuery,
   searchInputRef,
+  semanticSearch,
+  setSemanticSearch,
+  isSemanticSearching,
   showAdvancedFilters,
   setShowAdvancedFilters,
   advancedFilters,
@@ -44,7 +51,9 @@ const SearchAndFilters: React.FC<SearchAndFiltersProps> = ({
       advancedFilters.dateRange ||
       advancedFilters.deviceSource?.length ||
       advancedFilters.hasAiSummary !== undefined ||
-      advancedFilters.tags?.length
+      advancedFilters.tags?.length ||
+      advancedFilters.studyDesigns?.length ||
+      advancedFilters.sortBy
     );
 
   return (
@@ -54,18 +63,34 @@ const SearchAndFilters: React.FC<SearchAndFiltersProps> = ({
         <input
           ref={searchInputRef}
           type="text"
-          placeholder="Search research items..."
+          placeholder={semanticSearch ? "Describe what you're looking for..." : "Search research items..."}
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
-          className="theme-search theme-input w-full pl-11 pr-4 py-3 bg-white dark:bg-[#1C1C1E] border border-gray-200/50 dark:border-gray-800 rounded-xl text-sm text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#007AFF]/30 transition-all"
+          className="theme-search theme-input w-full pl-11 pr-10 py-3 bg-white dark:bg-[#1C1C1E] border border-gray-200/50 dark:border-gray-800 rounded-xl text-sm text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#007AFF]/30 transition-all"
           aria-label="Search research items"
           aria-describedby="search-hint"
         />
         <span id="search-hint" className="sr-only">
           Press Ctrl+K or Cmd+K to focus search
         </span>
+        {isSemanticSearching && (
+          <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-[#007AFF] animate-spin" />
+        )}
       </div>
       <div className="flex items-center gap-2">
+        <button
+          onClick={() => setSemanticSearch(!semanticSearch)}
+          className={`theme-btn flex items-center gap-2 px-4 py-3 border rounded-xl text-sm transition-colors ${
+            semanticSearch
+              ? "bg-[#007AFF]/10 border-[#007AFF]/40 text-[#007AFF]"
+              : "theme-surface theme-btn-outline bg-white dark:bg-[#1C1C1E] border-gray-200/50 dark:border-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800"
+          }`}
+          aria-pressed={semanticSearch}
+          title="Search by meaning: rank items by how closely they match the idea, not the exact words"
+        >
+          <Sparkles className="w-4 h-4" />
+          Meaning
+        </button>
         <button
           onClick={() => setShowAdvancedFilters(true)}
           className="theme-surface theme-btn theme-btn-outline flex items-center gap-2 px-4 py-3 bg-white dark:bg-[#1C1C1E] border border-gray-200/50 dark:border-gray-800 rounded-xl text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
@@ -0,0 +1,219 @@
+// ============================================
+// evidenceMatrix.ts - Columns, cells and exports for the evidence matrix
+// ============================================
+// Rows are library items; columns are citation metadata (read-only),
+// structured insights, or fields the user names ("Country"). Insight and
+// custom values live in the item's `insights`, so a reviewer's corrections
+// are saved on the item and reused by every later matrix.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import type { StorageItem } from "../../../services/storageService";
+import { STUDY_DESIGNS, StudyDesign, type ItemInsights } from "../../../types";
+import {
+  CitationData,
+  CitationStyleId,
+  getIssuedYear,
+  renderInTextCitations,
+} from "../Citations/citationUtils";
+import { buildCitationDataFromItem, collectCitations } from "../DocumentEditor/bibliographyUtils";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS & CONSTANTS
+// ============================================
+
+export type MatrixColumnSource = "metadata" | "insights" | "custom";
+
+export interface MatrixColumn {
+  id: string;
+  label: string;
+  source: MatrixColumnSource;
+}
+
+type InsightField = Exclude<keyof ItemInsights, "customFields" | "generatedAt">;
+type DocNode = Record<string, unknown>;
+
+export const BUILTIN_COLUMNS: MatrixColumn[] = [
+  { id: "year", label: "Year", source: "metadata" },
+  { id: "venue", label: "Venue", source: "metadata" },
+  { id: "authors", label: "Authors", source: "metadata" },
+  { id: "researchQuestion", label: "Research question", source: "insights" },
+  { id: "studyDesign", label: "Design", source: "insights" },
+  { id: "methodology", label: "Method", source: "insights" },
+  { id: "sample", label: "Sample", source: "insights" },
+  { id: "sampleSize", label: "Sample size", source: "insights" },
+  { id: "keyFindings", label: "Findings", source: "insights" },
+  { id: "limitations", label: "Limitations", source: "insights" },
+  { id: "implications", label: "Implications", source: "insights" },
+];
+
+export const DEFAULT_COLUMN_IDS = ["methodology", "sampleSize", "keyFindings", "year", "venue"];
+
+const LIST_FIELDS: InsightField[] = ["keyFindings", "limitations", "implications"];
+
+export const customColumn = (label: string): MatrixColumn => ({
+  id: `custom:${label}`,
+  label,
+  source: "custom",
+});
+
+// ============================================
+// PART 3: CELLS
+// ============================================
+
+const metadataValue = (item: StorageItem, id: string): string => {
+  const csl = item.cslData;
+  if (!csl) return "";
+  switch (id) {
+    case "year": {
+      const year = getIssuedYear(csl as CitationData);
+      return year === "n.d." ? "" : year;
+    }
+    case "venue":
+      return csl["container-title"] || csl.publisher || "";
+    case "authors":
+      return csl.author
+        .map((a) => a.family || a.literal || a.given || "")
+        .filter(Boolean)
+        .join(", ");
+    default:
+      return "";
+  }
+};
+
+/** Display value of a cell; list fields are one entry per line. */
+export function getCellValue(item: StorageItem, column: MatrixColumn): string {
+  if (column.source === "metadata") return metadataValue(item, column.id);
+
+  const insights = item.insights;
+  if (!insights) return "";
+  if (column.source === "custom") return insights.customFields?.[column.label] ?? "";
+
+  const value = insights[column.id as InsightField];
+  if (column.id === "studyDesign") return STUDY_DESIGNS[value as StudyDesign] || "";
+  if (Array.isArray(value)) return value.join("\n");
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * True when the AI has not been asked for this cell yet. A field the AI
+ * answered with "not stated" is not missing.
+ */
+export function isCellMissing(item: StorageItem, column: MatrixColumn): boolean {
+  if (column.source === "metadata") return false;
+  if (!item.insights) return true;
+  return column.source === "custom" && !(column.label in (item.insights.customFields || {}));
+}
+
+/** The item's insights with one cell replaced by a reviewer's correction. */
+export function applyCellEdit(
+  insights: ItemInsights,
+  column: MatrixColumn,
+  value: string,
+): ItemInsights {
+  const text = value.trim();
+
+  if (column.source === "custom") {
+    return { ...insights, customFields: { ...insights.customFields, [column.label]: text || null } };
+  }
+
+  const field = column.id as InsightField;
+  if (field === "studyDesign") {
+    return text in STUDY_DESIGNS ? { ...insights, studyDesign: text as StudyDesign } : insights;
+  }
+  if (field === "sampleSize") {
+    const n = Number(text.match(/\d[\d,]*/)?.[0].replace(/,/g, "") ?? NaN);
+    return { ...insights, sampleSize: Number.isFinite(n) && n > 0 ? n : null };
+  }
+  if (LIST_FIELDS.includes(field)) {
+    return { ...insights, [field]: text.split("\n").map((s) => s.trim()).filter(Boolean) };
+  }
+  return { ...insights, [field]: text || null };
+}
+
+// ============================================
+// PART 4: EXPORTS (CSV & EDITOR TABLE)
+// ============================================
+
+/** Header and rows for CSV; list entries are joined with "; ". */
+export function matrixToRows(
+  items: StorageItem[],
+  columns: MatrixColumn[],
+): { headers: string[]; rows: string[][] } {
+  return {
+    headers: ["Study", ...columns.map((c) => c.label)],
+    rows: items.map((item) => [
+      item.sourceTitle || "Untitled",
+      ...columns.map((c) => getCellValue(item, c).split("\n").join("; ")),
+    ]),
+  };
+}
+
+const cellParagraphs = (value: string): DocNode[] => {
+  const lines = value.split("\n").filter((line) => line.trim());
+  return lines.length > 0
+    ? lines.map((line) => ({ type: "paragraph", content: [{ type: "text", text: line }] }))
+    : [{ type: "paragraph" }];
+};
+
+/**
+ * A heading and a Tiptap table for the Document Editor. Each row starts
+ * with the study's title and an in-text citation, so inserting the matrix
+ * also adds its items to the document's bibliography.
+ */
+export function matrixToTableNodes(
+  items: StorageItem[],
+  columns: MatrixColumn[],
+  style: CitationStyleId,
+): DocNode[] {
+  const header: DocNode = {
+    type: "tableRow",
+    content: ["Study", ...columns.map((c) => c.label)].map((label) => ({
+      type: "tableHeader",
+      content: [{ type: "paragraph", content: [{ type: "text", text: label }] }],
+    })),
+  };
+
+  const rows: DocNode[] = items.map((item) => ({
+    type: "tableRow",
+    content: [
+      {
+        type: "tableCell",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "text", text: `${item.sourceTitle || "Untitled"} ` },
+              {
+                type: "citation",
+                attrs: { itemIds: [item.id], locator: null, label: "page", text: "", superscript: false },
+              },
+            ],
+          },
+        ],
+      },
+      ...columns.map((c) => ({ type: "tableCell", content: cellParagraphs(getCellValue(item, c)) })),
+    ],
+  }));
+
+  const table: DocNode = { type: "table", content: [header, ...rows] };
+
+  // Labels are refreshed by the editor; render them now so exports read well
+  const itemsById = new Map(items.map((item) => [item.id, buildCitationDataFromItem(item)]));
+  const rendered = renderInTextCitations(collectCitations(table), itemsById, style);
+  rows.forEach((row, i) => {
+    const citation = (((row.content as DocNode[])[0].content as DocNode[])[0].content as DocNode[])[1];
+    citation.attrs = { ...(citation.attrs as DocNode), ...rendered[i] };
+  });
+
+  return [
+    {
+      type: "heading",
+      attrs: { level: 2 },
+      content: [{ type: "text", text: "Evidence Matrix" }],
+    },
+    table,
+  ];
+}
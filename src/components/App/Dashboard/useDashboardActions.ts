@@ -16,10 +16,15 @@ import {
   addItemToCollection,
   moveItemsToCollection,
 } from "../../../services/collectionsService";
-import { generateItemSummary } from "../../../services/geminiService";
-import { exportItems } from "../../../utils/export";
+import { extractInsights, generateItemSummary } from "../../../services/geminiService";
+import { exportItems, ItemExportFormat } from "../../../utils/export";
 import { generateMarkdownTemplate } from "../../../utils/markdownGenerator";
-import { importImageFile, importPdfFile, importJsonFile } from "../../../services/importService";
+import {
+  importImageFile,
+  importPdfFile,
+  importJsonFile,
+  isReferenceFile,
+} from "../../../services/importService";
 import { useNotifications } from "../../../context/NotificationContext";
 
 // ============================================
@@ -39,11 +44,14 @@ interface UseDashboardActionsParams {
   setConfirmDialog: React.Dispatch<React.SetStateAction<{ isOpen: boolean; itemId: string | null; isDeleting: boolean }>>;
   isSummarizingItem: boolean;
   setIsSummarizingItem: (v: boolean) => void;
+  isExtractingInsights: boolean;
+  setIsExtractingInsights: (v: boolean) => void;
   showCollectionModal: boolean;
   setShowCollectionModal: (show: boolean) => void;
   collectionActionType: "single" | "bulk" | null;
   setCollectionActionType: (type: "single" | "bulk" | null) => void;
   setIsImporting: (loading: boolean) => void;
+  setReferenceImportFiles: (files: File[] | null) => void;
   showToast: (msg: string, type: "success" | "error" | "info") => void;
   filteredItems: StorageItem[];
 }
@@ -65,9 +73,12 @@ export function useDashboardActions({
   setConfirmDialog,
   isSummarizingItem,
   setIsSummarizingItem,
+  isExtractingInsights,
+  setIsExtractingInsights,
   setShowCollectionModal,
   collectionActionType,
   setIsImporting,
+  setReferenceImportFiles,
   showToast,
   filteredItems,
 }: UseDashboardActionsParams) {
@@ -99,6 +110,34 @@ export function useDashboardActions({
     }
   };
 
+  // Cloud items are saved by the API; local (guest) items are saved here
+  const handleExtractInsights = async (item: StorageItem) => {
+    if (isExtractingInsights) return;
+    setIsExtractingInsights(true);
+
+    try {
+      const isLocal = item.id.startsWith("local_");
+      const result = await extractInsights(
+        item.text || item.ocrText || "",
+        isLocal ? undefined : item.id,
+      );
+      if (result.ok && result.insights) {
+        // Re-extraction keeps the evidence-matrix columns the user added
+        const insights = { customFields: item.insights?.customFields, ...result.insights };
+        if (isLocal) await updateItem(item.id, { insights });
+        setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, insights } : i)));
+        if (selectedItem?.id === item.id) setSelectedItem({ ...selectedItem, insights });
+        showToast("Insights extracted!", "success");
+      } else {
+        showToast(`Failed to extract insights: ${result.error || result.reason}`, "error");
+      }
+    } catch (error) {
+      showToast("Failed to extract insights", "error");
+    } finally {
+      setIsExtractingInsights(false);
+    }
+  };
+
   const handleDeleteItem = async (id: string) => {
     setConfirmDialog({ isOpen: true, itemId: id, isDeleting: false });
   };
@@ -123,6 +162,25 @@ export function useDashboardActions({
     }
   };
 
+  const handleSaveNote = async (item: StorageItem, note: string) => {
+    try {
+      const updates = { note };
+      await updateItem(item.id, updates);
+
+      setItems((prev) =>
+        prev.map((i) => (i.id === item.id ? { ...i, ...updates } : i)),
+      );
+
+      if (selectedItem?.id === item.id) {
+        setSelectedItem(selectedItem ? { ...selectedItem, ...updates } : null);
+      }
+
+      showToast("Saved to notes", "success");
+    } catch (err) {
+      showToast("Failed to save note", "error");
+    }
+  };
+
   const confirmDeleteItem = async () => {
     if (!confirmDialog.itemId) return;
 
@@ -190,7 +248,7 @@ export function useDashboardActions({
     }
   };
 
-  const handleBulkExport = async (format: "json" | "csv" | "md" | "pdf") => {
+  const handleBulkExport = async (format: ItemExportFormat) => {
     if (selectedItems.size === 0) {
       showToast("No items selected for export", "error");
       return;
@@ -274,9 +332,14 @@ export function useDashboardActions({
 
     const { data: { user } } = await supabase.auth.getUser();
 
+    const referenceFiles: File[] = [];
+
     for (const file of files) {
       try {
-        if (file.name.toLowerCase().endsWith(".pdf")) {
+        if (await isReferenceFile(file)) {
+          // Citation manager exports go through the preview modal
+          referenceFiles.push(file);
+        } else if (file.name.toLowerCase().endsWith(".pdf")) {
           showToast(`Extracting text from "${file.name}"...`, "info");
           await importPdfFile(file, user?.id);
           successCount++;
@@ -297,14 +360,17 @@ export function useDashboardActions({
 
     if (successCount > 0) showToast(`Imported ${successCount} item(s)!`, "success");
     if (errors.length > 0) showToast(`${errors.length} file(s) failed.`, "error");
+    if (referenceFiles.length > 0) setReferenceImportFiles(referenceFiles);
     setIsImporting(false);
     e.target.value = "";
   };
 
   return {
     handleGenerateSummary,
+    handleExtractInsights,
     handleDeleteItem,
     handleColorChange,
+    handleSaveNote,
     confirmDeleteItem,
     toggleItemSelection,
     selectAllItems,
@@ -9,8 +9,10 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { supabase } from "../../../services/supabaseClient";
 import {
+  findSimilarItems,
   getAllItems,
   subscribeToItems,
+  SimilarItemsResult,
   StorageItem,
 } from "../../../services/storageService";
 import {
@@ -18,7 +20,8 @@ import {
   Collection,
 } from "../../../services/collectionsService";
 import { useNotifications } from "../../../context/NotificationContext";
-import { SearchFilters } from "../../shared/AdvancedSearchFilter";
+import { ItemSortOrder, SearchFilters } from "../../shared/AdvancedSearchFilter";
+import { STUDY_DESIGNS } from "../../../types";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -36,6 +39,11 @@ export interface UseDashboardDataReturn {
   // Search
   searchQuery: string;
   setSearchQuery: (q: string) => void;
+  semanticSearch: boolean;
+  setSemanticSearch: (enabled: boolean) => void;
+  isSemanticSearching: boolean;
+  /** Similarity per item id while a search by meaning is showing. */
+  searchScores: Map<string, number>;
 
   // View mode
   viewMode: "grid" | "list";
@@ -74,6 +82,8 @@ export interface UseDashboardDataReturn {
   setShowExportMenu: (show: boolean) => void;
   showCollectionModal: boolean;
   setShowCollectionModal: (show: boolean) => void;
+  showEvidenceMatrix: boolean;
+  setShowEvidenceMatrix: (show: boolean) => void;
   collectionActionType: "single" | "bulk" | null;
   setCollectionActionType: (type: "single" | "bulk" | null) => void;
 
@@ -81,12 +91,16 @@ export interface UseDashboardDataReturn {
   isImporting: boolean;
   setIsImporting: (loading: boolean) => void;
   importFileRef: React.RefObject<HTMLInputElement | null>;
+  referenceImportFiles: File[] | null;
+  setReferenceImportFiles: (files: File[] | null) => void;
 
   // Summarizing
   isSummarizingSmartPen: boolean;
   setIsSummarizingSmartPen: (v: boolean) => void;
   isSummarizingItem: boolean;
   setIsSummarizingItem: (v: boolean) => void;
+  isExtractingInsights: boolean;
+  setIsExtractingInsights: (v: boolean) => void;
   isBulkDeleting: boolean;
   setIsBulkDeleting: (v: boolean) => void;
 
@@ -107,7 +121,40 @@ export interface UseDashboardDataReturn {
 }
 
 // ============================================
-// PART 3: HOOK IMPLEMENTATION
+// PART 3: HELPERS
+// ============================================
+
+/**
+ * Items in the requested order. "newest" keeps the incoming order (loaded
+ * newest-first, or ranked by a search by meaning). Items without insights
+ * sort after those with them.
+ */
+const sortItems = (items: StorageItem[], sortBy: ItemSortOrder = "newest"): StorageItem[] => {
+  const bySampleSize = (a: StorageItem, b: StorageItem) =>
+    (b.insights?.sampleSize ?? -1) - (a.insights?.sampleSize ?? -1);
+
+  switch (sortBy) {
+    case "oldest":
+      return [...items].sort(
+        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      );
+    case "sample-size":
+      return [...items].sort(bySampleSize);
+    case "study-design":
+      return [...items].sort((a, b) => {
+        if (!a.insights || !b.insights) return a.insights ? -1 : b.insights ? 1 : 0;
+        return (
+          STUDY_DESIGNS[a.insights.studyDesign].localeCompare(STUDY_DESIGNS[b.insights.studyDesign]) ||
+          bySampleSize(a, b)
+        );
+      });
+    default:
+      return items;
+  }
+};
+
+// ============================================
+// PART 4: HOOK IMPLEMENTATION
 // ============================================
 
 export function useDashboardData(
@@ -120,12 +167,18 @@ export function useDashboardData(
   const [selectedSmartPenScan, setSelectedSmartPenScan] = useState<StorageItem | null>(null);
   const [isSummarizingSmartPen, setIsSummarizingSmartPen] = useState(false);
   const [isSummarizingItem, setIsSummarizingItem] = useState(false);
+  const [isExtractingInsights, setIsExtractingInsights] = useState(false);
   const [hasMore, setHasMore] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [fetchOffset, setFetchOffset] = useState(0);
   const PAGE_SIZE = 100;
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
+  const [semanticSearch, setSemanticSearchState] = useState(
+    () => localStorage.getItem("researchMate_semanticSearch") === "true",
+  );
+  const [semanticResults, setSemanticResults] = useState<SimilarItemsResult | null>(null);
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
   const [isRealTimeConnected, setIsRealTimeConnected] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [viewMode, setViewMode] = useState<"grid" | "list">(() => {
@@ -155,8 +208,11 @@ export function useDashboardData(
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showEvidenceMatrix, setShowEvidenceMatrix] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const importFileRef = useRef<HTMLInputElement>(null);
+  // BibTeX / RIS / CSL-JSON files waiting for the import preview
+  const [referenceImportFiles, setReferenceImportFiles] = useState<File[] | null>(null);
 
   // Filters
   const [advancedFilters, setAdvancedFilters] = useState<SearchFilters>({});
@@ -174,6 +230,29 @@ export function useDashboardData(
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const setSemanticSearch = useCallback((enabled: boolean) => {
+    setSemanticSearchState(enabled);
+    localStorage.setItem("researchMate_semanticSearch", String(enabled));
+  }, []);
+
+  // Search by meaning: ranked server-side, falls back to keyword scoring
+  useEffect(() => {
+    const query = debouncedSearchQuery.trim();
+    setSemanticResults(null);
+    if (!semanticSearch || !query) return;
+
+    let cancelled = false;
+    setIsSemanticSearching(true);
+    findSimilarItems({ query, limit: 50 })
+      .then((result) => !cancelled && setSemanticResults(result))
+      .catch(() => !cancelled && showToast("Search by meaning failed", "error"))
+      .finally(() => !cancelled && setIsSemanticSearching(false));
+    return () => {
+      cancelled = true;
+      setIsSemanticSearching(false);
+    };
+  }, [semanticSearch, debouncedSearchQuery, showToast]);
+
   const fetchItems = useCallback(async () => {
     setLoading(true);
     try {
@@ -267,7 +346,11 @@ export function useDashboardData(
   const filteredItems = useMemo(() => {
     let filtered = items;
 
-    if (debouncedSearchQuery) {
+    if (semanticResults) {
+      // Ranked results; prefer the live copy of items that are loaded
+      const loaded = new Map(items.map((item) => [item.id, item]));
+      filtered = semanticResults.items.map(({ item }) => loaded.get(item.id) || item);
+    } else if (debouncedSearchQuery) {
       const query = debouncedSearchQuery.toLowerCase();
       filtered = filtered.filter((item) => {
         return (
@@ -315,8 +398,19 @@ export function useDashboardData(
       );
     }
 
-    return filtered;
-  }, [items, debouncedSearchQuery, advancedFilters]);
+    if (advancedFilters.studyDesigns && advancedFilters.studyDesigns.length > 0) {
+      filtered = filtered.filter(
+        (item) => !!item.insights && advancedFilters.studyDesigns!.includes(item.insights.studyDesign),
+      );
+    }
+
+    return sortItems(filtered, advancedFilters.sortBy);
+  }, [items, debouncedSearchQuery, semanticResults, advancedFilters]);
+
+  const searchScores = useMemo(
+    () => new Map((semanticResults?.items || []).map(({ item, score }) => [item.id, score])),
+    [semanticResults],
+  );
 
   const allTags = useMemo(() => {
     const tagSet = new Set<string>();
@@ -339,6 +433,7 @@ export function useDashboardData(
   return {
     items, setItems, filteredItems, loading, hasMore, loadingMore,
     searchQuery, setSearchQuery,
+    semanticSearch, setSemanticSearch, isSemanticSearching, searchScores,
     viewMode, setViewMode,
     stats, allTags,
     collections, fetchCollections,
@@ -350,10 +445,13 @@ export function useDashboardData(
     showAdvancedFilters, setShowAdvancedFilters,
     showExportMenu, setShowExportMenu,
     showCollectionModal, setShowCollectionModal,
+    showEvidenceMatrix, setShowEvidenceMatrix,
     collectionActionType, setCollectionActionType,
     isImporting, setIsImporting, importFileRef,
+    referenceImportFiles, setReferenceImportFiles,
     isSummarizingSmartPen, setIsSummarizingSmartPen,
     isSummarizingItem, setIsSummarizingItem,
+    isExtractingInsights, setIsExtractingInsights,
     isBulkDeleting, setIsBulkDeleting,
     confirmDialog, setConfirmDialog,
     advancedFilters, setAdvancedFilters,
@@ -0,0 +1,301 @@
+// ============================================
+// useItemChat.ts - AI conversation about a single library item
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { useEffect, useRef, useState } from "react";
+import { StorageItem } from "../../../services/storageService";
+import { streamChatResponse } from "../../../services/geminiService";
+import {
+  getItemChatSession,
+  saveItemChatMessages,
+} from "../../../services/chatSessionsService";
+import type { ChatMessage as StoredChatMessage } from "../../../types";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS & CONSTANTS
+// ============================================
+
+export interface ItemChatMessage {
+  id: string;
+  role: "user" | "ai";
+  text: string;
+  timestamp: number;
+  /** True while the AI reply is still arriving. */
+  streaming?: boolean;
+  /** Set on quick-action replies once their output has been added to the item's notes. */
+  savedToNote?: boolean;
+}
+
+export interface ItemQuickAction {
+  id: string;
+  label: string;
+  prompt: string;
+  /** Heading the output is filed under in the item's notes. */
+  noteHeading: string;
+}
+
+/** Quick actions whose output is saved straight into the item's notes. */
+export const ITEM_QUICK_ACTIONS: ItemQuickAction[] = [
+  {
+    id: "takeaways",
+    label: "Key Takeaways",
+    prompt: "Extract the key takeaways of this item as a concise bulleted list.",
+    noteHeading: "Key takeaways",
+  },
+  {
+    id: "methods",
+    label: "List Methods",
+    prompt:
+      "List the research methods this item uses: design, sample, data collection and analysis. Say so plainly if the text does not describe them.",
+    noteHeading: "Methods",
+  },
+  {
+    id: "note",
+    label: "Draft a Note",
+    prompt:
+      "Draft a short research note on this item: its main claim, the supporting evidence, limitations, and how it could be used in my own work.",
+    noteHeading: "Draft note",
+  },
+];
+
+const MAX_ITEM_TEXT = 12_000;
+const HISTORY_TURNS = 6;
+const MAX_HISTORY_MESSAGE = 1_500;
+const IDLE_TIMEOUT_MS = 30_000;
+
+interface UseItemChatParams {
+  item: StorageItem | null;
+  /** Persists a new value for the item's notes. */
+  onSaveNote: (item: StorageItem, note: string) => Promise<void>;
+}
+
+// ============================================
+// PART 3: GROUNDING
+// ============================================
+
+const formatCitation = (item: StorageItem): string => {
+  if (item.citation) return item.citation;
+  const csl = item.cslData;
+  if (!csl) return item.sourceUrl || "";
+
+  const authors = csl.author
+    .map((a) => a.literal || [a.given, a.family].filter(Boolean).join(" "))
+    .filter(Boolean)
+    .join(", ");
+  const year = csl.issued?.["date-parts"]?.[0]?.[0] ?? csl.issued?.literal;
+  return [
+    authors,
+    year ? `(${year})` : "",
+    csl.title,
+    csl["container-title"],
+    csl.DOI ? `https://doi.org/${csl.DOI}` : csl.URL,
+  ]
+    .filter(Boolean)
+    .join(". ");
+};
+
+/**
+ * Prompt context for a question about one item: its citation, summary,
+ * notes and text, followed by the recent conversation so follow-up
+ * questions make sense.
+ */
+export function buildItemChatContext(item: StorageItem, history: ItemChatMessage[]): string {
+  const text = item.text || item.ocrText || "";
+  const sections = [
+    `ITEM: ${item.sourceTitle || "Untitled"}`,
+    formatCitation(item) && `CITATION: ${formatCitation(item)}`,
+    item.aiSummary && `SUMMARY:\n${item.aiSummary}`,
+    item.note && `USER NOTES:\n${item.note}`,
+    text &&
+      `TEXT:\n${text.slice(0, MAX_ITEM_TEXT)}${text.length > MAX_ITEM_TEXT ? "\n[…text truncated]" : ""}`,
+  ];
+
+  const recent = history.filter((m) => m.text && !m.streaming).slice(-HISTORY_TURNS);
+  if (recent.length > 0) {
+    sections.push(
+      `CONVERSATION SO FAR:\n${recent
+        .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.text.slice(0, MAX_HISTORY_MESSAGE)}`)
+        .join("\n")}`,
+    );
+  }
+
+  return sections.filter(Boolean).join("\n\n");
+}
+
+/** The item's notes with a quick-action result appended under its heading. */
+export function appendToNote(note: string, heading: string, text: string): string {
+  const entry = `## ${heading}\n${text.trim()}`;
+  return note.trim() ? `${note.trim()}\n\n${entry}` : entry;
+}
+
+const toStoredMessages = (messages: ItemChatMessage[]): StoredChatMessage[] =>
+  messages
+    .filter((m) => !m.streaming)
+    .map((m) => ({
+      id: m.id,
+      role: m.role === "ai" ? "assistant" : "user",
+      content: m.text,
+      timestamp: m.timestamp,
+    }));
+
+const fromStoredMessages = (messages: StoredChatMessage[]): ItemChatMessage[] =>
+  messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      id: m.id,
+      role: m.role === "assistant" ? "ai" : "user",
+      text: m.content,
+      timestamp: m.timestamp,
+    }));
+
+// ============================================
+// PART 4: HOOK
+// ============================================
+
+const useItemChat = ({ item, onSaveNote }: UseItemChatParams) => {
+  const [messages, setMessages] = useState<ItemChatMessage[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const itemId = item?.id;
+
+  // Load the item's saved conversation; local (guest) items are not saved
+  useEffect(() => {
+    abortRef.current?.abort();
+    setMessages([]);
+    if (!itemId || itemId.startsWith("local_")) return;
+
+    let cancelled = false;
+    setIsLoadingHistory(true);
+    getItemChatSession(itemId)
+      .then((session) => !cancelled && session && setMessages(fromStoredMessages(session.messages)))
+      .catch((error) => console.error("❌ Failed to load item conversation:", error))
+      .finally(() => !cancelled && setIsLoadingHistory(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId]);
+
+  const persist = async (target: StorageItem, next: ItemChatMessage[]) => {
+    if (target.id.startsWith("local_")) return;
+    try {
+      await saveItemChatMessages(target.id, target.sourceTitle || "Untitled", toStoredMessages(next));
+    } catch (error) {
+      console.error("❌ Failed to save item conversation:", error);
+    }
+  };
+
+  const ask = async (question: string, action?: ItemQuickAction) => {
+    if (!item || !question.trim() || isReplying) return;
+    const target = item;
+
+    const userMsg: ItemChatMessage = {
+      id: Date.now().toString(),
+      role: "user",
+      text: action ? action.label : question,
+      timestamp: Date.now(),
+    };
+    let aiMsg: ItemChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: "ai",
+      text: "",
+      timestamp: Date.now(),
+      streaming: true,
+    };
+    const context = buildItemChatContext(target, messages);
+    const prior = messages;
+    setMessages([...prior, userMsg, aiMsg]);
+    setIsReplying(true);
+
+    const updateAiMsg = (update: Partial<ItemChatMessage>) => {
+      aiMsg = { ...aiMsg, ...update };
+      const next = aiMsg;
+      setMessages((prev) => prev.map((m) => (m.id === next.id ? next : m)));
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const restartTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, IDLE_TIMEOUT_MS);
+    };
+    restartTimeout();
+
+    try {
+      const result = await streamChatResponse(
+        question,
+        context,
+        {
+          onDelta: (delta) => {
+            restartTimeout();
+            updateAiMsg({ text: aiMsg.text + delta });
+          },
+        },
+        controller.signal,
+        { retrieve: false },
+      );
+
+      if (result.ok && result.response.includes("ACTION_REDIRECT_CITATIONS")) {
+        updateAiMsg({
+          text: "Citations are generated in the Citations tab, where they are checked against source metadata.",
+          streaming: false,
+        });
+      } else if (result.ok) {
+        updateAiMsg({ text: result.response, streaming: false });
+        if (action) {
+          await onSaveNote(target, appendToNote(target.note || "", action.noteHeading, result.response));
+          updateAiMsg({ savedToNote: true });
+        }
+      } else {
+        const notice =
+          result.reason === "no_credits"
+            ? "⚠️ **Out of AI Credits**. Please wait for your monthly refill or add your own API Key in Settings."
+            : result.reason === "aborted"
+              ? timedOut
+                ? "Request timed out. Please try again."
+                : "Request was cancelled."
+              : `Error: ${result.error}`;
+        updateAiMsg({
+          text: result.response ? `${result.response}\n\n*${notice}*` : notice,
+          streaming: false,
+        });
+      }
+    } catch {
+      updateAiMsg({
+        text: aiMsg.text || "Sorry, I encountered a network error. Please try again.",
+        streaming: false,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsReplying(false);
+    }
+
+    // A conversation abandoned by switching items is still saved to its own item
+    await persist(target, [...prior, userMsg, aiMsg]);
+  };
+
+  return {
+    messages,
+    isLoadingHistory,
+    isReplying,
+    sendMessage: (question: string) => ask(question),
+    runQuickAction: (action: ItemQuickAction) => ask(action.prompt, action),
+    stop: () => abortRef.current?.abort(),
+  };
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default useItemChat;
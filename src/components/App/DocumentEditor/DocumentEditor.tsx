@@ -6,7 +6,7 @@
 // PART 1: IMPORTS & DEPENDENCIES
 // ============================================
 
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import { Editor } from "@tiptap/react";
 import { FileEdit, X, Sparkles } from "lucide-react";
 
@@ -19,10 +19,13 @@ import EditorSkeleton from "./EditorSkeleton";
 import { exportToDocx, exportToPdf } from "./exportUtils";
 import { exportToLatex } from "./latexExportUtils";
 import {
+  buildCitationDataFromItem,
   generateBibliographyNodes,
   insertBibliography,
 } from "./bibliographyUtils";
-import type { CitationFormat } from "../Citations/citationUtils";
+import { refreshCitationLabels } from "./extensions/citation";
+import { isBuiltinFormat, CitationStyleId } from "../Citations/citationUtils";
+import { isCslStyle } from "../Citations/cslEngine";
 import { addItem } from "../../../services/storageService";
 
 // ============================================
@@ -46,11 +49,32 @@ const DocumentEditor: React.FC = () => {
     showImportDrawer,
     setShowImportDrawer,
     citedItemIds,
-    handleItemInserted,
+    citationStyle,
+    customStyles,
+    handleCitationStyleChange,
+    handleUploadStyle,
+    handleDeleteStyle,
   } = useDocumentEditor();
 
   const [editor, setEditor] = useState<Editor | null>(null);
-  const [bibFormat, setBibFormat] = useState<CitationFormat>("apa");
+
+  // ── Citation labels follow the document's style and numbering ──────
+  const citationItemsById = useMemo(
+    () => new Map(dashboardItems.map((item) => [item.id, buildCitationDataFromItem(item)])),
+    [dashboardItems]
+  );
+
+  useEffect(() => {
+    if (!editor || itemsLoading) return;
+    // Uploaded styles register asynchronously; wait rather than render "(?)"
+    if (!isBuiltinFormat(citationStyle) && !isCslStyle(citationStyle)) return;
+    const refresh = () => refreshCitationLabels(editor, citationItemsById, citationStyle);
+    refresh();
+    editor.on("update", refresh);
+    return () => {
+      editor.off("update", refresh);
+    };
+  }, [editor, itemsLoading, citationItemsById, citationStyle, customStyles]);
 
   // Banner shown after a paper arrives from Discover page
   const [discoverBanner, setDiscoverBanner] = useState<string | null>(null);
@@ -133,20 +157,20 @@ const DocumentEditor: React.FC = () => {
             currentDoc.title,
             citedItemIds,
             dashboardItems,
-            bibFormat,
+            citationStyle,
           );
         }
       } catch (err) {
         console.error(`Export to ${format} failed:`, err);
       }
     },
-    [currentDoc, editor, citedItemIds, dashboardItems, bibFormat]
+    [currentDoc, editor, citedItemIds, dashboardItems, citationStyle]
   );
 
   const handleInsertBibliography = useCallback(
-    (format: CitationFormat) => {
+    (format: CitationStyleId) => {
       if (!editor) return;
-      setBibFormat(format);
+      handleCitationStyleChange(format);
 
       const bibNodes = generateBibliographyNodes({
         format,
@@ -160,7 +184,7 @@ const DocumentEditor: React.FC = () => {
       editor.commands.setContent(newContent);
       handleContentChange(newContent);
     },
-    [editor, dashboardItems, citedItemIds, handleContentChange]
+    [editor, dashboardItems, citedItemIds, handleContentChange, handleCitationStyleChange]
   );
 
   // ---------- PART 2A: LOADING STATE ----------
@@ -231,6 +255,10 @@ const DocumentEditor: React.FC = () => {
               onInsertItem={() => setShowImportDrawer(true)}
               onExport={handleExport}
               onInsertBibliography={handleInsertBibliography}
+              citationStyle={citationStyle}
+              customStyles={customStyles}
+              onUploadStyle={handleUploadStyle}
+              onDeleteStyle={handleDeleteStyle}
               saving={saving}
             />
             <EditorCanvas
@@ -251,7 +279,6 @@ const DocumentEditor: React.FC = () => {
           items={dashboardItems}
           loading={itemsLoading}
           editor={editor}
-          onItemInserted={handleItemInserted}
         />
       </div>
 
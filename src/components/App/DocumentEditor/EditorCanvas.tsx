@@ -25,6 +25,7 @@ import { TableHeader } from "@tiptap/extension-table-header";
 import FontSize from "./extensions/fontSize";
 import Indent from "./extensions/indent";
 import Bibliography from "./extensions/bibliography";
+import Citation from "./extensions/citation";
 import { Editor } from "@tiptap/react";
 
 // ============================================
@@ -62,6 +63,7 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       FontSize,
       Indent,
       Bibliography,
+      Citation,
       Table.configure({
         resizable: true,
       }),
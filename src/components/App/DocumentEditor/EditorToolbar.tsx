@@ -35,8 +35,12 @@ import {
   Loader2,
   BookOpen,
   Table as TableIcon,
+  Check,
+  Upload,
+  Trash2,
 } from "lucide-react";
-import type { CitationFormat } from "../Citations/citationUtils";
+import type { CitationFormat, CitationStyleId } from "../Citations/citationUtils";
+import { BUNDLED_CSL_STYLES, CslStyle } from "../Citations/cslEngine";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -46,7 +50,11 @@ interface EditorToolbarProps {
   editor: Editor | null;
   onInsertItem: () => void;
   onExport: (format: "docx" | "pdf" | "tex" | "md") => void;
-  onInsertBibliography: (format: CitationFormat) => void;
+  onInsertBibliography: (format: CitationStyleId) => void;
+  citationStyle: CitationStyleId;
+  customStyles: CslStyle[];
+  onUploadStyle: (file: File) => Promise<unknown>;
+  onDeleteStyle: (styleId: string) => Promise<void>;
   saving: boolean;
 }
 
@@ -162,11 +170,18 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
   onInsertItem,
   onExport,
   onInsertBibliography,
+  citationStyle,
+  customStyles,
+  onUploadStyle,
+  onDeleteStyle,
   saving,
 }) => {
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
   const [showExport, setShowExport] = useState(false);
   const [showBib, setShowBib] = useState(false);
+  const [styleUploading, setStyleUploading] = useState(false);
+  const [styleError, setStyleError] = useState<string | null>(null);
+  const styleInputRef = useRef<HTMLInputElement>(null);
   const forceUpdate = useForceUpdate();
 
   // Re-render toolbar on every editor transaction so active states update
@@ -203,6 +218,27 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
 
   if (!editor) return null;
 
+  const handleStyleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setStyleUploading(true);
+    setStyleError(null);
+    try {
+      await onUploadStyle(file);
+    } catch (err) {
+      setStyleError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setStyleUploading(false);
+    }
+  };
+
+  const bibStyleGroups: { label: string; styles: { id: CitationStyleId; label: string; custom?: boolean }[] }[] = [
+    { label: "Built-in", styles: BIB_FORMATS },
+    { label: "Journal styles", styles: BUNDLED_CSL_STYLES.map((s) => ({ id: s.id, label: s.name })) },
+    { label: "Uploaded", styles: customStyles.map((s) => ({ id: s.id, label: s.name, custom: true })) },
+  ];
+
   // ---------- PART 5A: DERIVED STATE ----------
 
   const currentBlockType = editor.isActive("heading", { level: 1 })
@@ -742,21 +778,61 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
           <ChevronDown className="w-3 h-3" />
         </button>
         {showBib && (
-          <div className="absolute right-0 top-full mt-1 w-44 bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg z-[60] overflow-hidden">
-            {BIB_FORMATS.map((fmt, i) => (
-              <button
-                key={fmt.id}
-                onClick={() => {
-                  onInsertBibliography(fmt.id);
-                  setShowBib(false);
-                }}
-                className={`w-full px-4 py-2.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors ${
-                  i === 0 ? "rounded-t-xl" : ""
-                } ${i === BIB_FORMATS.length - 1 ? "rounded-b-xl" : ""}`}
-              >
-                {fmt.label}
-              </button>
-            ))}
+          <div className="absolute right-0 top-full mt-1 w-60 max-h-96 overflow-y-auto bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg z-[60] py-1">
+            {bibStyleGroups
+              .filter((group) => group.styles.length > 0)
+              .map((group) => (
+                <div key={group.label}>
+                  <p className="px-4 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">
+                    {group.label}
+                  </p>
+                  {group.styles.map((style) => (
+                    <div key={style.id} className="group flex items-center">
+                      <button
+                        onClick={() => {
+                          onInsertBibliography(style.id);
+                          setShowBib(false);
+                        }}
+                        className="flex-1 flex items-center gap-2 px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors truncate"
+                        title={style.label}
+                      >
+                        <span className="w-3.5 shrink-0">
+                          {citationStyle === style.id && <Check className="w-3.5 h-3.5 text-[#007AFF]" />}
+                        </span>
+                        <span className="truncate">{style.label}</span>
+                      </button>
+                      {style.custom && (
+                        <button
+                          onClick={() => onDeleteStyle(style.id)}
+                          className="p-1.5 mr-2 rounded-md text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Remove style"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            <div className="h-px bg-gray-100 dark:bg-gray-800 my-1" />
+            <button
+              onClick={() => styleInputRef.current?.click()}
+              disabled={styleUploading}
+              className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm text-[#007AFF] hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {styleUploading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+              Upload .csl style…
+            </button>
+            {styleError && (
+              <p className="px-4 pb-2 text-xs text-red-500">{styleError}</p>
+            )}
+            <input
+              ref={styleInputRef}
+              type="file"
+              accept=".csl,application/xml,text/xml"
+              className="hidden"
+              onChange={handleStyleFile}
+            />
           </div>
         )}
       </div>
@@ -7,7 +7,7 @@
 // ============================================
 
 import React, { useState, useMemo } from "react";
-import { X, Search, FileText, Globe, PenTool, Zap } from "lucide-react";
+import { X, Search, FileText, Globe, PenTool, Zap, Quote, Check } from "lucide-react";
 import { Editor } from "@tiptap/react";
 import type { StorageItem } from "../../../services/storageService";
 
@@ -21,9 +21,10 @@ interface ItemImportDrawerProps {
   items: StorageItem[];
   loading: boolean;
   editor: Editor | null;
-  onItemInserted?: (itemId: string) => void;
 }
 
+type LocatorLabel = "page" | "chapter";
+
 // ============================================
 // PART 3: HELPERS
 // ============================================
@@ -75,9 +76,13 @@ const buildInsertContent = (item: StorageItem) => {
       text: ` (${item.sourceUrl})`,
     });
   }
-  if (sourceParts.length > 0) {
-    content.push({ type: "paragraph", content: sourceParts });
-  }
+  // In-text citation; its label is rendered by refreshCitationLabels
+  if (sourceParts.length > 0) sourceParts.push({ type: "text", text: " " });
+  sourceParts.push({
+    type: "citation",
+    attrs: { itemIds: [item.id], locator: null, label: "page" },
+  });
+  content.push({ type: "paragraph", content: sourceParts });
 
   // AI Summary
   if (item.aiSummary) {
@@ -90,16 +95,6 @@ const buildInsertContent = (item: StorageItem) => {
     });
   }
 
-  // Citation
-  if (item.citation) {
-    content.push({
-      type: "paragraph",
-      content: [
-        { type: "text", marks: [{ type: "italic" }], text: item.citation },
-      ],
-    });
-  }
-
   // Spacer
   content.push({ type: "paragraph" });
 
@@ -116,9 +111,11 @@ const ItemImportDrawer: React.FC<ItemImportDrawerProps> = ({
   items,
   loading,
   editor,
-  onItemInserted,
 }) => {
   const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [locator, setLocator] = useState("");
+  const [locatorLabel, setLocatorLabel] = useState<LocatorLabel>("page");
 
   const filtered = useMemo(() => {
     if (!search.trim()) return items;
@@ -135,7 +132,28 @@ const ItemImportDrawer: React.FC<ItemImportDrawerProps> = ({
     if (!editor) return;
     const nodes = buildInsertContent(item);
     editor.chain().focus().insertContent(nodes).run();
-    onItemInserted?.(item.id);
+    onClose();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
+    );
+  };
+
+  const handleCite = () => {
+    if (!editor || selectedIds.length === 0) return;
+    editor
+      .chain()
+      .focus()
+      .insertCitation({
+        itemIds: selectedIds,
+        locator: locator.trim() || undefined,
+        label: locatorLabel,
+      })
+      .run();
+    setSelectedIds([]);
+    setLocator("");
     onClose();
   };
 
@@ -195,40 +213,94 @@ const ItemImportDrawer: React.FC<ItemImportDrawerProps> = ({
           ) : (
             filtered.map((item) => {
               const Icon = getSourceIcon(item.deviceSource);
+              const selected = selectedIds.includes(item.id);
               return (
-                <button
+                <div
                   key={item.id}
-                  onClick={() => handleInsert(item)}
-                  className="w-full text-left p-3 rounded-xl border border-gray-100 dark:border-gray-800 hover:border-[#007AFF]/30 hover:bg-[#007AFF]/5 transition-all group"
+                  className={`flex items-start gap-2 p-3 rounded-xl border transition-all group ${
+                    selected
+                      ? "border-[#007AFF]/50 bg-[#007AFF]/5"
+                      : "border-gray-100 dark:border-gray-800 hover:border-[#007AFF]/30 hover:bg-[#007AFF]/5"
+                  }`}
                 >
-                  <div className="flex items-start gap-3">
-                    <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-800 flex items-center justify-center flex-shrink-0 group-hover:bg-[#007AFF]/10">
-                      <Icon className="w-4 h-4 text-gray-400 group-hover:text-[#007AFF]" />
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                        {item.sourceTitle || "Untitled"}
-                      </p>
-                      <p className="text-xs text-gray-500 line-clamp-2 mt-0.5">
-                        {item.text?.slice(0, 120) || item.ocrText?.slice(0, 120) || "No content"}
-                      </p>
-                      <div className="flex items-center gap-2 mt-1.5">
-                        {item.aiSummary && (
-                          <span className="inline-flex items-center gap-0.5 text-[10px] text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 px-1.5 py-0.5 rounded-full">
-                            <Zap className="w-2.5 h-2.5" /> AI Summary
+                  <button
+                    onClick={() => toggleSelected(item.id)}
+                    title={selected ? "Remove from citation" : "Add to citation"}
+                    className={`mt-1.5 w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 transition-colors ${
+                      selected
+                        ? "bg-[#007AFF] border-[#007AFF] text-white"
+                        : "border-gray-300 dark:border-gray-600"
+                    }`}
+                  >
+                    {selected && <Check className="w-3 h-3" />}
+                  </button>
+                  <button
+                    onClick={() => handleInsert(item)}
+                    title="Insert quote with citation"
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-800 flex items-center justify-center flex-shrink-0 group-hover:bg-[#007AFF]/10">
+                        <Icon className="w-4 h-4 text-gray-400 group-hover:text-[#007AFF]" />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {item.sourceTitle || "Untitled"}
+                        </p>
+                        <p className="text-xs text-gray-500 line-clamp-2 mt-0.5">
+                          {item.text?.slice(0, 120) || item.ocrText?.slice(0, 120) || "No content"}
+                        </p>
+                        <div className="flex items-center gap-2 mt-1.5">
+                          {item.aiSummary && (
+                            <span className="inline-flex items-center gap-0.5 text-[10px] text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 px-1.5 py-0.5 rounded-full">
+                              <Zap className="w-2.5 h-2.5" /> AI Summary
+                            </span>
+                          )}
+                          <span className="text-[10px] text-gray-400">
+                            {new Date(item.createdAt).toLocaleDateString()}
                           </span>
-                        )}
-                        <span className="text-[10px] text-gray-400">
-                          {new Date(item.createdAt).toLocaleDateString()}
-                        </span>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </button>
+                  </button>
+                </div>
               );
             })
           )}
         </div>
+
+        {/* Cite selected items */}
+        {selectedIds.length > 0 && (
+          <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={locatorLabel}
+                onChange={(e) => setLocatorLabel(e.target.value as LocatorLabel)}
+                className="px-2 py-2 bg-gray-100 dark:bg-[#2C2C2E] rounded-xl text-sm text-gray-700 dark:text-gray-300 focus:outline-none"
+              >
+                <option value="page">Page</option>
+                <option value="chapter">Chapter</option>
+              </select>
+              <input
+                type="text"
+                value={locator}
+                onChange={(e) => setLocator(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCite();
+                }}
+                placeholder={locatorLabel === "page" ? "e.g. 4 or 12-15 (optional)" : "e.g. 3 (optional)"}
+                className="flex-1 min-w-0 px-3 py-2 bg-gray-100 dark:bg-[#2C2C2E] rounded-xl text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#007AFF]/30"
+              />
+            </div>
+            <button
+              onClick={handleCite}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-[#007AFF] hover:bg-[#0066DD] text-white text-sm font-medium rounded-xl transition-colors"
+            >
+              <Quote className="w-4 h-4" />
+              Cite {selectedIds.length} {selectedIds.length === 1 ? "item" : "items"}
+            </button>
+          </div>
+        )}
       </div>
     </>
   );
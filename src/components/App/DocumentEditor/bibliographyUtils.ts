@@ -7,11 +7,15 @@
 // ============================================
 
 import {
-  CitationFormat,
+  CitationStyleId,
   CitationData,
+  InTextCitation,
   generateCitation,
   extractDomain,
+  getFamilyName,
+  toCslDate,
 } from "../Citations/citationUtils";
+import { isCslStyle, renderCslBibliography } from "../Citations/cslEngine";
 import type { StorageItem } from "../../../services/storageService";
 
 // ============================================
@@ -19,7 +23,7 @@ import type { StorageItem } from "../../../services/storageService";
 // ============================================
 
 export interface BibliographyOptions {
-  format: CitationFormat;
+  format: CitationStyleId;
   items: StorageItem[];
   citedItemIds: string[];
 }
@@ -35,41 +39,86 @@ interface DocContent {
 // PART 3: HELPER FUNCTIONS
 // ============================================
 
+/**
+ * Citation data for an item. Uses the structured `cslData` record when the
+ * item has one; older items without it are cited as web pages with no
+ * author rather than guessing one from the rendered `citation` string.
+ */
 export function buildCitationDataFromItem(item: StorageItem): CitationData {
-  let author = "Unknown Author";
-  if (item.citation) {
-    const match = item.citation.match(/^([^.(]+)/);
-    if (match && match[1].trim() && match[1].trim() !== "Unknown Author") {
-      author = match[1].trim().replace(/,\s*$/, "");
-    }
+  const title = item.sourceTitle || item.text?.slice(0, 80) || "Untitled";
+
+  if (item.cslData) {
+    return {
+      ...item.cslData,
+      id: item.id,
+      title: item.cslData.title || title,
+      author: item.cslData.author || [],
+      URL: item.cslData.URL || item.sourceUrl || undefined,
+      accessed: item.cslData.accessed || toCslDate(new Date().toISOString()),
+    };
   }
 
   return {
-    title: item.sourceTitle || item.text?.slice(0, 80) || "Untitled",
-    author,
-    publishDate: item.createdAt || new Date().toISOString(),
-    accessDate: new Date().toISOString(),
-    url: item.sourceUrl || "",
-    publisher: "",
-    websiteName: item.sourceUrl ? extractDomain(item.sourceUrl) : "",
+    id: item.id,
+    type: "webpage",
+    title,
+    author: [],
+    "container-title": item.sourceUrl ? extractDomain(item.sourceUrl) : undefined,
+    URL: item.sourceUrl || "",
+    accessed: toCslDate(new Date().toISOString()),
   };
 }
 
+/** Citation nodes in document order (see extensions/citation.ts). */
+export function collectCitations(content: Record<string, unknown>): InTextCitation[] {
+  const citations: InTextCitation[] = [];
+  const walk = (node: Record<string, unknown>) => {
+    if (node.type === "citation") {
+      const attrs = (node.attrs || {}) as Record<string, unknown>;
+      citations.push({
+        itemIds: Array.isArray(attrs.itemIds) ? (attrs.itemIds as string[]) : [],
+        locator: (attrs.locator as string) || undefined,
+        label: attrs.label === "chapter" ? "chapter" : "page",
+      });
+    }
+    if (Array.isArray(node.content)) {
+      (node.content as Record<string, unknown>[]).forEach(walk);
+    }
+  };
+  walk(content);
+  return citations;
+}
+
+/** Cited item IDs in first-cited order, derived from the citation nodes. */
+export function collectCitedItemIds(content: Record<string, unknown>): string[] {
+  const ids: string[] = [];
+  for (const citation of collectCitations(content)) {
+    for (const id of citation.itemIds) {
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  return ids;
+}
+
+const sortKey = (data: CitationData) =>
+  (getFamilyName(data.author[0]) || data.title).toLowerCase();
+
+const inCitationOrder = (items: StorageItem[], citedItemIds: string[]) =>
+  citedItemIds
+    .map((id) => items.find((i) => i.id === id))
+    .filter((i): i is StorageItem => i !== undefined);
+
 function sortCitations(
   items: StorageItem[],
-  format: CitationFormat,
+  format: CitationStyleId,
   citedItemIds: string[],
 ): StorageItem[] {
-  if (format === "ieee") {
-    return citedItemIds
-      .map((id) => items.find((i) => i.id === id))
-      .filter((i): i is StorageItem => i !== undefined);
-  }
+  if (format === "ieee") return inCitationOrder(items, citedItemIds);
 
   return [...items].sort((a, b) => {
-    const authorA = buildCitationDataFromItem(a).author.toLowerCase();
-    const authorB = buildCitationDataFromItem(b).author.toLowerCase();
-    return authorA.localeCompare(authorB);
+    const keyA = sortKey(buildCitationDataFromItem(a));
+    const keyB = sortKey(buildCitationDataFromItem(b));
+    return keyA.localeCompare(keyB);
   });
 }
 
@@ -85,26 +134,30 @@ export function generateBibliographyNodes(
   const citedItems = items.filter((item) => citedItemIds.includes(item.id));
   if (citedItems.length === 0) return [];
 
-  const sorted = sortCitations(citedItems, format, citedItemIds);
-
-  const citationParagraphs = sorted.map((item, index) => {
-    const data = buildCitationDataFromItem(item);
-    const citationText =
-      format === "ieee"
-        ? `[${index + 1}] ${generateCitation(data, format)}`
-        : generateCitation(data, format);
-
-    return {
-      type: "paragraph",
-      attrs: { indent: 1 },
-      content: [
-        {
-          type: "text",
-          text: citationText,
-        },
-      ],
-    };
-  });
+  // CSL styles sort (and number) entries themselves; numeric styles number
+  // in the order items are passed, i.e. first-cited order.
+  const citationTexts = isCslStyle(format)
+    ? renderCslBibliography(
+        format,
+        inCitationOrder(citedItems, citedItemIds).map(buildCitationDataFromItem),
+      )
+    : sortCitations(citedItems, format, citedItemIds).map((item, index) => {
+        const data = buildCitationDataFromItem(item);
+        return format === "ieee"
+          ? `[${index + 1}] ${generateCitation(data, format)}`
+          : generateCitation(data, format);
+      });
+
+  const citationParagraphs = citationTexts.map((citationText) => ({
+    type: "paragraph",
+    attrs: { indent: 1 },
+    content: [
+      {
+        type: "text",
+        text: citationText,
+      },
+    ],
+  }));
 
   return [
     { type: "horizontalRule" },
@@ -167,6 +220,21 @@ export function insertBibliography(
   };
 }
 
+/** Appends nodes to the document body, keeping any bibliography last. */
+export function insertBeforeBibliography(
+  content: Record<string, unknown>,
+  nodes: Record<string, unknown>[],
+): Record<string, unknown> {
+  const doc = content as unknown as DocContent;
+  const all = Array.isArray(doc.content) ? doc.content : [];
+  const body = (removeBibliographyFromDoc(content) as unknown as DocContent).content || [];
+
+  return {
+    ...doc,
+    content: [...body, ...nodes, ...all.slice(body.length)],
+  };
+}
+
 // ============================================
 // PART 5: EXPORTS
 // ============================================
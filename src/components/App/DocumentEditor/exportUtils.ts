@@ -68,6 +68,15 @@ function mapHighlightColor(hex: string): DocxHighlight {
 }
 
 function extractTextRuns(node: TiptapNode): TextRun[] {
+  if (node.type === "citation") {
+    return [
+      new TextRun({
+        text: (node.attrs?.text as string) || "",
+        superScript: Boolean(node.attrs?.superscript),
+      }),
+    ];
+  }
+
   if (node.text) {
     const marks = node.marks || [];
     const bold = marks.some((m) => m.type === "bold");
@@ -366,6 +375,11 @@ function nodeToMarkdown(node: TiptapNode, depth = 0): string {
     case "hardBreak":
       return "  \n";
 
+    case "citation": {
+      const text = (node.attrs?.text as string) || "";
+      return node.attrs?.superscript ? `<sup>${text}</sup>` : text;
+    }
+
     default:
       return (node.content || []).map((c) => nodeToMarkdown(c, depth)).join("");
   }
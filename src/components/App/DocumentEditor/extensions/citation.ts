@@ -0,0 +1,178 @@
+// ============================================
+// CITATION - Custom Tiptap Node
+// ============================================
+// Inline, atomic in-text citation that references one or more library
+// items plus an optional locator. The rendered label ("(Smith, 2020, p. 4)",
+// "[3]") is stored in `text` so exports and read-only views need no
+// lookups; `refreshCitationLabels` keeps it in sync with the style.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { Editor } from "@tiptap/core";
+import {
+  CitationData,
+  CitationStyleId,
+  InTextCitation,
+  renderInTextCitations,
+} from "../../Citations/citationUtils";
+
+// ============================================
+// PART 2: TYPE DECLARATIONS
+// ============================================
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    citation: {
+      insertCitation: (citation: InTextCitation) => ReturnType;
+    };
+  }
+}
+
+// ============================================
+// PART 3: EXTENSION
+// ============================================
+
+const Citation = Node.create({
+  name: "citation",
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      itemIds: {
+        default: [],
+        parseHTML: (element) =>
+          (element.getAttribute("data-item-ids") || "").split(",").filter(Boolean),
+        renderHTML: (attributes) => ({
+          "data-item-ids": (attributes.itemIds as string[]).join(","),
+        }),
+      },
+      locator: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-locator"),
+        renderHTML: (attributes) =>
+          attributes.locator ? { "data-locator": attributes.locator } : {},
+      },
+      label: {
+        default: "page",
+        parseHTML: (element) => element.getAttribute("data-label") || "page",
+        renderHTML: (attributes) => ({ "data-label": attributes.label }),
+      },
+      text: {
+        default: "",
+        parseHTML: (element) => element.textContent || "",
+        renderHTML: () => ({}),
+      },
+      superscript: {
+        default: false,
+        parseHTML: (element) => element.tagName.toLowerCase() === "sup",
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-citation]" }, { tag: "sup[data-citation]" }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      node.attrs.superscript ? "sup" : "span",
+      mergeAttributes(HTMLAttributes, {
+        "data-citation": "",
+        class:
+          "rounded px-0.5 text-[#007AFF] bg-[#007AFF]/10 cursor-default whitespace-nowrap",
+      }),
+      node.attrs.text || "(…)",
+    ];
+  },
+
+  renderText({ node }) {
+    return node.attrs.text || "";
+  },
+
+  addCommands() {
+    return {
+      insertCitation:
+        (citation) =>
+        ({ commands }) =>
+          commands.insertContent({
+            type: this.name,
+            attrs: {
+              itemIds: citation.itemIds,
+              locator: citation.locator || null,
+              label: citation.label || "page",
+            },
+          }),
+    };
+  },
+});
+
+// ============================================
+// PART 4: LABEL RENDERING
+// ============================================
+
+// Last rendered state per editor, so typing elsewhere skips the re-render
+const lastRender = new WeakMap<
+  Editor,
+  { itemsById: Map<string, CitationData>; signature: string }
+>();
+
+/**
+ * Re-renders every citation label for the current style. Runs as a
+ * non-undoable transaction and only dispatches when a label changed.
+ */
+export function refreshCitationLabels(
+  editor: Editor,
+  itemsById: Map<string, CitationData>,
+  style: CitationStyleId,
+): void {
+  const found: { pos: number; attrs: Record<string, unknown> }[] = [];
+  editor.state.doc.descendants((node, pos) => {
+    if (node.type.name === "citation") found.push({ pos, attrs: node.attrs });
+  });
+  if (found.length === 0) return;
+
+  const signature = JSON.stringify([
+    style,
+    found.map(({ attrs }) => [attrs.itemIds, attrs.locator, attrs.label, attrs.text, attrs.superscript]),
+  ]);
+  const last = lastRender.get(editor);
+  if (last && last.itemsById === itemsById && last.signature === signature) return;
+
+  const rendered = renderInTextCitations(
+    found.map(({ attrs }) => ({
+      itemIds: attrs.itemIds as string[],
+      locator: (attrs.locator as string) || undefined,
+      label: attrs.label === "chapter" ? "chapter" : "page",
+    })),
+    itemsById,
+    style,
+  );
+
+  const tr = editor.state.tr;
+  found.forEach(({ pos, attrs }, i) => {
+    const { text, superscript } = rendered[i];
+    if (attrs.text !== text || attrs.superscript !== superscript) {
+      tr.setNodeMarkup(pos, undefined, { ...attrs, text, superscript });
+    }
+  });
+
+  if (tr.docChanged) {
+    tr.setMeta("addToHistory", false);
+    editor.view.dispatch(tr);
+    return; // the resulting update re-enters once and records the signature
+  }
+  lastRender.set(editor, { itemsById, signature });
+}
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default Citation;
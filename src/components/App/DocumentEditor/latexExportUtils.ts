@@ -8,8 +8,9 @@
 
 import { saveAs } from "file-saver";
 import {
-  CitationFormat,
+  CitationStyleId,
   generateCitation,
+  generateCitationKey,
 } from "../Citations/citationUtils";
 import { buildCitationDataFromItem } from "./bibliographyUtils";
 import type { StorageItem } from "../../../services/storageService";
@@ -79,6 +80,11 @@ function marksToLatex(text: string, marks: TiptapMark[]): string {
 }
 
 function extractLatexText(node: TiptapNode): string {
+  if (node.type === "citation") {
+    const text = escapeLatex((node.attrs?.text as string) || "");
+    return node.attrs?.superscript ? `\\textsuperscript{${text}}` : text;
+  }
+
   if (node.text) {
     return node.marks?.length
       ? marksToLatex(node.text, node.marks)
@@ -166,7 +172,7 @@ function nodeToLatex(node: TiptapNode): string {
 function buildBibliographyLatex(
   citedItemIds: string[],
   items: StorageItem[],
-  format: CitationFormat,
+  format: CitationStyleId,
 ): string {
   const citedItems = items.filter((i) => citedItemIds.includes(i.id));
   if (citedItems.length === 0) return "";
@@ -179,9 +185,7 @@ function buildBibliographyLatex(
     }
 
     const citation = generateCitation(data, format);
-    const key =
-      data.title.split(" ")[0]?.toLowerCase().replace(/[^a-z]/g, "") ||
-      `ref${index}`;
+    const key = generateCitationKey(data) || `ref${index}`;
     return `  \\bibitem{${key}} ${escapeLatex(citation)}`;
   });
 
@@ -208,7 +212,7 @@ export function exportToLatex(
   title: string,
   citedItemIds: string[],
   items: StorageItem[],
-  bibFormat: CitationFormat,
+  bibFormat: CitationStyleId,
 ): void {
   const doc = json as unknown as TiptapNode;
   const nodes = doc.content || [];
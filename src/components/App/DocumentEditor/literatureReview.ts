@@ -0,0 +1,200 @@
+// ============================================
+// literatureReview.ts - Synthesized Review → Editor Document
+// ============================================
+// Converts the markdown literature review returned by the synthesis API
+// into Tiptap JSON. Inline [[item:<id>]] markers become citation nodes
+// (labels rendered in the document's style) and a bibliography of the
+// cited items is appended, so the review opens ready to edit and export.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import type { StorageItem } from "../../../services/storageService";
+import {
+  CitationData,
+  CitationStyleId,
+  renderInTextCitations,
+} from "../Citations/citationUtils";
+import {
+  buildCitationDataFromItem,
+  collectCitations,
+  collectCitedItemIds,
+  generateBibliographyNodes,
+  insertBibliography,
+} from "./bibliographyUtils";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+type DocNode = Record<string, unknown>;
+
+export interface LiteratureReviewDocument {
+  /** The review's own `# ` title, if it has one. */
+  title: string | null;
+  content: DocNode;
+}
+
+// ============================================
+// PART 3: INLINE PARSING
+// ============================================
+
+// Same tolerant pattern as chat citations: models sometimes drop a bracket
+// or group several IDs in one marker.
+const ITEM_CITATION = /\[\[?((?:\s*,?\s*item:\s*[\w-]+)+)\s*\]\]?/g;
+const EMPHASIS = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*)/g;
+
+const textNodes = (text: string): DocNode[] =>
+  text
+    .split(EMPHASIS)
+    .filter(Boolean)
+    .map((part) => {
+      if (part.startsWith("**") && part.endsWith("**")) {
+        return { type: "text", text: part.slice(2, -2), marks: [{ type: "bold" }] };
+      }
+      if (part.length > 2 && part.startsWith("*") && part.endsWith("*")) {
+        return { type: "text", text: part.slice(1, -1), marks: [{ type: "italic" }] };
+      }
+      return { type: "text", text: part };
+    });
+
+/** Text and citation nodes for one line; IDs outside `known` are dropped. */
+function inlineNodes(line: string, known: Set<string>): DocNode[] {
+  const nodes: DocNode[] = [];
+  let last = 0;
+
+  for (const match of line.matchAll(ITEM_CITATION)) {
+    const before = line.slice(last, match.index);
+    last = (match.index ?? 0) + match[0].length;
+    const itemIds = Array.from(match[1].matchAll(/item:\s*([\w-]+)/g), (m) => m[1]).filter(
+      (id, i, all) => known.has(id) && all.indexOf(id) === i,
+    );
+
+    if (itemIds.length === 0) {
+      nodes.push(...textNodes(before.replace(/\s+$/, "")));
+      continue;
+    }
+    nodes.push(...textNodes(before.endsWith(" ") || !before ? before : `${before} `));
+    nodes.push({
+      type: "citation",
+      attrs: { itemIds, locator: null, label: "page", text: "", superscript: false },
+    });
+  }
+  nodes.push(...textNodes(line.slice(last)));
+
+  return nodes.filter((node) => node.type !== "text" || node.text);
+}
+
+// ============================================
+// PART 4: BLOCK PARSING
+// ============================================
+
+const paragraph = (line: string, known: Set<string>): DocNode => {
+  const content = inlineNodes(line, known);
+  return content.length > 0 ? { type: "paragraph", content } : { type: "paragraph" };
+};
+
+function blockNodes(markdown: string, known: Set<string>): { title: string | null; nodes: DocNode[] } {
+  const nodes: DocNode[] = [];
+  let title: string | null = null;
+  let paragraphLines: string[] = [];
+  let list: { type: "bulletList" | "orderedList"; items: DocNode[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraphLines.length > 0) nodes.push(paragraph(paragraphLines.join(" "), known));
+    paragraphLines = [];
+  };
+  const flushList = () => {
+    if (list) nodes.push({ type: list.type, content: list.items });
+    list = null;
+  };
+
+  for (const raw of markdown.split("\n")) {
+    const line = raw.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      flushParagraph();
+      flushList();
+    } else if (heading) {
+      flushParagraph();
+      flushList();
+      const text = heading[2].replace(/\*\*/g, "").trim();
+      if (heading[1].length === 1 && title === null && nodes.length === 0) {
+        title = text;
+      } else {
+        nodes.push({
+          type: "heading",
+          attrs: { level: Math.min(Math.max(heading[1].length, 2), 3) },
+          content: inlineNodes(text, known),
+        });
+      }
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const type = bullet ? "bulletList" : "orderedList";
+      if (list?.type !== type) flushList();
+      list ??= { type, items: [] };
+      list.items.push({ type: "listItem", content: [paragraph((bullet || numbered)![1], known)] });
+    } else {
+      flushList();
+      paragraphLines.push(line);
+    }
+  }
+  flushParagraph();
+  flushList();
+
+  return { title, nodes };
+}
+
+// ============================================
+// PART 5: MAIN FUNCTION
+// ============================================
+
+/**
+ * Editor content for a synthesized literature review: headings, paragraphs
+ * and lists, citation nodes for the cited items and a bibliography of them
+ * in `style`.
+ */
+export function buildLiteratureReviewDocument(
+  markdown: string,
+  items: StorageItem[],
+  style: CitationStyleId,
+): LiteratureReviewDocument {
+  const known = new Set(items.map((item) => item.id));
+  const { title, nodes } = blockNodes(markdown, known);
+  const doc: DocNode = {
+    type: "doc",
+    content: nodes.length > 0 ? nodes : [{ type: "paragraph" }],
+  };
+
+  // Render citation labels in document order (numbered styles depend on it)
+  const itemsById = new Map<string, CitationData>(
+    items.map((item) => [item.id, buildCitationDataFromItem(item)]),
+  );
+  const rendered = renderInTextCitations(collectCitations(doc), itemsById, style);
+  let index = 0;
+  const label = (node: DocNode) => {
+    if (node.type === "citation") {
+      node.attrs = { ...(node.attrs as DocNode), ...rendered[index++] };
+    }
+    if (Array.isArray(node.content)) (node.content as DocNode[]).forEach(label);
+  };
+  label(doc);
+
+  const bibliography = generateBibliographyNodes({
+    format: style,
+    items,
+    citedItemIds: collectCitedItemIds(doc),
+  });
+
+  return { title, content: insertBibliography(doc, bibliography) };
+}
+
+// ============================================
+// PART 6: EXPORTS
+// ============================================
+
+export default buildLiteratureReviewDocument;
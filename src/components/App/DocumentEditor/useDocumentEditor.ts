@@ -7,6 +7,7 @@
 // ============================================
 
 import { useState, useEffect, useRef, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import {
   getDocuments,
   getDocument,
@@ -16,6 +17,13 @@ import {
   Document,
 } from "../../../services/documentService";
 import { getAllItems, StorageItem } from "../../../services/storageService";
+import {
+  loadCustomCitationStyles,
+  uploadCitationStyle,
+  deleteCitationStyle,
+} from "../../../services/citationStyleService";
+import type { CslStyle } from "../Citations/cslEngine";
+import { collectCitedItemIds } from "./bibliographyUtils";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -44,7 +52,13 @@ export interface UseDocumentEditorReturn {
 
   // Bibliography
   citedItemIds: string[];
-  handleItemInserted: (itemId: string) => void;
+
+  // Citation style (persisted per document)
+  citationStyle: string;
+  customStyles: CslStyle[];
+  handleCitationStyleChange: (styleId: string) => Promise<void>;
+  handleUploadStyle: (file: File) => Promise<CslStyle>;
+  handleDeleteStyle: (styleId: string) => Promise<void>;
 }
 
 // ============================================
@@ -52,6 +66,26 @@ export interface UseDocumentEditorReturn {
 // ============================================
 
 const AUTOSAVE_DELAY = 2000;
+const DEFAULT_CITATION_STYLE = "apa";
+
+/**
+ * Documents written before citation nodes existed only have a stored
+ * `citedItemIds` list. It is used (and re-saved) until the first citation
+ * node is inserted; from then on cited items come from the nodes alone.
+ */
+const legacyCitedItemIds = (content: Record<string, unknown>): string[] => {
+  if (collectCitedItemIds(content).length > 0) return [];
+  const legacy = content?.citedItemIds;
+  return Array.isArray(legacy) ? (legacy as string[]) : [];
+};
+
+const deriveCitedItemIds = (content: Record<string, unknown>, legacy: string[]) => {
+  const fromNodes = collectCitedItemIds(content);
+  return fromNodes.length > 0 ? fromNodes : legacy;
+};
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, i) => id === b[i]);
 
 // ============================================
 // PART 4: HOOK
@@ -59,6 +93,9 @@ const AUTOSAVE_DELAY = 2000;
 
 const useDocumentEditor = (): UseDocumentEditorReturn => {
   // ---------- PART 4A: STATE ----------
+  const [searchParams] = useSearchParams();
+  const requestedDocId = searchParams.get("doc");
+
   const [documents, setDocuments] = useState<Document[]>([]);
   const [currentDoc, setCurrentDoc] = useState<Document | null>(null);
   const [loading, setLoading] = useState(true);
@@ -66,12 +103,16 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
 
   // Item import
   const [dashboardItems, setDashboardItems] = useState<StorageItem[]>([]);
-  const [itemsLoading, setItemsLoading] = useState(false);
+  const [itemsLoading, setItemsLoading] = useState(true);
   const [showImportDrawer, setShowImportDrawer] = useState(false);
 
-  // Bibliography — cited item IDs stored in content JSON
+  // Bibliography — cited item IDs derived from citation nodes
   const [citedItemIds, setCitedItemIds] = useState<string[]>([]);
   const citedItemIdsRef = useRef<string[]>([]);
+  const legacyCitedIdsRef = useRef<string[]>([]);
+
+  // Uploaded CSL styles (bundled ones are always registered)
+  const [customStyles, setCustomStyles] = useState<CslStyle[]>([]);
 
   // Autosave
   const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -79,16 +120,18 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
 
   // ---------- PART 4B: EFFECTS ----------
 
-  // Load documents on mount
+  // Load documents on mount; `?doc=<id>` (e.g. a freshly synthesized
+  // review) opens that document instead of the most recent one
   useEffect(() => {
     const load = async () => {
       try {
         const docs = await getDocuments();
         setDocuments(docs);
-        if (docs.length > 0) {
-          setCurrentDoc(docs[0]);
-          const ids = (docs[0].content as Record<string, unknown>)?.citedItemIds;
-          const parsed = Array.isArray(ids) ? (ids as string[]) : [];
+        const initial = docs.find((d) => d.id === requestedDocId) ?? docs[0];
+        if (initial) {
+          setCurrentDoc(initial);
+          legacyCitedIdsRef.current = legacyCitedItemIds(initial.content);
+          const parsed = deriveCitedItemIds(initial.content, legacyCitedIdsRef.current);
           setCitedItemIds(parsed);
           citedItemIdsRef.current = parsed;
         }
@@ -101,14 +144,29 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
     load();
   }, []);
 
-  // Load dashboard items when import drawer opens
+  // Register the user's uploaded styles with the CSL engine
   useEffect(() => {
-    if (!showImportDrawer) return;
+    loadCustomCitationStyles()
+      .then(setCustomStyles)
+      .catch((err) => console.error("Failed to load citation styles:", err));
+  }, []);
+
+  // Load dashboard items on mount (citation labels need them) and refresh
+  // them whenever the import drawer opens
+  const loadDashboardItems = useCallback(() => {
     setItemsLoading(true);
     getAllItems(500)
       .then(setDashboardItems)
       .finally(() => setItemsLoading(false));
-  }, [showImportDrawer]);
+  }, []);
+
+  useEffect(() => {
+    loadDashboardItems();
+  }, [loadDashboardItems]);
+
+  useEffect(() => {
+    if (showImportDrawer) loadDashboardItems();
+  }, [showImportDrawer, loadDashboardItems]);
 
   // Cleanup autosave on unmount
   useEffect(() => {
@@ -123,20 +181,19 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
 
   // ---------- PART 4C: HANDLERS ----------
 
-  const handleItemInserted = useCallback((itemId: string) => {
-    setCitedItemIds((prev) => {
-      if (prev.includes(itemId)) return prev;
-      const updated = [...prev, itemId];
-      citedItemIdsRef.current = updated;
-      return updated;
-    });
-  }, []);
-
   const handleContentChange = useCallback(
     (content: Record<string, unknown>) => {
       if (!currentDoc) return;
-      const contentWithCited = { ...content, citedItemIds: citedItemIdsRef.current };
-      pendingContent.current = contentWithCited;
+      const fromNodes = collectCitedItemIds(content);
+      if (fromNodes.length > 0) legacyCitedIdsRef.current = [];
+      const derived = deriveCitedItemIds(content, legacyCitedIdsRef.current);
+      if (!sameIds(derived, citedItemIdsRef.current)) {
+        citedItemIdsRef.current = derived;
+        setCitedItemIds(derived);
+      }
+      pendingContent.current = legacyCitedIdsRef.current.length > 0
+        ? { ...content, citedItemIds: legacyCitedIdsRef.current }
+        : content;
 
       if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
       autosaveTimer.current = setTimeout(async () => {
@@ -173,6 +230,9 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
       const doc = await createDocument(title);
       setDocuments((prev) => [doc, ...prev]);
       setCurrentDoc(doc);
+      legacyCitedIdsRef.current = [];
+      citedItemIdsRef.current = [];
+      setCitedItemIds([]);
     } catch (err) {
       console.error("Failed to create document:", err);
     }
@@ -192,8 +252,8 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
       const doc = await getDocument(id);
       if (doc) {
         setCurrentDoc(doc);
-        const ids = (doc.content as Record<string, unknown>)?.citedItemIds;
-        const parsed = Array.isArray(ids) ? (ids as string[]) : [];
+        legacyCitedIdsRef.current = legacyCitedItemIds(doc.content);
+        const parsed = deriveCitedItemIds(doc.content, legacyCitedIdsRef.current);
         setCitedItemIds(parsed);
         citedItemIdsRef.current = parsed;
       }
@@ -201,6 +261,40 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
     [currentDoc]
   );
 
+  const handleCitationStyleChange = useCallback(
+    async (styleId: string) => {
+      if (!currentDoc || currentDoc.citationStyle === styleId) return;
+      const id = currentDoc.id;
+      setCurrentDoc((prev) => (prev ? { ...prev, citationStyle: styleId } : prev));
+      setDocuments((prev) =>
+        prev.map((d) => (d.id === id ? { ...d, citationStyle: styleId } : d))
+      );
+      try {
+        await updateDocument(id, { citationStyle: styleId });
+      } catch (err) {
+        console.error("Failed to save citation style:", err);
+      }
+    },
+    [currentDoc]
+  );
+
+  const handleUploadStyle = useCallback(async (file: File) => {
+    const style = await uploadCitationStyle(file);
+    setCustomStyles((prev) => [...prev, style]);
+    return style;
+  }, []);
+
+  const handleDeleteStyle = useCallback(
+    async (styleId: string) => {
+      await deleteCitationStyle(styleId);
+      setCustomStyles((prev) => prev.filter((s) => s.id !== styleId));
+      if (currentDoc?.citationStyle === styleId) {
+        await handleCitationStyleChange(DEFAULT_CITATION_STYLE);
+      }
+    },
+    [currentDoc, handleCitationStyleChange]
+  );
+
   const handleRenameDocument = useCallback(
     async (id: string, title: string) => {
       await updateDocument(id, { title });
@@ -262,7 +356,11 @@ const useDocumentEditor = (): UseDocumentEditorReturn => {
     showImportDrawer,
     setShowImportDrawer,
     citedItemIds,
-    handleItemInserted,
+    citationStyle: currentDoc?.citationStyle || DEFAULT_CITATION_STYLE,
+    customStyles,
+    handleCitationStyleChange,
+    handleUploadStyle,
+    handleDeleteStyle,
   };
 };
 
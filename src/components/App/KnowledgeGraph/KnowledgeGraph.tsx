@@ -1,84 +1,157 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+// ============================================
+// KnowledgeGraph.tsx - Force graph of the user's research library
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import ForceGraph2D, { ForceGraphMethods } from "react-force-graph-2d";
 import { useTheme } from "../../../context/ThemeContext";
 import { motion, AnimatePresence } from "motion/react";
+import { Loader2, SlidersHorizontal } from "lucide-react";
 import * as d3 from "d3";
+import {
+  getAllItems,
+  getItemCount,
+  updateItem,
+  deleteItem,
+  StorageItem,
+} from "../../../services/storageService";
+import {
+  getAllCollections,
+  addItemToCollection,
+  Collection,
+} from "../../../services/collectionsService";
+import { extractInsights, generateItemSummary } from "../../../services/geminiService";
+import { generateMarkdownTemplate } from "../../../utils/markdownGenerator";
+import ConfirmDialog from "../../shared/ConfirmDialog";
+import ItemDetailModal from "../Dashboard/ItemDetailModal";
+import CollectionPickerModal from "../Dashboard/CollectionPickerModal";
+import {
+  buildKnowledgeGraph,
+  DEFAULT_BUILD_OPTIONS,
+  EDGE_TYPE_LABELS,
+  EdgeType,
+  GraphBuildOptions,
+  GraphLink,
+  GraphNode,
+} from "./graphBuilder";
 
-// --- Types ---
-interface GraphNode {
-  id: string;
-  name: string;
-  group: number;
-  val: number; // size
-  x?: number;
-  y?: number;
-}
+// ============================================
+// PART 2: TYPE DEFINITIONS & CONSTANTS
+// ============================================
 
-interface GraphLink {
-  source: string;
-  target: string;
+interface KnowledgeGraphProps {
+  useToast?: () => {
+    showToast: (msg: string, type: "success" | "error" | "info") => void;
+  };
 }
 
-// --- Mock Data ---
-const MOCK_DATA = {
-  nodes: [
-    { id: "1", name: "(PDF) Extending the self through AI-mediated communication: functional, ontological, and anthropomorphic extensions", group: 1, val: 20 },
-    { id: "2", name: "Notions of explainability and evaluation approaches for explainable artificial intelligence - ScienceDirect", group: 1, val: 15 },
-    { id: "3", name: "Start the first chapter of Harry Potter online now - Starting Harry Potter", group: 2, val: 15 },
-    { id: "4", name: "A Review of Artificial Intelligence (AI) in Education from 2010 to 2020 - Zhai - 2021 - Complexity - Wiley Online Library", group: 1, val: 18 },
-    { id: "5", name: "Zenobia - Wikipedia", group: 2, val: 12 },
-    { id: "6", name: "Breaking the Family Silence on Alcoholism - Longreads", group: 3, val: 14 },
-    { id: "7", name: "Phantom Pains (pinned) - The Georgia Review", group: 3, val: 12 },
-    { id: "8", name: "View of Role of AI in Education", group: 1, val: 16 },
-    { id: "9", name: "Artificial Intelligence-assisted academic writing: recommendations for ethical use - PubMed", group: 1, val: 17 },
-    { id: "10", name: "[2310.17143] Techniques for evaluating generative AI", group: 1, val: 19 },
-    { id: "11", name: "ResearchGate - Wikipedia", group: 4, val: 13 },
-  ],
-  links: [
-    { source: "1", target: "2" },
-    { source: "1", target: "4" },
-    { source: "1", target: "8" },
-    { source: "2", target: "4" },
-    { source: "4", target: "8" },
-    { source: "4", target: "9" },
-    { source: "9", target: "10" },
-    { source: "2", target: "10" },
-    { source: "3", target: "5" },
-    { source: "6", target: "7" },
-    { source: "1", target: "11" },
-    { source: "9", target: "11" },
-    { source: "1", target: "3" }, // Cross-domain weak links
-    { source: "6", target: "1" },
-  ]
+// Graphs above this size get slow to simulate on the canvas.
+const MAX_GRAPH_ITEMS = 500;
+
+const EDGE_TYPE_COLORS: Record<EdgeType, string> = {
+  tag: "#007AFF",
+  collection: "#AF52DE",
+  citation: "#FF9500",
+  domain: "#34C759",
 };
 
-// --- Helper functions ---
+const noopToast = () => ({ showToast: () => {} });
+
+// ============================================
+// PART 3: HELPER FUNCTIONS
+// ============================================
+
 const truncateText = (text: string, maxLen: number) => {
   if (text.length <= maxLen) return text;
   return text.slice(0, maxLen) + "...";
 };
 
-// Map group to color
-const getGroupColor = (group: number, isDark: boolean) => {
-  const colors = [
-    isDark ? "#3B82F6" : "#2563EB", // Blue
-    isDark ? "#10B981" : "#059669", // Green
-    isDark ? "#F59E0B" : "#D97706", // Orange
-    isDark ? "#8B5CF6" : "#6D28D9", // Purple
-    isDark ? "#EF4444" : "#DC2626", // Red
-  ];
-  return colors[(group - 1) % colors.length];
+// Links of several types take the colour of the first (strongest signal wins).
+const getLinkColor = (link: GraphLink, isDark: boolean) => {
+  const base = EDGE_TYPE_COLORS[link.types[0]] || (isDark ? "#FFFFFF" : "#000000");
+  return `${base}${isDark ? "55" : "40"}`;
 };
 
-export const KnowledgeGraph: React.FC = () => {
-  const fgRef = useRef<ForceGraphMethods>();
+// ============================================
+// PART 4: MAIN COMPONENT
+// ============================================
+
+export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ useToast = noopToast }) => {
+  const { showToast } = useToast();
+  const fgRef = useRef<ForceGraphMethods | undefined>(undefined);
   const containerRef = useRef<HTMLDivElement>(null);
   const { theme } = useTheme();
   const isDark = theme === "dark";
-  
+
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [hoverNode, setHoverNode] = useState<GraphNode | null>(null);
 
+  // ---------- PART 4A: LIBRARY DATA ----------
+  const [items, setItems] = useState<StorageItem[]>([]);
+  const [totalItems, setTotalItems] = useState(0);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [options, setOptions] = useState<GraphBuildOptions>(DEFAULT_BUILD_OPTIONS);
+
+  // ---------- PART 4B: MODAL STATE ----------
+  const [selectedItem, setSelectedItem] = useState<StorageItem | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isSummarizingItem, setIsSummarizingItem] = useState(false);
+  const [isExtractingInsights, setIsExtractingInsights] = useState(false);
+  const [showCollectionModal, setShowCollectionModal] = useState(false);
+  const [confirmDialog, setConfirmDialog] = useState<{
+    isOpen: boolean;
+    itemId: string | null;
+    isDeleting: boolean;
+  }>({ isOpen: false, itemId: null, isDeleting: false });
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [libraryItems, libraryCount, libraryCollections] = await Promise.all([
+          getAllItems(MAX_GRAPH_ITEMS, 0),
+          getItemCount(),
+          getAllCollections(),
+        ]);
+        if (cancelled) return;
+        setItems(libraryItems);
+        setTotalItems(Math.max(libraryCount, libraryItems.length));
+        setCollections(libraryCollections);
+      } catch (error) {
+        console.error("Failed to load knowledge graph:", error);
+        if (!cancelled) showToast("Failed to load your library", "error");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const graph = useMemo(
+    () => buildKnowledgeGraph(items, collections, options),
+    [items, collections, options],
+  );
+
+  // react-force-graph mutates link source/target into node objects, so the
+  // component gets its own copy every time the graph is rebuilt.
+  const graphData = useMemo(
+    () => ({ nodes: graph.nodes, links: graph.links.map((l) => ({ ...l })) }),
+    [graph],
+  );
+
+  const usedCollections = useMemo(
+    () => collections.filter((c) => graph.nodes.some((n) => n.collectionId === c.id)),
+    [collections, graph.nodes],
+  );
+
   // Resize observer
   useEffect(() => {
     if (!containerRef.current) return;
@@ -90,20 +163,20 @@ export const KnowledgeGraph: React.FC = () => {
     return () => observer.disconnect();
   }, []);
 
-  // Configure physics forces on mount
+  // Configure physics forces once the graph is mounted
   useEffect(() => {
     const fg = fgRef.current;
     if (fg) {
       // De-cluster: increase charge to push nodes further apart
-      fg.d3Force("charge")?.strength(-300);
-      
-      // Increase link distance
-      fg.d3Force("link")?.distance(120);
+      fg.d3Force("charge")?.strength(-200);
+
+      // Stronger links pull their endpoints closer together
+      fg.d3Force("link")?.distance((l: any) => 140 / Math.sqrt(l.weight || 1));
 
       // Add a custom collision force based on node size
-      fg.d3Force("collide", d3.forceCollide().radius((d: any) => d.val + 10));
+      fg.d3Force("collide", d3.forceCollide().radius((d: any) => d.val + 6));
     }
-  }, []);
+  }, [isLoading]);
 
   // Handle zooming to fit on data load
   const handleEngineStop = useCallback(() => {
@@ -112,6 +185,153 @@ export const KnowledgeGraph: React.FC = () => {
     }
   }, []);
 
+  const toggleEdgeType = (type: EdgeType) => {
+    setOptions((prev) => ({
+      ...prev,
+      edgeTypes: { ...prev.edgeTypes, [type]: !prev.edgeTypes[type] },
+    }));
+  };
+
+  // ---------- PART 4C: ITEM ACTIONS ----------
+  const updateLocalItem = (id: string, updates: Partial<StorageItem>) => {
+    setItems((prev) => prev.map((i) => (i.id === id ? { ...i, ...updates } : i)));
+    setSelectedItem((prev) => (prev?.id === id ? { ...prev, ...updates } : prev));
+  };
+
+  const handleNodeClick = (node: GraphNode) => {
+    setSelectedItem(node.item);
+    setIsModalOpen(true);
+  };
+
+  const handleGenerateSummary = async (item: StorageItem) => {
+    if (isSummarizingItem) return;
+    setIsSummarizingItem(true);
+    showToast("Generating AI summary...", "info");
+
+    try {
+      const result = await generateItemSummary(item.id, item.text || item.ocrText || "");
+      if (result.ok && result.summary) {
+        updateLocalItem(item.id, { aiSummary: result.summary });
+        showToast("Summary generated!", "success");
+      } else {
+        showToast(`Failed to generate summary: ${result.error || result.reason}`, "error");
+      }
+    } catch (error) {
+      showToast("Failed to generate summary", "error");
+    } finally {
+      setIsSummarizingItem(false);
+    }
+  };
+
+  const handleExtractInsights = async (item: StorageItem) => {
+    if (isExtractingInsights) return;
+    setIsExtractingInsights(true);
+
+    try {
+      const isLocal = item.id.startsWith("local_");
+      const result = await extractInsights(
+        item.text || item.ocrText || "",
+        isLocal ? undefined : item.id,
+      );
+      if (result.ok && result.insights) {
+        const insights = { customFields: item.insights?.customFields, ...result.insights };
+        if (isLocal) await updateItem(item.id, { insights });
+        updateLocalItem(item.id, { insights });
+        showToast("Insights extracted!", "success");
+      } else {
+        showToast(`Failed to extract insights: ${result.error || result.reason}`, "error");
+      }
+    } catch (error) {
+      showToast("Failed to extract insights", "error");
+    } finally {
+      setIsExtractingInsights(false);
+    }
+  };
+
+  const handleColorChange = async (item: StorageItem, color: string) => {
+    try {
+      const updates = { color: item.color === color ? undefined : (color as any) };
+      await updateItem(item.id, updates);
+      updateLocalItem(item.id, updates);
+      showToast("Color updated!", "success");
+    } catch (err) {
+      showToast("Failed to update color", "error");
+    }
+  };
+
+  const handleSaveNote = async (item: StorageItem, note: string) => {
+    try {
+      await updateItem(item.id, { note });
+      updateLocalItem(item.id, { note });
+      showToast("Saved to notes", "success");
+    } catch (err) {
+      showToast("Failed to save note", "error");
+    }
+  };
+
+  const handleCopyMarkdown = async (item: StorageItem) => {
+    try {
+      await navigator.clipboard.writeText(generateMarkdownTemplate(item));
+      showToast("Markdown copied to clipboard!", "success");
+    } catch (e) {
+      showToast("Failed to copy markdown", "error");
+    }
+  };
+
+  const handleShare = async (item: StorageItem) => {
+    try {
+      if (navigator.share) {
+        await navigator.share({
+          title: item.sourceTitle || "Research Note",
+          text: item.aiSummary || item.text || item.ocrText,
+          url: item.sourceUrl,
+        });
+      } else {
+        const textToCopy = `${item.sourceTitle || "Research Note"}\n\n${
+          item.aiSummary || item.text || item.ocrText
+        }\n\n${item.sourceUrl || ""}`;
+        await navigator.clipboard.writeText(textToCopy);
+        showToast("Copied to clipboard for sharing", "success");
+      }
+    } catch (error) {
+      if ((error as Error).name !== "AbortError") {
+        showToast("Failed to share item", "error");
+      }
+    }
+  };
+
+  const handleAddToCollection = async (collectionId: string) => {
+    if (!selectedItem) return;
+    try {
+      await addItemToCollection(selectedItem.id, collectionId);
+      updateLocalItem(selectedItem.id, { collectionId });
+      showToast("Added to collection", "success");
+      setShowCollectionModal(false);
+    } catch (error) {
+      showToast("Failed to add to collection", "error");
+    }
+  };
+
+  const confirmDeleteItem = async () => {
+    const itemId = confirmDialog.itemId;
+    if (!itemId) return;
+    setConfirmDialog((prev) => ({ ...prev, isDeleting: true }));
+
+    try {
+      await deleteItem(itemId);
+      setItems((prev) => prev.filter((i) => i.id !== itemId));
+      setTotalItems((prev) => prev - 1);
+      setIsModalOpen(false);
+      setSelectedItem(null);
+      setConfirmDialog({ isOpen: false, itemId: null, isDeleting: false });
+      showToast("Item deleted successfully", "success");
+    } catch (error) {
+      showToast("Failed to delete item", "error");
+      setConfirmDialog((prev) => ({ ...prev, isDeleting: false }));
+    }
+  };
+
+  // ---------- PART 4D: RENDER ----------
   return (
     <div className="h-full w-full flex flex-col p-6 animate-fade-in">
       <div className="mb-6 flex justify-between items-center">
@@ -123,77 +343,93 @@ export const KnowledgeGraph: React.FC = () => {
             Mapping your research clusters
           </p>
         </div>
+        <p className="text-xs text-gray-500">
+          {graph.nodes.length} items • {graph.links.length} connections
+        </p>
       </div>
 
-      <div 
-        ref={containerRef} 
+      <div
+        ref={containerRef}
         className="flex-1 theme-surface rounded-2xl shadow-sm border overflow-hidden relative"
       >
-        <ForceGraph2D
-          ref={fgRef}
-          width={dimensions.width}
-          height={dimensions.height}
-          graphData={MOCK_DATA}
-          nodeRelSize={6}
-          onEngineStop={handleEngineStop}
-          
-          // Hover interactions
-          onNodeHover={(node) => {
-            setHoverNode((node as GraphNode) || null);
-            // Optionally change cursor
-            if (containerRef.current) {
-               containerRef.current.style.cursor = node ? "pointer" : "default";
-            }
-          }}
-          
-          // Physics/Visuals
-          backgroundColor={isDark ? "rgba(0,0,0,0)" : "rgba(255,255,255,0)"}
-          linkColor={() => isDark ? "rgba(255, 255, 255, 0.15)" : "rgba(0, 0, 0, 0.1)"}
-          linkWidth={1.5}
-          
-          // Custom Node Rendering
-          nodeCanvasObject={(node: any, ctx, globalScale) => {
-            const label = node.name;
-            const size = node.val || 8;
-            const color = getGroupColor(node.group, isDark);
-            
-            // Draw Circle
-            ctx.beginPath();
-            ctx.arc(node.x, node.y, size, 0, 2 * Math.PI, false);
-            ctx.fillStyle = color;
-            ctx.fill();
-            
-            // Hover effect (halo)
-            if (node === hoverNode) {
+        {isLoading ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-[#007AFF]" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+            Save some research items to see how they connect.
+          </div>
+        ) : (
+          <ForceGraph2D
+            ref={fgRef}
+            width={dimensions.width}
+            height={dimensions.height}
+            graphData={graphData}
+            nodeRelSize={6}
+            onEngineStop={handleEngineStop}
+            onNodeClick={(node) => handleNodeClick(node as GraphNode)}
+            // Hover interactions
+            onNodeHover={(node) => {
+              setHoverNode((node as GraphNode) || null);
+              if (containerRef.current) {
+                containerRef.current.style.cursor = node ? "pointer" : "default";
+              }
+            }}
+            // Physics/Visuals
+            backgroundColor={isDark ? "rgba(0,0,0,0)" : "rgba(255,255,255,0)"}
+            linkColor={(link: any) => getLinkColor(link as GraphLink, isDark)}
+            linkWidth={(link: any) => Math.min(1 + Math.log2(link.weight || 1), 6)}
+            linkLabel={(link: any) => (link as GraphLink).reasons.join(", ")}
+            // Custom Node Rendering
+            nodeCanvasObject={(node: any, ctx, globalScale) => {
+              const label = node.name;
+              const size = node.val || 8;
+
+              // Draw Circle
               ctx.beginPath();
-              ctx.arc(node.x, node.y, size + 4, 0, 2 * Math.PI, false);
-              ctx.fillStyle = isDark ? "rgba(255,255,255,0.2)" : "rgba(0,0,0,0.1)";
+              ctx.arc(node.x, node.y, size, 0, 2 * Math.PI, false);
+              ctx.fillStyle = node.color;
               ctx.fill();
-            }
-
-            // LOD: Only draw text if zoomed in enough (scale > 1.2)
-            if (globalScale > 1.2) {
-              const fontSize = Math.max(10 / globalScale, 4);
-              ctx.font = `${fontSize}px Inter, system-ui, sans-serif`;
-              
-              // Truncate to avoid clustering
-              const truncatedLabel = truncateText(label, 25);
-              
-              ctx.textAlign = "center";
-              ctx.textBaseline = "top";
-              
-              // Text outline for readability
-              ctx.lineWidth = 2 / globalScale;
-              ctx.strokeStyle = isDark ? "#111827" : "#FFFFFF";
-              ctx.strokeText(truncatedLabel, node.x, node.y + size + 2);
-              
-              // Text fill
-              ctx.fillStyle = isDark ? "#E5E7EB" : "#374151";
-              ctx.fillText(truncatedLabel, node.x, node.y + size + 2);
-            }
-          }}
-        />
-        
+
+              // Hover effect (halo)
+              if (node === hoverNode) {
+                ctx.beginPath();
+                ctx.arc(node.x, node.y, size + 4, 0, 2 * Math.PI, false);
+                ctx.fillStyle = isDark ? "rgba(255,255,255,0.2)" : "rgba(0,0,0,0.1)";
+                ctx.fill();
+              }
+
+              // LOD: Only draw text if zoomed in enough (scale > 1.2)
+              if (globalScale > 1.2) {
+                const fontSize = Math.max(10 / globalScale, 4);
+                ctx.font = `${fontSize}px Inter, system-ui, sans-serif`;
+
+                // Truncate to avoid clustering
+                const truncatedLabel = truncateText(label, 25);
+
+                ctx.textAlign = "center";
+                ctx.textBaseline = "top";
+
+                // Text outline for readability
+                ctx.lineWidth = 2 / globalScale;
+                ctx.strokeStyle = isDark ? "#111827" : "#FFFFFF";
+                ctx.strokeText(truncatedLabel, node.x, node.y + size + 2);
+
+                // Text fill
+                ctx.fillStyle = isDark ? "#E5E7EB" : "#374151";
+                ctx.fillText(truncatedLabel, node.x, node.y + size + 2);
+              }
+            }}
+            nodePointerAreaPaint={(node: any, color, ctx) => {
+              ctx.beginPath();
+              ctx.arc(node.x, node.y, node.val || 8, 0, 2 * Math.PI, false);
+              ctx.fillStyle = color;
+              ctx.fill();
+            }}
+          />
+        )}
+
         {/* Hover Tooltip Overlay */}
         <AnimatePresence>
           {hoverNode && (
@@ -205,26 +441,84 @@ export const KnowledgeGraph: React.FC = () => {
               className="absolute bottom-6 left-1/2 -translate-x-1/2 max-w-sm w-full pointer-events-none"
             >
               <div className="theme-panel-elevated p-4 rounded-xl shadow-2xl border flex items-start gap-3 backdrop-blur-xl backdrop-saturate-150">
-                <div 
+                <div
                   className="w-3 h-3 rounded-full mt-1.5 flex-shrink-0"
-                  style={{ backgroundColor: getGroupColor(hoverNode.group, isDark) }}
+                  style={{ backgroundColor: hoverNode.color }}
                 />
                 <div>
                   <h4 className="text-sm font-semibold text-gray-900 dark:text-white leading-snug">
                     {hoverNode.name}
                   </h4>
                   <p className="text-xs text-gray-500 mt-1">
-                    Cluster Group {hoverNode.group} • Connections: {MOCK_DATA.links.filter(l => l.source === hoverNode.id || l.target === hoverNode.id || (l.source as any).id === hoverNode.id || (l.target as any).id === hoverNode.id).length}
+                    {hoverNode.collectionName || "Uncategorized"} • Connections: {hoverNode.degree}
                   </p>
                 </div>
               </div>
             </motion.div>
           )}
         </AnimatePresence>
-        
+
+        {/* Filters Overlay */}
+        {!isLoading && items.length > 0 && (
+          <div className="absolute top-4 left-4 w-60 theme-panel-elevated p-4 rounded-xl border shadow-sm backdrop-blur-xl space-y-3">
+            {totalItems > items.length && (
+              <p className="text-xs text-gray-500">
+                Showing your {items.length} most recent of {totalItems} items
+              </p>
+            )}
+            <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-gray-500">
+              <SlidersHorizontal className="w-3.5 h-3.5" /> Connections
+            </div>
+            {(Object.keys(EDGE_TYPE_LABELS) as EdgeType[]).map((type) => (
+              <label
+                key={type}
+                className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={options.edgeTypes[type]}
+                  onChange={() => toggleEdgeType(type)}
+                  className="rounded"
+                />
+                <span
+                  className="w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: EDGE_TYPE_COLORS[type] }}
+                />
+                {EDGE_TYPE_LABELS[type]}
+              </label>
+            ))}
+            <div>
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>Minimum weight</span>
+                <span>{options.minWeight}</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={Math.max(graph.maxWeight, 1)}
+                value={Math.min(options.minWeight, graph.maxWeight)}
+                onChange={(e) =>
+                  setOptions((prev) => ({ ...prev, minWeight: Number(e.target.value) }))
+                }
+                className="w-full accent-[#007AFF]"
+              />
+            </div>
+            {usedCollections.length > 0 && (
+              <div className="pt-2 border-t space-y-1 max-h-32 overflow-y-auto">
+                {usedCollections.map((c) => (
+                  <div key={c.id} className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: c.color }} />
+                    {truncateText(c.name, 28)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Controls Overlay */}
         <div className="absolute top-4 right-4 flex flex-col gap-2">
-          <button 
+          <button
             onClick={() => fgRef.current?.zoomToFit(400, 50)}
             className="theme-icon-button p-2 rounded-lg bg-white/80 dark:bg-gray-800/80 backdrop-blur border shadow-sm hover:scale-105 transition-all"
             title="Fit to Screen"
@@ -233,8 +527,54 @@ export const KnowledgeGraph: React.FC = () => {
           </button>
         </div>
       </div>
+
+      <ItemDetailModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        item={selectedItem}
+        isSummarizingItem={isSummarizingItem}
+        onGenerateSummary={handleGenerateSummary}
+        isExtractingInsights={isExtractingInsights}
+        onExtractInsights={handleExtractInsights}
+        onColorChange={handleColorChange}
+        onSaveNote={handleSaveNote}
+        onCopyMarkdown={handleCopyMarkdown}
+        onCopyText={(text) => {
+          navigator.clipboard.writeText(text);
+          showToast("Copied to clipboard!", "success");
+        }}
+        onShare={handleShare}
+        onAddToCollection={() => setShowCollectionModal(true)}
+        onDelete={(id) => setConfirmDialog({ isOpen: true, itemId: id, isDeleting: false })}
+        onOpenItem={setSelectedItem}
+      />
+
+      <CollectionPickerModal
+        showCollectionModal={showCollectionModal}
+        setShowCollectionModal={setShowCollectionModal}
+        collectionActionType="single"
+        selectedItems={new Set()}
+        collections={collections}
+        handleAddToCollection={handleAddToCollection}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.isOpen}
+        onClose={() => setConfirmDialog({ isOpen: false, itemId: null, isDeleting: false })}
+        onConfirm={confirmDeleteItem}
+        title="Delete Item"
+        message="Are you sure you want to delete this research item? This action cannot be undone."
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={confirmDialog.isDeleting}
+      />
     </div>
   );
 };
 
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
 export default KnowledgeGraph;
@@ -0,0 +1,263 @@
+// ============================================
+// graphBuilder.ts - Builds the knowledge graph from library items
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { StorageItem } from "../../../services/storageService";
+import { Collection } from "../../../services/collectionsService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+export type EdgeType = "tag" | "collection" | "citation" | "domain";
+
+export interface GraphNode {
+  id: string;
+  name: string;
+  item: StorageItem;
+  collectionId?: string;
+  collectionName?: string;
+  color: string;
+  degree: number;
+  val: number; // size
+  x?: number;
+  y?: number;
+}
+
+export interface GraphLink {
+  source: string;
+  target: string;
+  weight: number;
+  types: EdgeType[];
+  reasons: string[];
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  maxWeight: number; // heaviest link before the minWeight filter
+}
+
+export interface GraphBuildOptions {
+  edgeTypes: Record<EdgeType, boolean>;
+  minWeight: number;
+}
+
+// ============================================
+// PART 3: CONSTANTS
+// ============================================
+
+export const EDGE_TYPE_LABELS: Record<EdgeType, string> = {
+  tag: "Shared tags",
+  collection: "Same collection",
+  citation: "Shared DOI / authors",
+  domain: "Same source domain",
+};
+
+export const DEFAULT_BUILD_OPTIONS: GraphBuildOptions = {
+  edgeTypes: { tag: true, collection: true, citation: true, domain: true },
+  minWeight: 1,
+};
+
+// How much a single shared key adds to the weight of a link.
+const EDGE_WEIGHTS: Record<"tag" | "collection" | "doi" | "author" | "domain", number> = {
+  tag: 1,
+  collection: 2,
+  doi: 3,
+  author: 1,
+  domain: 1,
+};
+
+// Keys shared by more items than this (e.g. a tag like "research") would
+// add O(n²) links. Each member of such a group is only linked to the
+// GROUP_FAN_OUT members saved closest to it in time on either side.
+const MAX_GROUP_SIZE = 50;
+const GROUP_FAN_OUT = 5;
+
+const UNCATEGORIZED_COLOR = "#8E8E93";
+
+// ============================================
+// PART 4: KEY EXTRACTION
+// ============================================
+
+const DOI_REGEX = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+
+export const extractDoi = (item: StorageItem): string | null => {
+  if (item.cslData?.DOI) return item.cslData.DOI.toLowerCase();
+  const haystacks = [item.citation, item.sourceUrl, item.text];
+  for (const text of haystacks) {
+    const match = text ? DOI_REGEX.exec(text) : null;
+    if (match) return match[1].replace(/[.,;)\]]+$/, "").toLowerCase();
+  }
+  return null;
+};
+
+/**
+ * Fallback for items without structured `cslData`: pulls author surnames out
+ * of the formatted citation string. Surnames are the capitalised words
+ * followed by a comma before the year / title, which covers the APA, MLA,
+ * Harvard and Chicago output we generate.
+ */
+export const extractAuthorSurnames = (citation?: string): string[] => {
+  if (!citation) return [];
+  const authorPart = citation.split(/\(\d{4}|["“]|\.\s+[A-Z][a-z]+\s/)[0] || "";
+  const surnames = new Set<string>();
+  const re = /\b([A-Z][A-Za-z'’-]{1,})(?=,)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(authorPart)) !== null) {
+    surnames.add(match[1].toLowerCase());
+  }
+  return Array.from(surnames);
+};
+
+export const extractDomain = (url?: string): string | null => {
+  if (!url) return null;
+  try {
+    const { hostname } = new URL(url);
+    return hostname ? hostname.replace(/^www\./, "").toLowerCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+// ============================================
+// PART 5: GRAPH BUILDER
+// ============================================
+
+interface SharedKey {
+  type: EdgeType;
+  weight: number;
+  label: string;
+  ids: string[];
+}
+
+const collectSharedKeys = (
+  items: StorageItem[],
+  collectionNames: Map<string, string>,
+  edgeTypes: Record<EdgeType, boolean>,
+): SharedKey[] => {
+  const groups = new Map<string, SharedKey>();
+  const add = (key: string, type: EdgeType, weight: number, label: string, id: string) => {
+    const group = groups.get(key) ?? { type, weight, label, ids: [] };
+    if (!group.ids.includes(id)) group.ids.push(id);
+    groups.set(key, group);
+  };
+
+  for (const item of items) {
+    if (edgeTypes.tag) {
+      for (const tag of item.tags || []) {
+        const normalized = tag.trim().toLowerCase();
+        if (!normalized || normalized.startsWith("color:")) continue;
+        add(`tag:${normalized}`, "tag", EDGE_WEIGHTS.tag, `#${tag.trim()}`, item.id);
+      }
+    }
+    if (edgeTypes.collection && item.collectionId) {
+      const name = collectionNames.get(item.collectionId) || "Collection";
+      add(`collection:${item.collectionId}`, "collection", EDGE_WEIGHTS.collection, name, item.id);
+    }
+    if (edgeTypes.citation) {
+      const doi = extractDoi(item);
+      if (doi) add(`doi:${doi}`, "citation", EDGE_WEIGHTS.doi, `DOI ${doi}`, item.id);
+      const surnames = item.cslData?.author?.length
+        ? item.cslData.author
+            .map((a) => (a.family || a.literal || "").toLowerCase())
+            .filter(Boolean)
+        : extractAuthorSurnames(item.citation);
+      for (const surname of surnames) {
+        add(`author:${surname}`, "citation", EDGE_WEIGHTS.author, `Author ${surname}`, item.id);
+      }
+    }
+    if (edgeTypes.domain) {
+      const domain = extractDomain(item.sourceUrl);
+      if (domain) add(`domain:${domain}`, "domain", EDGE_WEIGHTS.domain, domain, item.id);
+    }
+  }
+
+  return Array.from(groups.values()).filter((g) => g.ids.length > 1);
+};
+
+/** Pairs to link within a group: all of them, or a time-ordered window for large groups. */
+const groupPairs = (ids: string[], createdAt: Map<string, string>): [string, string][] => {
+  const large = ids.length > MAX_GROUP_SIZE;
+  const ordered = large
+    ? [...ids].sort((a, b) => (createdAt.get(a) || "").localeCompare(createdAt.get(b) || ""))
+    : ids;
+  const reach = large ? GROUP_FAN_OUT : ordered.length;
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < ordered.length; i++) {
+    for (let j = i + 1; j < ordered.length && j <= i + reach; j++) {
+      pairs.push([ordered[i], ordered[j]]);
+    }
+  }
+  return pairs;
+};
+
+const nodeSizeForDegree = (degree: number) => 5 + Math.min(degree, 25) * 0.6;
+
+/**
+ * Builds nodes and weighted links for the knowledge graph. Every pair of
+ * items sharing a key (tag, collection, DOI/author, domain) gets one link
+ * whose weight is the sum of its shared keys — for keys shared by more
+ * than MAX_GROUP_SIZE items, only pairs saved close together in time; links
+ * below `minWeight` are dropped before degrees are computed.
+ */
+export const buildKnowledgeGraph = (
+  items: StorageItem[],
+  collections: Collection[],
+  options: GraphBuildOptions = DEFAULT_BUILD_OPTIONS,
+): GraphData => {
+  const collectionById = new Map(collections.map((c) => [c.id, c]));
+  const collectionNames = new Map(collections.map((c) => [c.id, c.name]));
+
+  const createdAt = new Map(items.map((item) => [item.id, item.createdAt]));
+
+  const linkMap = new Map<string, GraphLink>();
+  for (const group of collectSharedKeys(items, collectionNames, options.edgeTypes)) {
+    for (const pair of groupPairs(group.ids, createdAt)) {
+      const [source, target] = pair.sort();
+      const pairKey = `${source}|${target}`;
+      const link = linkMap.get(pairKey) ?? { source, target, weight: 0, types: [], reasons: [] };
+      link.weight += group.weight;
+      if (!link.types.includes(group.type)) link.types.push(group.type);
+      link.reasons.push(group.label);
+      linkMap.set(pairKey, link);
+    }
+  }
+
+  const allLinks = Array.from(linkMap.values());
+  const maxWeight = allLinks.reduce((max, l) => Math.max(max, l.weight), 1);
+  const links = allLinks.filter((l) => l.weight >= options.minWeight);
+
+  const degree = new Map<string, number>();
+  for (const link of links) {
+    degree.set(link.source, (degree.get(link.source) || 0) + 1);
+    degree.set(link.target, (degree.get(link.target) || 0) + 1);
+  }
+
+  const nodes: GraphNode[] = items.map((item) => {
+    const collection = item.collectionId ? collectionById.get(item.collectionId) : undefined;
+    const itemDegree = degree.get(item.id) || 0;
+    return {
+      id: item.id,
+      name: item.sourceTitle || item.text?.slice(0, 80) || "Untitled",
+      item,
+      collectionId: collection?.id,
+      collectionName: collection?.name,
+      color: collection?.color || UNCATEGORIZED_COLOR,
+      degree: itemDegree,
+      val: nodeSizeForDegree(itemDegree),
+    };
+  });
+
+  return { nodes, links, maxWeight };
+};
+
+// ============================================
+// PART 6: EXPORTS
+// ============================================
+
+// Named exports above — no default export needed.
@@ -2,6 +2,8 @@ import React, { useState } from "react";
 import { Button, Card, SearchInput } from "../shared/ui";
 import { Search, Book, Image as ImageIcon, Loader2, Plus } from "lucide-react";
 import { addItem } from "../../services/storageService";
+import { parseName, toCslDate } from "./Citations/citationUtils";
+import type { CslItem, CslName } from "../../types";
 
 export interface LibrarySearchProps {
   showToast: (msg: string, type: "success" | "error" | "info") => void;
@@ -18,6 +20,20 @@ export interface BookDocument {
   publisher?: string[];
 }
 
+/** Structured citation record for a book search result. */
+export const bookToCslItem = (book: BookDocument): CslItem => ({
+  type: "book",
+  title: book.title,
+  author: (book.author_name || [])
+    .map((name) => parseName(name))
+    .filter((n): n is CslName => n !== null),
+  publisher: book.publisher?.[0],
+  ISBN: book.isbn?.[0],
+  issued: book.first_publish_year
+    ? toCslDate(String(book.first_publish_year))
+    : undefined,
+});
+
 export const LibrarySearch: React.FC<LibrarySearchProps> = ({
   showToast,
   onSelectBook,
@@ -133,6 +149,8 @@ export const LibrarySearch: React.FC<LibrarySearchProps> = ({
         sourceTitle: title,
         sourceUrl: `https://books.google.com/books?id=${book.key}`,
         citation: citation,
+        citationFormat: "apa",
+        cslData: bookToCslItem(book),
         deviceSource: "web",
         imageUrl: book.cover_url,
       });
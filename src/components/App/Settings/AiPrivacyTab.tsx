@@ -7,9 +7,11 @@
 // ============================================
 
 import React from "react";
-import { Zap, Key, Eye, EyeOff, Wifi, WifiOff, Shield, Clock } from "lucide-react";
-import { Button, Card } from "../../shared/ui";
+import { Zap, Wifi, WifiOff, Shield, Clock } from "lucide-react";
+import { Card } from "../../shared/ui";
 import type { SettingsStats } from "./useSettingsData";
+import ProviderKeysCard from "./ProviderKeysCard";
+import RedactionCard from "./RedactionCard";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -18,13 +20,8 @@ import type { SettingsStats } from "./useSettingsData";
 interface AiPrivacyTabProps {
   stats: SettingsStats;
   backendStatus: "checking" | "online" | "offline";
-  customApiKey: string;
-  setCustomApiKey: (v: string) => void;
-  showApiKey: boolean;
-  setShowApiKey: (v: boolean) => void;
-  handleSaveApiKey: () => Promise<void>;
-  handleRemoveApiKey: () => Promise<void>;
   getTimeUntilReset: () => string;
+  showToast: (msg: string, type: "success" | "error" | "info") => void;
 }
 
 // ============================================
@@ -34,13 +31,8 @@ interface AiPrivacyTabProps {
 const AiPrivacyTab: React.FC<AiPrivacyTabProps> = ({
   stats,
   backendStatus,
-  customApiKey,
-  setCustomApiKey,
-  showApiKey,
-  setShowApiKey,
-  handleSaveApiKey,
-  handleRemoveApiKey,
   getTimeUntilReset,
+  showToast,
 }) => {
   return (
     <div className="space-y-6">
@@ -122,63 +114,11 @@ const AiPrivacyTab: React.FC<AiPrivacyTabProps> = ({
         </div>
       </Card>
 
-      {/* Personal API Key (BYOK) */}
-      <Card className="p-6">
-        <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
-          <Key className="w-5 h-5 text-primary-600" /> Personal API Key
-          (Power User)
-        </h3>
-        <p className="text-gray-500 text-sm mb-4">
-          Bring your own Gemini API Key to bypass the free daily limits.
-          Your key is stored locally on your device.
-        </p>
+      {/* Personal API Keys (BYOK) */}
+      <ProviderKeysCard showToast={showToast} />
 
-        <div className="space-y-4">
-          <div className="relative">
-            <input
-              type={showApiKey ? "text" : "password"}
-              value={customApiKey}
-              onChange={(e) => setCustomApiKey(e.target.value)}
-              placeholder="AIz..."
-              className="w-full pl-4 pr-12 py-2.5 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500/50 transition-all font-mono text-sm"
-            />
-            <button
-              onClick={() => setShowApiKey(!showApiKey)}
-              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-            >
-              {showApiKey ? <EyeOff size={16} /> : <Eye size={16} />}
-            </button>
-          </div>
-
-          <div className="flex gap-3">
-            <Button onClick={handleSaveApiKey} disabled={!customApiKey}>
-              Save Key
-            </Button>
-            <Button
-              variant="outline"
-              onClick={handleRemoveApiKey}
-              disabled={
-                !customApiKey && !localStorage.getItem("custom_gemini_key_set")
-              }
-            >
-              Remove Key
-            </Button>
-          </div>
-
-          <p className="text-xs text-gray-400 mt-2">
-            Get a free key from{" "}
-            <a
-              href="https://aistudio.google.com/app/apikey"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-primary-500 hover:underline"
-            >
-              Google AI Studio
-            </a>
-            .
-          </p>
-        </div>
-      </Card>
+      {/* PII redaction before AI calls */}
+      <RedactionCard showToast={showToast} />
 
       {/* Privacy */}
       <Card className="p-6">
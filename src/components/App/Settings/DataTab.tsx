@@ -6,9 +6,11 @@
 // PART 1: IMPORTS & DEPENDENCIES
 // ============================================
 
-import React from "react";
-import { Download, Upload, FileJson, FileText, FileSpreadsheet } from "lucide-react";
+import React, { useState } from "react";
+import { Download, Upload, FileJson, FileText, FileSpreadsheet, BookOpen, SlidersHorizontal } from "lucide-react";
 import { Card } from "../../shared/ui";
+import ExportDialog from "../../shared/ExportDialog";
+import type { SettingsExportFormat } from "./useSettingsData";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -16,10 +18,17 @@ import { Card } from "../../shared/ui";
 
 interface DataTabProps {
   importLoading: boolean;
-  handleExport: (format: "json" | "txt" | "csv") => Promise<void>;
+  handleExport: (format: SettingsExportFormat) => Promise<void>;
   handleImport: (e: React.ChangeEvent<HTMLInputElement>) => Promise<void>;
+  showToast: (msg: string, type: "success" | "error" | "info") => void;
 }
 
+const REFERENCE_EXPORTS: { format: SettingsExportFormat; label: string; hint: string }[] = [
+  { format: "bibtex", label: "BibTeX", hint: "LaTeX, Zotero, JabRef" },
+  { format: "ris", label: "RIS", hint: "EndNote, Mendeley" },
+  { format: "csl-json", label: "CSL-JSON", hint: "Zotero, Pandoc" },
+];
+
 // ============================================
 // PART 3: COMPONENT
 // ============================================
@@ -28,7 +37,10 @@ const DataTab: React.FC<DataTabProps> = ({
   importLoading,
   handleExport,
   handleImport,
+  showToast,
 }) => {
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
   return (
     <div className="space-y-6">
       <Card className="p-6">
@@ -75,20 +87,55 @@ const DataTab: React.FC<DataTabProps> = ({
             </p>
           </button>
         </div>
+
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mt-6 mb-3">
+          Reference managers
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {REFERENCE_EXPORTS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-primary-500 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-all text-left group"
+            >
+              <BookOpen className="w-8 h-8 text-gray-400 group-hover:text-primary-500 mb-3" />
+              <p className="font-semibold text-gray-900 dark:text-white">{label}</p>
+              <p className="text-xs text-gray-500">{hint}</p>
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-3">
+          Citation keys are saved with each item, so re-exports keep the same keys.
+        </p>
+
+        <button
+          onClick={() => setShowExportDialog(true)}
+          className="mt-6 inline-flex items-center gap-2 text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Custom export — filter by date, collection or tag
+        </button>
       </Card>
 
+      <ExportDialog
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        showToast={showToast}
+      />
+
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
           <Upload className="w-5 h-5 text-primary-600" /> Import Data
         </h3>
         <p className="text-gray-500 text-sm mb-6">
-          Restore data from a JSON backup file.
+          Restore data from a JSON backup, or import references from Zotero,
+          Mendeley or EndNote (BibTeX, RIS or CSL-JSON).
         </p>
 
         <div className="relative">
           <input
             type="file"
-            accept=".json,.pdf,.png,.jpg,.jpeg"
+            accept=".json,.pdf,.png,.jpg,.jpeg,.bib,.ris"
             multiple
             title="Import Data"
             aria-label="Import Data"
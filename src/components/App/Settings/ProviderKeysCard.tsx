@@ -0,0 +1,281 @@
+// ============================================
+// ProviderKeysCard.tsx - Personal API keys (BYOK) for AI providers
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronUp, Eye, EyeOff, Key, Server, Trash2 } from "lucide-react";
+import { Button, Card, Select } from "../../shared/ui";
+import {
+  ByokProvider,
+  PROVIDER_INFO,
+  ProviderKeyVault,
+  ProviderKeySummary,
+  getProviderKeys,
+  removeProviderKey,
+  reorderProviderKeys,
+  saveProviderKey,
+} from "../../../services/providerKeysService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface ProviderKeysCardProps {
+  showToast: (msg: string, type: "success" | "error" | "info") => void;
+}
+
+// ============================================
+// PART 3: COMPONENT
+// ============================================
+
+const ProviderKeysCard: React.FC<ProviderKeysCardProps> = ({ showToast }) => {
+  const [keys, setKeys] = useState<ProviderKeySummary[]>([]);
+  const [providers, setProviders] = useState<ByokProvider[]>([]);
+  const [available, setAvailable] = useState(true);
+  const [selfHosted, setSelfHosted] = useState<ProviderKeyVault["selfHosted"]>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [provider, setProvider] = useState<ByokProvider>("gemini");
+  const [apiKey, setApiKey] = useState("");
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [baseUrl, setBaseUrl] = useState("");
+  const [model, setModel] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const isCompatible = provider === "openai-compatible";
+
+  const load = useCallback(async () => {
+    try {
+      const vault = await getProviderKeys();
+      setKeys(vault.keys);
+      setProviders(vault.providers);
+      setAvailable(vault.available);
+      setSelfHosted(vault.selfHosted);
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs a vault change and swaps in the updated list
+  const update = async (action: () => Promise<ProviderKeySummary[]>, success?: string) => {
+    setBusy(true);
+    try {
+      setKeys(await action());
+      if (success) showToast(success, "success");
+      return true;
+    } catch (err) {
+      showToast((err as Error).message, "error");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await update(
+      () =>
+        saveProviderKey(
+          provider,
+          apiKey.trim(),
+          isCompatible ? { baseUrl: baseUrl.trim(), model: model.trim() } : undefined,
+        ),
+      isCompatible
+        ? "Server reached and saved"
+        : `${PROVIDER_INFO[provider].label} key verified and saved`,
+    );
+    if (saved) {
+      setApiKey("");
+      setShowApiKey(false);
+      setBaseUrl("");
+      setModel("");
+    }
+  };
+
+  const handleRemove = (target: ByokProvider) =>
+    update(() => removeProviderKey(target), `${PROVIDER_INFO[target].label} key removed`);
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const order = keys.map((k) => k.provider);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    update(() => reorderProviderKeys(order));
+  };
+
+  const hasKey = (p: ByokProvider) => keys.some((k) => k.provider === p);
+  const canSave = isCompatible ? !!baseUrl.trim() && !!model.trim() : !!apiKey.trim();
+  const providerOptions = providers.map((p) => ({
+    value: p,
+    label: hasKey(p) ? `${PROVIDER_INFO[p].label} (replace saved key)` : PROVIDER_INFO[p].label,
+  }));
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <Key className="w-5 h-5 text-primary-600" /> Personal API Keys
+        (Power User)
+      </h3>
+      <p className="text-gray-500 text-sm mb-4">
+        Bring your own keys to bypass the free daily limits. Keys are checked
+        with the provider, encrypted on our server and never shown again.
+        AI features try your keys in this order before the shared ones;
+        answers from your keys are free, answers from the shared ones use
+        credits as usual.
+        You can also point ResearchMate at your own OpenAI-compatible server
+        (Ollama, llama.cpp, vLLM) so your text stays on it.
+      </p>
+
+      {selfHosted && (
+        <div className="flex items-start gap-2 mb-4 text-sm text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20 px-3 py-2 rounded-lg border border-green-100 dark:border-green-900">
+          <Server className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            This deployment runs its own model (<strong>{selfHosted.model}</strong>)
+            {selfHosted.exclusive
+              ? " and does not send text to hosted AI providers. Search uses a local index, and transcription needs your own Gemini key."
+              : " and tries it before the hosted AI providers."}
+          </span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : !available ? (
+        <p className="text-sm text-gray-500 bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+          Personal API keys are not enabled on this deployment.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {/* Saved keys, in preference order */}
+          {keys.length > 0 && (
+            <ol className="space-y-2">
+              {keys.map((k, index) => (
+                <li
+                  key={k.provider}
+                  className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-xl"
+                >
+                  <span className="w-6 text-center text-sm font-semibold text-gray-400">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {PROVIDER_INFO[k.provider].label}
+                    </p>
+                    <p className="text-xs text-gray-500 font-mono truncate">
+                      {k.baseUrl && `${k.model} @ ${k.baseUrl} · `}
+                      {k.keyHint ? `••••${k.keyHint}` : "no key"}
+                      {k.lastValidatedAt &&
+                        ` · verified ${new Date(k.lastValidatedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={busy || index === 0}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                    aria-label={`Try ${PROVIDER_INFO[k.provider].label} earlier`}
+                  >
+                    <ChevronUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={busy || index === keys.length - 1}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                    aria-label={`Try ${PROVIDER_INFO[k.provider].label} later`}
+                  >
+                    <ChevronDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(k.provider)}
+                    disabled={busy}
+                    className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    aria-label={`Remove ${PROVIDER_INFO[k.provider].label} key`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {/* Add or replace a key */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Select
+              options={providerOptions}
+              value={provider}
+              onChange={(v) => setProvider(v as ByokProvider)}
+              className="sm:!w-64"
+            />
+            <div className="relative flex-1">
+              <input
+                type={showApiKey ? "text" : "password"}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={PROVIDER_INFO[provider].placeholder}
+                autoComplete="off"
+                className="w-full pl-4 pr-12 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500/50 transition-all font-mono text-sm"
+              />
+              <button
+                onClick={() => setShowApiKey(!showApiKey)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              >
+                {showApiKey ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            </div>
+            <Button onClick={handleSave} disabled={!canSave || busy} isLoading={busy}>
+              {busy ? "Checking..." : "Save Key"}
+            </Button>
+          </div>
+
+          {/* Own server: where it is and which model to run */}
+          {isCompatible && (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="https://llm.example.org/v1"
+                className="flex-1 px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500/50 transition-all font-mono text-sm"
+              />
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="Model, e.g. llama3.1:8b"
+                className="sm:w-64 px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500/50 transition-all font-mono text-sm"
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400">
+            {isCompatible ? "The server must expose the OpenAI chat completions API — " : "Get a key from "}
+            <a
+              href={PROVIDER_INFO[provider].keyUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary-500 hover:underline"
+            >
+              {isCompatible ? "see the Ollama guide" : PROVIDER_INFO[provider].label}
+            </a>
+            .
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// ============================================
+// PART 4: EXPORTS
+// ============================================
+
+export default ProviderKeysCard;
@@ -0,0 +1,285 @@
+// ============================================
+// RedactionCard.tsx - Redact personal details before AI calls
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useCallback, useEffect, useState } from "react";
+import { EyeOff, Plus, Trash2 } from "lucide-react";
+import { Button, Card, Textarea, Toggle } from "../../shared/ui";
+import {
+  CATEGORY_INFO,
+  CustomPattern,
+  RedactionAuditEntry,
+  RedactionCategory,
+  RedactionPreview,
+  RedactionSettings,
+  getRedaction,
+  previewRedaction,
+  saveRedactionSettings,
+} from "../../../services/redactionService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface RedactionCardProps {
+  showToast: (msg: string, type: "success" | "error" | "info") => void;
+}
+
+// ============================================
+// PART 3: CONSTANTS & HELPERS
+// ============================================
+
+const CATEGORIES = Object.keys(CATEGORY_INFO) as RedactionCategory[];
+
+const SAMPLE_TEXT =
+  "Interviewer: Thanks for joining.\nJane Smith: Happy to. P07 said the same — email me at jane.smith@uni.edu or call +44 20 7946 0958.";
+
+const inputClass =
+  "px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500/50 text-sm";
+
+/** "email: 2, name: 3" */
+const formatCounts = (counts: RedactionAuditEntry["counts"]) =>
+  Object.entries(counts)
+    .map(([category, count]) => `${category}: ${count}`)
+    .join(", ");
+
+// ============================================
+// PART 4: COMPONENT
+// ============================================
+
+const RedactionCard: React.FC<RedactionCardProps> = ({ showToast }) => {
+  const [settings, setSettings] = useState<RedactionSettings | null>(null);
+  const [namesText, setNamesText] = useState("");
+  const [audit, setAudit] = useState<RedactionAuditEntry[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+  const [preview, setPreview] = useState<RedactionPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await getRedaction();
+      setSettings(data.settings);
+      setNamesText(data.settings.names.join("\n"));
+      setAudit(data.audit);
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!settings) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      </Card>
+    );
+  }
+
+  // The settings as edited, names one per line or comma-separated
+  const draft: RedactionSettings = {
+    ...settings,
+    names: namesText
+      .split(/[\n,]/)
+      .map((n) => n.trim())
+      .filter(Boolean),
+  };
+
+  const update = (changes: Partial<RedactionSettings>) => setSettings({ ...settings, ...changes });
+
+  const toggleCategory = (category: RedactionCategory) =>
+    update({
+      categories: settings.categories.includes(category)
+        ? settings.categories.filter((c) => c !== category)
+        : [...settings.categories, category],
+    });
+
+  const updatePattern = (index: number, changes: Partial<CustomPattern>) =>
+    update({
+      customPatterns: settings.customPatterns.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveRedactionSettings(draft);
+      setSettings(saved);
+      setNamesText(saved.names.join("\n"));
+      showToast(saved.enabled ? "Redaction is on" : "Redaction settings saved", "success");
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await previewRedaction(sample, draft));
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <EyeOff className="w-5 h-5 text-primary-600" /> Redact Personal Details
+        </h3>
+        <Toggle checked={settings.enabled} onChange={(enabled) => update({ enabled })} />
+      </div>
+      <p className="text-gray-500 text-sm mb-4">
+        Before your text goes to an AI provider, personal details are replaced
+        with placeholders such as [NAME_1] and put back in the answer. Names
+        are spotted by titles and speaker labels, so list participants below
+        and check a sample with the preview. This covers library search too.
+        Audio and video sent for transcription are not redacted.
+      </p>
+
+      <div className="space-y-5">
+        {/* What to redact */}
+        <div className="flex flex-wrap gap-2">
+          {CATEGORIES.map((category) => (
+            <button
+              key={category}
+              onClick={() => toggleCategory(category)}
+              title={CATEGORY_INFO[category].example}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                settings.categories.includes(category)
+                  ? "bg-primary-50 dark:bg-primary-900/30 border-primary-200 dark:border-primary-800 text-primary-700 dark:text-primary-300"
+                  : "border-gray-200 dark:border-gray-700 text-gray-500"
+              }`}
+            >
+              {CATEGORY_INFO[category].label}
+            </button>
+          ))}
+        </div>
+
+        {/* The user's own names and patterns */}
+        <Textarea
+          label="Names to always redact"
+          value={namesText}
+          onChange={(e) => setNamesText(e.target.value)}
+          placeholder={"Jane Smith\nAisha Khan"}
+          rows={3}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Custom patterns</p>
+          {settings.customPatterns.map((p, index) => (
+            <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <input
+                value={p.label}
+                onChange={(e) => updatePattern(index, { label: e.target.value })}
+                placeholder="Label, e.g. Project code"
+                className={`sm:w-48 ${inputClass}`}
+              />
+              <input
+                value={p.pattern}
+                onChange={(e) => updatePattern(index, { pattern: e.target.value })}
+                placeholder={p.regex ? "ACME-\\d{3}" : "Exact text"}
+                className={`flex-1 font-mono ${inputClass}`}
+              />
+              <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={!!p.regex}
+                  onChange={(e) => updatePattern(index, { regex: e.target.checked })}
+                />
+                Regex
+              </label>
+              <button
+                onClick={() => update({ customPatterns: settings.customPatterns.filter((_, i) => i !== index) })}
+                className="p-1.5 text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${p.label || "pattern"}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ customPatterns: [...settings.customPatterns, { label: "", pattern: "" }] })}
+            className="flex items-center gap-1 text-sm text-primary-600 hover:underline"
+          >
+            <Plus size={14} /> Add pattern
+          </button>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving} isLoading={saving}>
+            Save
+          </Button>
+        </div>
+
+        {/* Preview: what the provider would see */}
+        <div className="space-y-2">
+          <Textarea
+            label="Preview"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            rows={4}
+          />
+          <Button variant="secondary" onClick={handlePreview} disabled={!sample.trim() || previewing} isLoading={previewing}>
+            Show what the AI sees
+          </Button>
+          {preview && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl space-y-3">
+              <pre className="whitespace-pre-wrap text-sm font-mono text-gray-800 dark:text-gray-200">
+                {preview.text}
+              </pre>
+              {preview.redactions.length === 0 ? (
+                <p className="text-xs text-gray-500">Nothing would be redacted.</p>
+              ) : (
+                <ul className="text-xs text-gray-500 space-y-1">
+                  {preview.redactions.map((r) => (
+                    <li key={r.placeholder}>
+                      <span className="font-mono">{r.placeholder}</span> ← {r.original}
+                      {r.occurrences > 1 && ` (×${r.occurrences})`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Audit trail */}
+        {audit.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Recent redacted requests</p>
+            <ul className="divide-y divide-gray-100 dark:divide-gray-800 text-xs text-gray-500">
+              {audit.map((entry) => (
+                <li key={entry.id} className="py-1.5 flex flex-wrap gap-x-3">
+                  <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{entry.endpoint}</span>
+                  {entry.provider && <span>via {entry.provider}</span>}
+                  <span>{entry.total === 0 ? "nothing found" : formatCounts(entry.counts)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default RedactionCard;
@@ -16,6 +16,8 @@ import NotificationsTab from "./NotificationsTab";
 import AiPrivacyTab from "./AiPrivacyTab";
 import DataTab from "./DataTab";
 import LibraryTab from "./LibraryTab";
+import UsageTab from "./UsageTab";
+import ReferenceImportModal from "../Dashboard/ReferenceImportModal";
 
 // ============================================
 // PART 2: TOAST COMPONENT
@@ -166,25 +168,29 @@ const SettingsPage: React.FC = () => {
         <AiPrivacyTab
           stats={data.stats}
           backendStatus={data.backendStatus}
-          customApiKey={data.customApiKey}
-          setCustomApiKey={data.setCustomApiKey}
-          showApiKey={data.showApiKey}
-          setShowApiKey={data.setShowApiKey}
-          handleSaveApiKey={data.handleSaveApiKey}
-          handleRemoveApiKey={data.handleRemoveApiKey}
           getTimeUntilReset={data.getTimeUntilReset}
+          showToast={showToast}
         />
       )}
 
+      {data.activeTab === "usage" && <UsageTab showToast={showToast} />}
+
       {data.activeTab === "data" && (
         <DataTab
           importLoading={data.importLoading}
           handleExport={data.handleExport}
           handleImport={data.handleImport}
+          showToast={showToast}
         />
       )}
 
       {data.activeTab === "library" && <LibraryTab showToast={showToast} />}
+
+      <ReferenceImportModal
+        files={data.referenceImportFiles}
+        onClose={data.closeReferenceImport}
+        showToast={showToast}
+      />
     </div>
   );
 };
@@ -0,0 +1,263 @@
+// ============================================
+// UsageTab.tsx - AI credit usage & history Settings Tab
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useCallback, useEffect, useState } from "react";
+import { BarChart3, History, RotateCcw, Zap } from "lucide-react";
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button, Card, Select } from "../../shared/ui";
+import {
+  CreditTransaction,
+  CreditUsage,
+  endpointLabel,
+  getCreditUsage,
+} from "../../../services/creditsService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS & CONSTANTS
+// ============================================
+
+interface UsageTabProps {
+  showToast: (msg: string, type: "success" | "error" | "info") => void;
+}
+
+const RANGE_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+const PAGE_SIZE = 25;
+
+const OUTCOME_STYLES: Record<CreditTransaction["outcome"], string> = {
+  charged: "text-gray-900 dark:text-white",
+  refunded: "text-green-600 dark:text-green-400",
+  insufficient: "text-orange-600 dark:text-orange-400",
+};
+
+// ============================================
+// PART 3: HELPERS
+// ============================================
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+const formatCost = (tx: CreditTransaction) =>
+  tx.outcome === "charged" ? `−${tx.cost}` : tx.outcome === "refunded" ? `+${tx.cost}` : "0";
+
+// ============================================
+// PART 4: COMPONENT
+// ============================================
+
+const UsageTab: React.FC<UsageTabProps> = ({ showToast }) => {
+  const [days, setDays] = useState("30");
+  const [usage, setUsage] = useState<CreditUsage | null>(null);
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getCreditUsage({ days: Number(days), limit: PAGE_SIZE });
+      setUsage(result);
+      setTransactions(result.transactions);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [days, showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const loadMore = async () => {
+    const last = transactions[transactions.length - 1];
+    if (!last) return;
+    setLoadingMore(true);
+    try {
+      const result = await getCreditUsage({ days: Number(days), limit: PAGE_SIZE, before: last.created_at });
+      setTransactions((prev) => [...prev, ...result.transactions]);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading && !usage) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const summary = usage?.summary;
+  const maxCharged = Math.max(1, ...(summary?.byEndpoint.map((e) => e.charged) ?? []));
+
+  return (
+    <div className="space-y-6">
+      {/* Totals */}
+      <Card className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <Zap className="w-5 h-5 text-primary-600" /> Credit Usage
+            </h3>
+            <p className="text-gray-500 text-sm">
+              {usage?.byok
+                ? "Calls made with your own API key are not charged."
+                : "Every AI call that costs credits, and every refund for a failed call."}
+            </p>
+          </div>
+          <Select options={RANGE_OPTIONS} value={days} onChange={setDays} className="!w-40" />
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {[
+            { label: "Balance", value: usage?.balance ?? "—" },
+            { label: "Credits spent", value: summary?.totals.net ?? 0 },
+            { label: "AI calls", value: summary?.totals.calls ?? 0 },
+            { label: "Refunded", value: summary?.totals.refunded ?? 0 },
+          ].map((stat) => (
+            <div key={stat.label} className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50">
+              <p className="text-xs text-gray-500 uppercase tracking-wider">{stat.label}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Daily chart */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-primary-600" /> Daily Usage
+        </h3>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={summary?.daily ?? []} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatDay}
+                tick={{ fontSize: 11, fill: "#9ca3af" }}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={16}
+              />
+              <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: "#9ca3af" }} tickLine={false} axisLine={false} />
+              <Tooltip
+                labelFormatter={(label) => formatDay(String(label))}
+                cursor={{ fill: "rgba(99, 102, 241, 0.08)" }}
+              />
+              <Bar dataKey="charged" name="Charged" stackId="credits" fill="#6366f1" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="refunded" name="Refunded" stackId="credits" fill="#22c55e" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      {/* Per-endpoint breakdown */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">By Feature</h3>
+        {!summary || summary.byEndpoint.length === 0 ? (
+          <p className="text-sm text-gray-500">No credits used in this period.</p>
+        ) : (
+          <div className="space-y-3">
+            {summary.byEndpoint.map((e) => (
+              <div key={e.endpoint}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">
+                    {endpointLabel(e.endpoint)}
+                  </span>
+                  <span className="text-gray-500">
+                    {e.net} credit{e.net === 1 ? "" : "s"} · {e.calls} call{e.calls === 1 ? "" : "s"}
+                    {e.refunded > 0 && ` · ${e.refunded} refunded`}
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-primary-500"
+                    style={{ width: `${(e.charged / maxCharged) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {/* History */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <History className="w-5 h-5 text-primary-600" /> History
+        </h3>
+        {transactions.length === 0 ? (
+          <p className="text-sm text-gray-500">No credit transactions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Feature</th>
+                  <th className="py-2 pr-4 font-medium">Provider</th>
+                  <th className="py-2 pr-4 font-medium">Outcome</th>
+                  <th className="py-2 pr-4 font-medium text-right">Credits</th>
+                  <th className="py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((tx) => (
+                  <tr key={tx.id} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+                      {new Date(tx.created_at).toLocaleString()}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{endpointLabel(tx.endpoint)}</td>
+                    <td className="py-2 pr-4 text-gray-500">{tx.provider || "—"}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`inline-flex items-center gap-1 ${OUTCOME_STYLES[tx.outcome]}`}>
+                        {tx.outcome === "refunded" && <RotateCcw className="w-3 h-3" />}
+                        {tx.outcome === "insufficient" ? "Not enough credits" : tx.outcome}
+                      </span>
+                    </td>
+                    <td className={`py-2 pr-4 text-right font-mono ${OUTCOME_STYLES[tx.outcome]}`}>
+                      {formatCost(tx)}
+                    </td>
+                    <td className="py-2 text-right font-mono text-gray-500">{tx.balance_after ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {hasMore && (
+          <div className="mt-4 flex justify-center">
+            <Button variant="ghost" onClick={loadMore} isLoading={loadingMore}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default UsageTab;
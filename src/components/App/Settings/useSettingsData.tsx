@@ -14,6 +14,7 @@ import {
   Shield,
   Database,
   Library,
+  BarChart3,
 } from "lucide-react";
 import { supabase } from "../../../services/supabaseClient";
 import { useTheme } from "../../../context/ThemeContext";
@@ -21,7 +22,10 @@ import {
   importImageFile,
   importPdfFile,
   importJsonFile,
+  isReferenceFile,
 } from "../../../services/importService";
+import { getAllItems } from "../../../services/storageService";
+import { exportItems } from "../../../utils/export";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -29,6 +33,8 @@ import {
 
 type ShowToast = (msg: string, type: "success" | "error" | "info") => void;
 
+export type SettingsExportFormat = "json" | "txt" | "csv" | "bibtex" | "ris" | "csl-json";
+
 export interface TabDefinition {
   id: string;
   label: string;
@@ -80,21 +86,15 @@ export interface UseSettingsDataReturn {
 
   // Import
   importLoading: boolean;
+  referenceImportFiles: File[] | null;
+  closeReferenceImport: () => void;
 
   // Stats
   stats: SettingsStats;
 
-  // API Key
-  customApiKey: string;
-  setCustomApiKey: (v: string) => void;
-  showApiKey: boolean;
-  setShowApiKey: (v: boolean) => void;
-
   // Handlers
   handlePasswordChange: () => Promise<void>;
-  handleSaveApiKey: () => Promise<void>;
-  handleRemoveApiKey: () => Promise<void>;
-  handleExport: (format: "json" | "txt" | "csv") => Promise<void>;
+  handleExport: (format: SettingsExportFormat) => Promise<void>;
   handleImport: (e: React.ChangeEvent<HTMLInputElement>) => Promise<void>;
   handleDeleteAccount: () => Promise<void>;
   getTimeUntilReset: () => string;
@@ -109,6 +109,7 @@ const TABS: TabDefinition[] = [
   { id: "appearance", label: "Appearance", icon: Palette },
   { id: "notifications", label: "Notifications", icon: Bell },
   { id: "ai-privacy", label: "AI & Privacy", icon: Shield },
+  { id: "usage", label: "Usage", icon: BarChart3 },
   { id: "data", label: "Data", icon: Database },
   { id: "library", label: "Book Search", icon: Library },
 ];
@@ -147,6 +148,8 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
 
   // Import state
   const [importLoading, setImportLoading] = useState(false);
+  // BibTeX / RIS / CSL-JSON files waiting for the import preview
+  const [referenceImportFiles, setReferenceImportFiles] = useState<File[] | null>(null);
 
   // Stats
   const [stats, setStats] = useState<SettingsStats>({
@@ -156,10 +159,6 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
     ai_credits: 0,
   });
 
-  // API Key State
-  const [customApiKey, setCustomApiKey] = useState("");
-  const [showApiKey, setShowApiKey] = useState(false);
-
   // ---------- PART 4B: EFFECTS ----------
 
   // Fetch user data
@@ -188,12 +187,6 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
     checkBackend();
   }, []);
 
-  // Load API Key Check (Note: we can't read HttpOnly cookie, so we just show if it's "set" based on a flag or assume blank if not explicitly saved here)
-  useEffect(() => {
-    const isSet = localStorage.getItem("custom_gemini_key_set");
-    if (isSet) setCustomApiKey("********"); // Hide the actual value since it's in a cookie
-  }, []);
-
   // Fetch stats
   useEffect(() => {
     const fetchStats = async () => {
@@ -271,50 +264,25 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
     setPasswordLoading(false);
   };
 
-  // Save API Key via Secure Cookie
-  const handleSaveApiKey = async () => {
-    // Validate Gemini key format: must start with "AIz" and be 35+ chars
-    if (!customApiKey.startsWith("AIz") || customApiKey.length < 35) {
-      showToast(
-        "Invalid key format. Gemini keys start with 'AIz' and are 39+ characters.",
-        "error",
-      );
-      return;
-    }
-    try {
-      const response = await fetch("/api/set-custom-key", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ apiKey: customApiKey }),
-      });
-      if (!response.ok) throw new Error("Failed to save API key securely");
-      localStorage.setItem("custom_gemini_key_set", "true");
-      showToast("Personal API Key saved securely!", "success");
-      setCustomApiKey("********");
-    } catch (e) {
-      showToast("Failed to save key.", "error");
-    }
-  };
-
-  const handleRemoveApiKey = async () => {
-    try {
-      const response = await fetch("/api/set-custom-key", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ apiKey: "" }),
-      });
-      if (!response.ok) throw new Error("Failed to remove API key securely");
-      localStorage.removeItem("custom_gemini_key_set");
-      setCustomApiKey("");
-      showToast("Personal API Key removed.", "info");
-    } catch (e) {
-      showToast("Failed to remove key.", "error");
-    }
-  };
-
   // Handle data export
-  const handleExport = async (format: "json" | "txt" | "csv") => {
+  const handleExport = async (format: SettingsExportFormat) => {
     try {
+      // Reference-manager formats go through the shared exporter, which
+      // assigns stable citation keys
+      if (format === "bibtex" || format === "ris" || format === "csl-json") {
+        const libraryItems = await getAllItems(Number.MAX_SAFE_INTEGER);
+        if (libraryItems.length === 0) {
+          showToast("No data to export", "info");
+          return;
+        }
+        await exportItems(libraryItems, format);
+        showToast(
+          `Exported ${libraryItems.length} items as ${format.toUpperCase()}`,
+          "success",
+        );
+        return;
+      }
+
       const { data: items } = await supabase
         .from("items")
         .select("*")
@@ -402,7 +370,8 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
     }
   };
 
-  // Handle data import — supports multiple files and mixed formats (json, pdf, jpg, png)
+  // Handle data import — supports multiple files and mixed formats (json, pdf, jpg, png,
+  // plus bib / ris / CSL-JSON, which open the reference import preview)
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
@@ -411,9 +380,14 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
     let successCount = 0;
     const errors: string[] = [];
 
+    const referenceFiles: File[] = [];
+
     for (const file of files) {
       try {
-        if (file.name.toLowerCase().endsWith(".pdf")) {
+        if (await isReferenceFile(file)) {
+          // Citation manager exports go through the preview modal
+          referenceFiles.push(file);
+        } else if (file.name.toLowerCase().endsWith(".pdf")) {
           showToast(`Extracting text from "${file.name}"...`, "info");
           await importPdfFile(file, user?.id);
           successCount++;
@@ -436,6 +410,7 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
       showToast(`Imported ${successCount} item(s) successfully!`, "success");
     if (errors.length > 0)
       showToast(`${errors.length} file(s) failed to import.`, "error");
+    if (referenceFiles.length > 0) setReferenceImportFiles(referenceFiles);
     setImportLoading(false);
     e.target.value = "";
   };
@@ -508,20 +483,14 @@ export const useSettingsData = (showToast: ShowToast): UseSettingsDataReturn =>
 
     // Import
     importLoading,
+    referenceImportFiles,
+    closeReferenceImport: () => setReferenceImportFiles(null),
 
     // Stats
     stats,
 
-    // API Key
-    customApiKey,
-    setCustomApiKey,
-    showApiKey,
-    setShowApiKey,
-
     // Handlers
     handlePasswordChange,
-    handleSaveApiKey,
-    handleRemoveApiKey,
     handleExport,
     handleImport,
     handleDeleteAccount,
@@ -27,7 +27,7 @@ import {
   Save,
 } from "lucide-react";
 import { StorageItem, updateItem } from "../../services/storageService";
-import { LibrarySearch, BookDocument } from "./LibrarySearch";
+import { LibrarySearch, BookDocument, bookToCslItem } from "./LibrarySearch";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -138,6 +138,8 @@ const SmartPenScanModal: React.FC<SmartPenScanModalProps> = ({
       sourceTitle: title,
       sourceUrl: `https://books.google.com/books?id=${book.key}`,
       citation,
+      citationFormat: "apa",
+      cslData: bookToCslItem(book),
     };
     await updateItem(scan.id, updates);
     onUpdate(scan.id, updates);
@@ -5,7 +5,17 @@
 
 import React, { useState } from "react";
 import { createPortal } from "react-dom";
-import { X, Filter, Calendar, Tag, Laptop, Sparkles, Smartphone, PenTool, Globe } from "lucide-react";
+import { X, Filter, Calendar, Tag, Laptop, Sparkles, Smartphone, PenTool, Globe, FlaskConical, ArrowUpDown } from "lucide-react";
+import { STUDY_DESIGNS, StudyDesign } from "../../types";
+
+export type ItemSortOrder = "newest" | "oldest" | "sample-size" | "study-design";
+
+const SORT_OPTIONS: { id: ItemSortOrder; label: string }[] = [
+  { id: "newest", label: "Newest first" },
+  { id: "oldest", label: "Oldest first" },
+  { id: "sample-size", label: "Sample size" },
+  { id: "study-design", label: "Study design" },
+];
 
 export interface SearchFilters {
   dateRange?: {
@@ -15,6 +25,9 @@ export interface SearchFilters {
   deviceSource?: string[];
   hasAiSummary?: boolean;
   tags?: string[];
+  /** Only items whose extracted insights report one of these designs. */
+  studyDesigns?: StudyDesign[];
+  sortBy?: ItemSortOrder;
 }
 
 interface AdvancedSearchFilterProps {
@@ -71,6 +84,16 @@ const AdvancedSearchFilter: React.FC<AdvancedSearchFilterProps> = ({
     }
   };
 
+  const toggleStudyDesign = (design: StudyDesign) => {
+    const current = filters.studyDesigns || [];
+    setFilters({
+      ...filters,
+      studyDesigns: current.includes(design)
+        ? current.filter((d) => d !== design)
+        : [...current, design],
+    });
+  };
+
   if (!isOpen) return null;
 
   const deviceSources = [
@@ -224,6 +247,62 @@ const AdvancedSearchFilter: React.FC<AdvancedSearchFilterProps> = ({
             </button>
           </div>
 
+          {/* Study Design (from extracted insights) */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+              <FlaskConical className="w-4 h-4" />
+              Study Design
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STUDY_DESIGNS) as StudyDesign[]).map((design) => (
+                <button
+                  key={design}
+                  onClick={() => toggleStudyDesign(design)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                    filters.studyDesigns?.includes(design)
+                      ? "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300"
+                      : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  }`}
+                  aria-pressed={filters.studyDesigns?.includes(design)}
+                >
+                  {STUDY_DESIGNS[design]}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Only items with extracted insights have a study design.
+            </p>
+          </div>
+
+          {/* Sort Order */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+              <ArrowUpDown className="w-4 h-4" />
+              Sort By
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {SORT_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() =>
+                    setFilters({
+                      ...filters,
+                      sortBy: option.id === "newest" ? undefined : option.id,
+                    })
+                  }
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                    (filters.sortBy || "newest") === option.id
+                      ? "bg-purple-50 dark:bg-purple-900/20 border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300"
+                      : "bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  }`}
+                  aria-pressed={(filters.sortBy || "newest") === option.id}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Tags */}
           {availableTags.length > 0 && (
             <div>
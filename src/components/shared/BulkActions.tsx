@@ -1,6 +1,7 @@
 import React from "react";
-import { X, CheckSquare, FolderMinus } from "lucide-react";
+import { X, CheckSquare, FolderMinus, Table } from "lucide-react";
 import { TrashIcon, DownloadIcon } from "../icons";
+import type { ItemExportFormat } from "../../utils/export";
 
 interface BulkActionsProps {
   selectedCount: number;
@@ -8,9 +9,10 @@ interface BulkActionsProps {
   onSelectAll: () => void;
   onDeselectAll: () => void;
   onBulkDelete?: () => void;
-  onBulkExport?: (format: "json" | "csv" | "md" | "pdf") => void;
+  onBulkExport?: (format: ItemExportFormat) => void;
   onBulkAddToCollection?: () => void;
   onBulkRemoveFromCollection?: () => void;
+  onOpenEvidenceMatrix?: () => void;
   isDeleting?: boolean;
 }
 
@@ -27,6 +29,7 @@ const BulkActions: React.FC<BulkActionsProps> = ({
   onBulkExport,
   onBulkAddToCollection,
   onBulkRemoveFromCollection,
+  onOpenEvidenceMatrix,
   isDeleting = false,
 }) => {
   if (selectedCount === 0) return null;
@@ -79,7 +82,7 @@ const BulkActions: React.FC<BulkActionsProps> = ({
                 Export
               </button>
 
-              <div className="absolute top-full left-0 mt-2 w-36 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-100 dark:border-gray-700 overflow-hidden opacity-0 invisible group-hover:opacity-100 group-hover:visible group-focus-within:opacity-100 group-focus-within:visible transition-all z-50">
+              <div className="absolute top-full left-0 mt-2 w-44 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-100 dark:border-gray-700 overflow-hidden opacity-0 invisible group-hover:opacity-100 group-hover:visible group-focus-within:opacity-100 group-focus-within:visible transition-all z-50">
                 <button
                   onClick={() => onBulkExport("pdf")}
                   className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
@@ -104,6 +107,25 @@ const BulkActions: React.FC<BulkActionsProps> = ({
                 >
                   Export as Markdown
                 </button>
+                <div className="border-t border-gray-100 dark:border-gray-700" />
+                <button
+                  onClick={() => onBulkExport("bibtex")}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Export as BibTeX
+                </button>
+                <button
+                  onClick={() => onBulkExport("ris")}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Export as RIS
+                </button>
+                <button
+                  onClick={() => onBulkExport("csl-json")}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Export as CSL-JSON
+                </button>
               </div>
             </div>
           )}
@@ -119,6 +141,18 @@ const BulkActions: React.FC<BulkActionsProps> = ({
             </button>
           )}
 
+          {/* Evidence Matrix */}
+          {onOpenEvidenceMatrix && (
+            <button
+              onClick={onOpenEvidenceMatrix}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-sm font-medium rounded-lg transition-colors"
+              aria-label="Compare selected items in an evidence matrix"
+            >
+              <Table className="w-4 h-4" />
+              Compare
+            </button>
+          )}
+
           {/* Remove from Collection */}
           {onBulkRemoveFromCollection && (
             <button
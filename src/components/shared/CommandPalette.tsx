@@ -11,6 +11,7 @@ import {
   X,
   LayoutDashboard,
   FolderOpen,
+  Network,
   MessageSquare,
   BarChart2,
   Settings,
@@ -41,6 +42,12 @@ const navigationActions = [
     icon: FolderOpen,
     path: "/app/collections",
   },
+  {
+    id: "knowledge-graph",
+    label: "Go to Knowledge Graph",
+    icon: Network,
+    path: "/app/knowledge-graph",
+  },
   {
     id: "ai-assistant",
     label: "Go to AI Assistant",
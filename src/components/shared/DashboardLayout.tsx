@@ -18,6 +18,7 @@ import { motion, AnimatePresence } from "motion/react";
 import {
   LayoutDashboard,
   FolderOpen,
+  Network,
   MessageSquare,
   PenTool,
   Settings,
@@ -51,6 +52,7 @@ const NAV_GROUPS: {
     items: [
       { icon: LayoutDashboard, label: "Dashboard", path: "/app/dashboard" },
       { icon: FolderOpen, label: "Collections", path: "/app/collections" },
+      { icon: Network, label: "Knowledge Graph", path: "/app/knowledge-graph" },
     ],
   },
   {
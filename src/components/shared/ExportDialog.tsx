@@ -0,0 +1,296 @@
+// ============================================
+// ExportDialog.tsx - Filtered export (format, date range, collections, tags)
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button, Input, Modal, Select, Toggle } from "./ui";
+import { StorageItem, getAllItems } from "../../services/storageService";
+import { Collection, getAllCollections } from "../../services/collectionsService";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  applyExportOptions,
+  exportWithOptions,
+} from "../../utils/export";
+import type { ExportFormat, ExportOptions } from "../../types";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  showToast: (message: string, type: "success" | "error" | "info") => void;
+  /** Items to export from; defaults to the whole library. */
+  items?: StorageItem[];
+  /** Preset filters, e.g. the collection being viewed. */
+  initialOptions?: Partial<ExportOptions>;
+}
+
+// ============================================
+// PART 3: CONSTANTS & HELPERS
+// ============================================
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: "json", label: "JSON" },
+  { value: "csv", label: "CSV" },
+  { value: "markdown", label: "Markdown" },
+  { value: "pdf", label: "PDF" },
+  { value: "bibtex", label: "BibTeX" },
+  { value: "ris", label: "RIS" },
+  { value: "csl-json", label: "CSL-JSON" },
+];
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/** Quick date ranges; "Last month" is the previous calendar month. */
+const DATE_PRESETS: { label: string; range: () => { start: string; end: string } | undefined }[] = [
+  { label: "Any time", range: () => undefined },
+  {
+    label: "Last 7 days",
+    range: () => {
+      const start = new Date();
+      start.setDate(start.getDate() - 6);
+      return { start: toDateInput(start), end: toDateInput(new Date()) };
+    },
+  },
+  {
+    label: "Last month",
+    range: () => {
+      const now = new Date();
+      return {
+        start: toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+        end: toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+      };
+    },
+  },
+  {
+    label: "This year",
+    range: () => ({
+      start: `${new Date().getFullYear()}-01-01`,
+      end: toDateInput(new Date()),
+    }),
+  },
+];
+
+const chipClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+    active
+      ? "bg-[#007AFF] border-[#007AFF] text-white"
+      : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-[#007AFF]"
+  }`;
+
+const toggleValue = (list: string[] | undefined, value: string) =>
+  list?.includes(value) ? list.filter((v) => v !== value) : [...(list || []), value];
+
+// ============================================
+// PART 4: MAIN COMPONENT
+// ============================================
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  onClose,
+  showToast,
+  items,
+  initialOptions,
+}) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [libraryItems, setLibraryItems] = useState<StorageItem[] | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setOptions({ ...DEFAULT_EXPORT_OPTIONS, ...initialOptions });
+
+    if (items) setLibraryItems(items);
+    else {
+      setLibraryItems(null);
+      getAllItems(Number.MAX_SAFE_INTEGER)
+        .then((result) => !cancelled && setLibraryItems(result))
+        .catch(() => !cancelled && setLibraryItems([]));
+    }
+    getAllCollections()
+      .then((result) => !cancelled && setCollections(result))
+      .catch(() => !cancelled && setCollections([]));
+
+    return () => {
+      cancelled = true;
+    };
+    // initialOptions is read once per opening
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, items]);
+
+  const availableTags = useMemo(() => {
+    const tags = new Map<string, string>();
+    for (const item of libraryItems || []) {
+      for (const tag of item.tags || []) {
+        if (!tag.startsWith("color:")) tags.set(tag.toLowerCase(), tag);
+      }
+    }
+    return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+  }, [libraryItems]);
+
+  const matchCount = useMemo(
+    () => (libraryItems ? applyExportOptions(libraryItems, options).length : 0),
+    [libraryItems, options],
+  );
+
+  const update = (patch: Partial<ExportOptions>) => setOptions((prev) => ({ ...prev, ...patch }));
+
+  const setDate = (field: "start" | "end", value: string) => {
+    const range = { start: "", end: "", ...options.date_range, [field]: value };
+    update({ date_range: range.start || range.end ? range : undefined });
+  };
+
+  const handleExport = async () => {
+    if (!libraryItems) return;
+    setExporting(true);
+    try {
+      if (options.format === "pdf") showToast("Generating PDF...", "info");
+      const count = await exportWithOptions(libraryItems, options);
+      showToast(`Exported ${count} items as ${options.format.toUpperCase()}`, "success");
+      onClose();
+    } catch (error) {
+      showToast(`Export failed: ${(error as Error).message}`, "error");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={() => !exporting && onClose()} title="Export" size="lg">
+      {!libraryItems ? (
+        <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+          <Loader2 className="w-5 h-5 animate-spin" /> Loading library…
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <Select
+            label="Format"
+            options={FORMAT_OPTIONS}
+            value={options.format}
+            onChange={(value) => update({ format: value as ExportFormat })}
+          />
+
+          {/* Date range */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Date saved</p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {DATE_PRESETS.map((preset) => {
+                const range = preset.range();
+                const active =
+                  (range?.start ?? "") === (options.date_range?.start ?? "") &&
+                  (range?.end ?? "") === (options.date_range?.end ?? "");
+                return (
+                  <button
+                    key={preset.label}
+                    onClick={() => update({ date_range: range })}
+                    className={chipClass(active)}
+                  >
+                    {preset.label}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                type="date"
+                label="From"
+                value={options.date_range?.start || ""}
+                onChange={(e) => setDate("start", e.target.value)}
+              />
+              <Input
+                type="date"
+                label="To"
+                value={options.date_range?.end || ""}
+                onChange={(e) => setDate("end", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Collections */}
+          {collections.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Collections <span className="text-gray-400 font-normal">(none selected = all)</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {collections.map((c) => (
+                  <button
+                    key={c.id}
+                    onClick={() => update({ collection_ids: toggleValue(options.collection_ids, c.id) })}
+                    className={chipClass(!!options.collection_ids?.includes(c.id))}
+                  >
+                    {c.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Tags */}
+          {availableTags.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Tags <span className="text-gray-400 font-normal">(any of)</span>
+              </p>
+              <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+                {availableTags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => update({ tags: toggleValue(options.tags, tag) })}
+                    className={chipClass(!!options.tags?.includes(tag))}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Content */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <Toggle
+              label="AI summaries"
+              checked={options.include_summaries}
+              onChange={(checked) => update({ include_summaries: checked })}
+            />
+            <Toggle
+              label="Notes"
+              checked={options.include_notes}
+              onChange={(checked) => update({ include_notes: checked })}
+            />
+            <Toggle
+              label="Metadata"
+              checked={options.include_metadata}
+              onChange={(checked) => update({ include_metadata: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between pt-3 border-t border-gray-100 dark:border-gray-700">
+            <p className="text-sm text-gray-500">
+              {matchCount} of {libraryItems.length} items match
+            </p>
+            <Button onClick={handleExport} isLoading={exporting} disabled={matchCount === 0}>
+              <Download className="w-4 h-4 mr-2" /> Export {matchCount}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+
+export default ExportDialog;
@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { Timer } from 'lucide-react';
+import {
+  RATE_LIMIT_EVENT,
+  RateLimitEventDetail,
+  rateLimitSecondsLeft,
+} from '../../services/rateLimitService';
+
+/**
+ * Countdown shown while the API is rate limiting the user. Driven by the
+ * `Retry-After` header of 429 responses (see apiFetch).
+ */
+const RateLimitNotice: React.FC = () => {
+  const [secondsLeft, setSecondsLeft] = useState(rateLimitSecondsLeft());
+
+  useEffect(() => {
+    const handleLimited = (event: Event) => {
+      const { until } = (event as CustomEvent<RateLimitEventDetail>).detail;
+      setSecondsLeft(Math.max(0, Math.ceil((until - Date.now()) / 1000)));
+    };
+
+    window.addEventListener(RATE_LIMIT_EVENT, handleLimited);
+    return () => window.removeEventListener(RATE_LIMIT_EVENT, handleLimited);
+  }, []);
+
+  // Tick once a second while the countdown runs
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timer = setInterval(() => setSecondsLeft(rateLimitSecondsLeft()), 1000);
+    return () => clearInterval(timer);
+  }, [secondsLeft > 0]);
+
+  if (secondsLeft <= 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed top-4 right-4 z-50" role="status" aria-live="polite">
+      <div className="flex items-center gap-3 px-4 py-3 rounded-xl shadow-lg backdrop-blur-md border bg-amber-50/90 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+        <div className="flex-shrink-0 w-10 h-10 rounded-full bg-amber-100 dark:bg-amber-900/40 flex items-center justify-center">
+          <Timer className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+        </div>
+        <div className="flex-1">
+          <p className="text-sm font-medium text-amber-900 dark:text-amber-100">
+            Too many requests
+          </p>
+          <p className="text-xs text-amber-700 dark:text-amber-300 tabular-nums">
+            Try again in {secondsLeft}s
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RateLimitNotice;
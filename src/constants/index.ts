@@ -136,6 +136,9 @@ export const EXPORT_FORMATS = {
   CSV: "csv",
   MARKDOWN: "md",
   PDF: "pdf",
+  BIBTEX: "bibtex",
+  RIS: "ris",
+  CSL_JSON: "csl-json",
 } as const;
 
 // ============================================
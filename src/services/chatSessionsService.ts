@@ -0,0 +1,218 @@
+// ============================================
+// chatSessionsService.ts - AI Assistant conversations (chat_sessions table)
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { supabase, isAuthenticated } from "./supabaseClient";
+import type { ChatMessage, ChatSession } from "../types";
+
+// ============================================
+// PART 2: CONSTANTS
+// ============================================
+
+export const DEFAULT_SESSION_TITLE = "New chat";
+const MAX_TITLE_LENGTH = 60;
+const MAX_SESSIONS = 100;
+
+/** Single conversation kept in localStorage before sessions were stored server-side. */
+const LEGACY_HISTORY_KEY = "rm_chat_history";
+
+// ============================================
+// PART 3: HELPERS
+// ============================================
+
+/**
+ * Title for a new conversation from its first message: @-mentions and
+ * markdown are dropped and long text is cut at a word boundary.
+ */
+export function titleFromMessage(text: string): string {
+  const clean = text
+    .replace(/@\S+/g, " ")
+    .replace(/[#*_`>[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!clean) return DEFAULT_SESSION_TITLE;
+  if (clean.length <= MAX_TITLE_LENGTH) return clean;
+
+  const cut = clean.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+function transformSession(row: any): ChatSession {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    title: row.title || DEFAULT_SESSION_TITLE,
+    messages: Array.isArray(row.messages) ? row.messages : [],
+    item_id: row.item_id ?? null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// ============================================
+// PART 4: CRUD OPERATIONS
+// ============================================
+
+/**
+ * Library-wide conversations for the current user, most recently active
+ * first. Per-item conversations are excluded. Guests have no stored
+ * conversations.
+ */
+export async function getChatSessions(): Promise<ChatSession[]> {
+  if (!(await isAuthenticated())) return [];
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .select("*")
+    .is("item_id", null)
+    .order("updated_at", { ascending: false })
+    .limit(MAX_SESSIONS);
+
+  if (error) throw error;
+  return (data || []).map(transformSession);
+}
+
+export async function createChatSession(
+  title = DEFAULT_SESSION_TITLE,
+  messages: ChatMessage[] = [],
+): Promise<ChatSession> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Must be logged in to save conversations");
+  }
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .insert([{ user_id: user.id, title, messages }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return transformSession(data);
+}
+
+export async function renameChatSession(id: string, title: string): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .update({ title: title.trim() || DEFAULT_SESSION_TITLE })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return transformSession(data);
+}
+
+/** Replaces the stored messages of a conversation. */
+export async function saveChatMessages(id: string, messages: ChatMessage[]): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .update({ messages })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return transformSession(data);
+}
+
+/** The conversation about a single library item, if one has been started. */
+export async function getItemChatSession(itemId: string): Promise<ChatSession | null> {
+  if (!(await isAuthenticated())) return null;
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .select("*")
+    .eq("item_id", itemId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? transformSession(data) : null;
+}
+
+/** Creates or replaces the messages of an item's conversation. */
+export async function saveItemChatMessages(
+  itemId: string,
+  title: string,
+  messages: ChatMessage[],
+): Promise<ChatSession> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("Must be logged in to save conversations");
+  }
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .upsert([{ user_id: user.id, item_id: itemId, title, messages }], { onConflict: "user_id,item_id" })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return transformSession(data);
+}
+
+export async function deleteChatSession(id: string): Promise<void> {
+  const { error } = await supabase.from("chat_sessions").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ============================================
+// PART 5: LEGACY MIGRATION
+// ============================================
+
+/**
+ * Moves the old localStorage conversation into a stored session, once.
+ * The key is removed either way so it cannot leak into another account
+ * signing in on the same browser.
+ */
+export async function migrateLegacyChatHistory(): Promise<ChatSession | null> {
+  const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!raw) return null;
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+
+  try {
+    const legacy = JSON.parse(raw) as Array<{ id: string; role: "user" | "ai"; text: string; timestamp: number }>;
+    const messages: ChatMessage[] = (Array.isArray(legacy) ? legacy : [])
+      .filter((m) => m.id !== "welcome" && m.text)
+      .map((m) => ({
+        id: m.id,
+        role: m.role === "ai" ? "assistant" : "user",
+        content: m.text,
+        timestamp: m.timestamp,
+      }));
+    if (messages.length === 0) return null;
+
+    const firstQuestion = messages.find((m) => m.role === "user");
+    return await createChatSession(titleFromMessage(firstQuestion?.content || ""), messages);
+  } catch (error) {
+    console.error("❌ Failed to migrate chat history:", error);
+    return null;
+  }
+}
+
+// ============================================
+// PART 6: EXPORTS
+// ============================================
+
+export default {
+  getChatSessions,
+  createChatSession,
+  renameChatSession,
+  saveChatMessages,
+  deleteChatSession,
+  getItemChatSession,
+  saveItemChatMessages,
+  migrateLegacyChatHistory,
+  titleFromMessage,
+};
@@ -0,0 +1,122 @@
+// ============================================
+// citationKeyService.ts - Stable BibTeX citation keys
+// ============================================
+// Citation keys are stored on the item (`csl_data.citation-key`) the first
+// time it is exported, so re-exporting a selection, a collection or the
+// whole library always yields the same `\cite{}` keys.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { supabase } from "./supabaseClient";
+import { StorageItem, getAllItems, updateItem } from "./storageService";
+import { generateCitationKey } from "../components/App/Citations/citationUtils";
+import { buildCitationDataFromItem } from "../components/App/DocumentEditor/bibliographyUtils";
+import type { CslItem } from "../types";
+
+// ============================================
+// PART 2: HELPERS
+// ============================================
+
+const LIBRARY_PAGE_SIZE = 500;
+
+/**
+ * Stored keys of every library item, oldest item first, read a page at a
+ * time (only the id and citation key of each item).
+ */
+async function getLibraryKeys(): Promise<{ id: string; key?: string }[]> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const readPage = async (offset: number): Promise<{ id: string; key?: string }[]> => {
+    if (!user) {
+      return (await getAllItems(LIBRARY_PAGE_SIZE, offset)).map((item) => ({
+        id: item.id,
+        key: item.cslData?.["citation-key"],
+      }));
+    }
+    const { data, error } = await supabase
+      .from("items")
+      .select("id, citation_key:csl_data->>citation-key")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+      .order("id")
+      .range(offset, offset + LIBRARY_PAGE_SIZE - 1);
+    if (error) throw error;
+    return (data || []).map((row: any) => ({ id: row.id, key: row.citation_key ?? undefined }));
+  };
+
+  const keys: { id: string; key?: string }[] = [];
+  for (let offset = 0; ; offset += LIBRARY_PAGE_SIZE) {
+    const rows = await readPage(offset);
+    keys.push(...rows);
+    if (rows.length < LIBRARY_PAGE_SIZE) break;
+  }
+  // Local items come newest first
+  return user ? keys : keys.reverse();
+}
+
+/** `smith2020deep`, then `smith2020deepa`, `smith2020deepb`, … */
+function nextFreeKey(base: string, taken: Map<string, string>): string {
+  if (!taken.has(base)) return base;
+  for (let i = 0; ; i++) {
+    let suffix = "";
+    for (let n = i; n >= 0; n = Math.floor(n / 26) - 1) {
+      suffix = String.fromCharCode(97 + (n % 26)) + suffix;
+    }
+    if (!taken.has(base + suffix)) return base + suffix;
+  }
+}
+
+// ============================================
+// PART 3: PUBLIC API
+// ============================================
+
+/**
+ * Returns CSL data with a library-unique `citation-key` for each item.
+ * Items without a key (or whose key an older item already owns) get one
+ * assigned and persisted; existing keys are never changed.
+ */
+export async function assignCitationKeys(items: StorageItem[]): Promise<Map<string, CslItem>> {
+  // key → owning item id, and item id → its own key (read from storage, so
+  // callers holding stale item objects still get the persisted key)
+  const taken = new Map<string, string>();
+  const owned = new Map<string, string>();
+  for (const { id, key } of await getLibraryKeys()) {
+    if (key && !taken.has(key)) {
+      taken.set(key, id);
+      owned.set(id, key);
+    }
+  }
+
+  const result = new Map<string, CslItem>();
+  const updates: Promise<void>[] = [];
+  for (const item of items) {
+    const data = buildCitationDataFromItem(item);
+    const own = owned.get(item.id);
+
+    if (own) {
+      result.set(item.id, { ...data, "citation-key": own });
+      continue;
+    }
+
+    const key = nextFreeKey(generateCitationKey({ ...data, "citation-key": undefined }), taken);
+    taken.set(key, item.id);
+
+    const { id: _id, ...base } = data;
+    const cslData: CslItem = { ...(item.cslData ?? base), "citation-key": key };
+    updates.push(updateItem(item.id, { cslData }));
+    result.set(item.id, { ...data, "citation-key": key });
+  }
+
+  await Promise.all(updates);
+  return result;
+}
+
+// ============================================
+// PART 4: EXPORTS
+// ============================================
+
+export default { assignCitationKeys };
@@ -0,0 +1,104 @@
+// ============================================
+// citationStyleService.ts - User-uploaded CSL styles
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { supabase } from "./supabaseClient";
+import {
+  CslStyle,
+  parseCslStyle,
+  registerCslStyles,
+  unregisterCslStyle,
+} from "../components/App/Citations/cslEngine";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+
+interface CitationStyleRow {
+  id: string;
+  user_id: string;
+  name: string;
+  xml: string;
+  created_at: string;
+}
+
+// ============================================
+// PART 3: CONSTANTS & HELPERS
+// ============================================
+
+export const MAX_STYLE_FILE_BYTES = 512 * 1024;
+
+const CUSTOM_STYLE_PREFIX = "custom:";
+
+export const isCustomStyleId = (id: string) => id.startsWith(CUSTOM_STYLE_PREFIX);
+
+const mapRow = (row: CitationStyleRow): CslStyle => ({
+  id: `${CUSTOM_STYLE_PREFIX}${row.id}`,
+  name: row.name,
+  description: "Uploaded style",
+  xml: row.xml,
+  custom: true,
+});
+
+// ============================================
+// PART 4: SERVICE FUNCTIONS
+// ============================================
+
+/** Loads the user's uploaded styles and registers them with the CSL engine. */
+export async function loadCustomCitationStyles(): Promise<CslStyle[]> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("citation_styles")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  const styles = (data || []).map(mapRow);
+  registerCslStyles(styles);
+  return styles;
+}
+
+/** Validates and saves an uploaded `.csl` file. Throws a user-facing error. */
+export async function uploadCitationStyle(file: File): Promise<CslStyle> {
+  if (file.size > MAX_STYLE_FILE_BYTES) {
+    throw new Error("Style files must be smaller than 512 KB.");
+  }
+
+  const xml = await file.text();
+  const { title } = parseCslStyle(xml);
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from("citation_styles")
+    .insert({ user_id: user.id, name: title, xml })
+    .select()
+    .single();
+
+  if (error) throw error;
+  const style = mapRow(data);
+  registerCslStyles([style]);
+  return style;
+}
+
+export async function deleteCitationStyle(styleId: string): Promise<void> {
+  const { error } = await supabase
+    .from("citation_styles")
+    .delete()
+    .eq("id", styleId.slice(CUSTOM_STYLE_PREFIX.length));
+
+  if (error) throw error;
+  unregisterCslStyle(styleId);
+}
@@ -0,0 +1,120 @@
+// ============================================
+// creditsService.ts — AI credit balance & usage history
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { supabase } from "./supabaseClient";
+import { apiFetch } from "./rateLimitService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+// Mirrors api/_utils/creditLedger.ts
+
+export type CreditOutcome = "charged" | "insufficient" | "refunded";
+
+export interface CreditTransaction {
+  id: string;
+  /** API route that spent the credits, e.g. "summarize". */
+  endpoint: string;
+  cost: number;
+  outcome: CreditOutcome;
+  provider: string | null;
+  item_id: string | null;
+  balance_after: number | null;
+  created_at: string;
+}
+
+export interface EndpointUsage {
+  endpoint: string;
+  calls: number;
+  charged: number;
+  refunded: number;
+  net: number;
+}
+
+export interface DailyUsage {
+  /** UTC day, YYYY-MM-DD. */
+  date: string;
+  charged: number;
+  refunded: number;
+  net: number;
+}
+
+export interface CreditUsage {
+  balance: number | null;
+  /** True when the user's own API key is in use and calls are not charged. */
+  byok: boolean;
+  days: number;
+  summary: {
+    totals: { calls: number; charged: number; refunded: number; net: number };
+    byEndpoint: EndpointUsage[];
+    daily: DailyUsage[];
+  };
+  transactions: CreditTransaction[];
+  hasMore: boolean;
+}
+
+// ============================================
+// PART 3: CONSTANTS
+// ============================================
+
+/** Display names for the endpoints that charge credits. */
+export const ENDPOINT_LABELS: Record<string, string> = {
+  chat: "AI Assistant",
+  summarize: "Summaries",
+  insights: "Research insights",
+  synthesize: "Literature reviews",
+  "generate-tags": "Tag suggestions",
+  transcribe: "Transcription",
+  ocr: "OCR",
+  cite: "Citation lookup",
+  "extract-citation": "Citation extraction",
+  "identify-source": "Source identification",
+};
+
+export const endpointLabel = (endpoint: string) => ENDPOINT_LABELS[endpoint] || endpoint;
+
+// ============================================
+// PART 4: API CALLS
+// ============================================
+
+async function getAuthHeader(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("You must be signed in to view credit usage");
+  return { Authorization: `Bearer ${session.access_token}` };
+}
+
+/**
+ * Balance, usage summary for the last `days` days and the newest page of
+ * the credit history. Pass the last transaction's `created_at` as `before`
+ * to load the next page.
+ */
+export async function getCreditUsage(
+  options: { days?: number; limit?: number; before?: string } = {},
+): Promise<CreditUsage> {
+  const params = new URLSearchParams();
+  if (options.days) params.set("days", String(options.days));
+  if (options.limit) params.set("limit", String(options.limit));
+  if (options.before) params.set("before", options.before);
+
+  const response = await apiFetch(`/api/credits?${params}`, {
+    headers: await getAuthHeader(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || `Could not load credit usage (${response.status})`);
+  }
+  return response.json();
+}
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+// Named exports above — no default export
@@ -17,6 +17,8 @@ export interface Document {
   userId: string;
   title: string;
   content: Record<string, unknown>;
+  /** Bibliography style: a built-in format, bundled CSL id or "custom:<id>". */
+  citationStyle: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -26,6 +28,7 @@ interface DocumentRow {
   user_id: string;
   title: string;
   content: Record<string, unknown>;
+  citation_style: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +37,8 @@ interface DocumentRow {
 // PART 3: HELPERS
 // ============================================
 
+const DEFAULT_CITATION_STYLE = "apa";
+
 const EMPTY_DOC_CONTENT = {
   type: "doc",
   content: [{ type: "paragraph" }],
@@ -44,6 +49,7 @@ const mapRow = (row: DocumentRow): Document => ({
   userId: row.user_id,
   title: row.title,
   content: row.content,
+  citationStyle: row.citation_style || DEFAULT_CITATION_STYLE,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 });
@@ -103,11 +109,17 @@ export async function createDocument(
 
 export async function updateDocument(
   id: string,
-  updates: { title?: string; content?: Record<string, unknown> }
+  updates: {
+    title?: string;
+    content?: Record<string, unknown>;
+    citationStyle?: string;
+  }
 ): Promise<void> {
   const updateData: Record<string, unknown> = {};
   if (updates.title !== undefined) updateData.title = updates.title;
   if (updates.content !== undefined) updateData.content = updates.content;
+  if (updates.citationStyle !== undefined)
+    updateData.citation_style = updates.citationStyle;
 
   const { error } = await supabase
     .from("documents")
@@ -4,6 +4,8 @@
 
 // IMPORT SHARED SUPABASE CLIENT to ensure we use the same session state
 import { supabase } from "./supabaseClient";
+import type { ItemInsights } from "../types";
+import { apiFetch } from "./rateLimitService";
 
 // ============================================
 // PART 1: CONFIGURATION
@@ -25,17 +27,42 @@ export const CONFIG = {
 
 export type SummaryMode = "ultra-short" | "standard" | "detailed";
 
+/** For AI calls whose answers the server caches per user (same text, same mode). */
+export interface CacheOptions {
+  /** Skip the cached answer and generate (and pay for) a new one. */
+  refresh?: boolean;
+}
+
 export interface SummaryResult {
   ok: boolean;
   summary: string;
+  /** The server answered from its cache; no credit was used. */
+  cached?: boolean;
   reason?: string;
   error?: string;
   credits_remaining?: number | string;
 }
 
+/** Cost of summarizing a text, returned before any credit is spent. */
+export interface SummaryQuote {
+  strategy: "single" | "map-reduce";
+  /** Parts a long document is split into (0 for a single prompt). */
+  chunks: number;
+  /** Page / section label of each part. */
+  sections: string[];
+  credits: number;
+  /** Already summarized: `credits` is 0 and the summary comes from the cache. */
+  cached?: boolean;
+}
+
+export type SummaryProgress =
+  | { stage: "map"; completed: number; total: number; label: string }
+  | { stage: "reduce" };
+
 export interface TagsResult {
   ok: boolean;
   tags: string[];
+  cached?: boolean;
   reason?: string;
   error?: string;
   credits_remaining?: number | string;
@@ -43,20 +70,70 @@ export interface TagsResult {
 
 export interface InsightsResult {
   ok: boolean;
-  insights: string;
+  insights: ItemInsights | null;
+  cached?: boolean;
+  reason?: string;
+  error?: string;
+  credits_remaining?: number | string;
+}
+
+export interface FieldValuesResult {
+  ok: boolean;
+  /** Extracted value per requested field; null where the text does not say. */
+  values: Record<string, string | null>;
+  cached?: boolean;
+  reason?: string;
+  error?: string;
+  credits_remaining?: number | string;
+}
+
+/** A collection item sent for synthesis; the review cites it as [[item:<id>]]. */
+export interface SynthesisSource {
+  id: string;
+  title: string;
+  citation?: string;
+  summary?: string;
+  notes?: string;
+  text?: string;
+}
+
+export interface SynthesisResult {
+  ok: boolean;
+  /** Markdown literature review with inline [[item:<id>]] citations. */
+  review: string;
   reason?: string;
   error?: string;
   credits_remaining?: number | string;
 }
 
+/** A library item retrieved to ground a chat answer; cited as [[item:<id>]]. */
+export interface ChatSource {
+  id: string;
+  title: string;
+}
+
 export interface ChatResult {
   ok: boolean;
   response: string;
+  sources?: ChatSource[];
+  /** AI provider that produced the response (e.g. "gemini"). */
+  provider?: string;
   reason?: string;
   error?: string;
   credits_remaining?: number | string;
 }
 
+export interface ChatOptions {
+  /** Search the whole library for excerpts to ground the answer (default true). */
+  retrieve?: boolean;
+}
+
+export interface ChatStreamHandlers {
+  onDelta: (delta: string) => void;
+  /** Library items retrieved for this question; arrives before the first delta. */
+  onSources?: (sources: ChatSource[]) => void;
+}
+
 // ============================================
 // PART 3: AUTH HELPER
 // ============================================
@@ -66,8 +143,8 @@ async function getAuthHeaders(): Promise<HeadersInit> {
     "Content-Type": "application/json",
   };
 
-  // Note: custom user API keys (BYOK) are now sent securely via HttpOnly cookies.
-  // We no longer read from localStorage or send them in headers.
+  // Note: custom user API keys (BYOK) are stored encrypted server-side
+  // (Settings → AI & Privacy) and looked up from the session token.
 
   // 2. Get Supabase Session Token
   const { data } = await supabase.auth.getSession();
@@ -87,16 +164,20 @@ async function getAuthHeaders(): Promise<HeadersInit> {
 /**
  * Main summarization function
  */
-export async function summarizeText(input: string, mode: SummaryMode = "standard"): Promise<SummaryResult> {
+export async function summarizeText(
+  input: string,
+  mode: SummaryMode = "standard",
+  options: CacheOptions = {},
+): Promise<SummaryResult> {
   const text = (input || "").trim();
   if (!text) return { ok: false, summary: "", reason: "empty" };
 
   try {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_BASE_URL}/summarize`, {
+    const response = await apiFetch(`${API_BASE_URL}/summarize`, {
       method: "POST",
       headers,
-      body: JSON.stringify({ text, mode }),
+      body: JSON.stringify({ text, mode, refresh: options.refresh }),
     });
 
     const data = await response.json();
@@ -110,12 +191,16 @@ export async function summarizeText(input: string, mode: SummaryMode = "standard
           error: "You have used all your free AI credits.",
         };
       }
+      if (response.status === 409 && data.code === "QUOTE_REQUIRED") {
+        return { ok: false, summary: "", reason: "quote_required", error: data.error };
+      }
       throw new Error(data.error || "Request failed");
     }
 
     return {
       ok: true,
       summary: data.summary || "",
+      cached: !!data.cached,
       credits_remaining: data.credits_remaining,
     };
   } catch (error) {
@@ -124,18 +209,133 @@ export async function summarizeText(input: string, mode: SummaryMode = "standard
   }
 }
 
+/**
+ * Texts longer than this are summarized part by part (map-reduce) and may
+ * cost more than one credit; mirrors LONG_DOCUMENT_CHARS in
+ * api/_utils/longSummary.ts.
+ */
+export const LONG_DOCUMENT_CHARS = 40_000;
+
+/**
+ * Quotes the credit cost of summarizing `input` without spending any.
+ * Returns null when the quote failed; throws with the server's message when
+ * the document is too long to summarize at all.
+ */
+export async function quoteSummary(
+  input: string,
+  mode: SummaryMode = "standard",
+  options: CacheOptions = {},
+): Promise<SummaryQuote | null> {
+  let response: Response;
+  try {
+    const headers = await getAuthHeaders();
+    response = await apiFetch(`${API_BASE_URL}/summarize`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ text: input.trim(), mode, quote: true, refresh: options.refresh }),
+    });
+    if (response.ok) return (await response.json()) as SummaryQuote;
+  } catch (error) {
+    console.error("❌ Summary quote failed:", error);
+    return null;
+  }
+  if (response.status !== 413) return null;
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || "This document is too long to summarize.");
+}
+
+/**
+ * Map-reduce summary of a long document with progress. `maxCredits` is the
+ * quoted cost the user accepted; the server refuses to charge more.
+ */
+export async function summarizeLongText(
+  input: string,
+  mode: SummaryMode,
+  maxCredits: number,
+  onProgress: (progress: SummaryProgress) => void,
+  signal?: AbortSignal,
+  options: CacheOptions = {},
+): Promise<SummaryResult> {
+  const text = (input || "").trim();
+  if (!text) return { ok: false, summary: "", reason: "empty" };
+
+  try {
+    const headers = await getAuthHeaders();
+    const response = await apiFetch(`${API_BASE_URL}/summarize`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ text, mode, maxCredits, stream: true, refresh: options.refresh }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 403 && data.code === "NO_CREDITS") {
+        return { ok: false, summary: "", reason: "no_credits", error: data.error || "Out of credits" };
+      }
+      if (response.status === 409 && data.code === "QUOTE_REQUIRED") {
+        return { ok: false, summary: "", reason: "quote_required", error: data.error };
+      }
+      throw new Error(data.error || "Request failed");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const events = buffer.split("\n\n");
+      buffer = events.pop() || "";
+      for (const raw of events) {
+        if (!raw.startsWith("data:")) continue;
+        const event = JSON.parse(raw.slice(5).trim());
+
+        if (event.type === "progress") {
+          onProgress(event as SummaryProgress);
+        } else if (event.type === "done") {
+          return {
+            ok: true,
+            summary: event.summary || "",
+            cached: !!event.cached,
+            credits_remaining: event.credits_remaining,
+          };
+        } else if (event.type === "error") {
+          const reason = event.code === "NO_CREDITS" ? "no_credits" : undefined;
+          return { ok: false, summary: "", reason, error: event.error };
+        }
+      }
+    }
+
+    return { ok: false, summary: "", error: "The summary was interrupted." };
+  } catch (error) {
+    if ((error as Error).name === "AbortError") {
+      return { ok: false, summary: "", reason: "aborted", error: "Request cancelled" };
+    }
+    console.error("❌ Long summary failed:", error);
+    return { ok: false, summary: "", error: (error as Error).message };
+  }
+}
+
 /**
  * Generate Summary directly onto an Item ID via backend
  */
-export async function generateItemSummary(itemId: string, text: string): Promise<SummaryResult> {
+export async function generateItemSummary(
+  itemId: string,
+  text: string,
+  options: CacheOptions = {},
+): Promise<SummaryResult> {
   if (!itemId || !text) return { ok: false, summary: "", reason: "empty" };
 
   try {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_BASE_URL}/summarize`, {
+    const response = await apiFetch(`${API_BASE_URL}/summarize`, {
       method: "POST",
       headers,
-      body: JSON.stringify({ itemId, text }),
+      body: JSON.stringify({ itemId, text, refresh: options.refresh }),
     });
 
     const data = await response.json();
@@ -147,6 +347,7 @@ export async function generateItemSummary(itemId: string, text: string): Promise
     return {
       ok: true,
       summary: data.summary || "",
+      cached: !!data.cached,
     };
   } catch (error) {
     console.error("❌ AI summarization failed:", error);
@@ -157,16 +358,16 @@ export async function generateItemSummary(itemId: string, text: string): Promise
 /**
  * Generate tags
  */
-export async function generateTags(text: string): Promise<TagsResult> {
+export async function generateTags(text: string, options: CacheOptions = {}): Promise<TagsResult> {
   const input = (text || "").trim();
   if (!input) return { ok: false, tags: [], reason: "empty" };
 
   try {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_BASE_URL}/generate-tags`, {
+    const response = await apiFetch(`${API_BASE_URL}/generate-tags`, {
       method: "POST",
       headers,
-      body: JSON.stringify({ text: input }),
+      body: JSON.stringify({ text: input, refresh: options.refresh }),
     });
 
     const data = await response.json();
@@ -186,6 +387,7 @@ export async function generateTags(text: string): Promise<TagsResult> {
     return {
       ok: true,
       tags: data.tags || [],
+      cached: !!data.cached,
       credits_remaining: data.credits_remaining,
     };
   } catch (error) {
@@ -195,18 +397,23 @@ export async function generateTags(text: string): Promise<TagsResult> {
 }
 
 /**
- * Extract insights
+ * Extract structured insights. With an `itemId` they are also saved to
+ * the item.
  */
-export async function extractInsights(text: string): Promise<InsightsResult> {
+export async function extractInsights(
+  text: string,
+  itemId?: string,
+  options: CacheOptions = {},
+): Promise<InsightsResult> {
   const input = (text || "").trim();
-  if (!input) return { ok: false, insights: "", reason: "empty" };
+  if (!input) return { ok: false, insights: null, reason: "empty" };
 
   try {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_BASE_URL}/insights`, {
+    const response = await apiFetch(`${API_BASE_URL}/insights`, {
       method: "POST",
       headers,
-      body: JSON.stringify({ text: input }),
+      body: JSON.stringify({ text: input, itemId, refresh: options.refresh }),
     });
 
     const data = await response.json();
@@ -215,7 +422,7 @@ export async function extractInsights(text: string): Promise<InsightsResult> {
       if (response.status === 403 && data.code === "NO_CREDITS") {
         return {
           ok: false,
-          insights: "",
+          insights: null,
           reason: "no_credits",
           error: "Out of credits",
         };
@@ -225,12 +432,102 @@ export async function extractInsights(text: string): Promise<InsightsResult> {
 
     return {
       ok: true,
-      insights: data.insights || "",
+      insights: data.insights || null,
+      cached: !!data.cached,
       credits_remaining: data.credits_remaining,
     };
   } catch (error) {
     console.error("❌ Insight extraction failed:", error);
-    return { ok: false, insights: "", error: (error as Error).message };
+    return { ok: false, insights: null, error: (error as Error).message };
+  }
+}
+
+/**
+ * Extract user-named fields (evidence-matrix columns) from a text. The
+ * values are returned, not saved; callers store them in `customFields`.
+ */
+export async function extractFieldValues(
+  text: string,
+  fields: string[],
+  options: CacheOptions = {},
+): Promise<FieldValuesResult> {
+  const input = (text || "").trim();
+  if (!input || fields.length === 0) return { ok: false, values: {}, reason: "empty" };
+
+  try {
+    const headers = await getAuthHeaders();
+    const response = await apiFetch(`${API_BASE_URL}/insights`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ text: input, fields, refresh: options.refresh }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      if (response.status === 403 && data.code === "NO_CREDITS") {
+        return {
+          ok: false,
+          values: {},
+          reason: "no_credits",
+          error: "Out of credits",
+        };
+      }
+      throw new Error(data.error || "Request failed");
+    }
+
+    return {
+      ok: true,
+      values: data.values || {},
+      cached: !!data.cached,
+      credits_remaining: data.credits_remaining,
+    };
+  } catch (error) {
+    console.error("❌ Field extraction failed:", error);
+    return { ok: false, values: {}, error: (error as Error).message };
+  }
+}
+
+/**
+ * Synthesize several items into a structured literature review (themes,
+ * agreements, contradictions, gaps). Costs one credit.
+ */
+export async function synthesizeCollection(
+  sources: SynthesisSource[],
+  collectionName?: string,
+): Promise<SynthesisResult> {
+  if (sources.length < 2) return { ok: false, review: "", reason: "too_few_items" };
+
+  try {
+    const headers = await getAuthHeaders();
+    const response = await apiFetch(`${API_BASE_URL}/synthesize`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ items: sources, collectionName }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      if (response.status === 403 && data.code === "NO_CREDITS") {
+        return {
+          ok: false,
+          review: "",
+          reason: "no_credits",
+          error: "Out of credits",
+        };
+      }
+      throw new Error(data.error || "Request failed");
+    }
+
+    return {
+      ok: true,
+      review: data.review || "",
+      credits_remaining: data.credits_remaining,
+    };
+  } catch (error) {
+    console.error("❌ Collection synthesis failed:", error);
+    return { ok: false, review: "", error: (error as Error).message };
   }
 }
 
@@ -248,10 +545,10 @@ export async function generateChatResponse(
 
   try {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_BASE_URL}/chat`, {
+    const response = await apiFetch(`${API_BASE_URL}/chat`, {
       method: "POST",
       headers,
-      body: JSON.stringify({ message, context }),
+      body: JSON.stringify({ message, context, retrieve: true }),
       signal,
     });
 
@@ -272,6 +569,8 @@ export async function generateChatResponse(
     return {
       ok: true,
       response: data.response || "",
+      sources: data.sources || [],
+      provider: data.provider,
       credits_remaining: data.credits_remaining,
     };
   } catch (error) {
@@ -283,13 +582,97 @@ export async function generateChatResponse(
   }
 }
 
+/**
+ * Streaming chat: `onDelta` receives text as the server produces it, after
+ * `onSources` has received the library items retrieved for the question. Resolves
+ * with the full response once the stream ends. Aborting `signal` stops the
+ * stream (no credit is charged) and resolves with `reason: "aborted"` and
+ * whatever text had arrived.
+ */
+export async function streamChatResponse(
+  userMessage: string,
+  context: string,
+  { onDelta, onSources }: ChatStreamHandlers,
+  signal?: AbortSignal,
+  { retrieve = true }: ChatOptions = {},
+): Promise<ChatResult> {
+  const message = (userMessage || "").trim();
+  if (!message) return { ok: false, response: "", reason: "empty" };
+
+  let text = "";
+  let sources: ChatSource[] = [];
+  try {
+    const headers = await getAuthHeaders();
+    const response = await apiFetch(`${API_BASE_URL}/chat`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ message, context, stream: true, retrieve }),
+      signal,
+    });
+
+    // Auth / credit / validation failures still come back as plain JSON
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 403 && data.code === "NO_CREDITS") {
+        return { ok: false, response: "", reason: "no_credits", error: "Out of credits" };
+      }
+      throw new Error(data.error || "Request failed");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const events = buffer.split("\n\n");
+      buffer = events.pop() || "";
+      for (const raw of events) {
+        if (!raw.startsWith("data:")) continue;
+        const event = JSON.parse(raw.slice(5).trim());
+
+        if (event.type === "sources") {
+          sources = event.items || [];
+          onSources?.(sources);
+        } else if (event.type === "delta") {
+          text += event.text;
+          onDelta(event.text);
+        } else if (event.type === "done") {
+          return {
+            ok: true,
+            response: text,
+            sources,
+            provider: event.provider,
+            credits_remaining: event.credits_remaining,
+          };
+        } else if (event.type === "error") {
+          const reason = event.code === "NO_CREDITS" ? "no_credits" : undefined;
+          return { ok: false, response: text, sources, reason, error: event.error };
+        }
+      }
+    }
+
+    // Connection closed without a terminal event
+    return { ok: false, response: text, sources, error: "The response was interrupted." };
+  } catch (error) {
+    if ((error as Error).name === "AbortError") {
+      return { ok: false, response: text, sources, reason: "aborted", error: "Request cancelled" };
+    }
+    console.error("❌ Chat stream failed:", error);
+    return { ok: false, response: text, sources, error: (error as Error).message };
+  }
+}
+
 // ============================================
 // PART 6: EXPORTS & UTILS
 // ============================================
 
 export async function checkBackendHealth(): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/health`);
+    const response = await apiFetch(`${API_BASE_URL}/health`);
     return response.ok;
   } catch {
     return false;
@@ -303,9 +686,14 @@ export async function generateSummary(text: string, mode: SummaryMode = "standar
 
 export default {
   summarizeText,
+  quoteSummary,
+  summarizeLongText,
   generateTags,
   extractInsights,
+  extractFieldValues,
+  synthesizeCollection,
   generateChatResponse,
+  streamChatResponse,
   checkBackendHealth,
   generateItemSummary,
   generateSummary, // exported for compatibility
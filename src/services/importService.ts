@@ -7,6 +7,17 @@
 // ============================================
 
 import { supabase } from "./supabaseClient";
+import { addItems, getAllItems } from "./storageService";
+import { generateCitation } from "../components/App/Citations/citationUtils";
+import {
+  ParsedReference,
+  ReferenceFileFormat,
+  detectReferenceFormat,
+  normalizeDoi,
+  normalizeTitle,
+  parseReferences,
+} from "../utils/referenceParsers";
+import { apiFetch } from "./rateLimitService";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -19,6 +30,29 @@ export interface OcrResult {
   ocrProvider?: string;
 }
 
+export type DuplicateReason = "doi" | "title";
+
+export interface ReferenceImportEntry {
+  reference: ParsedReference;
+  fileName: string;
+  /** Why the entry looks like a duplicate, or null when it is new. */
+  duplicate: DuplicateReason | null;
+  /** Library item it duplicates; unset when the duplicate is earlier in the import. */
+  duplicateOf?: string;
+}
+
+export interface ReferenceImportPreview {
+  entries: ReferenceImportEntry[];
+  formats: ReferenceFileFormat[];
+  duplicateCount: number;
+}
+
+export interface ReferenceImportOptions {
+  collectionId?: string;
+  /** Import entries flagged as duplicates as well (default: skip them). */
+  includeDuplicates?: boolean;
+}
+
 // ============================================
 // PART 3: OCR SERVICE
 // ============================================
@@ -31,7 +65,7 @@ export async function runOcr(
   includeSummary: boolean = false,
 ): Promise<OcrResult> {
   const token = (await supabase.auth.getSession()).data.session?.access_token;
-  const response = await fetch("/api/ocr", {
+  const response = await apiFetch("/api/ocr", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -101,12 +135,14 @@ export async function importPdfFile(
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
+  // Each page starts with a "[Page N]" marker line so summaries and chat
+  // answers can refer to pages (see api/_utils/longSummary.ts)
   let fullText = "";
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
-    fullText +=
-      textContent.items.map((item: any) => item.str).join(" ") + "\n\n";
+    const pageText = textContent.items.map((item: any) => item.str).join(" ").trim();
+    if (pageText) fullText += `[Page ${i}]\n${pageText}\n\n`;
   }
 
   const cleanText = fullText.trim();
@@ -152,3 +188,162 @@ export async function importJsonFile(
 
   return successCount;
 }
+
+// ============================================
+// PART 5: REFERENCE IMPORT (BibTeX / RIS / CSL-JSON)
+// ============================================
+
+const REFERENCE_EXTENSIONS = /\.(bib|bibtex|ris)$/i;
+
+// Shorter title keys ("Preface", "Notes") match unrelated works, so they
+// are never used to flag a duplicate.
+const MIN_TITLE_KEY_LENGTH = 8;
+
+const LIBRARY_PAGE_SIZE = 500;
+
+const titleKey = (title?: string): string => {
+  const key = normalizeTitle(title || "");
+  return key.length >= MIN_TITLE_KEY_LENGTH ? key : "";
+};
+
+/**
+ * True for .bib / .ris files and for .json files holding CSL-JSON rather
+ * than a ResearchMate export.
+ */
+export async function isReferenceFile(file: File): Promise<boolean> {
+  if (REFERENCE_EXTENSIONS.test(file.name)) return true;
+  if (!/\.json$/i.test(file.name)) return false;
+  return detectReferenceFormat(file.name, await file.text()) === "csl-json";
+}
+
+/**
+ * DOI and normalized-title keys of the items already in the library, read
+ * a page at a time (only the id, title and DOI of each item).
+ */
+async function getExistingReferenceKeys(): Promise<{
+  dois: Map<string, string>;
+  titles: Map<string, string>;
+}> {
+  const dois = new Map<string, string>();
+  const titles = new Map<string, string>();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const readPage = async (offset: number): Promise<{ id: string; title?: string; doi?: string }[]> => {
+    if (!user) {
+      return (await getAllItems(LIBRARY_PAGE_SIZE, offset)).map((item) => ({
+        id: item.id,
+        title: item.cslData?.title || item.sourceTitle,
+        doi: item.cslData?.DOI,
+      }));
+    }
+    const { data, error } = await supabase
+      .from("items")
+      .select("id, source_title, csl_title:csl_data->>title, csl_doi:csl_data->>DOI")
+      .eq("user_id", user.id)
+      .order("id")
+      .range(offset, offset + LIBRARY_PAGE_SIZE - 1);
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      title: row.csl_title || row.source_title,
+      doi: row.csl_doi,
+    }));
+  };
+
+  for (let offset = 0; ; offset += LIBRARY_PAGE_SIZE) {
+    const rows = await readPage(offset);
+    for (const row of rows) {
+      if (row.doi) dois.set(normalizeDoi(row.doi), row.id);
+      const title = titleKey(row.title);
+      if (title) titles.set(title, row.id);
+    }
+    if (rows.length < LIBRARY_PAGE_SIZE) break;
+  }
+  return { dois, titles };
+}
+
+/**
+ * Parses reference files and flags duplicates — against the library and
+ * against earlier entries of the same import — by DOI, then by normalized
+ * title. Nothing is written until `commitReferenceImport`.
+ */
+export async function previewReferenceImport(
+  files: File[],
+): Promise<ReferenceImportPreview> {
+  const existing = await getExistingReferenceKeys();
+  const seenDois = new Set<string>();
+  const seenTitles = new Set<string>();
+  const formats = new Set<ReferenceFileFormat>();
+  const entries: ReferenceImportEntry[] = [];
+
+  for (const file of files) {
+    const text = await file.text();
+    const format = detectReferenceFormat(file.name, text);
+    if (!format) throw new Error(`${file.name} is not a BibTeX, RIS or CSL-JSON file.`);
+
+    let references: ParsedReference[];
+    try {
+      references = parseReferences(text, format);
+    } catch {
+      throw new Error(`Could not read ${file.name}.`);
+    }
+    formats.add(format);
+
+    for (const reference of references) {
+      const doi = normalizeDoi(reference.csl.DOI);
+      const title = titleKey(reference.csl.title);
+      const entry: ReferenceImportEntry = { reference, fileName: file.name, duplicate: null };
+
+      if (doi && (existing.dois.has(doi) || seenDois.has(doi))) {
+        entry.duplicate = "doi";
+        entry.duplicateOf = existing.dois.get(doi);
+      } else if (title && (existing.titles.has(title) || seenTitles.has(title))) {
+        entry.duplicate = "title";
+        entry.duplicateOf = existing.titles.get(title);
+      }
+
+      if (doi) seenDois.add(doi);
+      if (title) seenTitles.add(title);
+      entries.push(entry);
+    }
+  }
+
+  if (entries.length === 0) throw new Error("No references found in the selected files.");
+
+  return {
+    entries,
+    formats: Array.from(formats),
+    duplicateCount: entries.filter((e) => e.duplicate).length,
+  };
+}
+
+/**
+ * Inserts previewed entries as library items with structured citation
+ * metadata; keywords become tags. Returns the number of items created.
+ */
+export async function commitReferenceImport(
+  entries: ReferenceImportEntry[],
+  options: ReferenceImportOptions = {},
+): Promise<number> {
+  const selected = options.includeDuplicates
+    ? entries
+    : entries.filter((e) => !e.duplicate);
+
+  const created = await addItems(
+    selected.map(({ reference: { csl, keywords } }) => ({
+      text: csl.abstract || csl.title,
+      sourceTitle: csl.title,
+      sourceUrl: csl.URL || (csl.DOI ? `https://doi.org/${csl.DOI}` : ""),
+      tags: Array.from(new Map(keywords.map((k) => [k.toLowerCase(), k])).values()),
+      citation: generateCitation(csl, "apa"),
+      citationFormat: "apa",
+      cslData: { ...csl, id: undefined },
+      deviceSource: "web",
+      collectionId: options.collectionId,
+    })),
+  );
+  return created.length;
+}
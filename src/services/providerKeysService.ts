@@ -0,0 +1,137 @@
+// ============================================
+// providerKeysService.ts — Personal AI provider keys (BYOK)
+// ============================================
+// Keys are sent once, validated and encrypted by /api/provider-keys, and
+// never come back — the client only sees the provider, the last four
+// characters and the preference order.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { supabase } from "./supabaseClient";
+import { apiFetch } from "./rateLimitService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+// Mirrors api/_utils/keyVault.ts
+
+export type ByokProvider = "gemini" | "openrouter" | "groq" | "openai" | "openai-compatible";
+
+export interface ProviderKeySummary {
+  provider: ByokProvider;
+  /** Empty when an OpenAI-compatible server was saved without a key. */
+  keyHint: string;
+  priority: number;
+  lastValidatedAt: string | null;
+  /** Set for "openai-compatible" only. */
+  baseUrl: string | null;
+  model: string | null;
+}
+
+/** Where the user's own OpenAI-compatible server lives (Ollama, llama.cpp, ...). */
+export interface CompatibleEndpoint {
+  baseUrl: string;
+  model: string;
+}
+
+export interface ProviderKeyVault {
+  keys: ProviderKeySummary[];
+  providers: ByokProvider[];
+  /** False when the deployment has no vault secret configured. */
+  available: boolean;
+  /** The deployment's own OpenAI-compatible model, when it has one. */
+  selfHosted: { model: string; exclusive: boolean } | null;
+}
+
+// ============================================
+// PART 3: CONSTANTS
+// ============================================
+
+export const PROVIDER_INFO: Record<
+  ByokProvider,
+  { label: string; placeholder: string; keyUrl: string }
+> = {
+  gemini: {
+    label: "Google Gemini",
+    placeholder: "AIz...",
+    keyUrl: "https://aistudio.google.com/app/apikey",
+  },
+  openrouter: {
+    label: "OpenRouter",
+    placeholder: "sk-or-...",
+    keyUrl: "https://openrouter.ai/keys",
+  },
+  groq: {
+    label: "Groq",
+    placeholder: "gsk_...",
+    keyUrl: "https://console.groq.com/keys",
+  },
+  openai: {
+    label: "OpenAI",
+    placeholder: "sk-...",
+    keyUrl: "https://platform.openai.com/api-keys",
+  },
+  "openai-compatible": {
+    label: "OpenAI-compatible server",
+    placeholder: "API key (optional)",
+    keyUrl: "https://github.com/ollama/ollama/blob/main/docs/openai.md",
+  },
+};
+
+// ============================================
+// PART 4: API CALLS
+// ============================================
+
+async function getAuthHeader(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("You must be signed in to manage API keys");
+  return { Authorization: `Bearer ${session.access_token}` };
+}
+
+async function readResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || `${fallback} (${response.status})`);
+  }
+  return response.json();
+}
+
+export async function getProviderKeys(): Promise<ProviderKeyVault> {
+  const response = await apiFetch("/api/provider-keys", {
+    headers: await getAuthHeader(),
+  });
+  return readResponse(response, "Could not load your API keys");
+}
+
+async function postAction(body: Record<string, unknown>, fallback: string): Promise<ProviderKeySummary[]> {
+  const response = await apiFetch("/api/provider-keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getAuthHeader()) },
+    body: JSON.stringify(body),
+  });
+  const { keys } = await readResponse<{ keys: ProviderKeySummary[] }>(response, fallback);
+  return keys;
+}
+
+/**
+ * Validates the key with the provider before it is stored. An
+ * OpenAI-compatible server also needs its `endpoint`.
+ */
+export const saveProviderKey = (provider: ByokProvider, apiKey: string, endpoint?: CompatibleEndpoint) =>
+  postAction({ action: "save", provider, apiKey, ...endpoint }, "Could not save the key");
+
+export const removeProviderKey = (provider: ByokProvider) =>
+  postAction({ action: "remove", provider }, "Could not remove the key");
+
+/** Saved keys are tried in this order, before the shared server keys. */
+export const reorderProviderKeys = (order: ByokProvider[]) =>
+  postAction({ action: "reorder", order }, "Could not reorder your keys");
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+// Named exports above — no default export
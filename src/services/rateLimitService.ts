@@ -0,0 +1,63 @@
+// ============================================
+// rateLimitService.ts — Client side of the API rate limiter
+// ============================================
+// The API answers 429 with a `Retry-After` header when a user's token
+// bucket for an endpoint is empty (see api/_utils/rateLimit.ts).
+// `apiFetch` watches for that and broadcasts RATE_LIMIT_EVENT, which
+// RateLimitNotice turns into a countdown. While the countdown runs, error
+// toasts are held back so the user sees one clear "try again in Ns".
+
+// ============================================
+// PART 1: TYPE DEFINITIONS & CONSTANTS
+// ============================================
+
+export const RATE_LIMIT_EVENT = "researchmate:rate-limited";
+
+export interface RateLimitEventDetail {
+  /** Epoch milliseconds when requests will be accepted again. */
+  until: number;
+}
+
+const DEFAULT_RETRY_SECONDS = 10;
+
+let limitedUntil = 0;
+
+// ============================================
+// PART 2: HELPERS
+// ============================================
+
+/** Seconds from a `Retry-After` header (delta-seconds or HTTP date). */
+export function parseRetryAfter(value: string | null, now = Date.now()): number {
+  if (!value) return DEFAULT_RETRY_SECONDS;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(1, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? DEFAULT_RETRY_SECONDS : Math.max(1, Math.ceil((date - now) / 1000));
+}
+
+/** True while a rate-limit countdown is running. */
+export const isRateLimited = () => Date.now() < limitedUntil;
+
+/** Seconds left on the current countdown, 0 when not limited. */
+export const rateLimitSecondsLeft = () => Math.max(0, Math.ceil((limitedUntil - Date.now()) / 1000));
+
+// ============================================
+// PART 3: FETCH WRAPPER
+// ============================================
+
+/** `fetch` for /api routes; reports 429 responses to the countdown. */
+export async function apiFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 429) {
+    limitedUntil = Math.max(limitedUntil, Date.now() + parseRetryAfter(response.headers.get("Retry-After")) * 1000);
+    window.dispatchEvent(
+      new CustomEvent<RateLimitEventDetail>(RATE_LIMIT_EVENT, { detail: { until: limitedUntil } }),
+    );
+  }
+  return response;
+}
+
+// ============================================
+// PART 4: EXPORTS
+// ============================================
+// Named exports above — no default export
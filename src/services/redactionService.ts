@@ -0,0 +1,130 @@
+// ============================================
+// redactionService.ts — PII redaction before AI calls
+// ============================================
+// Settings, preview and audit trail behind /api/redaction. When redaction
+// is on, the API swaps personal details for placeholders before text goes
+// to an AI provider and puts them back in the answer.
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { supabase } from "./supabaseClient";
+import { apiFetch } from "./rateLimitService";
+
+// ============================================
+// PART 2: TYPE DEFINITIONS
+// ============================================
+// Mirrors api/_utils/redaction.ts
+
+export type RedactionCategory = "email" | "phone" | "name" | "id" | "custom";
+
+export interface CustomPattern {
+  label: string;
+  pattern: string;
+  /** Treat `pattern` as a regular expression instead of literal text. */
+  regex?: boolean;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  categories: RedactionCategory[];
+  names: string[];
+  customPatterns: CustomPattern[];
+}
+
+export interface Redaction {
+  placeholder: string;
+  category: RedactionCategory;
+  label?: string;
+  original: string;
+  occurrences: number;
+}
+
+export interface RedactionSummary {
+  total: number;
+  counts: Partial<Record<RedactionCategory, number>>;
+  labels: string[];
+}
+
+export interface RedactionAuditEntry {
+  id: string;
+  endpoint: string;
+  provider: string | null;
+  total: number;
+  counts: RedactionSummary["counts"];
+  labels: string[];
+  createdAt: string;
+}
+
+export interface RedactionPreview {
+  text: string;
+  redactions: Redaction[];
+  summary: RedactionSummary;
+}
+
+// ============================================
+// PART 3: CONSTANTS
+// ============================================
+
+export const CATEGORY_INFO: Record<RedactionCategory, { label: string; example: string }> = {
+  email: { label: "Email addresses", example: "jane@uni.edu" },
+  phone: { label: "Phone numbers", example: "+44 20 7946 0958" },
+  name: { label: "Names", example: "Dr. Jane Smith, speaker labels" },
+  id: { label: "IDs", example: "P07, MRN 448812, SSN, card numbers" },
+  custom: { label: "Your names & patterns", example: "listed below" },
+};
+
+// ============================================
+// PART 4: API CALLS
+// ============================================
+
+async function getAuthHeader(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("You must be signed in to manage redaction");
+  return { Authorization: `Bearer ${session.access_token}` };
+}
+
+async function readResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || `${fallback} (${response.status})`);
+  }
+  return response.json();
+}
+
+async function postAction<T>(body: Record<string, unknown>, fallback: string): Promise<T> {
+  const response = await apiFetch("/api/redaction", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getAuthHeader()) },
+    body: JSON.stringify(body),
+  });
+  return readResponse<T>(response, fallback);
+}
+
+/** Current settings and the most recent audit entries, newest first. */
+export async function getRedaction(): Promise<{ settings: RedactionSettings; audit: RedactionAuditEntry[] }> {
+  const response = await apiFetch("/api/redaction", {
+    headers: await getAuthHeader(),
+  });
+  return readResponse(response, "Could not load your redaction settings");
+}
+
+export async function saveRedactionSettings(settings: RedactionSettings): Promise<RedactionSettings> {
+  const saved = await postAction<{ settings: RedactionSettings }>(
+    { action: "save", settings },
+    "Could not save your redaction settings",
+  );
+  return saved.settings;
+}
+
+/** Runs `settings` (saved or not) over `text` without calling any AI provider. */
+export const previewRedaction = (text: string, settings: RedactionSettings) =>
+  postAction<RedactionPreview>({ action: "preview", text, settings }, "Could not preview redaction");
+
+// ============================================
+// PART 5: EXPORTS
+// ============================================
+// Named exports above — no default export
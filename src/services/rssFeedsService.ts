@@ -20,6 +20,8 @@ export interface RssFeed {
   category: string;
   lastFetchedAt: string | null;
   lastItemDate: string | null;
+  etag: string | null;
+  lastModified: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -46,7 +48,17 @@ export interface RssFeedResponse {
   link: string;
   items: RssItem[];
   fetchedAt: string;
-  source: "atom" | "rss2" | "rdf" | "unknown";
+  source: "atom" | "rss2" | "rdf" | "json" | "unknown";
+  /** True when the server answered 304 — `items` is empty, keep the cached list. */
+  notModified: boolean;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/** HTTP validators from the previous fetch, replayed as conditional headers. */
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
 }
 
 export interface CuratedFeedPreset {
@@ -262,6 +274,8 @@ function transformRssFeed(row: any): RssFeed {
     category: row.category || "General",
     lastFetchedAt: row.last_fetched_at,
     lastItemDate: row.last_item_date,
+    etag: row.etag ?? null,
+    lastModified: row.last_modified ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -346,17 +360,37 @@ export async function deleteRssFeed(id: string): Promise<void> {
   if (error) throw error;
 }
 
+/**
+ * Records the outcome of a fetch. Pass the `RssFeedResponse` so the ETag /
+ * Last-Modified validators are stored for the next conditional request.
+ * On a 304 the previous `last_item_date` is kept.
+ */
 export async function touchRssFeed(
   id: string,
   lastItemDate: string | null,
+  response?: Pick<RssFeedResponse, "etag" | "lastModified" | "notModified" | "fetchedAt">,
 ): Promise<void> {
-  await supabase
-    .from("rss_feeds")
-    .update({
-      last_fetched_at: new Date().toISOString(),
-      last_item_date: lastItemDate,
-    })
-    .eq("id", id);
+  const updates: Record<string, any> = {
+    last_fetched_at: response?.fetchedAt ?? new Date().toISOString(),
+  };
+  if (!response?.notModified) updates.last_item_date = lastItemDate;
+  if (response) {
+    updates.etag = response.etag;
+    updates.last_modified = response.lastModified;
+  }
+
+  await supabase.from("rss_feeds").update(updates).eq("id", id);
+}
+
+/**
+ * Newest publication date among the fetched items (ISO string), or null.
+ */
+export function getLatestItemDate(items: RssItem[]): string | null {
+  let latest: string | null = null;
+  for (const item of items) {
+    if (item.pubDate && (!latest || item.pubDate > latest)) latest = item.pubDate;
+  }
+  return latest;
 }
 
 // ============================================
@@ -364,17 +398,25 @@ export async function touchRssFeed(
 // ============================================
 
 /**
- * Fetches and parses an RSS/Atom feed via the server-side proxy.
+ * Fetches and parses an RSS/Atom/JSON feed via the server-side proxy.
  * Requires a valid Supabase session (auth header is injected automatically).
+ * Pass the feed's stored validators to get a cheap `notModified` response.
  */
-export async function fetchRssFeed(url: string): Promise<RssFeedResponse> {
+export async function fetchRssFeed(
+  url: string,
+  validators?: FeedValidators,
+): Promise<RssFeedResponse> {
   const {
     data: { session },
   } = await supabase.auth.getSession();
 
   if (!session) throw new Error("Must be logged in to fetch feeds");
 
-  const apiUrl = `/api/rss?url=${encodeURIComponent(url)}`;
+  const params = new URLSearchParams({ url });
+  if (validators?.etag) params.set("etag", validators.etag);
+  if (validators?.lastModified) params.set("lastModified", validators.lastModified);
+
+  const apiUrl = `/api/rss?${params.toString()}`;
   const response = await fetch(apiUrl, {
     method: "GET",
     headers: {
@@ -3,7 +3,8 @@
 // ============================================
 
 import { supabase, isAuthenticated } from "./supabaseClient";
-import { ResearchItem, DeviceSource } from "../types";
+import { ResearchItem, DeviceSource, CslItem, ItemInsights } from "../types";
+import { apiFetch } from "./rateLimitService";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
@@ -21,6 +22,9 @@ export interface StorageItem {
   aiSummary?: string;
   citation?: string;
   citationFormat?: string;
+  cslData?: CslItem;
+  /** Structured insights, once extracted (see api/insights). */
+  insights?: ItemInsights;
   preferredView?: "original" | "summary";
   deviceSource: DeviceSource;
   color?: "yellow" | "green" | "blue" | "red" | "purple";
@@ -39,6 +43,7 @@ export interface AddItemInput {
   aiSummary?: string;
   citation?: string;
   citationFormat?: string;
+  cslData?: CslItem;
   preferredView?: "original" | "summary";
   deviceSource?: DeviceSource;
   color?: "yellow" | "green" | "blue" | "red" | "purple";
@@ -56,6 +61,8 @@ export interface UpdateItemInput {
   collectionId?: string;
   citation?: string;
   citationFormat?: string;
+  cslData?: CslItem;
+  insights?: ItemInsights;
   preferredView?: "original" | "summary";
   color?: "yellow" | "green" | "blue" | "red" | "purple";
   ocrText?: string;
@@ -70,6 +77,20 @@ export interface MigrationResult {
   failed: number;
 }
 
+/** An item ranked by a similarity search; `score` is between 0 and 1. */
+export interface ScoredItem {
+  item: StorageItem;
+  score: number;
+  /** The passage that matched best, when the search was semantic. */
+  snippet?: string;
+}
+
+export interface SimilarItemsResult {
+  items: ScoredItem[];
+  /** "keyword" when embeddings were unavailable and keyword scoring was used. */
+  mode: "semantic" | "keyword";
+}
+
 // ============================================
 // PART 3: LOCAL STORAGE HELPERS
 // ============================================
@@ -138,6 +159,8 @@ function transformDatabaseItem(item: any): StorageItem {
     aiSummary: item.ai_summary || "",
     citation: item.citation,
     citationFormat: item.citation_format,
+    cslData: item.csl_data || undefined,
+    insights: item.insights || undefined,
     preferredView: item.preferred_view,
     deviceSource: item.device_source || "web",
     collectionId: item.collection_id,
@@ -177,6 +200,7 @@ function transformToDatabase(
     ai_summary: item.aiSummary || "",
     citation: item.citation,
     citation_format: item.citationFormat,
+    csl_data: item.cslData ?? null,
     preferred_view: item.preferredView || "original",
     device_source: item.deviceSource || "web",
     collection_id: item.collectionId,
@@ -275,6 +299,52 @@ export async function addItem(item: AddItemInput): Promise<StorageItem> {
   return newItem;
 }
 
+/**
+ * Add several research items in one insert (used by reference imports)
+ * Saves to cloud if authenticated, otherwise to local storage
+ */
+export async function addItems(items: AddItemInput[]): Promise<StorageItem[]> {
+  if (items.length === 0) return [];
+  const authenticated = await isAuthenticated();
+
+  if (authenticated) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const { data, error } = await supabase
+      .from("items")
+      .insert(items.map((item) => transformToDatabase(item, user.id)))
+      .select();
+
+    if (error) throw error;
+    return (data || []).map(transformDatabaseItem);
+  }
+
+  // Guest mode: save locally
+  const localItems = getLocalItems();
+  const created: StorageItem[] = items.map((item) => ({
+    id: `local_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+    text: item.text,
+    tags: item.tags || [],
+    note: item.note || "",
+    sourceUrl: item.sourceUrl || "",
+    sourceTitle: item.sourceTitle || "",
+    createdAt: new Date().toISOString(),
+    aiSummary: item.aiSummary || "",
+    citation: item.citation,
+    citationFormat: item.citationFormat,
+    cslData: item.cslData,
+    deviceSource: item.deviceSource || "web",
+    collectionId: item.collectionId,
+  }));
+
+  localItems.unshift(...created);
+  setLocalItems(localItems);
+  return created;
+}
+
 /**
  * Update an existing research item
  */
@@ -344,6 +414,8 @@ export async function updateItem(
     // @ts-ignore
     if (updates.citationFormat !== undefined)
       updateData.citation_format = updates.citationFormat;
+    if (updates.cslData !== undefined) updateData.csl_data = updates.cslData;
+    if (updates.insights !== undefined) updateData.insights = updates.insights;
     // @ts-ignore
     if (updates.preferredView !== undefined)
       updateData.preferred_view = updates.preferredView;
@@ -461,6 +533,104 @@ export async function searchItems(query: string): Promise<StorageItem[]> {
   );
 }
 
+/**
+ * Keyword relevance between 0 and 1: the share of query terms found in the
+ * title (weighted highest), tags, then body text / note / OCR text.
+ */
+function keywordScore(item: StorageItem, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const title = (item.sourceTitle || "").toLowerCase();
+  const tags = (item.tags || []).join(" ").toLowerCase();
+  const body = `${item.text || ""} ${item.note || ""} ${item.ocrText || ""}`.toLowerCase();
+
+  const total = terms.reduce(
+    (sum, term) =>
+      sum + (title.includes(term) ? 3 : 0) + (tags.includes(term) ? 2 : 0) + (body.includes(term) ? 1 : 0),
+    0,
+  );
+  return total / (terms.length * 6);
+}
+
+const searchTerms = (text: string) =>
+  Array.from(new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+
+async function keywordSimilarItems(
+  terms: string[],
+  limit: number,
+  excludeId?: string,
+): Promise<SimilarItemsResult> {
+  const items = await getAllItems(Number.MAX_SAFE_INTEGER);
+  const ranked = items
+    .filter((item) => item.id !== excludeId)
+    .map((item) => ({ item, score: keywordScore(item, terms) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+  return { items: ranked, mode: "keyword" };
+}
+
+/**
+ * Embedding-based similarity search via /api/similar-items: pass `query` to
+ * search by meaning, or `itemId` for items related to that item. Falls back
+ * to keyword scoring for guests, local items, and when the library has no
+ * embeddings yet.
+ */
+export async function findSimilarItems(
+  options: { query?: string; itemId?: string; limit?: number },
+): Promise<SimilarItemsResult> {
+  const limit = options.limit ?? 10;
+  const source = options.itemId ? await getItemById(options.itemId) : null;
+  const fallbackTerms = source
+    ? searchTerms(`${source.sourceTitle} ${source.tags.join(" ")}`)
+    : searchTerms(options.query || "");
+  const fallback = () => keywordSimilarItems(fallbackTerms, limit, options.itemId);
+
+  const isLocalItem = options.itemId?.startsWith("local_");
+  if (!(await isAuthenticated()) || isLocalItem) return fallback();
+
+  try {
+    const { data: session } = await supabase.auth.getSession();
+    const response = await apiFetch("/api/similar-items", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.session?.access_token}`,
+      },
+      body: JSON.stringify({ query: options.query, itemId: options.itemId, limit }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Similarity search failed");
+    if (data.mode !== "semantic") return fallback();
+
+    const results: { id: string; score: number; snippet: string }[] = data.results || [];
+    if (results.length === 0) return { items: [], mode: "semantic" };
+
+    const { data: rows, error } = await supabase
+      .from("items")
+      .select("*")
+      .in("id", results.map((r) => r.id));
+    if (error) throw error;
+
+    const byId = new Map((rows || []).map((row) => [row.id, transformDatabaseItem(row)]));
+    return {
+      items: results
+        .filter((r) => byId.has(r.id))
+        .map((r) => {
+          const item = byId.get(r.id)!;
+          // Indexed chunks start with the item title; drop it from the snippet
+          const snippet = r.snippet.startsWith(`${item.sourceTitle}\n`)
+            ? r.snippet.slice(item.sourceTitle.length + 1)
+            : r.snippet;
+          return { item, score: r.score, snippet };
+        }),
+      mode: "semantic",
+    };
+  } catch (error) {
+    console.error("🔎 Semantic search failed, using keywords:", error);
+    return fallback();
+  }
+}
+
 /**
  * Filter items by tags
  */
@@ -580,6 +750,29 @@ export function getLocalItemsCount(): number {
 // PART 8: STATISTICS
 // ============================================
 
+/**
+ * Count the user's items without loading them
+ */
+export async function getItemCount(): Promise<number> {
+  const authenticated = await isAuthenticated();
+
+  if (authenticated) {
+    try {
+      const { count, error } = await supabase
+        .from("items")
+        .select("id", { count: "exact", head: true });
+
+      if (error) throw error;
+
+      return count ?? 0;
+    } catch (error) {
+      console.error("☁️ Cloud count failed, using local:", error);
+    }
+  }
+
+  return getLocalItems().length;
+}
+
 /**
  * Get statistics about user's research items
  */
@@ -681,10 +874,12 @@ export function subscribeToItems(
 export default {
   getAllItems,
   addItem,
+  addItems,
   updateItem,
   deleteItem,
   getItemById,
   searchItems,
+  findSimilarItems,
   filterByTags,
   getItemsByCollection,
   migrateLocalToCloud,
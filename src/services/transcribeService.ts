@@ -7,19 +7,39 @@
 // ============================================
 
 import { supabase } from "./supabaseClient";
+import { addItem, StorageItem } from "./storageService";
+import { apiFetch } from "./rateLimitService";
 
 // ============================================
 // PART 2: TYPE DEFINITIONS
 // ============================================
 
+export interface TranscriptSegment {
+  /** Seconds from the start of the media */
+  start: number;
+  end: number | null;
+  text: string;
+}
+
 export interface TranscribeResult {
   transcript: string;
+  segments: TranscriptSegment[];
   summary: string;
   tags: string[];
   provider: "gemini" | "gemini-youtube" | "groq-whisper";
   source: { youtubeUrl?: string; fileName?: string | null };
 }
 
+/** A transcription and the library item it was saved as. */
+export interface TranscribedItem extends TranscribeResult {
+  item: StorageItem;
+}
+
+export interface SaveTranscriptionOptions {
+  title?: string;
+  collectionId?: string;
+}
+
 // ============================================
 // PART 3: CONSTANTS & CONFIGURATION
 // ============================================
@@ -27,6 +47,8 @@ export interface TranscribeResult {
 export const TRANSCRIBE_MAX_BYTES = 18 * 1024 * 1024; // 18 MB — matches server cap
 export const TRANSCRIBE_CREDIT_COST = 3;
 
+// Mirrors ACCEPTED_AUDIO_TYPES / ACCEPTED_VIDEO_TYPES in api/transcribe.ts,
+// which rejects any other type with a 415
 export const ACCEPTED_AUDIO_TYPES = [
   "audio/mpeg",
   "audio/mp3",
@@ -52,6 +74,19 @@ export const ACCEPTED_MIME_TYPES = [
   ...ACCEPTED_VIDEO_TYPES,
 ];
 
+// Sent for files the browser reports without a type
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  webm: "audio/webm",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  mkv: "video/x-matroska",
+};
+
 const YOUTUBE_PATTERN =
   /^https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/)[A-Za-z0-9_-]{6,}/i;
 
@@ -76,20 +111,47 @@ function fileToBase64(file: File): Promise<string> {
   });
 }
 
+/**
+ * Format seconds as "MM:SS", or "H:MM:SS" past the hour.
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+/**
+ * Render segments as "[MM:SS] text" lines. Falls back to the flat transcript.
+ */
+export function formatTimestampedTranscript(result: TranscribeResult): string {
+  if (!result.segments?.length) return result.transcript;
+  return result.segments
+    .map((seg) => `[${formatTimestamp(seg.start)}] ${seg.text}`)
+    .join("\n");
+}
+
 export function isYoutubeUrl(url: string): boolean {
   return YOUTUBE_PATTERN.test(url.trim());
 }
 
-export function isAcceptedMedia(file: File): boolean {
-  const t = file.type.toLowerCase();
+/**
+ * The MIME type to send for `file`, or null when the server won't accept it.
+ */
+function mediaMimeType(file: File): string | null {
+  const t = file.type.toLowerCase().split(";")[0].trim();
   // Some browsers report "" for unusual containers — fall back to extension
   if (!t) {
     const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
-    return ["mp3", "wav", "m4a", "ogg", "flac", "webm", "mp4", "mov"].includes(
-      ext,
-    );
+    return EXTENSION_MIME_TYPES[ext] ?? null;
   }
-  return ACCEPTED_MIME_TYPES.some((m) => t === m || t.startsWith(m.split("/")[0] + "/"));
+  return ACCEPTED_MIME_TYPES.includes(t) ? t : null;
+}
+
+export function isAcceptedMedia(file: File): boolean {
+  return mediaMimeType(file) !== null;
 }
 
 // ============================================
@@ -105,10 +167,13 @@ async function getAuthHeader(): Promise<Record<string, string>> {
 }
 
 /**
- * Transcribe an uploaded audio/video file.
+ * Transcribe an uploaded audio/video file and save it to the library.
  * File must be ≤18 MB (enforced both client- and server-side).
  */
-export async function transcribeFile(file: File): Promise<TranscribeResult> {
+export async function transcribeFile(
+  file: File,
+  options: SaveTranscriptionOptions = {},
+): Promise<TranscribedItem> {
   if (file.size > TRANSCRIBE_MAX_BYTES) {
     throw new Error(
       `File is ${(file.size / 1024 / 1024).toFixed(1)} MB. Max is ${
@@ -116,7 +181,8 @@ export async function transcribeFile(file: File): Promise<TranscribeResult> {
       } MB. Please trim it.`,
     );
   }
-  if (!isAcceptedMedia(file)) {
+  const mimeType = mediaMimeType(file);
+  if (!mimeType) {
     throw new Error(
       `Unsupported file type (${file.type || "unknown"}). Use MP3, WAV, M4A, OGG, FLAC, WebM, MP4, or MOV.`,
     );
@@ -125,7 +191,7 @@ export async function transcribeFile(file: File): Promise<TranscribeResult> {
   const authHeader = await getAuthHeader();
   const audioBase64 = await fileToBase64(file);
 
-  const response = await fetch("/api/transcribe", {
+  const response = await apiFetch("/api/transcribe", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -133,7 +199,7 @@ export async function transcribeFile(file: File): Promise<TranscribeResult> {
     },
     body: JSON.stringify({
       audioBase64,
-      mimeType: file.type || "audio/mpeg",
+      mimeType,
       fileName: file.name,
     }),
   });
@@ -143,16 +209,17 @@ export async function transcribeFile(file: File): Promise<TranscribeResult> {
     throw new Error(err.error || `Transcription failed (${response.status})`);
   }
 
-  return (await response.json()) as TranscribeResult;
+  return saveTranscriptionAsItem((await response.json()) as TranscribeResult, options);
 }
 
 /**
- * Transcribe a YouTube URL directly — no download needed.
- * Gemini processes the URL natively via fileData.fileUri.
+ * Transcribe a YouTube URL directly — no download needed — and save it to
+ * the library. Gemini processes the URL natively via fileData.fileUri.
  */
 export async function transcribeYoutube(
   youtubeUrl: string,
-): Promise<TranscribeResult> {
+  options: SaveTranscriptionOptions = {},
+): Promise<TranscribedItem> {
   const trimmed = youtubeUrl.trim();
   if (!isYoutubeUrl(trimmed)) {
     throw new Error(
@@ -162,7 +229,7 @@ export async function transcribeYoutube(
 
   const authHeader = await getAuthHeader();
 
-  const response = await fetch("/api/transcribe", {
+  const response = await apiFetch("/api/transcribe", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -176,10 +243,41 @@ export async function transcribeYoutube(
     throw new Error(err.error || `Transcription failed (${response.status})`);
   }
 
-  return (await response.json()) as TranscribeResult;
+  return saveTranscriptionAsItem((await response.json()) as TranscribeResult, options);
+}
+
+// ============================================
+// PART 6: SAVE TO LIBRARY
+// ============================================
+
+/**
+ * Save a transcription as a regular research item; both transcribe calls
+ * end here, since the credits are already spent.
+ * Timestamped transcript goes in `text`, AI summary in `aiSummary`,
+ * and `deviceSource = "transcription"` so it can be filtered.
+ */
+async function saveTranscriptionAsItem(
+  result: TranscribeResult,
+  options: SaveTranscriptionOptions,
+): Promise<TranscribedItem> {
+  const title =
+    options.title?.trim() ||
+    result.source.fileName ||
+    (result.source.youtubeUrl ? "YouTube transcription" : "Media transcription");
+
+  const item = await addItem({
+    text: formatTimestampedTranscript(result),
+    aiSummary: result.summary,
+    tags: result.tags,
+    sourceTitle: title,
+    sourceUrl: result.source.youtubeUrl || "",
+    deviceSource: "transcription",
+    collectionId: options.collectionId,
+  });
+  return { ...result, item };
 }
 
 // ============================================
-// PART 6: EXPORTS
+// PART 7: EXPORTS
 // ============================================
 // Named exports above — no default export
@@ -31,6 +31,105 @@ export const DEVICE_SOURCES: Record<
 // PART 3: RESEARCH ITEM TYPES
 // ============================================
 
+/** CSL-JSON item types we produce and render. */
+export type CslItemType =
+  | "article-journal"
+  | "article-magazine"
+  | "article-newspaper"
+  | "paper-conference"
+  | "book"
+  | "chapter"
+  | "report"
+  | "thesis"
+  | "dataset"
+  | "motion_picture"
+  | "post"
+  | "webpage";
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string; // organisations / unparseable names
+}
+
+export interface CslDate {
+  "date-parts"?: [number, number?, number?][];
+  literal?: string;
+}
+
+/**
+ * Structured citation metadata, a subset of CSL-JSON. Stored on the item
+ * (`csl_data`) and used by every citation formatter; `citation` keeps the
+ * last rendered string for display.
+ */
+export interface CslItem {
+  id?: string;
+  /** Persisted BibTeX / LaTeX key, kept stable across exports. */
+  "citation-key"?: string;
+  type: CslItemType;
+  title: string;
+  author: CslName[];
+  editor?: CslName[];
+  "container-title"?: string;
+  publisher?: string;
+  "publisher-place"?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  DOI?: string;
+  ISBN?: string;
+  URL?: string;
+  issued?: CslDate;
+  accessed?: CslDate;
+  abstract?: string;
+}
+
+/** Coarse study design, for comparing methodologies across items. */
+export type StudyDesign =
+  | "experimental"
+  | "quasi-experimental"
+  | "observational"
+  | "survey"
+  | "qualitative"
+  | "mixed-methods"
+  | "case-study"
+  | "review"
+  | "theoretical"
+  | "computational"
+  | "other";
+
+export const STUDY_DESIGNS: Record<StudyDesign, string> = {
+  experimental: "Experimental",
+  "quasi-experimental": "Quasi-experimental",
+  observational: "Observational",
+  survey: "Survey",
+  qualitative: "Qualitative",
+  "mixed-methods": "Mixed methods",
+  "case-study": "Case study",
+  review: "Review / meta-analysis",
+  theoretical: "Theoretical",
+  computational: "Computational",
+  other: "Other",
+};
+
+/**
+ * Structured insights extracted by api/insights and stored on the item
+ * (`insights`). Fields the source does not state are null or empty.
+ */
+export interface ItemInsights {
+  researchQuestion: string | null;
+  methodology: string | null;
+  studyDesign: StudyDesign;
+  sample: string | null;
+  sampleSize: number | null;
+  keyFindings: string[];
+  limitations: string[];
+  implications: string[];
+  /** Evidence-matrix columns the user added, keyed by column name. */
+  customFields?: Record<string, string | null>;
+  generatedAt: string;
+}
+
 export interface ResearchItem {
   id: string;
   user_id: string;
@@ -46,6 +145,8 @@ export interface ResearchItem {
   notes?: string;
   citation?: string;
   citation_format?: string;
+  csl_data?: CslItem;
+  insights?: ItemInsights | null;
   preferred_view?: "original" | "summary";
   color?: "yellow" | "green" | "blue" | "red" | "purple";
   // For smart pen specifically
@@ -69,6 +170,8 @@ export interface ResearchItemCamel {
   notes?: string;
   citation?: string;
   citationFormat?: string;
+  cslData?: CslItem;
+  insights?: ItemInsights;
   preferredView?: "original" | "summary";
   color?: "yellow" | "green" | "blue" | "red" | "purple";
   imageUrl?: string;
@@ -131,7 +234,10 @@ export interface ChatMessage {
   metadata?: {
     tokens?: number;
     model?: string;
+    /** IDs of the library items used as context for this message. */
     context?: string[];
+    /** Retrieved items an assistant reply may cite as [[item:<id>]]. */
+    sources?: Array<{ id: string; title: string }>;
   };
 }
 
@@ -140,6 +246,8 @@ export interface ChatSession {
   user_id: string;
   title: string;
   messages: ChatMessage[];
+  /** Library item the conversation is about; null for library-wide chats. */
+  item_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -251,7 +359,7 @@ export interface CollectionFormData {
 // PART 11: EXPORT TYPES
 // ============================================
 
-export type ExportFormat = "json" | "csv" | "markdown" | "bibtex" | "pdf";
+export type ExportFormat = "json" | "csv" | "markdown" | "bibtex" | "ris" | "csl-json" | "pdf";
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -1,11 +1,118 @@
 // ============================================
 // DATA EXPORT UTILITY
 // ============================================
-// Export research items to various formats (JSON, CSV, Markdown)
+// Export research items to various formats (JSON, CSV, Markdown, PDF,
+// BibTeX, RIS, CSL-JSON)
 
 import { StorageItem } from "../services/storageService";
+import type { ExportFormat, ExportOptions } from "../types";
+import { assignCitationKeys } from "../services/citationKeyService";
 import { EXPORT_FORMATS } from "../constants";
 import { generateMarkdownTemplate } from "./markdownGenerator";
+import type { ParsedReference } from "./referenceParsers";
+import { writeBibtex, writeCslJson, writeRis } from "./referenceWriters";
+
+export type ItemExportFormat = (typeof EXPORT_FORMATS)[keyof typeof EXPORT_FORMATS];
+
+/** Options every exporter honors once items are filtered. */
+export interface ExportContentOptions {
+  /** Tags, timestamps, device, highlight color and OCR / citation fields */
+  includeMetadata?: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "json",
+  include_summaries: true,
+  include_notes: true,
+  include_metadata: true,
+};
+
+// Item fields dropped from JSON exports when metadata is excluded
+const METADATA_FIELDS: (keyof StorageItem)[] = [
+  "tags",
+  "createdAt",
+  "updatedAt",
+  "deviceSource",
+  "color",
+  "citation",
+  "citationFormat",
+  "cslData",
+  "preferredView",
+  "collectionId",
+  "imageUrl",
+  "ocrConfidence",
+];
+
+const FORMAT_EXTENSIONS: Record<ItemExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  md: "md",
+  pdf: "pdf",
+  bibtex: "bib",
+  ris: "ris",
+  "csl-json": "csl.json",
+};
+
+/** `ExportOptions.format` → exporter format ("markdown" is written as .md). */
+export const toItemExportFormat = (format: ExportFormat): ItemExportFormat =>
+  format === "markdown" ? EXPORT_FORMATS.MARKDOWN : format;
+
+// ============================================
+// EXPORT PIPELINE
+// ============================================
+
+/**
+ * Applies the `ExportOptions` filters (date range, collections, tags) and
+ * blanks summaries / notes when they are excluded. Empty filter lists mean
+ * "no filter"; the date range is inclusive and compares calendar days.
+ */
+export function applyExportOptions(
+  items: StorageItem[],
+  options: ExportOptions,
+): StorageItem[] {
+  const start = options.date_range?.start ? new Date(`${options.date_range.start}T00:00:00`) : null;
+  const end = options.date_range?.end ? new Date(`${options.date_range.end}T23:59:59.999`) : null;
+  const collections = options.collection_ids?.length ? new Set(options.collection_ids) : null;
+  const tags = options.tags?.length ? new Set(options.tags.map((t) => t.toLowerCase())) : null;
+
+  return items
+    .filter((item) => {
+      const created = new Date(item.createdAt);
+      if (start && created < start) return false;
+      if (end && created > end) return false;
+      if (collections && !(item.collectionId && collections.has(item.collectionId))) return false;
+      if (tags && !item.tags?.some((t) => tags.has(t.toLowerCase()))) return false;
+      return true;
+    })
+    .map((item) => ({
+      ...item,
+      aiSummary: options.include_summaries ? item.aiSummary : undefined,
+      note: options.include_notes ? item.note : "",
+    }));
+}
+
+/**
+ * Filters items with `options`, then exports them in `options.format`.
+ * Returns the number of exported items.
+ */
+export async function exportWithOptions(
+  items: StorageItem[],
+  options: ExportOptions,
+  filename?: string,
+): Promise<number> {
+  const selected = applyExportOptions(items, options);
+  if (selected.length === 0) {
+    throw new Error("No items match the export filters");
+  }
+  await exportItems(selected, toItemExportFormat(options.format), filename, {
+    includeMetadata: options.include_metadata,
+  });
+  return selected.length;
+}
+
+// ============================================
+// EXPORTERS
+// ============================================
 
 /**
  * Export items to JSON format
@@ -13,8 +120,16 @@ import { generateMarkdownTemplate } from "./markdownGenerator";
 export function exportToJSON(
   items: StorageItem[],
   filename: string = "research-data.json",
+  { includeMetadata = true }: ExportContentOptions = {},
 ): void {
-  const data = JSON.stringify(items, null, 2);
+  const records = includeMetadata
+    ? items
+    : items.map((item) => {
+        const record: Partial<StorageItem> = { ...item };
+        METADATA_FIELDS.forEach((field) => delete record[field]);
+        return record;
+      });
+  const data = JSON.stringify(records, null, 2);
   downloadFile(data, filename, "application/json");
 }
 
@@ -24,38 +139,33 @@ export function exportToJSON(
 export function exportToCSV(
   items: StorageItem[],
   filename: string = "research-data.csv",
+  { includeMetadata = true }: ExportContentOptions = {},
 ): void {
   if (items.length === 0) {
     throw new Error("No items to export");
   }
 
-  // CSV headers
-  const headers = [
-    "ID",
-    "Title",
-    "Text",
-    "Source URL",
-    "Source Title",
-    "Tags",
-    "AI Summary",
-    "Device Source",
-    "Created At",
-    "Updated At",
+  // CSV columns; metadata columns are dropped when excluded
+  const columns: [string, (item: StorageItem) => string, boolean?][] = [
+    ["ID", (item) => item.id],
+    ["Title", (item) => item.sourceTitle || ""],
+    ["Text", (item) => item.text || ""],
+    ["Source URL", (item) => item.sourceUrl || ""],
+    ["Source Title", (item) => item.sourceTitle || ""],
+    ["Tags", (item) => item.tags?.join(", ") || "", true],
+    ["AI Summary", (item) => item.aiSummary || ""],
+    ["Note", (item) => item.note || ""],
+    ["Device Source", (item) => item.deviceSource || "", true],
+    ["Created At", (item) => new Date(item.createdAt).toISOString(), true],
+    ["Updated At", (item) => new Date(item.updatedAt || item.createdAt).toISOString(), true],
   ];
+  const included = columns.filter(([, , isMetadata]) => includeMetadata || !isMetadata);
+
+  // CSV headers
+  const headers = included.map(([header]) => header);
 
   // Convert items to CSV rows
-  const rows = items.map((item) => [
-    escapeCSV(item.id),
-    escapeCSV(item.sourceTitle || ""),
-    escapeCSV(item.text || ""),
-    escapeCSV(item.sourceUrl || ""),
-    escapeCSV(item.sourceTitle || ""),
-    escapeCSV(item.tags?.join(", ") || ""),
-    escapeCSV(item.aiSummary || ""),
-    escapeCSV(item.deviceSource || ""),
-    escapeCSV(new Date(item.createdAt).toISOString()),
-    escapeCSV(new Date(item.updatedAt).toISOString()),
-  ]);
+  const rows = items.map((item) => included.map(([, value]) => escapeCSV(value(item))));
 
   // Combine headers and rows
   const csvContent = [headers, ...rows].map((row) => row.join(",")).join("\n");
@@ -63,17 +173,33 @@ export function exportToCSV(
   downloadFile(csvContent, filename, "text/csv");
 }
 
+/**
+ * Export an arbitrary table (e.g. an evidence matrix) to CSV
+ */
+export function exportTableToCSV(
+  headers: string[],
+  rows: string[][],
+  filename: string = "table.csv",
+): void {
+  const csvContent = [headers, ...rows]
+    .map((row) => row.map(escapeCSV).join(","))
+    .join("\n");
+
+  downloadFile(csvContent, filename, "text/csv");
+}
+
 /**
  * Export items to Markdown format
  */
 export function exportToMarkdown(
   items: StorageItem[],
   filename: string = "research-data.md",
+  { includeMetadata = true }: ExportContentOptions = {},
 ): void {
   const markdown = items
     .map((item) => {
       // Use the shared template generator, then append a visual divider
-      return generateMarkdownTemplate(item) + "\n---\n";
+      return generateMarkdownTemplate(item, { includeMetadata }) + "\n---\n";
     })
     .join("\n");
 
@@ -88,6 +214,7 @@ import jsPDF from "jspdf";
 export async function exportToPDF(
   items: StorageItem[],
   filename: string = "research-data.pdf",
+  { includeMetadata = true }: ExportContentOptions = {},
 ): Promise<void> {
   if (items.length === 0) {
     throw new Error("No items to export");
@@ -135,12 +262,14 @@ export async function exportToPDF(
       cursorY += urlLines.length * 6;
     }
 
-    doc.text(
-      `Date: ${new Date(item.createdAt).toLocaleDateString()}`,
-      20,
-      cursorY,
-    );
-    cursorY += 8;
+    if (includeMetadata) {
+      doc.text(
+        `Date: ${new Date(item.createdAt).toLocaleDateString()}`,
+        20,
+        cursorY,
+      );
+      cursorY += 8;
+    }
 
     if (item.aiSummary) {
       doc.setFont("helvetica", "italic");
@@ -152,6 +281,16 @@ export async function exportToPDF(
       cursorY += summaryLines.length * 6 + 4;
     }
 
+    if (item.note) {
+      doc.setFont("helvetica", "italic");
+      doc.text("Note:", 20, cursorY);
+      cursorY += 6;
+      doc.setFont("helvetica", "normal");
+      const noteLines = doc.splitTextToSize(item.note, 170);
+      doc.text(noteLines, 20, cursorY);
+      cursorY += noteLines.length * 6 + 4;
+    }
+
     if (item.text || item.ocrText) {
       const content = item.text || item.ocrText || "";
       doc.setFont("helvetica", "bold");
@@ -178,33 +317,98 @@ export async function exportToPDF(
   doc.save(filename);
 }
 
+/**
+ * Citation records for reference-manager formats. Assigns (and persists)
+ * stable citation keys first; item tags become keywords and item notes
+ * become the record's note.
+ */
+async function toReferences(
+  items: StorageItem[],
+  { includeMetadata = true }: ExportContentOptions = {},
+): Promise<ParsedReference[]> {
+  const cslById = await assignCitationKeys(items);
+  return items.map((item) => {
+    const { id: _id, ...csl } = cslById.get(item.id)!;
+    return {
+      csl,
+      keywords: includeMetadata
+        ? (item.tags || []).filter((t) => !t.startsWith("color:"))
+        : [],
+      note: item.note || undefined,
+    };
+  });
+}
+
+/**
+ * Export items to BibTeX format
+ */
+export async function exportToBibTeX(
+  items: StorageItem[],
+  filename: string = "research-data.bib",
+  options: ExportContentOptions = {},
+): Promise<void> {
+  downloadFile(writeBibtex(await toReferences(items, options)), filename, "application/x-bibtex");
+}
+
+/**
+ * Export items to RIS format
+ */
+export async function exportToRIS(
+  items: StorageItem[],
+  filename: string = "research-data.ris",
+  options: ExportContentOptions = {},
+): Promise<void> {
+  downloadFile(writeRis(await toReferences(items, options)), filename, "application/x-research-info-systems");
+}
+
+/**
+ * Export items to CSL-JSON format
+ */
+export async function exportToCslJson(
+  items: StorageItem[],
+  filename: string = "research-data.json",
+  options: ExportContentOptions = {},
+): Promise<void> {
+  downloadFile(writeCslJson(await toReferences(items, options)), filename, "application/vnd.citationstyles.csl+json");
+}
+
 /**
  * Export selected items based on format
  */
-export function exportItems(
+export async function exportItems(
   items: StorageItem[],
-  format: "json" | "csv" | "md" | "pdf",
+  format: ItemExportFormat,
   filename?: string,
-): void {
+  options: ExportContentOptions = {},
+): Promise<void> {
   if (items.length === 0) {
     throw new Error("No items to export");
   }
 
   const timestamp = new Date().toISOString().split("T")[0];
-  const defaultFilename = `researchmate-export-${timestamp}`;
+  const name = filename || `researchmate-export-${timestamp}.${FORMAT_EXTENSIONS[format]}`;
 
   switch (format) {
     case EXPORT_FORMATS.JSON:
-      exportToJSON(items, filename || `${defaultFilename}.json`);
+      exportToJSON(items, name, options);
       break;
     case EXPORT_FORMATS.CSV:
-      exportToCSV(items, filename || `${defaultFilename}.csv`);
+      exportToCSV(items, name, options);
       break;
     case EXPORT_FORMATS.MARKDOWN:
-      exportToMarkdown(items, filename || `${defaultFilename}.md`);
+      exportToMarkdown(items, name, options);
       break;
     case EXPORT_FORMATS.PDF:
-      exportToPDF(items, filename || `${defaultFilename}.pdf`);
+      await exportToPDF(items, name, options);
+      break;
+    case EXPORT_FORMATS.BIBTEX:
+      await exportToBibTeX(items, name, options);
+      break;
+    case EXPORT_FORMATS.RIS:
+      await exportToRIS(items, name, options);
+      break;
+    case EXPORT_FORMATS.CSL_JSON:
+      await exportToCslJson(items, name, options);
       break;
     default:
       throw new Error(`Unsupported export format: ${format}`);
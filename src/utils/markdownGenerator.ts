@@ -5,9 +5,13 @@ import { StorageItem } from "../services/storageService";
  * optimized for pasting into note-taking apps like Notion or Obsidian.
  *
  * @param item - The StorageItem to format
+ * @param options.includeMetadata - Include highlight color, capture date and tags (default: true)
  * @returns A formatted markdown string
  */
-export function generateMarkdownTemplate(item: StorageItem): string {
+export function generateMarkdownTemplate(
+  item: StorageItem,
+  { includeMetadata = true }: { includeMetadata?: boolean } = {},
+): string {
   const content = item.text || item.ocrText || "";
   let markdown = `> ${content}\n\n`;
 
@@ -23,6 +27,12 @@ export function generateMarkdownTemplate(item: StorageItem): string {
     markdown += `**Summary:** ${item.aiSummary}\n`;
   }
 
+  if (item.note) {
+    markdown += `**Note:** ${item.note}\n`;
+  }
+
+  if (!includeMetadata) return markdown;
+
   if (item.color) {
     // Capitalize the first letter for aesthetics
     const capitalizedColor = item.color.charAt(0).toUpperCase() + item.color.slice(1);
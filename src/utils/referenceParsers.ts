@@ -0,0 +1,540 @@
+// ============================================
+// REFERENCE FILE PARSERS
+// ============================================
+// Parses BibTeX (.bib), RIS (.ris) and CSL-JSON exports from Zotero,
+// Mendeley and EndNote into CSL items plus their keywords.
+
+import type { CslDate, CslItem, CslItemType, CslName } from "../types";
+import { parseName, toCslDate } from "../components/App/Citations/citationUtils";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReferenceFileFormat = "bibtex" | "ris" | "csl-json";
+
+export interface ParsedReference {
+  csl: CslItem;
+  keywords: string[];
+  /** BibTeX key or RIS / CSL-JSON id from the source file, if any. */
+  sourceKey?: string;
+  /** Personal note; written by the exporters, not read by the parsers. */
+  note?: string;
+}
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+/**
+ * Lowercased title without accents, punctuation or extra spaces (dedupe key).
+ * Letters and digits of every script are kept, so non-Latin titles don't
+ * collapse to an empty or one-word key.
+ */
+export const normalizeTitle = (title: string): string =>
+  title
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/** DOI without its resolver prefix ("https://doi.org/", "doi:"). */
+export const cleanDoi = (doi?: string): string =>
+  (doi || "")
+    .trim()
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, "")
+    .replace(/^doi:\s*/i, "");
+
+/** Case-insensitive DOI dedupe key. */
+export const normalizeDoi = (doi?: string): string => cleanDoi(doi).toLowerCase();
+
+const splitKeywords = (value?: string): string[] =>
+  (value || "")
+    .split(/[;,\n]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+
+const cleanPages = (pages?: string) =>
+  pages ? pages.replace(/\s*(--|–|—|-)\s*/, "-").trim() : undefined;
+
+/** A source-file id that can double as a BibTeX key (not a URL or number). */
+const asCitationKey = (id?: string) =>
+  id && /^[A-Za-z][\w:.+-]*$/.test(id) ? id : undefined;
+
+/** Drops undefined / empty fields so stored records stay compact. */
+function compactItem(item: CslItem): CslItem {
+  for (const key of Object.keys(item) as (keyof CslItem)[]) {
+    const value = item[key];
+    if (value === undefined || value === "") delete item[key];
+  }
+  return item;
+}
+
+/** Detects the format from the file extension, then the content. */
+export function detectReferenceFormat(
+  fileName: string,
+  text: string,
+): ReferenceFileFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".bib") || name.endsWith(".bibtex")) return "bibtex";
+  if (name.endsWith(".ris")) return "ris";
+
+  const trimmed = text.trimStart();
+  if (/^TY {2}- /m.test(trimmed.slice(0, 2000))) return "ris";
+  if (/^@\w+\s*[{(]/m.test(trimmed.slice(0, 2000))) return "bibtex";
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      return isCslJson(JSON.parse(text)) ? "csl-json" : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function parseReferences(text: string, format: ReferenceFileFormat): ParsedReference[] {
+  switch (format) {
+    case "bibtex":
+      return parseBibtex(text);
+    case "ris":
+      return parseRis(text);
+    case "csl-json":
+      return parseCslJson(JSON.parse(text));
+  }
+}
+
+// ============================================
+// BIBTEX
+// ============================================
+
+const BIBTEX_MONTHS: Record<string, string> = {
+  jan: "1", feb: "2", mar: "3", apr: "4", may: "5", jun: "6",
+  jul: "7", aug: "8", sep: "9", oct: "10", nov: "11", dec: "12",
+};
+
+const BIBTEX_TYPES: Record<string, CslItemType> = {
+  article: "article-journal",
+  inproceedings: "paper-conference",
+  conference: "paper-conference",
+  proceedings: "book",
+  book: "book",
+  booklet: "book",
+  inbook: "chapter",
+  incollection: "chapter",
+  techreport: "report",
+  report: "report",
+  phdthesis: "thesis",
+  mastersthesis: "thesis",
+  thesis: "thesis",
+  online: "webpage",
+  electronic: "webpage",
+  www: "webpage",
+  dataset: "dataset",
+  video: "motion_picture",
+};
+
+// Common LaTeX accent commands → combining characters
+const LATEX_ACCENTS: Record<string, string> = {
+  "'": "́", "`": "̀", "^": "̂", '"': "̈", "~": "̃",
+  "=": "̄", ".": "̇", c: "̧", v: "̌", u: "̆", H: "̋",
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: "ß", o: "ø", O: "Ø", ae: "æ", AE: "Æ", aa: "å", AA: "Å", l: "ł", L: "Ł", i: "ı",
+};
+
+/** Converts the LaTeX found in typical .bib exports to plain Unicode text. */
+export function decodeLatex(value: string): string {
+  // Escaped literals are parked in control characters until braces are stripped
+  return value
+    .replace(/\\textbackslash\{\}/g, "\u0001")
+    .replace(/\\textasciitilde\{\}/g, "\u0002")
+    .replace(/\\textasciicircum\{\}/g, "\u0003")
+    .replace(/\\\{/g, "\u0004")
+    .replace(/\\\}/g, "\u0005")
+    .replace(/\\([`'^"~=.])\s*\{?\\?([A-Za-z])\}?/g, (_, accent, letter) =>
+      (letter + LATEX_ACCENTS[accent]).normalize("NFC"))
+    .replace(/\\([cvuH])\s*\{\\?([A-Za-z])\}/g, (_, accent, letter) =>
+      (letter + LATEX_ACCENTS[accent]).normalize("NFC"))
+    .replace(/\\(ss|ae|AE|aa|AA|o|O|l|L|i)\b\s*/g, (_, sym) => LATEX_SYMBOLS[sym])
+    .replace(/\\(textit|textbf|emph|textsc|mathrm|url)\s*\{([^{}]*)\}/g, "$2")
+    .replace(/\\([&%$#_{}])/g, "$1")
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/~/g, " ")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\u0001/g, "\\")
+    .replace(/\u0002/g, "~")
+    .replace(/\u0003/g, "^")
+    .replace(/\u0004/g, "{")
+    .replace(/\u0005/g, "}")
+    .trim();
+}
+
+/** Reads a braced or quoted value starting at `start`; returns it and the end index. */
+function readDelimited(text: string, start: number): [string, number] {
+  const open = text[start];
+  if (open === '"') {
+    let depth = 0;
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === "{") depth++;
+      else if (text[i] === "}") depth--;
+      else if (text[i] === '"' && depth === 0 && text[i - 1] !== "\\") {
+        return [text.slice(start + 1, i), i + 1];
+      }
+    }
+    return [text.slice(start + 1), text.length];
+  }
+
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{" && text[i - 1] !== "\\") depth++;
+    else if (text[i] === "}" && text[i - 1] !== "\\") {
+      depth--;
+      if (depth === 0) return [text.slice(start + 1, i), i + 1];
+    }
+  }
+  return [text.slice(start + 1), text.length];
+}
+
+/** Parses `field = value # value, ...` pairs of one entry body. */
+function parseBibtexFields(body: string, macros: Record<string, string>): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let i = 0;
+
+  while (i < body.length) {
+    const nameMatch = /^[\s,]*([A-Za-z][\w:-]*)\s*=\s*/.exec(body.slice(i));
+    if (!nameMatch) break;
+    const name = nameMatch[1].toLowerCase();
+    i += nameMatch[0].length;
+
+    const parts: string[] = [];
+    while (i < body.length) {
+      const ch = body[i];
+      if (ch === "{" || ch === '"') {
+        const [value, end] = readDelimited(body, i);
+        parts.push(value);
+        i = end;
+      } else {
+        const bare = /^[\w.:-]+/.exec(body.slice(i));
+        if (!bare) break;
+        const token = bare[0];
+        parts.push(macros[token.toLowerCase()] ?? token);
+        i += token.length;
+      }
+      const concat = /^\s*#\s*/.exec(body.slice(i));
+      if (!concat) break;
+      i += concat[0].length;
+    }
+    fields[name] = parts.join("");
+  }
+  return fields;
+}
+
+/** Splits a BibTeX name list on " and " outside braces. */
+function splitBibtexNames(value: string): CslName[] {
+  const names: string[] = [];
+  let depth = 0;
+  let current = "";
+  const tokens = value.split(/(\s+and\s+|[{}])/i);
+  for (const token of tokens) {
+    if (token === "{") depth++;
+    if (token === "}") depth--;
+    if (depth === 0 && /^\s+and\s+$/i.test(token)) {
+      names.push(current);
+      current = "";
+    } else {
+      current += token;
+    }
+  }
+  names.push(current);
+
+  return names
+    .map((raw) => raw.trim())
+    .filter((raw) => raw && raw.toLowerCase() !== "others")
+    .map((raw) => {
+      // A fully braced name is an organisation: "{World Health Organization}"
+      if (/^\{[^{}]*\}$/.test(raw)) return { literal: decodeLatex(raw) };
+      return parseName(decodeLatex(raw));
+    })
+    .filter((n): n is CslName => n !== null);
+}
+
+function bibtexDate(fields: Record<string, string>): CslDate | undefined {
+  if (fields.date) return toCslDate(decodeLatex(fields.date));
+  const year = fields.year?.match(/\d{4}/)?.[0];
+  if (!year) return undefined;
+  const monthRaw = decodeLatex(fields.month || "").toLowerCase();
+  const month = BIBTEX_MONTHS[monthRaw.slice(0, 3)] || monthRaw.match(/^\d{1,2}$/)?.[0];
+  return toCslDate(month ? `${year}-${month.padStart(2, "0")}` : year);
+}
+
+export function parseBibtex(text: string): ParsedReference[] {
+  const macros: Record<string, string> = { ...BIBTEX_MONTHS };
+  const references: ParsedReference[] = [];
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text)) !== null) {
+    const kind = match[1].toLowerCase();
+    const openIndex = match.index + match[0].length - 1;
+    const [inner, end] =
+      match[2] === "{" ? readDelimited(text, openIndex) : [text.slice(openIndex + 1, text.indexOf(")", openIndex)), text.indexOf(")", openIndex) + 1];
+    entryStart.lastIndex = Math.max(end, entryStart.lastIndex);
+
+    if (kind === "comment" || kind === "preamble") continue;
+    if (kind === "string") {
+      Object.assign(macros, Object.fromEntries(
+        Object.entries(parseBibtexFields(inner, macros)).map(([k, v]) => [k.toLowerCase(), v]),
+      ));
+      continue;
+    }
+
+    const comma = inner.indexOf(",");
+    const key = comma >= 0 ? inner.slice(0, comma).trim() : "";
+    const fields = parseBibtexFields(comma >= 0 ? inner.slice(comma + 1) : inner, macros);
+    const field = (name: string) => (fields[name] ? decodeLatex(fields[name]) : undefined);
+
+    const url = fields.url?.trim() || (fields.howpublished?.match(/\\url\{([^}]+)\}/)?.[1]);
+    let type = BIBTEX_TYPES[kind] || (url ? "webpage" : "report");
+    if (kind === "misc" && fields.journal) type = "article-journal";
+
+    const csl = compactItem({
+      id: key || undefined,
+      "citation-key": asCitationKey(key),
+      type,
+      title: field("title") || "Untitled",
+      author: splitBibtexNames(fields.author || ""),
+      editor: fields.editor ? splitBibtexNames(fields.editor) : undefined,
+      "container-title": field("journal") || field("journaltitle") || field("booktitle"),
+      publisher: field("publisher") || field("institution") || field("school") || field("organization"),
+      "publisher-place": field("address") || field("location"),
+      volume: field("volume"),
+      issue: field("number") || field("issue"),
+      page: cleanPages(field("pages")),
+      DOI: fields.doi ? cleanDoi(fields.doi) : undefined,
+      ISBN: field("isbn"),
+      URL: url,
+      issued: bibtexDate(fields),
+      accessed: fields.urldate ? toCslDate(fields.urldate) : undefined,
+      abstract: field("abstract"),
+    });
+    if (csl.editor && csl.editor.length === 0) delete csl.editor;
+
+    references.push({
+      csl,
+      keywords: splitKeywords(field("keywords") || field("mendeley-tags")),
+      sourceKey: key || undefined,
+    });
+  }
+
+  return references;
+}
+
+// ============================================
+// RIS
+// ============================================
+
+const RIS_TYPES: Record<string, CslItemType> = {
+  JOUR: "article-journal",
+  JFULL: "article-journal",
+  EJOUR: "article-journal",
+  ABST: "article-journal",
+  MGZN: "article-magazine",
+  NEWS: "article-newspaper",
+  CONF: "paper-conference",
+  CPAPER: "paper-conference",
+  BOOK: "book",
+  EBOOK: "book",
+  EDBOOK: "book",
+  CHAP: "chapter",
+  ECHAP: "chapter",
+  RPRT: "report",
+  GOVDOC: "report",
+  THES: "thesis",
+  ELEC: "webpage",
+  WEB: "webpage",
+  BLOG: "post",
+  DATA: "dataset",
+  VIDEO: "motion_picture",
+  MPCT: "motion_picture",
+};
+
+/** "2017/06/12/other" or "2017///" → CSL date */
+function risDate(value?: string): CslDate | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("/");
+  if (!/^\d{4}/.test(year || "")) return toCslDate(value);
+  const parts = [year.slice(0, 4), month, day].filter((p) => p && /^\d+$/.test(p));
+  return toCslDate(parts.map((p, i) => (i === 0 ? p : p.padStart(2, "0"))).join("-"));
+}
+
+export function parseRis(text: string): ParsedReference[] {
+  const references: ParsedReference[] = [];
+  let tags: Record<string, string[]> | null = null;
+
+  const finish = () => {
+    if (!tags) return;
+    const first = (...names: string[]) => names.map((n) => tags![n]?.[0]).find(Boolean)?.trim();
+    const all = (...names: string[]) => names.flatMap((n) => tags![n] || []);
+
+    const risType = first("TY")?.toUpperCase() || "GEN";
+    const type = RIS_TYPES[risType] || (first("UR") && !first("JO", "JF", "T2") ? "webpage" : "article-journal");
+    const isBook = type === "book";
+    const startPage = first("SP");
+    const endPage = first("EP");
+
+    const csl = compactItem({
+      id: first("ID"),
+      "citation-key": asCitationKey(first("ID")),
+      type,
+      title: first("TI", "T1", isBook ? "BT" : "") || first("CT") || "Untitled",
+      author: all("AU", "A1").map((a) => parseName(a)).filter((n): n is CslName => n !== null),
+      editor: all("ED", "A2").length && type === "chapter"
+        ? all("ED", "A2").map((a) => parseName(a)).filter((n): n is CslName => n !== null)
+        : undefined,
+      "container-title": isBook ? undefined : first("T2", "JO", "JF", "JA", "J2", "BT"),
+      publisher: first("PB"),
+      "publisher-place": first("CY", "PP"),
+      volume: first("VL"),
+      issue: first("IS"),
+      page: cleanPages(startPage && endPage ? `${startPage}-${endPage}` : startPage),
+      DOI: first("DO") ? cleanDoi(first("DO")) : undefined,
+      ISBN: first("SN")?.replace(/[^0-9Xx-]/g, "").length ? first("SN") : undefined,
+      URL: first("UR", "L2"),
+      issued: risDate(first("PY", "Y1", "DA")),
+      accessed: risDate(first("Y2")),
+      abstract: first("AB", "N2"),
+    });
+    if (csl.editor && csl.editor.length === 0) delete csl.editor;
+
+    references.push({
+      csl,
+      keywords: all("KW").flatMap((k) => splitKeywords(k)),
+      sourceKey: first("ID"),
+    });
+    tags = null;
+  };
+
+  let lastTag = "";
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([A-Z][A-Z0-9])  -\s?(.*)$/.exec(line);
+    if (!match) {
+      // Continuation of a wrapped value (common in abstracts)
+      if (tags && lastTag && line.trim()) {
+        const values = tags[lastTag];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+      continue;
+    }
+    const [, tag, value] = match;
+    if (tag === "TY") {
+      finish();
+      tags = {};
+    }
+    if (!tags) continue;
+    if (tag === "ER") {
+      finish();
+      lastTag = "";
+      continue;
+    }
+    (tags[tag] ||= []).push(value.trim());
+    lastTag = tag;
+  }
+  finish();
+
+  return references;
+}
+
+// ============================================
+// CSL-JSON
+// ============================================
+
+const CSL_TYPES = new Set<string>([
+  "article-journal", "article-magazine", "article-newspaper", "paper-conference",
+  "book", "chapter", "report", "thesis", "dataset", "motion_picture", "post", "webpage",
+]);
+
+const CSL_TYPE_ALIASES: Record<string, CslItemType> = {
+  article: "article-journal",
+  "post-weblog": "post",
+  broadcast: "motion_picture",
+  manuscript: "report",
+  speech: "paper-conference",
+};
+
+/** True for a CSL-JSON array (as opposed to a ResearchMate JSON backup). */
+export function isCslJson(data: unknown): boolean {
+  const entries = Array.isArray(data) ? data : data && typeof data === "object" ? [data] : [];
+  return (
+    entries.length > 0 &&
+    entries.every(
+      (e) => e && typeof e === "object" && typeof (e as Record<string, unknown>).type === "string",
+    ) &&
+    entries.some((e) => "title" in (e as object) || "author" in (e as object)) &&
+    !entries.some((e) => ["text", "source_title", "sourceTitle"].some((k) => k in (e as object)))
+  );
+}
+
+function cslJsonDate(value: unknown): CslDate | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const date = value as { "date-parts"?: unknown; raw?: string; literal?: string };
+  if (Array.isArray(date["date-parts"]) && Array.isArray(date["date-parts"][0])) {
+    const parts = (date["date-parts"][0] as unknown[]).map(Number).filter((n) => !isNaN(n));
+    if (parts.length > 0) return { "date-parts": [parts as [number, number?, number?]] };
+  }
+  if (date.raw) return toCslDate(date.raw);
+  return date.literal ? { literal: date.literal } : undefined;
+}
+
+function cslJsonNames(value: unknown): CslName[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((n): CslName | null => {
+      if (!n || typeof n !== "object") return null;
+      const { family, given, literal } = n as CslName;
+      if (literal) return { literal };
+      return family || given ? { family, given } : null;
+    })
+    .filter((n): n is CslName => n !== null);
+}
+
+export function parseCslJson(data: unknown): ParsedReference[] {
+  const entries = (Array.isArray(data) ? data : [data]) as Record<string, unknown>[];
+  const str = (value: unknown) =>
+    value === undefined || value === null || value === "" ? undefined : String(value);
+
+  return entries
+    .filter((e) => e && typeof e === "object")
+    .map((e) => {
+      const rawType = String(e.type || "");
+      const type = (CSL_TYPES.has(rawType) ? rawType : CSL_TYPE_ALIASES[rawType]) as CslItemType
+        || (e["container-title"] ? "article-journal" : "webpage");
+      const editor = cslJsonNames(e.editor);
+
+      const csl = compactItem({
+        id: str(e.id),
+        "citation-key": asCitationKey(str(e["citation-key"]) || str(e.id)),
+        type,
+        title: str(e.title) || "Untitled",
+        author: cslJsonNames(e.author),
+        editor: editor.length ? editor : undefined,
+        "container-title": str(e["container-title"]),
+        publisher: str(e.publisher),
+        "publisher-place": str(e["publisher-place"]),
+        volume: str(e.volume),
+        issue: str(e.issue),
+        page: cleanPages(str(e.page)),
+        DOI: e.DOI ? cleanDoi(String(e.DOI)) : undefined,
+        ISBN: str(e.ISBN),
+        URL: str(e.URL),
+        issued: cslJsonDate(e.issued),
+        accessed: cslJsonDate(e.accessed),
+        abstract: str(e.abstract),
+      });
+
+      return { csl, keywords: splitKeywords(str(e.keyword)), sourceKey: str(e.id) };
+    });
+}
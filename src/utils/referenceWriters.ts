@@ -0,0 +1,191 @@
+// ============================================
+// REFERENCE FILE WRITERS
+// ============================================
+// Serializes CSL items to BibTeX, RIS and CSL-JSON for Zotero, Mendeley,
+// EndNote and LaTeX. The counterpart of referenceParsers.ts; records carry
+// their `citation-key` (see citationKeyService).
+
+import type { CslDate, CslItemType, CslName } from "../types";
+import type { ParsedReference } from "./referenceParsers";
+import { generateCitationKey } from "../components/App/Citations/citationUtils";
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+const dateParts = (date?: CslDate): [number, number?, number?] | undefined =>
+  date?.["date-parts"]?.[0];
+
+const splitPages = (page?: string): [string?, string?] => {
+  if (!page) return [];
+  const [start, end] = page.split(/\s*[-–—]+\s*/);
+  return [start, end];
+};
+
+// ============================================
+// BIBTEX
+// ============================================
+
+const BIBTEX_TYPES: Record<CslItemType, string> = {
+  "article-journal": "article",
+  "article-magazine": "article",
+  "article-newspaper": "article",
+  "paper-conference": "inproceedings",
+  book: "book",
+  chapter: "incollection",
+  report: "techreport",
+  thesis: "phdthesis",
+  dataset: "misc",
+  motion_picture: "misc",
+  post: "online",
+  webpage: "online",
+};
+
+const BIBTEX_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const LATEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+  "–": "--",
+  "—": "---",
+};
+
+/** Escapes the characters BibTeX / LaTeX treat specially. */
+export function escapeLatex(value: string): string {
+  return value.replace(/[\\~^–—&%$#_{}]/g, (ch) => LATEX_ESCAPES[ch] ?? `\\${ch}`);
+}
+
+const bibtexNames = (names: CslName[]) =>
+  names
+    .map((n) =>
+      n.literal
+        ? `{${escapeLatex(n.literal)}}`
+        : escapeLatex([n.family, n.given].filter(Boolean).join(", ")),
+    )
+    .join(" and ");
+
+function toBibtexEntry({ csl, keywords, note }: ParsedReference): string {
+  const type = BIBTEX_TYPES[csl.type] || "misc";
+  const [year, month] = dateParts(csl.issued) || [];
+  const accessed = dateParts(csl.accessed);
+  const container = csl["container-title"];
+
+  const fields: [string, string | undefined, boolean?][] = [
+    ["author", csl.author.length ? bibtexNames(csl.author) : undefined, true],
+    ["editor", csl.editor?.length ? bibtexNames(csl.editor) : undefined, true],
+    ["title", csl.title],
+    [type === "article" ? "journal" : type === "online" ? "organization" : "booktitle", container],
+    ["year", year?.toString()],
+    ["month", month ? BIBTEX_MONTHS[month - 1] : undefined, true],
+    ["volume", csl.volume],
+    ["number", csl.issue],
+    ["pages", csl.page?.replace(/\s*[-–—]+\s*/, "--"), true],
+    [type === "techreport" ? "institution" : type === "phdthesis" ? "school" : "publisher", csl.publisher],
+    ["address", csl["publisher-place"]],
+    ["doi", csl.DOI, true],
+    ["isbn", csl.ISBN],
+    ["url", csl.URL, true],
+    ["urldate", accessed ? accessed.map((p, i) => String(p).padStart(i ? 2 : 4, "0")).join("-") : undefined, true],
+    ["abstract", csl.abstract],
+    ["keywords", keywords.length ? keywords.join(", ") : undefined],
+    ["annote", note],
+  ];
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([key, value, raw]) => {
+      // Month macros stay bare; pre-escaped / verbatim values skip escaping
+      if (key === "month") return `  month = ${value}`;
+      return `  ${key} = {${raw ? value : escapeLatex(value as string)}}`;
+    })
+    .join(",\n");
+
+  return `@${type}{${generateCitationKey(csl)},\n${body}\n}`;
+}
+
+export function writeBibtex(references: ParsedReference[]): string {
+  return references.map(toBibtexEntry).join("\n\n") + "\n";
+}
+
+// ============================================
+// RIS
+// ============================================
+
+const RIS_TYPES: Record<CslItemType, string> = {
+  "article-journal": "JOUR",
+  "article-magazine": "MGZN",
+  "article-newspaper": "NEWS",
+  "paper-conference": "CPAPER",
+  book: "BOOK",
+  chapter: "CHAP",
+  report: "RPRT",
+  thesis: "THES",
+  dataset: "DATA",
+  motion_picture: "VIDEO",
+  post: "BLOG",
+  webpage: "ELEC",
+};
+
+const risName = (n: CslName) => n.literal || [n.family, n.given].filter(Boolean).join(", ");
+
+const risDate = (date?: CslDate) => {
+  const parts = dateParts(date);
+  if (!parts) return undefined;
+  const [year, month, day] = parts;
+  return [year, month, day].map((p, i) => (p ? String(p).padStart(i ? 2 : 4, "0") : "")).join("/") + "/";
+};
+
+function toRisRecord({ csl, keywords, note }: ParsedReference): string {
+  const [startPage, endPage] = splitPages(csl.page);
+  const lines: [string, string | undefined][] = [
+    ["TY", RIS_TYPES[csl.type] || "GEN"],
+    ["ID", generateCitationKey(csl)],
+    ...csl.author.map((a): [string, string] => ["AU", risName(a)]),
+    ...(csl.editor || []).map((e): [string, string] => ["ED", risName(e)]),
+    ["TI", csl.title],
+    ["T2", csl["container-title"]],
+    ["PY", risDate(csl.issued)],
+    ["VL", csl.volume],
+    ["IS", csl.issue],
+    ["SP", startPage],
+    ["EP", endPage],
+    ["PB", csl.publisher],
+    ["CY", csl["publisher-place"]],
+    ["DO", csl.DOI],
+    ["SN", csl.ISBN],
+    ["UR", csl.URL],
+    ["Y2", risDate(csl.accessed)],
+    ["AB", csl.abstract?.replace(/\s*\n\s*/g, " ")],
+    ...keywords.map((k): [string, string] => ["KW", k]),
+    ["N1", note?.replace(/\s*\n\s*/g, " ")],
+  ];
+
+  return [
+    ...lines.filter(([, value]) => value).map(([tag, value]) => `${tag}  - ${value}`),
+    "ER  - ",
+  ].join("\r\n");
+}
+
+export function writeRis(references: ParsedReference[]): string {
+  return references.map(toRisRecord).join("\r\n\r\n") + "\r\n";
+}
+
+// ============================================
+// CSL-JSON
+// ============================================
+
+/** CSL-JSON array keyed by citation key, with tags as `keyword`. */
+export function writeCslJson(references: ParsedReference[]): string {
+  const records = references.map(({ csl, keywords, note }) => {
+    const key = generateCitationKey(csl);
+    return {
+      ...csl,
+      id: key,
+      "citation-key": key,
+      ...(keywords.length ? { keyword: keywords.join(", ") } : {}),
+      ...(note ? { note } : {}),
+    };
+  });
+  return JSON.stringify(records, null, 2);
+}
@@ -0,0 +1,66 @@
+-- ============================================
+-- Multi-Credit Atomic Operations
+-- ============================================
+-- Extends deduct_credit / refund_credit with an optional amount so
+-- operations that cost more than 1 credit (transcription = 3) stay atomic.
+-- Callers that omit p_amount keep the old 1-credit behaviour.
+--
+-- Both functions run as SECURITY DEFINER, so only the API (service role)
+-- may call them: a signed-in user calling refund_credit directly with the
+-- anon key could otherwise add credits to any account. `p_amount` is
+-- capped at 100, well above the most expensive operation.
+
+DROP FUNCTION IF EXISTS public.deduct_credit(UUID);
+DROP FUNCTION IF EXISTS public.refund_credit(UUID);
+
+-- Deduct `p_amount` credits atomically. Returns the new credit count,
+-- or -1 if the user has fewer than `p_amount` credits (no deduction performed).
+CREATE OR REPLACE FUNCTION public.deduct_credit(p_user_id UUID, p_amount INTEGER DEFAULT 1)
+RETURNS INTEGER AS $$
+DECLARE
+  new_credits INTEGER;
+BEGIN
+  IF p_amount IS NULL OR p_amount NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'p_amount must be between 1 and 100';
+  END IF;
+
+  UPDATE public.profiles
+  SET ai_credits = ai_credits - p_amount
+  WHERE id = p_user_id AND ai_credits >= p_amount
+  RETURNING ai_credits INTO new_credits;
+
+  IF NOT FOUND THEN
+    RETURN -1;
+  END IF;
+
+  RETURN new_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund `p_amount` credits atomically. Returns the new credit count.
+CREATE OR REPLACE FUNCTION public.refund_credit(p_user_id UUID, p_amount INTEGER DEFAULT 1)
+RETURNS INTEGER AS $$
+DECLARE
+  new_credits INTEGER;
+BEGIN
+  IF p_amount IS NULL OR p_amount NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'p_amount must be between 1 and 100';
+  END IF;
+
+  UPDATE public.profiles
+  SET ai_credits = ai_credits + p_amount
+  WHERE id = p_user_id
+  RETURNING ai_credits INTO new_credits;
+
+  IF NOT FOUND THEN
+    RETURN -1;
+  END IF;
+
+  RETURN new_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.deduct_credit(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_credit(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.deduct_credit(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_credit(UUID, INTEGER) TO service_role;
@@ -0,0 +1,9 @@
+-- ============================================
+-- RSS Feed HTTP Validators
+-- ============================================
+-- Stores the ETag / Last-Modified headers returned by `api/rss.ts` so the
+-- next fetch can be sent as a conditional request (304 = nothing new).
+
+ALTER TABLE public.rss_feeds
+    ADD COLUMN IF NOT EXISTS etag          TEXT,
+    ADD COLUMN IF NOT EXISTS last_modified TEXT;
@@ -0,0 +1,13 @@
+-- ============================================
+-- Structured Citation Metadata
+-- ============================================
+-- CSL-JSON-like citation record (authors, DOI, container, volume, issue,
+-- pages, type) filled from api/extract-citation and api/cite lookups.
+-- `citation` keeps the last rendered string; formatters read `csl_data`.
+
+ALTER TABLE public.items
+    ADD COLUMN IF NOT EXISTS csl_data JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_items_csl_doi
+    ON public.items ((lower(csl_data->>'DOI')))
+    WHERE csl_data ? 'DOI';
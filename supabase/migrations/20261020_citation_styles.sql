@@ -0,0 +1,39 @@
+-- ============================================
+-- Citation Styles Migration
+-- ============================================
+-- Table: citation_styles
+-- Stores `.csl` (Citation Style Language) files uploaded by each user.
+-- Bundled styles ship with the client; only uploads live here.
+--
+-- documents.citation_style keeps the style chosen for each document:
+-- a built-in format ("apa"), a bundled CSL id ("vancouver") or
+-- "custom:<citation_styles.id>".
+
+CREATE TABLE IF NOT EXISTS public.citation_styles (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name        TEXT NOT NULL,
+    xml         TEXT NOT NULL,
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_citation_styles_user_id ON public.citation_styles(user_id);
+
+-- Row-level security
+ALTER TABLE public.citation_styles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own citation styles"
+    ON public.citation_styles FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own citation styles"
+    ON public.citation_styles FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own citation styles"
+    ON public.citation_styles FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Per-document style
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS citation_style TEXT NOT NULL DEFAULT 'apa';
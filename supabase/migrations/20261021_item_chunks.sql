@@ -0,0 +1,86 @@
+-- ============================================
+-- Item Chunks Migration (Retrieval-Augmented Chat)
+-- ============================================
+-- Table: item_chunks
+-- Each item's text / OCR text / note split into overlapping chunks with a
+-- pgvector embedding. Written by the api/ endpoints (service role) the
+-- first time a chat needs them and whenever the item's updated_at moves.
+--
+-- embedding_model records which embedder produced the vector
+-- ("text-embedding-004", or "local-hash-768" for the offline stand-in) so
+-- vectors from different models are never compared.
+--
+-- The HNSW index is shared by all users, and the user/model filter is
+-- applied to what the index scan returns. The match functions therefore
+-- turn on iterative index scans (pgvector 0.8+), which keep reading the
+-- index until enough rows pass the filter, instead of returning a short
+-- or empty list for users whose chunks aren't among the first candidates.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS public.item_chunks (
+    id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id           UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    item_id           UUID NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+    chunk_index       INTEGER NOT NULL,
+    content           TEXT NOT NULL,
+    embedding         VECTOR(768) NOT NULL,
+    embedding_model   TEXT NOT NULL,
+    item_updated_at   TIMESTAMPTZ,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(item_id, embedding_model, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_chunks_user_id ON public.item_chunks(user_id);
+CREATE INDEX IF NOT EXISTS idx_item_chunks_embedding
+    ON public.item_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Row-level security (rows are written by the service role only)
+ALTER TABLE public.item_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own item chunks"
+    ON public.item_chunks FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Top-k chunks for a query embedding, scoped to one user and one model.
+-- relaxed_order can return the index candidates slightly out of order, so
+-- the nearest rows are re-sorted by distance after the scan.
+CREATE OR REPLACE FUNCTION public.match_item_chunks(
+    p_user_id UUID,
+    p_embedding_model TEXT,
+    p_query VECTOR(768),
+    p_match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+    item_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    title TEXT,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+SET hnsw.iterative_scan = relaxed_order
+SET hnsw.ef_search = 100
+AS $$
+    WITH nearest AS MATERIALIZED (
+        SELECT
+            c.item_id,
+            c.chunk_index,
+            c.content,
+            c.embedding <=> p_query AS distance
+        FROM public.item_chunks c
+        WHERE c.user_id = p_user_id
+          AND c.embedding_model = p_embedding_model
+        ORDER BY c.embedding <=> p_query
+        LIMIT p_match_count
+    )
+    SELECT
+        n.item_id,
+        n.chunk_index,
+        n.content,
+        i.source_title AS title,
+        1 - n.distance AS similarity
+    FROM nearest n
+    JOIN public.items i ON i.id = n.item_id
+    ORDER BY n.distance;
+$$;
@@ -0,0 +1,50 @@
+-- ============================================
+-- Item Similarity Migration (Related Items & Search by Meaning)
+-- ============================================
+-- Function: match_items
+-- Ranks a user's items by their best-matching chunk in item_chunks.
+-- The nearest chunks are taken from the HNSW index first and then grouped
+-- per item, so one long item cannot crowd the others out of the results.
+-- Like match_item_chunks, it uses an iterative HNSW scan so the user/model
+-- filter doesn't leave the candidate list short.
+--
+-- p_exclude_item_id leaves the item itself out of its own "related items".
+
+CREATE OR REPLACE FUNCTION public.match_items(
+    p_user_id UUID,
+    p_embedding_model TEXT,
+    p_query VECTOR(768),
+    p_match_count INTEGER DEFAULT 10,
+    p_exclude_item_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    item_id UUID,
+    content TEXT,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+SET hnsw.iterative_scan = relaxed_order
+SET hnsw.ef_search = 100
+AS $$
+    WITH nearest AS MATERIALIZED (
+        SELECT
+            c.item_id,
+            c.content,
+            1 - (c.embedding <=> p_query) AS similarity
+        FROM public.item_chunks c
+        WHERE c.user_id = p_user_id
+          AND c.embedding_model = p_embedding_model
+          AND (p_exclude_item_id IS NULL OR c.item_id <> p_exclude_item_id)
+        ORDER BY c.embedding <=> p_query
+        LIMIT p_match_count * 8
+    ),
+    best AS (
+        SELECT DISTINCT ON (n.item_id) n.item_id, n.content, n.similarity
+        FROM nearest n
+        ORDER BY n.item_id, n.similarity DESC
+    )
+    SELECT b.item_id, b.content, b.similarity
+    FROM best b
+    ORDER BY b.similarity DESC
+    LIMIT p_match_count;
+$$;
@@ -0,0 +1,56 @@
+-- ============================================
+-- Chat Sessions Migration (AI Assistant)
+-- ============================================
+-- Table: chat_sessions
+-- One row per AI Assistant conversation. `messages` holds the ChatMessage[]
+-- defined in src/types.ts; each message's metadata.context lists the IDs of
+-- the library items that were used as context for it.
+-- Replaces the single conversation previously kept in localStorage
+-- (`rm_chat_history`), which did not follow users across devices.
+
+CREATE TABLE IF NOT EXISTS public.chat_sessions (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title       TEXT NOT NULL DEFAULT 'New chat',
+    messages    JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_updated
+    ON public.chat_sessions(user_id, updated_at DESC);
+
+-- Row-level security
+ALTER TABLE public.chat_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat sessions"
+    ON public.chat_sessions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own chat sessions"
+    ON public.chat_sessions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat sessions"
+    ON public.chat_sessions FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat sessions"
+    ON public.chat_sessions FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Auto-bump updated_at
+CREATE OR REPLACE FUNCTION public.chat_sessions_bump_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS chat_sessions_updated_at ON public.chat_sessions;
+CREATE TRIGGER chat_sessions_updated_at
+    BEFORE UPDATE ON public.chat_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.chat_sessions_bump_updated_at();
@@ -0,0 +1,21 @@
+-- ============================================
+-- Item Chat Sessions Migration
+-- ============================================
+-- Table: chat_sessions (altered)
+-- A conversation can belong to a single library item: the chat in the item
+-- detail workspace keeps one session per item, grounded in that item only.
+-- Sessions with item_id NULL are the AI Assistant's library-wide chats.
+-- Deleting the item deletes its conversation.
+
+ALTER TABLE public.chat_sessions
+    ADD COLUMN IF NOT EXISTS item_id UUID REFERENCES public.items(id) ON DELETE CASCADE;
+
+-- One conversation per item and user (NULLs are distinct, so library chats
+-- are unaffected). Scoped to the user so an upsert can only ever hit the
+-- caller's own session, never another user's row for the same item id.
+ALTER TABLE public.chat_sessions
+    DROP CONSTRAINT IF EXISTS chat_sessions_item_id_key;
+ALTER TABLE public.chat_sessions
+    DROP CONSTRAINT IF EXISTS chat_sessions_user_id_item_id_key;
+ALTER TABLE public.chat_sessions
+    ADD CONSTRAINT chat_sessions_user_id_item_id_key UNIQUE (user_id, item_id);
@@ -0,0 +1,14 @@
+-- ============================================
+-- Structured Item Insights
+-- ============================================
+-- Typed insights extracted by api/insights (research question, methodology,
+-- study design, sample, key findings, limitations, implications). The
+-- dashboard filters and sorts on `studyDesign` and `sampleSize` to compare
+-- methodologies across items. NULL until insights are extracted.
+
+ALTER TABLE public.items
+    ADD COLUMN IF NOT EXISTS insights JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_items_insights_study_design
+    ON public.items (user_id, (insights->>'studyDesign'))
+    WHERE insights IS NOT NULL;
@@ -0,0 +1,54 @@
+-- ============================================
+-- Credit Ledger Migration
+-- ============================================
+-- Table: credit_transactions
+-- Append-only history of every credit deduction and refund, written by
+-- deductCredit / refundCredit in api/_utils/auth.ts next to the atomic
+-- deduct_credit / refund_credit RPCs (20261018_credit_amounts.sql).
+-- `profiles.ai_credits` stays the balance of record; this table explains it.
+--
+-- outcome:
+--   charged       - `cost` credits were deducted
+--   insufficient  - the deduction was refused for lack of credits (no change)
+--   refunded      - `cost` credits were returned after a failed call
+
+CREATE TABLE IF NOT EXISTS public.credit_transactions (
+    id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id        UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint       TEXT NOT NULL,
+    cost           INTEGER NOT NULL CHECK (cost > 0),
+    outcome        TEXT NOT NULL CHECK (outcome IN ('charged', 'insufficient', 'refunded')),
+    provider       TEXT,
+    -- No foreign key: the history outlives deleted items
+    item_id        TEXT,
+    balance_after  INTEGER,
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_created
+    ON public.credit_transactions(user_id, created_at DESC);
+
+-- Row-level security: users read their own history; only the service role writes
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit transactions"
+    ON public.credit_transactions FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Append-only, even for the service role. Deleting the user still cascades
+-- (the cascade runs inside a referential-integrity trigger).
+CREATE OR REPLACE FUNCTION public.credit_transactions_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'credit_transactions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_transactions_no_change ON public.credit_transactions;
+CREATE TRIGGER credit_transactions_no_change
+    BEFORE UPDATE OR DELETE ON public.credit_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.credit_transactions_append_only();
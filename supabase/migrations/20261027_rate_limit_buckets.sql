@@ -0,0 +1,71 @@
+-- ============================================
+-- Durable Rate Limiting Migration
+-- ============================================
+-- Table: rate_limit_buckets
+-- One token bucket per user and endpoint, used by api/_utils/rateLimit.ts.
+-- Replaces the per-instance in-memory Map in auth.ts, which reset on every
+-- cold start and was not shared between serverless instances.
+-- Budgets (capacity and refill rate) live in code and are passed in on each
+-- call, so changing them needs no migration.
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    bucket      TEXT NOT NULL,
+    tokens      DOUBLE PRECISION NOT NULL,
+    updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, bucket)
+);
+
+-- Only the service role (API) touches buckets; no policies for users
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Refill the bucket for the time since its last update, then take one token
+-- if there is one. The row lock makes concurrent requests queue, so two
+-- instances can never spend the same token.
+-- Returns whether the request is allowed and the tokens left afterwards.
+-- Callable by the service role only: clients could otherwise drain another
+-- user's bucket or refill their own with a huge capacity.
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(
+    p_user_id UUID,
+    p_bucket TEXT,
+    p_capacity INTEGER,
+    p_refill_per_second DOUBLE PRECISION
+)
+RETURNS TABLE (allowed BOOLEAN, remaining DOUBLE PRECISION) AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_tokens DOUBLE PRECISION;
+    v_updated TIMESTAMPTZ;
+BEGIN
+    INSERT INTO public.rate_limit_buckets AS b (user_id, bucket, tokens, updated_at)
+    VALUES (p_user_id, p_bucket, p_capacity, v_now)
+    ON CONFLICT (user_id, bucket) DO NOTHING;
+
+    SELECT b.tokens, b.updated_at INTO v_tokens, v_updated
+    FROM public.rate_limit_buckets b
+    WHERE b.user_id = p_user_id AND b.bucket = p_bucket
+    FOR UPDATE;
+
+    v_tokens := LEAST(
+        p_capacity,
+        v_tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_updated))) * p_refill_per_second
+    );
+
+    allowed := v_tokens >= 1;
+    IF allowed THEN
+        v_tokens := v_tokens - 1;
+    END IF;
+
+    UPDATE public.rate_limit_buckets b
+    SET tokens = v_tokens, updated_at = v_now
+    WHERE b.user_id = p_user_id AND b.bucket = p_bucket;
+
+    remaining := v_tokens;
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(UUID, TEXT, INTEGER, DOUBLE PRECISION)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.take_rate_limit_token(UUID, TEXT, INTEGER, DOUBLE PRECISION)
+    TO service_role;
@@ -0,0 +1,29 @@
+-- ============================================
+-- BYOK Key Vault Migration
+-- ============================================
+-- Table: user_provider_keys
+-- One personal API key per user and AI provider (gemini, openrouter, groq,
+-- openai), encrypted by the API with AES-256-GCM before it is stored (see
+-- api/_utils/keyVault.ts). The database never sees a plaintext key; the
+-- encryption secret lives in the BYOK_ENCRYPTION_KEY environment variable.
+-- Replaces the Gemini-only `custom_gemini_key` cookie.
+--
+-- priority:  order in which the user's keys are tried, lowest first. Every AI
+--            endpoint tries the user's keys before the shared server keys.
+-- key_hint:  last four characters, so Settings can show which key is saved.
+
+CREATE TABLE IF NOT EXISTS public.user_provider_keys (
+    user_id            UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider           TEXT NOT NULL CHECK (provider IN ('gemini', 'openrouter', 'groq', 'openai')),
+    encrypted_key      TEXT NOT NULL,
+    key_hint           TEXT NOT NULL,
+    priority           INTEGER NOT NULL DEFAULT 0,
+    last_validated_at  TIMESTAMPTZ,
+    created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, provider)
+);
+
+-- Row-level security: ciphertexts are only read and written by the service
+-- role (API), so there are no policies for users
+ALTER TABLE public.user_provider_keys ENABLE ROW LEVEL SECURITY;
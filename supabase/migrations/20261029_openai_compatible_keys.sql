@@ -0,0 +1,26 @@
+-- ============================================
+-- OpenAI-Compatible Endpoints in the Key Vault
+-- ============================================
+-- Lets users add their own OpenAI-compatible server (Ollama, llama.cpp,
+-- vLLM, ...) next to their provider keys (20261028_user_provider_keys.sql).
+-- Such a row carries the server's base URL and model; its key is optional
+-- and stored encrypted like any other (an empty key when there is none).
+
+ALTER TABLE public.user_provider_keys
+    ADD COLUMN IF NOT EXISTS base_url  TEXT,
+    ADD COLUMN IF NOT EXISTS model     TEXT;
+
+ALTER TABLE public.user_provider_keys
+    DROP CONSTRAINT IF EXISTS user_provider_keys_provider_check;
+
+ALTER TABLE public.user_provider_keys
+    ADD CONSTRAINT user_provider_keys_provider_check
+    CHECK (provider IN ('gemini', 'openrouter', 'groq', 'openai', 'openai-compatible'));
+
+-- A self-hosted server is useless without knowing where it is and what to run
+ALTER TABLE public.user_provider_keys
+    DROP CONSTRAINT IF EXISTS user_provider_keys_endpoint_check;
+
+ALTER TABLE public.user_provider_keys
+    ADD CONSTRAINT user_provider_keys_endpoint_check
+    CHECK (provider <> 'openai-compatible' OR (base_url IS NOT NULL AND model IS NOT NULL));
@@ -0,0 +1,43 @@
+-- ============================================
+-- PII Redaction Migration
+-- ============================================
+-- Tables: redaction_settings, redaction_audit
+-- Optional per-user redaction of personal details before text is sent to
+-- an AI provider (api/_utils/redaction.ts). Settings are read and written
+-- through /api/redaction so custom patterns are validated server-side.
+--
+-- redaction_audit has one row per redacted AI request with counts per
+-- category (email, phone, name, id, custom) and the labels of the custom
+-- patterns that matched. It never holds the redacted values themselves.
+
+CREATE TABLE IF NOT EXISTS public.redaction_settings (
+    user_id          UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    enabled          BOOLEAN NOT NULL DEFAULT FALSE,
+    categories       TEXT[] NOT NULL DEFAULT ARRAY['email', 'phone', 'name', 'id', 'custom'],
+    names            TEXT[] NOT NULL DEFAULT '{}',
+    -- [{ "label": "Project code", "pattern": "ACME-\\d{3}", "regex": true }]
+    custom_patterns  JSONB NOT NULL DEFAULT '[]'::jsonb,
+    updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.redaction_audit (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint    TEXT NOT NULL,
+    provider    TEXT,
+    total       INTEGER NOT NULL DEFAULT 0,
+    counts      JSONB NOT NULL DEFAULT '{}'::jsonb,
+    labels      TEXT[] NOT NULL DEFAULT '{}',
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_redaction_audit_user_created
+    ON public.redaction_audit(user_id, created_at DESC);
+
+-- Settings go through the API only (service role); the audit is readable by its owner
+ALTER TABLE public.redaction_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.redaction_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redaction audit"
+    ON public.redaction_audit FOR SELECT
+    USING (auth.uid() = user_id);
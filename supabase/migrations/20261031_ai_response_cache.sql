@@ -0,0 +1,35 @@
+-- ============================================
+-- AI Response Cache Migration
+-- ============================================
+-- Table: ai_response_cache
+-- Per-user answers to repeated AI requests (api/_utils/responseCache.ts).
+-- `cache_key` hashes the endpoint, mode, model chain and normalized input
+-- text; the text itself is not stored. A hit is served without calling a
+-- provider or charging a credit.
+--
+-- Entries expire after AI_CACHE_TTL_HOURS (default 7 days). Reads ignore
+-- expired rows; the hourly job below deletes them.
+
+CREATE TABLE IF NOT EXISTS public.ai_response_cache (
+    user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    cache_key   TEXT NOT NULL,
+    endpoint    TEXT NOT NULL,
+    response    JSONB NOT NULL,
+    provider    TEXT,
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at  TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (user_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires
+    ON public.ai_response_cache(expires_at);
+
+-- Only the service role (API) reads and writes the cache; no policies for users
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+
+-- Requires pg_cron (see 20260208_cron_reset.sql)
+SELECT cron.schedule(
+  'purge-ai-response-cache',
+  '17 * * * *',
+  'DELETE FROM public.ai_response_cache WHERE expires_at < NOW()'
+);
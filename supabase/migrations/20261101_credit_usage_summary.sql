@@ -0,0 +1,41 @@
+-- ============================================
+-- Credit Usage Summary Migration
+-- ============================================
+-- Function: credit_usage_summary
+-- Groups a user's charged and refunded credit_transactions since p_since
+-- per endpoint and per UTC day, for the usage summary of /api/credits
+-- (summarizeUsage in api/_utils/creditLedger.ts). Aggregating here keeps
+-- the response small however many transactions the window holds: one row
+-- per endpoint and outcome plus one per day and outcome.
+--
+-- Per-endpoint rows have day NULL; per-day rows have endpoint NULL.
+-- "insufficient" rows changed no balance and are left out.
+
+CREATE OR REPLACE FUNCTION public.credit_usage_summary(
+    p_user_id UUID,
+    p_since TIMESTAMPTZ
+)
+RETURNS TABLE (
+    endpoint TEXT,
+    day DATE,
+    outcome TEXT,
+    transactions BIGINT,
+    credits BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        t.endpoint,
+        (t.created_at AT TIME ZONE 'UTC')::DATE AS day,
+        t.outcome,
+        COUNT(*) AS transactions,
+        SUM(t.cost) AS credits
+    FROM public.credit_transactions t
+    WHERE t.user_id = p_user_id
+      AND t.created_at >= p_since
+      AND t.outcome <> 'insufficient'
+    GROUP BY GROUPING SETS (
+        (t.endpoint, t.outcome),
+        ((t.created_at AT TIME ZONE 'UTC')::DATE, t.outcome)
+    );
+$$;
@@ -0,0 +1,396 @@
+// ============================================
+// AI PROVIDER ROUTER TESTS
+// Covers ordered fallback, timeouts, circuit breaking, streaming and error reporting
+// Run with: npx vitest run tests/aiRouter.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  AiProviderError,
+  AiRouterError,
+  aiErrorResponse,
+  createFakeProvider,
+  defaultAiChain,
+  openAiCompatibleProvider,
+  resetCircuitBreakers,
+  routeAiRequest,
+  streamAiRequest,
+  userKeyProviders,
+} from "../api/_utils/aiRouter.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const REQUEST = { prompt: "Summarize this", temperature: 0.3, maxTokens: 100 };
+
+const failing = (name: string, status = 503) =>
+  createFakeProvider({
+    name,
+    respond: () => {
+      throw new AiProviderError("Service unavailable", { status });
+    },
+  });
+
+beforeEach(() => {
+  resetCircuitBreakers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+// ============================================
+// PART 3: ORDERED FALLBACK
+// ============================================
+
+describe("routeAiRequest() — fallback chain", () => {
+  it("returns the first provider's reply without calling the rest", async () => {
+    const primary = createFakeProvider({ name: "primary", respond: () => "primary reply" });
+    const backup = createFakeProvider({ name: "backup" });
+
+    const result = await routeAiRequest(REQUEST, [primary, backup]);
+
+    expect(result.text).toBe("primary reply");
+    expect(result.provider).toBe("primary");
+    expect(backup.calls).toHaveLength(0);
+  });
+
+  it("falls through failing providers in order", async () => {
+    const backup = createFakeProvider({ name: "backup", respond: () => "backup reply" });
+
+    const result = await routeAiRequest(REQUEST, [failing("primary"), failing("secondary"), backup]);
+
+    expect(result.provider).toBe("backup");
+    expect(result.attempts.map((a) => [a.provider, a.ok])).toEqual([
+      ["primary", false],
+      ["secondary", false],
+      ["backup", true],
+    ]);
+  });
+
+  it("treats an empty reply as a failure", async () => {
+    const empty = createFakeProvider({ name: "empty", respond: () => "   " });
+    const backup = createFakeProvider({ name: "backup", respond: () => "ok" });
+
+    const result = await routeAiRequest(REQUEST, [empty, backup]);
+
+    expect(result.provider).toBe("backup");
+    expect(result.attempts[0].error).toMatch(/empty response/i);
+  });
+
+  it("skips providers without keys and image requests on text-only providers", async () => {
+    const unconfigured = createFakeProvider({ name: "unconfigured", keys: [] });
+    const textOnly = createFakeProvider({ name: "text-only", supportsImages: false });
+    const vision = createFakeProvider({ name: "vision", respond: () => "seen" });
+
+    const result = await routeAiRequest(
+      { ...REQUEST, image: { mimeType: "image/png", data: "iVBOR" } },
+      [unconfigured, textOnly, vision],
+    );
+
+    expect(result.provider).toBe("vision");
+    expect(unconfigured.calls).toHaveLength(0);
+    expect(textOnly.calls).toHaveLength(0);
+    expect(result.attempts.map((a) => a.skipped)).toEqual([
+      "not_configured",
+      "no_image_support",
+      undefined,
+    ]);
+  });
+
+  it("skips providers that can't take the attached media", async () => {
+    const textOnly = createFakeProvider({ name: "text-only" });
+    const videoOnly = createFakeProvider({
+      name: "video-only",
+      acceptsMedia: (media) => media.mimeType.startsWith("video/"),
+    });
+    const listener = createFakeProvider({ name: "listener", acceptsMedia: () => true, respond: () => "heard" });
+
+    const result = await routeAiRequest(
+      { ...REQUEST, media: { mimeType: "audio/mpeg", data: "SUQz" } },
+      [textOnly, videoOnly, listener],
+    );
+
+    expect(result.provider).toBe("listener");
+    expect(textOnly.calls).toHaveLength(0);
+    expect(videoOnly.calls).toHaveLength(0);
+    expect(result.attempts.map((a) => a.skipped)).toEqual(["no_media_support", "no_media_support", undefined]);
+  });
+
+  it("passes the request through unchanged", async () => {
+    const provider = createFakeProvider();
+    await routeAiRequest({ ...REQUEST, system: "Be brief" }, [provider]);
+    expect(provider.calls[0].request).toEqual({ ...REQUEST, system: "Be brief" });
+  });
+});
+
+// ============================================
+// PART 4: TIMEOUTS
+// ============================================
+
+describe("routeAiRequest() — per-provider timeouts", () => {
+  it("abandons a provider that exceeds its timeout and moves on", async () => {
+    const slow = createFakeProvider({
+      name: "slow",
+      timeoutMs: 50,
+      respond: () => new Promise((resolve) => setTimeout(() => resolve("too late"), 500)),
+    });
+    const fast = createFakeProvider({ name: "fast", respond: () => "in time" });
+
+    const result = await routeAiRequest(REQUEST, [slow, fast]);
+
+    expect(result.provider).toBe("fast");
+    expect(result.attempts[0].timedOut).toBe(true);
+    expect(result.attempts[0].durationMs).toBeLessThan(500);
+  });
+});
+
+// ============================================
+// PART 5: CIRCUIT BREAKER
+// ============================================
+
+describe("routeAiRequest() — circuit breaking", () => {
+  it("stops calling a key after repeated failures", async () => {
+    const flaky = failing("flaky");
+    const backup = createFakeProvider({ name: "backup", respond: () => "ok" });
+
+    for (let i = 0; i < 3; i++) await routeAiRequest(REQUEST, [flaky, backup]);
+    expect(flaky.calls).toHaveLength(3);
+
+    const result = await routeAiRequest(REQUEST, [flaky, backup]);
+    expect(flaky.calls).toHaveLength(3);
+    expect(result.attempts[0].skipped).toBe("circuit_open");
+  });
+
+  it("rotates to a healthy key while another key's circuit is open", async () => {
+    const provider = createFakeProvider({
+      name: "rotating",
+      keys: ["bad-key", "good-key"],
+      respond: (_, key) => {
+        if (key === "bad-key") throw new AiProviderError("Quota exceeded", { status: 429 });
+        return "ok";
+      },
+    });
+    const backup = createFakeProvider({ name: "backup", respond: () => "backup" });
+
+    // Force every pick onto the bad key until its circuit opens
+    const random = vi.spyOn(Math, "random").mockReturnValue(0);
+    for (let i = 0; i < 3; i++) await routeAiRequest(REQUEST, [provider, backup]);
+    random.mockRestore();
+
+    const result = await routeAiRequest(REQUEST, [provider, backup]);
+    expect(result.provider).toBe("rotating");
+    expect(provider.calls.at(-1)?.key).toBe("good-key");
+  });
+
+  it("lets a trial call through once the cooldown has passed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    let healthy = false;
+    const provider = createFakeProvider({
+      name: "recovering",
+      respond: () => {
+        if (!healthy) throw new AiProviderError("Down", { status: 503 });
+        return "back up";
+      },
+    });
+    const backup = createFakeProvider({ name: "backup", respond: () => "backup" });
+
+    for (let i = 0; i < 3; i++) await routeAiRequest(REQUEST, [provider, backup]);
+    healthy = true;
+    vi.setSystemTime(Date.now() + 61_000);
+
+    const result = await routeAiRequest(REQUEST, [provider, backup]);
+    expect(result.provider).toBe("recovering");
+  });
+});
+
+// ============================================
+// PART 6: STREAMING
+// ============================================
+
+describe("streamAiRequest()", () => {
+  it("forwards deltas as they arrive and returns the full text", async () => {
+    const deltas: string[] = [];
+    const provider = createFakeProvider({ respond: () => "one two three" });
+
+    const result = await streamAiRequest(REQUEST, [provider], (d) => deltas.push(d));
+
+    expect(deltas).toEqual(["one ", "two ", "three"]);
+    expect(result.text).toBe("one two three");
+  });
+
+  it("falls back when a provider fails before its first delta", async () => {
+    const deltas: string[] = [];
+    const backup = createFakeProvider({ name: "backup", respond: () => "backup reply" });
+
+    const result = await streamAiRequest(REQUEST, [failing("primary"), backup], (d) => deltas.push(d));
+
+    expect(result.provider).toBe("backup");
+    expect(deltas.join("")).toBe("backup reply");
+  });
+
+  it("does not splice in another provider after a mid-stream failure", async () => {
+    const deltas: string[] = [];
+    const flaky = createFakeProvider({ name: "flaky", respond: () => "one two three", failAfterChunks: 2 });
+    const backup = createFakeProvider({ name: "backup" });
+
+    const error = await streamAiRequest(REQUEST, [flaky, backup], (d) => deltas.push(d)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AiRouterError);
+    expect(deltas).toEqual(["one ", "two "]);
+    expect(backup.calls).toHaveLength(0);
+  });
+
+  it("rejects with an AbortError when the caller cancels", async () => {
+    const controller = new AbortController();
+    const slow = createFakeProvider({
+      name: "slow",
+      respond: () => new Promise((resolve) => setTimeout(() => resolve("late"), 500)),
+    });
+    const backup = createFakeProvider({ name: "backup" });
+    setTimeout(() => controller.abort(), 20);
+
+    const error = await streamAiRequest(REQUEST, [slow, backup], () => {}, controller.signal).catch((e) => e);
+
+    expect(error.name).toBe("AbortError");
+    expect(backup.calls).toHaveLength(0);
+  });
+});
+
+// ============================================
+// PART 7: ERROR REPORTING
+// ============================================
+
+describe("AiRouterError", () => {
+  it("lists every attempt when the whole chain fails", async () => {
+    const error = await routeAiRequest(REQUEST, [
+      failing("primary", 503),
+      createFakeProvider({ name: "unconfigured", keys: [] }),
+      failing("backup", 429),
+    ]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AiRouterError);
+    expect(error.attempts).toHaveLength(3);
+    expect(error.attempts.map((a: { status?: number }) => a.status)).toEqual([503, undefined, 429]);
+    expect(error.message).toContain("primary: [Service unavailable]");
+    expect(error.message).toContain("unconfigured: [skipped (not_configured)]");
+  });
+
+  it("never exposes keys in attempts or the client response", async () => {
+    const error: AiRouterError = await routeAiRequest(REQUEST, [
+      createFakeProvider({
+        name: "secret",
+        keys: ["sk-very-secret-1234"],
+        respond: () => {
+          throw new Error("boom");
+        },
+      }),
+    ]).catch((e) => e);
+
+    expect(error.attempts[0].keyHint).toBe("1234");
+    expect(JSON.stringify(error.attempts)).not.toContain("very-secret");
+
+    const { status, body } = aiErrorResponse(error);
+    expect(status).toBe(503);
+    expect(body.code).toBe("AI_UNAVAILABLE");
+    expect(JSON.stringify(body)).not.toContain("boom");
+  });
+});
+
+// ============================================
+// PART 8: OPENAI-COMPATIBLE & SELF-HOSTED
+// ============================================
+
+describe("openAiCompatibleProvider()", () => {
+  const ENV_KEYS = ["OPENAI_COMPAT_BASE_URL", "OPENAI_COMPAT_MODEL", "OPENAI_COMPAT_EXCLUSIVE"];
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) delete process.env[key];
+  });
+
+  it("sends a chat completions request to the base URL, without a key when none is set", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: "local reply" } }] })),
+    );
+    const provider = openAiCompatibleProvider({ baseUrl: "http://llm.test/v1/", model: "llama3.1:8b" });
+
+    const result = await routeAiRequest({ ...REQUEST, system: "Be brief" }, [provider]);
+
+    expect(result.text).toBe("local reply");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://llm.test/v1/chat/completions");
+    expect((init?.headers as Record<string, string>).Authorization).toBeUndefined();
+    const body = JSON.parse(init?.body as string);
+    expect(body.model).toBe("llama3.1:8b");
+    expect(body.messages).toEqual([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Summarize this" },
+    ]);
+  });
+
+  it("streams server-sent deltas", async () => {
+    const sse = ["Hello", " world"]
+      .map((text) => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`)
+      .join("");
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(`${sse}data: [DONE]\n\n`));
+    const provider = openAiCompatibleProvider({ baseUrl: "http://llm.test/v1", model: "m", apiKey: "local-key" });
+
+    const deltas: string[] = [];
+    const result = await streamAiRequest(REQUEST, [provider], (d) => deltas.push(d));
+
+    expect(deltas).toEqual(["Hello", " world"]);
+    expect(result.text).toBe("Hello world");
+  });
+
+  it("refuses a user's server on a private address before calling it", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+    const chain = userKeyProviders([
+      { provider: "openai-compatible", key: "", baseUrl: "http://127.0.0.1:11434/v1", model: "m" },
+    ]);
+
+    const error: AiRouterError = await routeAiRequest(REQUEST, chain).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AiRouterError);
+    expect(error.attempts[0].error).toBe("AI endpoint host is not allowed");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps a separate circuit for each user's keyless server", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      new Response(JSON.stringify({ choices: [{ message: { content: "from B" } }] })),
+    );
+    const [userA] = userKeyProviders([
+      { provider: "openai-compatible", key: "", baseUrl: "http://127.0.0.1:11434/v1", model: "m" },
+    ]);
+    const [userB] = userKeyProviders([
+      { provider: "openai-compatible", key: "", baseUrl: "http://93.184.216.34/v1", model: "m" },
+    ]);
+
+    for (let i = 0; i < 3; i++) await routeAiRequest(REQUEST, [userA]).catch(() => {});
+    const blocked: AiRouterError = await routeAiRequest(REQUEST, [userA]).catch((e) => e);
+    const result = await routeAiRequest(REQUEST, [userB]);
+
+    expect(blocked.attempts[0].skipped).toBe("circuit_open");
+    expect(result.text).toBe("from B");
+    expect(fetchMock).toHaveBeenCalled();
+  });
+
+  it("puts the deployment's server first, or alone when exclusive", () => {
+    process.env.OPENAI_COMPAT_BASE_URL = "http://llm.internal/v1";
+    process.env.OPENAI_COMPAT_MODEL = "llama3.1:8b";
+    expect(defaultAiChain().map((p) => p.name)).toEqual(["self-hosted", "gemini", "openrouter", "groq"]);
+
+    process.env.OPENAI_COMPAT_EXCLUSIVE = "true";
+    expect(defaultAiChain([{ provider: "groq", key: "gsk_user" }]).map((p) => p.name)).toEqual([
+      "groq",
+      "self-hosted",
+    ]);
+  });
+});
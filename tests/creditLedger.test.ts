@@ -0,0 +1,99 @@
+// ============================================
+// CREDIT LEDGER TESTS
+// Covers aggregating credit transactions for the usage page
+// Run with: npx vitest run tests/creditLedger.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect } from "vitest";
+import { summarizeTransactions, summarizeUsage, windowStart } from "../api/_utils/creditLedger.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const NOW = new Date("2026-10-18T15:30:00Z");
+
+const tx = (
+  endpoint: string,
+  cost: number,
+  outcome: "charged" | "insufficient" | "refunded",
+  created_at: string,
+) => ({ endpoint, cost, outcome, created_at });
+
+// ============================================
+// PART 3: WINDOW
+// ============================================
+
+describe("windowStart()", () => {
+  it("starts at midnight UTC so the window covers exactly `days` days", () => {
+    expect(windowStart(1, NOW).toISOString()).toBe("2026-10-18T00:00:00.000Z");
+    expect(windowStart(7, NOW).toISOString()).toBe("2026-10-12T00:00:00.000Z");
+  });
+});
+
+// ============================================
+// PART 4: SUMMARY
+// ============================================
+
+describe("summarizeTransactions()", () => {
+  const transactions = [
+    tx("summarize", 3, "charged", "2026-10-18T09:00:00Z"),
+    tx("summarize", 3, "refunded", "2026-10-18T09:00:05Z"),
+    tx("chat", 1, "charged", "2026-10-17T12:00:00Z"),
+    tx("chat", 1, "charged", "2026-10-18T10:00:00Z"),
+    tx("transcribe", 3, "insufficient", "2026-10-18T11:00:00Z"),
+    tx("chat", 1, "charged", "2026-09-01T10:00:00Z"),
+  ];
+
+  it("totals charged, refunded and net credits in the window", () => {
+    expect(summarizeTransactions(transactions, 7, NOW).totals).toEqual({
+      calls: 3,
+      charged: 5,
+      refunded: 3,
+      net: 2,
+    });
+  });
+
+  it("breaks usage down per endpoint, biggest spender first", () => {
+    expect(summarizeTransactions(transactions, 7, NOW).byEndpoint).toEqual([
+      { endpoint: "chat", calls: 2, charged: 2, refunded: 0, net: 2 },
+      { endpoint: "summarize", calls: 1, charged: 3, refunded: 3, net: 0 },
+    ]);
+  });
+
+  it("returns one zero-filled entry per day, oldest first", () => {
+    const { daily } = summarizeTransactions(transactions, 3, NOW);
+    expect(daily).toEqual([
+      { date: "2026-10-16", charged: 0, refunded: 0, net: 0 },
+      { date: "2026-10-17", charged: 1, refunded: 0, net: 1 },
+      { date: "2026-10-18", charged: 4, refunded: 3, net: 1 },
+    ]);
+  });
+});
+
+describe("summarizeUsage()", () => {
+  it("reads totals from the per-endpoint rows and days from the per-day rows", () => {
+    const summary = summarizeUsage(
+      [
+        { endpoint: "chat", day: null, outcome: "charged", transactions: 40, credits: 40 },
+        { endpoint: "summarize", day: null, outcome: "charged", transactions: 2, credits: 6 },
+        { endpoint: "summarize", day: null, outcome: "refunded", transactions: 1, credits: 3 },
+        { endpoint: null, day: "2026-10-17", outcome: "charged", transactions: 12, credits: 12 },
+        { endpoint: null, day: "2026-10-18", outcome: "charged", transactions: 30, credits: 34 },
+        { endpoint: null, day: "2026-10-18", outcome: "refunded", transactions: 1, credits: 3 },
+      ],
+      2,
+      NOW,
+    );
+    expect(summary.totals).toEqual({ calls: 42, charged: 46, refunded: 3, net: 43 });
+    expect(summary.byEndpoint.map((usage) => usage.endpoint)).toEqual(["chat", "summarize"]);
+    expect(summary.daily).toEqual([
+      { date: "2026-10-17", charged: 12, refunded: 0, net: 12 },
+      { date: "2026-10-18", charged: 34, refunded: 3, net: 31 },
+    ]);
+  });
+});
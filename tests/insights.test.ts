@@ -0,0 +1,121 @@
+// ============================================
+// STRUCTURED INSIGHTS TESTS
+// Covers parsing and normalizing model output into typed insights
+// Run with: npx vitest run tests/insights.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect } from "vitest";
+import { parseFieldValues, parseInsights } from "../api/_utils/insights.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+const response = (fields: Record<string, unknown>) =>
+  JSON.stringify({
+    researchQuestion: "Does sleep improve recall?",
+    methodology: "Randomized controlled trial with two arms.",
+    studyDesign: "experimental",
+    sample: "University students",
+    sampleSize: 120,
+    keyFindings: ["Recall improved by 12%."],
+    limitations: ["Single site."],
+    implications: ["Schedule study before sleep."],
+    ...fields,
+  });
+
+// ============================================
+// PART 3: PARSING
+// ============================================
+
+describe("parseInsights()", () => {
+  it("reads a well-formed response", () => {
+    expect(parseInsights(response({}), NOW)).toEqual({
+      researchQuestion: "Does sleep improve recall?",
+      methodology: "Randomized controlled trial with two arms.",
+      studyDesign: "experimental",
+      sample: "University students",
+      sampleSize: 120,
+      keyFindings: ["Recall improved by 12%."],
+      limitations: ["Single site."],
+      implications: ["Schedule study before sleep."],
+      generatedAt: NOW.toISOString(),
+    });
+  });
+
+  it("tolerates code fences and prose around the JSON", () => {
+    const insights = parseInsights(`Here you go:\n\`\`\`json\n${response({})}\n\`\`\``, NOW);
+    expect(insights?.researchQuestion).toBe("Does sleep improve recall?");
+  });
+
+  it("returns null when there is no readable object", () => {
+    expect(parseInsights("I could not find any insights.")).toBeNull();
+    expect(parseInsights("{ not json }")).toBeNull();
+  });
+});
+
+// ============================================
+// PART 4: NORMALIZATION
+// ============================================
+
+describe("parseInsights() normalization", () => {
+  it("maps free-form study designs onto the fixed categories", () => {
+    expect(parseInsights(response({ studyDesign: "Systematic Review" }))?.studyDesign).toBe("review");
+    expect(parseInsights(response({ studyDesign: "mixed methods" }))?.studyDesign).toBe("mixed-methods");
+    expect(parseInsights(response({ studyDesign: "Case Study" }))?.studyDesign).toBe("case-study");
+    expect(parseInsights(response({ studyDesign: "vibes" }))?.studyDesign).toBe("other");
+  });
+
+  it("reads sample sizes written as text and drops missing ones", () => {
+    expect(parseInsights(response({ sampleSize: "N = 1,204 adults" }))?.sampleSize).toBe(1204);
+    expect(parseInsights(response({ sampleSize: null }))?.sampleSize).toBeNull();
+    expect(parseInsights(response({ sampleSize: "not stated" }))?.sampleSize).toBeNull();
+  });
+
+  it("turns placeholder strings into null and cleans lists", () => {
+    const insights = parseInsights(
+      response({
+        sample: "N/A",
+        keyFindings: "One finding.",
+        limitations: ["", "  Small sample.  ", 42],
+        implications: ["a", "b", "c", "d", "e", "f"],
+      }),
+    );
+
+    expect(insights?.sample).toBeNull();
+    expect(insights?.keyFindings).toEqual(["One finding."]);
+    expect(insights?.limitations).toEqual(["Small sample."]);
+    expect(insights?.implications).toHaveLength(5);
+  });
+});
+
+// ============================================
+// PART 5: CUSTOM FIELDS
+// ============================================
+
+describe("parseFieldValues()", () => {
+  it("matches field names case-insensitively and keeps the requested names", () => {
+    const values = parseFieldValues(
+      'Sure: {"country": "Kenya", "Outcome Measure": ["BMI", "weight"], "N": 40}',
+      ["Country", "Outcome measure", "N"],
+    );
+    expect(values).toEqual({ Country: "Kenya", "Outcome measure": "BMI; weight", N: "40" });
+  });
+
+  it("uses null for omitted and placeholder values", () => {
+    expect(parseFieldValues('{"Dose": "not stated"}', ["Dose", "Country"])).toEqual({
+      Dose: null,
+      Country: null,
+    });
+  });
+
+  it("returns null when there is no readable object", () => {
+    expect(parseFieldValues("No fields found.", ["Dose"])).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+// ============================================
+// LONG DOCUMENT SUMMARIZATION TESTS
+// Covers structure-aware splitting, credit quotes and the map-reduce flow
+// Run with: npx vitest run tests/longSummary.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  LONG_DOCUMENT_CHARS,
+  SUMMARY_CHUNK_CHARS,
+  planSummary,
+  quoteSummaryCredits,
+  splitDocument,
+  summarizeLongDocument,
+} from "../api/_utils/longSummary.js";
+import { createFakeProvider, resetCircuitBreakers } from "../api/_utils/aiRouter.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const paragraph = (sentences: number) =>
+  Array.from({ length: sentences }, (_, i) => `Finding ${i} shows a measurable effect in the sample.`).join(" ");
+
+const pdfText = (pages: number) =>
+  Array.from({ length: pages }, (_, i) => `[Page ${i + 1}]\n${paragraph(60)}`).join("\n\n");
+
+const timestamp = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+
+beforeEach(() => {
+  resetCircuitBreakers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ============================================
+// PART 3: SPLITTING
+// ============================================
+
+describe("splitDocument()", () => {
+  it("groups whole PDF pages into chunks labelled with their page range", () => {
+    const chunks = splitDocument(pdfText(30));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].label).toMatch(/^Pages 1–\d+$/);
+    expect(chunks.at(-1)!.label).toMatch(/–30$/);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(SUMMARY_CHUNK_CHARS);
+      expect(chunk.text).toMatch(/^\[Page \d+\]/);
+    }
+  });
+
+  it("splits transcripts on timestamps", () => {
+    const transcript = Array.from(
+      { length: 600 },
+      (_, i) => `[${timestamp(i * 5)}] The speaker describes the interview protocol in detail.`,
+    ).join("\n");
+
+    const chunks = splitDocument(transcript, 8_000);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].label).toMatch(/^\[00:00–\d{2}:\d{2}\]$/);
+  });
+
+  it("keeps sections together and splits an oversized section into parts", () => {
+    const text = `# Introduction\n${paragraph(100)}\n# Methods\n${paragraph(600)}\n# Results\n${paragraph(40)}\n# Discussion\n${paragraph(40)}`;
+
+    const labels = splitDocument(text).map((c) => c.label);
+
+    expect(labels[0]).toBe("Introduction");
+    expect(labels).toContain("Methods (part 1 of 2)");
+    expect(labels.at(-1)).toBe("Results – Discussion");
+  });
+});
+
+// ============================================
+// PART 4: PLANNING & QUOTES
+// ============================================
+
+describe("planSummary()", () => {
+  it("uses a single prompt for one credit below the threshold", () => {
+    expect(planSummary(paragraph(20))).toEqual({ strategy: "single", chunks: [], credits: 1 });
+  });
+
+  it("quotes map-reduce documents by chunk count", () => {
+    const text = pdfText(60);
+    expect(text.length).toBeGreaterThan(LONG_DOCUMENT_CHARS);
+
+    const plan = planSummary(text);
+
+    expect(plan.strategy).toBe("map-reduce");
+    expect(plan.credits).toBe(quoteSummaryCredits(plan.chunks.length));
+    expect(quoteSummaryCredits(1)).toBe(1);
+    expect(quoteSummaryCredits(7)).toBe(3);
+  });
+});
+
+// ============================================
+// PART 5: MAP-REDUCE
+// ============================================
+
+describe("summarizeLongDocument()", () => {
+  it("summarizes every chunk, reports progress, then merges with page labels", async () => {
+    const provider = createFakeProvider({
+      respond: (request) =>
+        request.system?.includes("ONE PART") ? "Key finding (p. 2)." : "Merged summary (pp. 1–30).",
+    });
+    const { chunks } = planSummary(pdfText(30));
+    const progress = vi.fn();
+
+    const result = await summarizeLongDocument(chunks, "standard", [provider], { onProgress: progress });
+
+    expect(result).toEqual({ summary: "Merged summary (pp. 1–30).", provider: "fake", userKey: false });
+    expect(provider.calls).toHaveLength(chunks.length + 1);
+    expect(progress).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: "map", completed: chunks.length, total: chunks.length }),
+    );
+    expect(progress).toHaveBeenLastCalledWith({ stage: "reduce" });
+
+    const mergePrompt = provider.calls.at(-1)!.request.prompt;
+    expect(mergePrompt).toContain(`### ${chunks[0].label}`);
+  });
+
+  it("stops before the next AI call once aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const provider = createFakeProvider();
+
+    await expect(
+      summarizeLongDocument(splitDocument(pdfText(30)), "standard", [provider], { signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(provider.calls).toHaveLength(0);
+  });
+});
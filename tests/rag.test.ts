@@ -0,0 +1,168 @@
+// ============================================
+// LIBRARY RETRIEVAL TESTS
+// Covers chunking, the deterministic local embedder and prompt construction
+// Run with: npx vitest run tests/rag.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect } from "vitest";
+import {
+  CHUNK_SIZE,
+  buildRetrievalContext,
+  chunkItem,
+  chunkText,
+} from "../api/_utils/rag.js";
+import {
+  EMBEDDING_DIMENSIONS,
+  averageVectors,
+  cosineSimilarity,
+  createLocalEmbedder,
+  getEmbedder,
+  parsePgVector,
+  toPgVector,
+} from "../api/_utils/embeddings.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const sentence = (i: number) => `Sentence number ${i} talks about a different finding in the study. `;
+const LONG_TEXT = Array.from({ length: 80 }, (_, i) => sentence(i)).join("");
+
+// ============================================
+// PART 3: CHUNKING
+// ============================================
+
+describe("chunkText()", () => {
+  it("returns short text as a single chunk and ignores blank text", () => {
+    expect(chunkText("  A short note.  ")).toEqual(["A short note."]);
+    expect(chunkText("   \n ")).toEqual([]);
+  });
+
+  it("splits long text into bounded chunks that end on sentence breaks", () => {
+    const chunks = chunkText(LONG_TEXT);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(CHUNK_SIZE);
+    for (const chunk of chunks.slice(0, -1)) expect(chunk).toMatch(/\.$/);
+  });
+
+  it("overlaps consecutive chunks and covers the whole text", () => {
+    const chunks = chunkText(LONG_TEXT);
+
+    for (let i = 1; i < chunks.length; i++) {
+      const tail = chunks[i - 1].slice(-40);
+      expect(chunks[i]).toContain(tail.slice(tail.indexOf(" ") + 1));
+    }
+    expect(chunks.at(-1)).toContain("Sentence number 79");
+  });
+});
+
+describe("chunkItem()", () => {
+  it("indexes text, distinct OCR text and notes under the item title", () => {
+    const chunks = chunkItem({
+      id: "a",
+      source_title: "Sleep and memory",
+      text: "Main text.",
+      ocr_text: "Scanned page.",
+      note: "Follow up on sample size.",
+    });
+
+    expect(chunks).toEqual([
+      "Sleep and memory\nMain text.",
+      "Sleep and memory\nScanned page.",
+      "Sleep and memory\nNote: Follow up on sample size.",
+    ]);
+  });
+
+  it("skips OCR text that repeats the item text", () => {
+    expect(chunkItem({ id: "a", text: "Same words.", ocr_text: "Same words." })).toEqual(["Same words."]);
+  });
+});
+
+// ============================================
+// PART 4: LOCAL EMBEDDER
+// ============================================
+
+describe("createLocalEmbedder()", () => {
+  const embedder = createLocalEmbedder();
+
+  it("is deterministic and produces unit-length vectors of the stored dimension", async () => {
+    const [a] = await embedder.embed(["Randomized controlled trial of sleep"], "document");
+    const [b] = await createLocalEmbedder().embed(["Randomized controlled trial of sleep"], "query");
+
+    expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1, 6);
+    expect(embedder.model).toBe("local-hash-768");
+  });
+
+  it("ranks text sharing vocabulary above unrelated text", async () => {
+    const [query, related, unrelated] = await embedder.embed(
+      [
+        "effects of sleep deprivation on memory",
+        "Sleep deprivation impaired memory consolidation in adults",
+        "Quarterly revenue grew across retail segments",
+      ],
+      "document",
+    );
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("round-trips vectors through pgvector literals", () => {
+    expect(toPgVector([0.5, -0.25])).toBe("[0.5,-0.25]");
+    expect(parsePgVector("[0.5,-0.25]")).toEqual([0.5, -0.25]);
+  });
+
+  it("averages an item's chunk vectors into a unit-length centroid", async () => {
+    const chunks = await embedder.embed(["sleep and memory", "memory consolidation"], "document");
+    const centroid = averageVectors(chunks);
+
+    expect(Math.hypot(...centroid)).toBeCloseTo(1, 6);
+    for (const chunk of chunks) expect(cosineSimilarity(centroid, chunk)).toBeGreaterThan(0.5);
+  });
+});
+
+describe("getEmbedder()", () => {
+  const ENV_KEYS = ["GEMINI_API_KEY", "OPENAI_COMPAT_BASE_URL", "OPENAI_COMPAT_MODEL", "OPENAI_COMPAT_EXCLUSIVE"];
+
+  it("embeds locally in self-hosted exclusive mode, even with Gemini keys", () => {
+    Object.assign(process.env, {
+      GEMINI_API_KEY: "AIza-server",
+      OPENAI_COMPAT_BASE_URL: "http://llm.internal:11434/v1",
+      OPENAI_COMPAT_MODEL: "llama3.1:8b",
+    });
+    try {
+      expect(getEmbedder("AIza-user").model).toBe("text-embedding-004");
+      process.env.OPENAI_COMPAT_EXCLUSIVE = "true";
+      expect(getEmbedder("AIza-user").model).toBe("local-hash-768");
+    } finally {
+      for (const key of ENV_KEYS) delete process.env[key];
+    }
+  });
+});
+
+// ============================================
+// PART 5: PROMPT CONSTRUCTION
+// ============================================
+
+describe("buildRetrievalContext()", () => {
+  it("labels excerpts with their item ID and lists each source once in rank order", () => {
+    const { context, sources } = buildRetrievalContext([
+      { itemId: "b", chunkIndex: 0, content: "First excerpt", title: "Paper B", similarity: 0.9 },
+      { itemId: "a", chunkIndex: 2, content: "Second excerpt", title: "Paper A", similarity: 0.8 },
+      { itemId: "b", chunkIndex: 1, content: "Third excerpt", title: "Paper B", similarity: 0.7 },
+    ]);
+
+    expect(sources).toEqual([
+      { id: "b", title: "Paper B" },
+      { id: "a", title: "Paper A" },
+    ]);
+    expect(context).toContain('[1] (item:b) "Paper B"\nFirst excerpt');
+    expect(context).toContain('[2] (item:a) "Paper A"\nSecond excerpt');
+  });
+});
@@ -0,0 +1,93 @@
+// ============================================
+// RATE LIMIT TESTS
+// Covers the token-bucket math and the in-memory store
+// Run with: npx vitest run tests/rateLimit.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect } from "vitest";
+import {
+  RATE_LIMITS,
+  createMemoryStore,
+  decide,
+  takeToken,
+} from "../api/_utils/rateLimit.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+/** Three-token bucket refilling one token per second. */
+const CONFIG = { capacity: 3, refillPerMinute: 60 };
+const T0 = Date.parse("2026-10-18T12:00:00Z");
+
+// ============================================
+// PART 3: BUCKET MATH
+// ============================================
+
+describe("takeToken()", () => {
+  it("starts a new bucket full and takes one token", () => {
+    const { state, decision } = takeToken(null, CONFIG, T0);
+    expect(state).toEqual({ tokens: 2, updatedAt: T0 });
+    expect(decision).toEqual({ allowed: true, limit: 3, remaining: 2, retryAfter: 0, reset: 1 });
+  });
+
+  it("refuses once the burst is spent and says when to retry", () => {
+    let state = takeToken(null, CONFIG, T0).state;
+    state = takeToken(state, CONFIG, T0).state;
+    state = takeToken(state, CONFIG, T0).state;
+
+    const { decision } = takeToken(state, CONFIG, T0);
+    expect(decision).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfter: 1, reset: 3 });
+  });
+
+  it("refills continuously with elapsed time", () => {
+    const empty = { tokens: 0, updatedAt: T0 };
+    expect(takeToken(empty, CONFIG, T0 + 500).decision.allowed).toBe(false);
+
+    const { state, decision } = takeToken(empty, CONFIG, T0 + 1500);
+    expect(decision.allowed).toBe(true);
+    expect(state.tokens).toBeCloseTo(0.5);
+  });
+
+  it("never refills past capacity", () => {
+    const { state } = takeToken({ tokens: 1, updatedAt: T0 }, CONFIG, T0 + 60 * 60_000);
+    expect(state.tokens).toBe(2);
+  });
+});
+
+describe("decide()", () => {
+  it("rounds Retry-After up to the next whole token", () => {
+    const slow = { capacity: 5, refillPerMinute: 6 };
+    expect(decide(false, 0.25, slow).retryAfter).toBe(8);
+  });
+});
+
+describe("RATE_LIMITS", () => {
+  it("gives chat more headroom than OCR and transcription", () => {
+    expect(RATE_LIMITS.chat.refillPerMinute).toBeGreaterThan(RATE_LIMITS.ocr.refillPerMinute);
+    expect(RATE_LIMITS.ocr.refillPerMinute).toBeGreaterThan(RATE_LIMITS.transcribe.refillPerMinute);
+  });
+});
+
+// ============================================
+// PART 4: MEMORY STORE
+// ============================================
+
+describe("createMemoryStore()", () => {
+  it("keeps a separate bucket per user and endpoint", async () => {
+    let now = T0;
+    const store = createMemoryStore(() => now);
+
+    for (let i = 0; i < 3; i++) await store.take("user-a", "chat", CONFIG);
+    expect((await store.take("user-a", "chat", CONFIG)).allowed).toBe(false);
+    expect((await store.take("user-a", "ocr", CONFIG)).allowed).toBe(true);
+    expect((await store.take("user-b", "chat", CONFIG)).allowed).toBe(true);
+
+    now += 1000;
+    expect((await store.take("user-a", "chat", CONFIG)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,198 @@
+// ============================================
+// REDACTION TESTS
+// Covers PII detection, placeholder round-trips, streaming and settings checks
+// Run with: npx vitest run tests/redaction.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect } from "vitest";
+import { createFakeProvider, routeAiRequest, streamAiRequest } from "../api/_utils/aiRouter.js";
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  type RedactionSettings,
+  checkCustomPattern,
+  checkRedactionSettings,
+  createRedactor,
+  restoreStream,
+  withEmbeddingRedaction,
+  withRedaction,
+} from "../api/_utils/redaction.js";
+import type { Embedder } from "../api/_utils/embeddings.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const SETTINGS: RedactionSettings = {
+  ...DEFAULT_REDACTION_SETTINGS,
+  enabled: true,
+  names: ["Aisha"],
+  customPatterns: [{ label: "Project code", pattern: "ACME-\\d{3}", regex: true }],
+};
+
+const TRANSCRIPT = `Interview with Dr. Jane Smith (jane.smith@uni.edu, +44 20 7946 0958) on 2024-03-15.
+Jane Smith: I think P07 agreed. Aisha said ACME-123 is late. SSN 123-45-6789, card 4111 1111 1111 1111.
+Key Findings: pages 123-145, years 1999-2004, n = 120.`;
+
+async function* chunks(...parts: string[]) {
+  for (const part of parts) yield part;
+}
+
+// ============================================
+// PART 3: DETECTION
+// ============================================
+
+describe("createRedactor().redact()", () => {
+  it("replaces emails, phones, names, IDs and custom patterns", () => {
+    const redactor = createRedactor(SETTINGS);
+    const redacted = redactor.redact(TRANSCRIPT);
+
+    expect(redacted).toContain("Dr. [NAME_1] ([EMAIL_1], [PHONE_1])");
+    expect(redacted).toContain("[NAME_1]: I think [ID_1] agreed. [NAME_2] said [PROJECT_CODE_1]");
+    expect(redacted).toContain("SSN [ID_2], card [ID_3]");
+    for (const value of ["Jane Smith", "jane.smith@uni.edu", "7946", "P07", "Aisha", "ACME-123", "6789"]) {
+      expect(redacted).not.toContain(value);
+    }
+  });
+
+  it("leaves dates, page and year ranges, headings and small numbers alone", () => {
+    const redacted = createRedactor(SETTINGS).redact(TRANSCRIPT);
+    expect(redacted).toContain("on 2024-03-15.");
+    expect(redacted).toContain("Key Findings: pages 123-145, years 1999-2004, n = 120.");
+  });
+
+  it("only runs the enabled categories", () => {
+    const redactor = createRedactor({ ...SETTINGS, categories: ["email"] });
+    expect(redactor.redact("Dr. Jane Smith, jane@uni.edu, Aisha")).toBe("Dr. Jane Smith, [EMAIL_1], Aisha");
+  });
+
+  it("skips placeholder numbers already present in the text", () => {
+    const redactor = createRedactor(SETTINGS);
+    expect(redactor.redact("[EMAIL_1] is a literal; write to a@b.org")).toBe("[EMAIL_1] is a literal; write to [EMAIL_2]");
+  });
+});
+
+// ============================================
+// PART 4: RESTORING
+// ============================================
+
+describe("createRedactor().restore()", () => {
+  it("round-trips the original text and keeps unknown brackets", () => {
+    const redactor = createRedactor(SETTINGS);
+    expect(redactor.restore(redactor.redact(TRANSCRIPT))).toBe(TRANSCRIPT);
+    expect(redactor.restore("[NAME_1] and [NAME_9] see [[item:abc]]")).toBe("Jane Smith and [NAME_9] see [[item:abc]]");
+  });
+
+  it("counts each field once even when redacted again on a fallback attempt", () => {
+    const redactor = createRedactor(SETTINGS);
+    redactor.redact(TRANSCRIPT);
+    redactor.redact(TRANSCRIPT);
+    expect(redactor.summary()).toEqual({
+      total: 9,
+      counts: { name: 3, email: 1, phone: 1, id: 3, custom: 1 },
+      labels: ["Project code"],
+    });
+  });
+
+  it("restores placeholders split across stream deltas", async () => {
+    const redactor = createRedactor(SETTINGS);
+    redactor.redact("Dr. Jane Smith, jane@uni.edu");
+    let text = "";
+    for await (const delta of restoreStream(redactor, chunks("Hi [NAM", "E_1], mail [EM", "AIL_1] [", "x"))) {
+      text += delta;
+    }
+    expect(text).toBe("Hi Jane Smith, mail jane@uni.edu [x");
+  });
+});
+
+// ============================================
+// PART 5: CHAIN WRAPPER
+// ============================================
+
+describe("withRedaction()", () => {
+  it("sends placeholders to the provider and returns the originals", async () => {
+    const seen: string[] = [];
+    const provider = createFakeProvider({
+      respond: (request) => {
+        seen.push(request.prompt);
+        return "Write to [NAME_1] at [EMAIL_1].";
+      },
+    });
+
+    const result = await routeAiRequest(
+      { prompt: "Ask Dr. Bob Ray at bob@x.org" },
+      withRedaction([provider], createRedactor(SETTINGS)),
+    );
+    expect(seen).toEqual(["Ask Dr. [NAME_1] at [EMAIL_1]"]);
+    expect(result.text).toBe("Write to Bob Ray at bob@x.org.");
+  });
+
+  it("restores streamed answers", async () => {
+    const provider = createFakeProvider({ respond: () => "Thanks [NAME_1], noted." });
+    const deltas: string[] = [];
+    const result = await streamAiRequest(
+      { prompt: "Dr. Bob Ray asked" },
+      withRedaction([provider], createRedactor(SETTINGS)),
+      (delta) => deltas.push(delta),
+    );
+    expect(deltas.join("")).toBe("Thanks Bob Ray, noted.");
+    expect(result.text).toBe("Thanks Bob Ray, noted.");
+  });
+
+  it("returns the chain untouched when redaction is off", () => {
+    const chain = [createFakeProvider()];
+    expect(withRedaction(chain, null)).toBe(chain);
+  });
+});
+
+describe("withEmbeddingRedaction()", () => {
+  it("embeds placeholders instead of the originals", async () => {
+    const seen: string[] = [];
+    const embedder: Embedder = {
+      model: "remote",
+      dimensions: 1,
+      async embed(texts) {
+        seen.push(...texts);
+        return texts.map(() => [1]);
+      },
+    };
+
+    await withEmbeddingRedaction(embedder, createRedactor(SETTINGS)).embed(["Email bob@x.org about ACME-123"], "document");
+    expect(seen).toEqual(["Email [EMAIL_1] about [PROJECT_CODE_1]"]);
+  });
+});
+
+// ============================================
+// PART 6: SETTINGS VALIDATION
+// ============================================
+
+describe("checkCustomPattern()", () => {
+  it("refuses patterns that are invalid, match nothing or backtrack badly", () => {
+    expect(checkCustomPattern({ label: "Code", pattern: "ACME-\\d{3}", regex: true })).toBeNull();
+    expect(checkCustomPattern({ label: "Code", pattern: "[", regex: true })).toMatch(/not a valid/);
+    expect(checkCustomPattern({ label: "Code", pattern: "a*", regex: true })).toMatch(/empty text/);
+    expect(checkCustomPattern({ label: "Code", pattern: "(a+)+", regex: true })).toMatch(/nested repetition/);
+    expect(checkCustomPattern({ label: "Code", pattern: "(a|aa)*b", regex: true })).toMatch(/nested repetition/);
+    expect(checkCustomPattern({ label: "Code", pattern: "(\\w|\\d)+$", regex: true })).toMatch(/nested repetition/);
+    expect(checkCustomPattern({ label: "Code", pattern: "(ACME|ACM)-\\d{3}", regex: true })).toBeNull();
+    expect(checkCustomPattern({ label: "Code", pattern: "\\p{Lu}{2}-\\d+", regex: true })).toBeNull();
+    expect(checkCustomPattern({ label: "Code", pattern: "\\w*\\w*\\w*\\w*!", regex: true })).toMatch(/open-ended/);
+    expect(checkCustomPattern({ label: "Code", pattern: ".*.*.*x", regex: true })).toMatch(/open-ended/);
+    expect(checkCustomPattern({ label: "Code", pattern: "[A-Z]{2,4}-\\d+", regex: true })).toBeNull();
+    expect(checkCustomPattern({ label: "Code", pattern: "(?=x)x", regex: true })).toMatch(/lookarounds/);
+    expect(checkCustomPattern({ label: "Code", pattern: "(x)\\1", regex: true })).toMatch(/backreferences/);
+    expect(checkCustomPattern({ label: "", pattern: "x" })).toMatch(/needs a label/);
+  });
+});
+
+describe("checkRedactionSettings()", () => {
+  it("normalises names and rejects unknown categories", () => {
+    expect(checkRedactionSettings({ enabled: true, categories: ["email"], names: [" Bob ", "Bob"] })).toEqual({
+      settings: { enabled: true, categories: ["email"], names: ["Bob"], customPatterns: [] },
+    });
+    expect(checkRedactionSettings({ categories: ["email", "bogus"] }).error).toMatch(/categories/);
+  });
+});
@@ -0,0 +1,90 @@
+// ============================================
+// RESPONSE CACHE TESTS
+// Covers cache keys, text normalization, chain signatures and the TTL setting
+// Run with: npx vitest run tests/responseCache.test.ts
+// ============================================
+
+// ============================================
+// PART 1: IMPORTS & DEPENDENCIES
+// ============================================
+
+import { describe, it, expect } from "vitest";
+import { createFakeProvider } from "../api/_utils/aiRouter.js";
+import {
+  DEFAULT_CACHE_TTL_HOURS,
+  cacheKey,
+  cacheTtlSeconds,
+  chainSignature,
+  normalizeCacheText,
+} from "../api/_utils/responseCache.js";
+
+// ============================================
+// PART 2: TEST UTILITIES & FIXTURES
+// ============================================
+
+const BASE = { endpoint: "summarize", mode: "brief", model: "gemini:gemini-2.0-flash", text: "Hello world" };
+
+function withTtl<T>(value: string | undefined, run: () => T): T {
+  const previous = process.env.AI_CACHE_TTL_HOURS;
+  if (value === undefined) delete process.env.AI_CACHE_TTL_HOURS;
+  else process.env.AI_CACHE_TTL_HOURS = value;
+  try {
+    return run();
+  } finally {
+    if (previous === undefined) delete process.env.AI_CACHE_TTL_HOURS;
+    else process.env.AI_CACHE_TTL_HOURS = previous;
+  }
+}
+
+// ============================================
+// PART 3: KEYS
+// ============================================
+
+describe("normalizeCacheText()", () => {
+  it("collapses whitespace but keeps wording and case", () => {
+    expect(normalizeCacheText("  Hello \r\n\tworld  ")).toBe("Hello world");
+    expect(normalizeCacheText("Hello World")).not.toBe(normalizeCacheText("hello world"));
+  });
+});
+
+describe("cacheKey()", () => {
+  it("ignores whitespace differences in the text", () => {
+    expect(cacheKey({ ...BASE, text: "Hello\n\n  world " })).toBe(cacheKey(BASE));
+  });
+
+  it("changes with the endpoint, mode, model or text", () => {
+    const key = cacheKey(BASE);
+    expect(cacheKey({ ...BASE, endpoint: "generate-tags" })).not.toBe(key);
+    expect(cacheKey({ ...BASE, mode: "detailed" })).not.toBe(key);
+    expect(cacheKey({ ...BASE, model: "claude:claude-3-5-haiku" })).not.toBe(key);
+    expect(cacheKey({ ...BASE, text: "Hello world!" })).not.toBe(key);
+  });
+
+  it("does not contain the text", () => {
+    expect(cacheKey(BASE)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("chainSignature()", () => {
+  it("lists only providers that have keys, in order", () => {
+    const chain = [
+      createFakeProvider({ name: "gemini" }),
+      createFakeProvider({ name: "claude", keys: [] }),
+      createFakeProvider({ name: "openai" }),
+    ];
+    expect(chainSignature(chain)).toBe("gemini:fake-model>openai:fake-model");
+  });
+});
+
+// ============================================
+// PART 4: CONFIGURATION
+// ============================================
+
+describe("cacheTtlSeconds()", () => {
+  it("defaults to a week and can be turned off", () => {
+    expect(withTtl(undefined, cacheTtlSeconds)).toBe(DEFAULT_CACHE_TTL_HOURS * 3600);
+    expect(withTtl("2", cacheTtlSeconds)).toBe(7200);
+    expect(withTtl("0", cacheTtlSeconds)).toBe(0);
+    expect(withTtl("soon", cacheTtlSeconds)).toBe(0);
+  });
+});
@@ -27,3 +27,41 @@ interface ImportMetaEnv {
 interface ImportMeta {
   readonly env: ImportMetaEnv;
 }
+
+// ============================================
+// CITEPROC-JS TYPE DEFINITIONS
+// ============================================
+// citeproc ships without types; only the surface used by cslEngine.ts.
+
+declare module "citeproc" {
+  interface CiteprocSys {
+    retrieveLocale: (lang: string) => string;
+    retrieveItem: (id: string) => unknown;
+  }
+
+  interface CitationItem {
+    id: string;
+    locator?: string;
+    label?: string;
+  }
+
+  class Engine {
+    constructor(sys: CiteprocSys, style: string, lang?: string, forceLang?: boolean);
+    opt: { development_extensions: Record<string, boolean> };
+    setOutputFormat(format: "html" | "text" | "rtf"): void;
+    updateItems(ids: string[]): void;
+    makeBibliography(): [Record<string, unknown>, string[]] | false;
+    rebuildProcessorState(
+      citations: {
+        citationID: string;
+        citationItems: CitationItem[];
+        properties: { noteIndex: number };
+      }[],
+      format: "html" | "text" | "rtf",
+      uncitedItemIds: string[],
+    ): [string, number, string][];
+  }
+
+  const CSL: { Engine: typeof Engine };
+  export default CSL;
+}